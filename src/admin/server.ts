@@ -0,0 +1,231 @@
+/**
+ * 운영자 관리 API (스왑 승인 큐)
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { Server } from 'http';
+import express from 'express';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import helmet from 'helmet';
+import { approvalQueue } from '@/core/approval-queue';
+import { SwapError } from '@/core/errors';
+import { adminConfig } from '@/utils/config';
+import { log } from '@/utils/logger';
+import { ErrorCode } from '@/types';
+import type { SwapApprovalStatus } from '@/types';
+
+const APPROVAL_STATUSES: SwapApprovalStatus[] = [
+  'pending',
+  'approved',
+  'rejected',
+  'expired',
+  'executed',
+  'failed',
+];
+
+/**
+ * 관리 API 서버 클래스
+ *
+ * 에이전트가 쓰는 MCP(stdio)와 분리된 채널로, ADMIN_API_TOKEN을 가진 운영자만 승인/거부할 수 있다.
+ *
+ * - GET  /approvals?status=pending
+ * - GET  /approvals/:id
+ * - POST /approvals/:id/approve  { operator?, note? } (202, 실행은 백그라운드에서 진행)
+ * - POST /approvals/:id/reject   { operator?, reason? }
+ */
+export class AdminServer {
+  private server: Server | undefined;
+
+  /**
+   * 관리 API 시작 (토큰이 설정되지 않았으면 시작하지 않음)
+   */
+  async start(): Promise<void> {
+    if (this.server || !adminConfig.apiToken) {
+      return;
+    }
+
+    const app = this.createApp(adminConfig.apiToken);
+
+    await new Promise<void>((resolve, reject) => {
+      const server = app.listen(adminConfig.port, adminConfig.host, () => {
+        this.server = server;
+        resolve();
+      });
+      server.once('error', reject);
+    });
+
+    log.info('Admin API listening', {
+      host: adminConfig.host,
+      port: adminConfig.port,
+    });
+  }
+
+  /**
+   * 관리 API 중지
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = undefined;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * 라우트 구성
+   */
+  private createApp(apiToken: string): express.Express {
+    const app = express();
+
+    app.use(helmet());
+    app.use(express.json({ limit: '16kb' }));
+    app.use(this.authenticate(apiToken));
+
+    app.get('/approvals', async (req, res) => {
+      try {
+        const status =
+          typeof req.query.status === 'string' ? req.query.status : undefined;
+        if (
+          status &&
+          !APPROVAL_STATUSES.includes(status as SwapApprovalStatus)
+        ) {
+          throw new SwapError(
+            `Unknown approval status: ${status}`,
+            ErrorCode.INVALID_INPUT
+          );
+        }
+
+        const approvals = await approvalQueue.listApprovals(
+          status ? { status: status as SwapApprovalStatus } : {}
+        );
+        res.json({
+          approvals,
+          count: approvals.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        this.sendError(res, error as Error);
+      }
+    });
+
+    app.get('/approvals/:id', async (req, res) => {
+      try {
+        const approval = await approvalQueue.getApproval(req.params.id!);
+        if (!approval) {
+          throw new SwapError(
+            `Swap approval not found: ${req.params.id}`,
+            ErrorCode.NOT_FOUND
+          );
+        }
+        res.json(approval);
+      } catch (error) {
+        this.sendError(res, error as Error);
+      }
+    });
+
+    app.post('/approvals/:id/approve', async (req, res) => {
+      try {
+        const approval = await approvalQueue.approve(
+          req.params.id!,
+          this.getOperator(req),
+          this.getText(req, 'note')
+        );
+        res.status(202).json(approval);
+      } catch (error) {
+        this.sendError(res, error as Error);
+      }
+    });
+
+    app.post('/approvals/:id/reject', async (req, res) => {
+      try {
+        const approval = await approvalQueue.reject(
+          req.params.id!,
+          this.getOperator(req),
+          this.getText(req, 'reason')
+        );
+        res.json(approval);
+      } catch (error) {
+        this.sendError(res, error as Error);
+      }
+    });
+
+    return app;
+  }
+
+  /**
+   * Bearer 토큰 인증 (길이가 달라도 일정 시간에 비교하도록 해시 비교)
+   */
+  private authenticate(apiToken: string): RequestHandler {
+    const expected = createHash('sha256').update(apiToken).digest();
+
+    return (req: Request, res: Response, next: NextFunction): void => {
+      const header = req.get('authorization') ?? '';
+      const token = header.startsWith('Bearer ')
+        ? header.slice('Bearer '.length)
+        : '';
+      const actual = createHash('sha256').update(token).digest();
+
+      if (!token || !timingSafeEqual(actual, expected)) {
+        log.security('admin API authentication failed', {
+          method: req.method,
+          path: req.path,
+          ip: req.ip,
+        });
+        res
+          .status(401)
+          .json({ error: 'Unauthorized', errorCode: ErrorCode.UNAUTHORIZED });
+        return;
+      }
+
+      next();
+    };
+  }
+
+  /**
+   * 결정한 운영자 이름 (본문 operator 또는 X-Operator 헤더)
+   */
+  private getOperator(req: Request): string {
+    return (
+      this.getText(req, 'operator') ?? req.get('x-operator')?.trim() ?? 'admin'
+    );
+  }
+
+  /**
+   * 요청 본문의 문자열 필드 (비어 있거나 문자열이 아니면 undefined)
+   */
+  private getText(req: Request, field: string): string | undefined {
+    const value = req.body?.[field];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  /**
+   * 에러 응답 (승인 큐 에러 코드를 HTTP 상태로 변환)
+   */
+  private sendError(res: Response, error: Error): void {
+    const code =
+      error instanceof SwapError ? error.code : ErrorCode.INTERNAL_ERROR;
+    const status =
+      code === ErrorCode.NOT_FOUND
+        ? 404
+        : code === ErrorCode.INVALID_INPUT
+          ? 400
+          : 500;
+
+    if (status === 500) {
+      log.error('Admin API request failed', error);
+    }
+
+    res.status(status).json({
+      error: error.message,
+      errorCode: code,
+      details: error instanceof SwapError ? error.details : undefined,
+    });
+  }
+}
+
+/**
+ * 싱글톤 관리 API 서버 인스턴스
+ */
+export const adminServer = new AdminServer();
@@ -0,0 +1,433 @@
+/**
+ * 고액 스왑 운영자 승인 큐
+ */
+
+import { randomUUID } from 'crypto';
+import { policyEngine } from './policy-engine';
+import { SwapError } from './errors';
+import { approvalConfig } from '@/utils/config';
+import { log } from '@/utils/logger';
+import { notifier } from '@/utils/notifier';
+import { JsonStore } from '@/utils/store';
+import type { ExecuteSwapOptions } from './swap-service';
+import { ErrorCode } from '@/types';
+import type {
+  PolicyTrade,
+  SwapApproval,
+  SwapApprovalStatus,
+  SwapEstimate,
+  SwapRequest,
+} from '@/types';
+
+/**
+ * 승인 필요 여부 판정 결과
+ */
+export interface ApprovalCheck {
+  required: boolean;
+  usdValue?: number;
+}
+
+/**
+ * 승인 큐 클래스
+ *
+ * APPROVAL_THRESHOLD_USD를 넘는 스왑은 바로 실행하지 않고 보류한다.
+ * 운영자가 관리 API로 승인하면 만료 전인 경우에만 실행 큐에 넣어 순서대로 실행하고, 모든 결정은 보안 로그에 남긴다.
+ * 실행 시점에도 만료 여부를 다시 확인하고, 실행 견적이 보류 시점 견적보다 MAX_QUOTE_DRIFT_BPS 이상 불리하면 실행하지 않는다.
+ * 예약 실행기(TWAP, DCA, 지정가, 손절/익절)의 스왑은 보류하지 않는다.
+ * 기본 계정이 아닌 서명 시크릿은 메모리에만 보관하므로 재시작 후에는 해당 요청을 실행할 수 없다.
+ */
+export class ApprovalQueue {
+  private approvals: Map<string, SwapApproval> = new Map();
+  private signers: Map<string, string> = new Map();
+  private store = new JsonStore<SwapApproval>('swap-approvals');
+  private startPromise: Promise<void> | undefined;
+  private executionQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * 저장된 승인 요청 로드
+   */
+  start(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = this.loadApprovals().catch((error) => {
+        this.startPromise = undefined;
+        throw error;
+      });
+    }
+    return this.startPromise;
+  }
+
+  /**
+   * 승인 큐 사용 여부 (APPROVAL_THRESHOLD_USD 설정 시)
+   */
+  isEnabled(): boolean {
+    return approvalConfig.thresholdUsd !== undefined;
+  }
+
+  /**
+   * 승인 필요 여부 확인 (USD 가치를 알 수 없으면 승인 필요로 간주)
+   */
+  async check(trades: PolicyTrade[]): Promise<ApprovalCheck> {
+    const thresholdUsd = approvalConfig.thresholdUsd;
+    if (thresholdUsd === undefined) {
+      return { required: false };
+    }
+
+    let usdValue = 0;
+    for (const trade of trades) {
+      const value = await policyEngine.valueTrade(trade);
+      if (value === undefined) {
+        return { required: true };
+      }
+      usdValue += value;
+    }
+
+    return { required: usdValue > thresholdUsd, usdValue };
+  }
+
+  /**
+   * 스왑 요청을 승인 대기로 보류
+   */
+  async park(
+    request: SwapRequest,
+    account: string,
+    estimate: SwapEstimate,
+    usdValue?: number
+  ): Promise<SwapApproval> {
+    await this.start();
+
+    const thresholdUsd = approvalConfig.thresholdUsd;
+    if (thresholdUsd === undefined) {
+      throw new SwapError(
+        'Swap approvals are not enabled',
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const now = Date.now();
+    const { accountSecret, ...publicRequest } = request;
+    const approval: SwapApproval = {
+      id: `apr_${randomUUID()}`,
+      status: 'pending',
+      account,
+      usesDefaultAccount: !accountSecret,
+      request: publicRequest,
+      estimate,
+      thresholdUsd,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(
+        now + approvalConfig.ttlMinutes * 60 * 1000
+      ).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+    };
+
+    if (usdValue !== undefined) {
+      approval.usdValue = usdValue;
+    }
+
+    if (accountSecret) {
+      this.signers.set(approval.id, accountSecret);
+    }
+
+    this.approvals.set(approval.id, approval);
+    await this.persist();
+
+    log.security('swap approval requested', {
+      approvalId: approval.id,
+      account,
+      fromToken: request.fromToken,
+      toToken: request.toToken,
+      amount: request.amount,
+      usdValue,
+      thresholdUsd,
+      expiresAt: approval.expiresAt,
+    });
+
+    await notifier.notify({
+      title: `Swap awaiting approval: ${request.fromToken} -> ${request.toToken}`,
+      message:
+        `${request.amount} ${request.mode === 'exactOut' ? request.toToken : request.fromToken} ` +
+        `(${usdValue !== undefined ? `$${usdValue.toFixed(2)}` : 'USD value unknown'}) exceeds the $${thresholdUsd} approval threshold`,
+      fields: {
+        approvalId: approval.id,
+        account,
+        expiresAt: approval.expiresAt,
+      },
+    });
+
+    return approval;
+  }
+
+  /**
+   * 승인 요청 조회
+   */
+  async getApproval(id: string): Promise<SwapApproval | null> {
+    await this.start();
+    await this.expireStale();
+    return this.approvals.get(id) ?? null;
+  }
+
+  /**
+   * 승인 요청 목록 조회
+   */
+  async listApprovals(
+    filter: { account?: string; status?: SwapApprovalStatus } = {}
+  ): Promise<SwapApproval[]> {
+    await this.start();
+    await this.expireStale();
+    return Array.from(this.approvals.values()).filter(
+      (approval) =>
+        (!filter.account || approval.account === filter.account) &&
+        (!filter.status || approval.status === filter.status)
+    );
+  }
+
+  /**
+   * 승인 후 실행 큐에 등록 (만료되지 않은 대기 요청만, 결과는 getApproval로 확인)
+   */
+  async approve(
+    id: string,
+    operator: string,
+    note?: string
+  ): Promise<SwapApproval> {
+    await this.start();
+    await this.expireStale();
+
+    const approval = this.getPending(id);
+
+    approval.status = 'approved';
+    approval.operator = operator;
+    approval.decidedAt = new Date().toISOString();
+    approval.updatedAt = approval.decidedAt;
+    if (note) {
+      approval.reason = note;
+    }
+    await this.persist();
+
+    log.security('swap approval granted', {
+      approvalId: id,
+      operator,
+      account: approval.account,
+      usdValue: approval.usdValue,
+      note,
+    });
+
+    this.executionQueue = this.executionQueue
+      .then(async () => {
+        await this.execute(approval);
+      })
+      .catch((error) => {
+        log.error('Approved swap execution failed', error as Error, {
+          approvalId: id,
+        });
+      });
+
+    return approval;
+  }
+
+  /**
+   * 승인 거부
+   */
+  async reject(
+    id: string,
+    operator: string,
+    reason?: string
+  ): Promise<SwapApproval> {
+    await this.start();
+    await this.expireStale();
+
+    const approval = this.getPending(id);
+
+    approval.status = 'rejected';
+    approval.operator = operator;
+    approval.decidedAt = new Date().toISOString();
+    approval.updatedAt = approval.decidedAt;
+    if (reason) {
+      approval.reason = reason;
+    }
+    this.signers.delete(id);
+    await this.persist();
+
+    log.security('swap approval rejected', {
+      approvalId: id,
+      operator,
+      account: approval.account,
+      usdValue: approval.usdValue,
+      reason,
+    });
+
+    return approval;
+  }
+
+  /**
+   * 승인되어 실행 중인 요청인지 확인 (승인 경로 외의 우회 실행 방지)
+   */
+  isApproved(id: string): boolean {
+    return this.approvals.get(id)?.status === 'approved';
+  }
+
+  /**
+   * 결정 가능한 대기 요청 조회
+   *
+   * 상태 확인과 변경 사이에 await가 없어야 같은 요청을 두 번 결정하지 않는다.
+   */
+  private getPending(id: string): SwapApproval {
+    const approval = this.approvals.get(id);
+    if (!approval) {
+      throw new SwapError(
+        `Swap approval not found: ${id}`,
+        ErrorCode.NOT_FOUND
+      );
+    }
+
+    if (approval.status !== 'pending') {
+      throw new SwapError(
+        `Swap approval ${id} is already ${approval.status}`,
+        ErrorCode.INVALID_INPUT,
+        {
+          status: approval.status,
+          expiresAt: approval.expiresAt,
+        }
+      );
+    }
+
+    return approval;
+  }
+
+  /**
+   * 승인된 스왑 실행 후 결과 기록
+   *
+   * 실행 큐에서 기다리는 동안 유효 시간이 지났으면 실행하지 않는다.
+   */
+  private async execute(approval: SwapApproval): Promise<SwapApproval> {
+    if (Date.parse(approval.expiresAt) <= Date.now()) {
+      return this.finish(
+        approval,
+        'expired',
+        'Approval expired before the swap could execute'
+      );
+    }
+
+    const request: SwapRequest = { ...approval.request };
+    if (!approval.usesDefaultAccount) {
+      const accountSecret = this.signers.get(approval.id);
+      if (!accountSecret) {
+        return this.finish(
+          approval,
+          'failed',
+          'Signer secret is not available after restart'
+        );
+      }
+      request.accountSecret = accountSecret;
+    }
+
+    const { swapService } = await import('./swap-service');
+    const options: ExecuteSwapOptions = { approvalId: approval.id };
+    if (approval.estimate) {
+      options.approvedEstimate = approval.estimate;
+    }
+    const result = await swapService.executeSwap(request, options);
+    approval.result = result;
+
+    return result.success
+      ? this.finish(approval, 'executed')
+      : this.finish(approval, 'failed', result.error);
+  }
+
+  /**
+   * 실행 결과 기록
+   */
+  private async finish(
+    approval: SwapApproval,
+    status: 'executed' | 'failed' | 'expired',
+    reason?: string
+  ): Promise<SwapApproval> {
+    approval.status = status;
+    approval.updatedAt = new Date().toISOString();
+    if (reason) {
+      approval.reason = reason;
+    }
+    this.signers.delete(approval.id);
+    await this.persist();
+
+    log.info('Approved swap finished', {
+      approvalId: approval.id,
+      status,
+      transactionHash: approval.result?.transactionHash,
+      reason,
+    });
+
+    return approval;
+  }
+
+  /**
+   * 유효 시간이 지난 대기 요청 만료 처리
+   */
+  private async expireStale(): Promise<void> {
+    const now = Date.now();
+    const expired = Array.from(this.approvals.values()).filter(
+      (approval) =>
+        approval.status === 'pending' && Date.parse(approval.expiresAt) <= now
+    );
+
+    if (expired.length === 0) {
+      return;
+    }
+
+    for (const approval of expired) {
+      approval.status = 'expired';
+      approval.updatedAt = new Date(now).toISOString();
+      this.signers.delete(approval.id);
+
+      log.security('swap approval expired', {
+        approvalId: approval.id,
+        account: approval.account,
+        expiresAt: approval.expiresAt,
+      });
+    }
+
+    await this.persist();
+  }
+
+  /**
+   * 저장된 승인 요청 로드 (재시작으로 중단된 실행은 실패 처리)
+   */
+  private async loadApprovals(): Promise<void> {
+    const approvals = await this.store.load();
+    let interrupted = 0;
+
+    for (const approval of approvals) {
+      // 승인 직후 실행 도중 종료된 요청은 체결 여부를 알 수 없으므로 다시 실행하지 않음
+      if (approval.status === 'approved') {
+        approval.status = 'failed';
+        approval.reason =
+          'Server restarted while the approved swap was executing; check the account history';
+        approval.updatedAt = new Date().toISOString();
+        interrupted++;
+      }
+      this.approvals.set(approval.id, approval);
+    }
+
+    if (interrupted > 0) {
+      await this.persist();
+    }
+
+    log.info('Approval queue loaded', {
+      approvals: this.approvals.size,
+      pending: approvals.filter((approval) => approval.status === 'pending')
+        .length,
+      interrupted,
+    });
+  }
+
+  /**
+   * 승인 요청 상태 저장
+   */
+  private async persist(): Promise<void> {
+    await this.store.save(Array.from(this.approvals.values()));
+  }
+}
+
+/**
+ * 싱글톤 승인 큐 인스턴스
+ */
+export const approvalQueue = new ApprovalQueue();
@@ -0,0 +1,617 @@
+/**
+ * 적립식 매수(DCA) 스케줄러
+ */
+
+import { randomUUID } from 'crypto';
+import { Keypair } from 'stellar-sdk';
+import { swapService } from './swap-service';
+import { SwapError } from './errors';
+import { isSupportedToken } from '@/stellar/utils';
+import { getNextCronRun } from '@/utils/cron';
+import { log } from '@/utils/logger';
+import { JsonStore } from '@/utils/store';
+import { securityConfig, stellarConfig } from '@/utils/config';
+import { ErrorCode } from '@/types';
+import type { SwapRequest, SwapResult, DcaPlan, DcaFill } from '@/types';
+
+/**
+ * DCA 계획 생성 옵션
+ */
+export interface DcaPlanOptions {
+  schedule: string;
+  maxPrice?: number;
+  endDate?: string;
+}
+
+/**
+ * DCA 스케줄러 클래스
+ *
+ * 크론 스케줄마다 고정 수량의 fromToken으로 toToken을 매수한다.
+ * 재시작 중 놓친 실행은 따라잡지 않고 다음 예정 시각부터 이어간다.
+ * 스왑 직전 실행 중인 체결 기록과 다음 예정 시각을 저장하고, 재시작 시 실행 중이던 체결은
+ * 다시 실행하지 않고 기록된 트랜잭션 해시로 원장 반영 여부를 확인해 정리한다.
+ */
+export class DcaScheduler {
+  private plans: Map<string, DcaPlan> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private signers: Map<string, string> = new Map();
+  private running: Set<string> = new Set();
+  private store = new JsonStore<DcaPlan>('dca-plans');
+  private startPromise: Promise<void> | undefined;
+  private readonly MAX_FILL_HISTORY = 100;
+  private readonly MAX_TIMER_DELAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * 저장된 DCA 계획 로드 및 예약
+   */
+  start(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = this.loadPlans().catch((error) => {
+        this.startPromise = undefined;
+        throw error;
+      });
+    }
+    return this.startPromise;
+  }
+
+  /**
+   * 예약된 타이머 정리
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.startPromise = undefined;
+  }
+
+  /**
+   * DCA 계획 생성
+   */
+  async createPlan(
+    request: SwapRequest,
+    options: DcaPlanOptions
+  ): Promise<DcaPlan> {
+    await this.start();
+
+    if (
+      !isSupportedToken(request.fromToken) ||
+      !isSupportedToken(request.toToken)
+    ) {
+      throw new SwapError(
+        `Unsupported token pair: ${request.fromToken}/${request.toToken}`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    if (
+      request.amount < securityConfig.minAmount ||
+      request.amount > securityConfig.maxAmount
+    ) {
+      throw new SwapError(
+        `Amount per run must be between ${securityConfig.minAmount} and ${securityConfig.maxAmount}`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    try {
+      getNextCronRun(options.schedule);
+    } catch (error) {
+      throw new SwapError(
+        `Invalid cron schedule: ${(error as Error).message}`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    if (options.maxPrice !== undefined && !(options.maxPrice > 0)) {
+      throw new SwapError(
+        'Maximum price must be greater than 0',
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    if (options.endDate !== undefined) {
+      const endTime = new Date(options.endDate).getTime();
+      if (Number.isNaN(endTime) || endTime <= Date.now()) {
+        throw new SwapError(
+          'End date must be a future ISO date',
+          ErrorCode.INVALID_INPUT
+        );
+      }
+    }
+
+    const accountSecret =
+      request.accountSecret || stellarConfig.defaultAccountSecret;
+    if (!accountSecret) {
+      throw new SwapError(
+        'No account secret provided for DCA plan',
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    // 승인 대기로 보류할 수 없으므로 승인이 필요한 금액은 등록 시 거부
+    await swapService.rejectIfScheduledApprovalRequired({
+      ...request,
+      mode: 'exactIn',
+    });
+
+    const {
+      accountSecret: _accountSecret,
+      mode: _mode,
+      ...storedRequest
+    } = request;
+    const now = new Date().toISOString();
+
+    const plan: DcaPlan = {
+      id: `dca_${randomUUID()}`,
+      request: {
+        ...storedRequest,
+        fromToken: request.fromToken.toUpperCase(),
+        toToken: request.toToken.toUpperCase(),
+      },
+      account: Keypair.fromSecret(accountSecret).publicKey(),
+      usesDefaultAccount: !request.accountSecret,
+      schedule: options.schedule,
+      status: 'active',
+      executedCount: 0,
+      totalSpent: 0,
+      totalReceived: 0,
+      fills: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (options.maxPrice !== undefined) {
+      plan.maxPrice = options.maxPrice;
+    }
+
+    if (options.endDate !== undefined) {
+      plan.endDate = new Date(options.endDate).toISOString();
+    }
+
+    if (request.accountSecret) {
+      this.signers.set(plan.id, request.accountSecret);
+    }
+
+    this.plans.set(plan.id, plan);
+    this.scheduleNext(plan);
+    await this.persist();
+
+    log.info('DCA plan created', {
+      id: plan.id,
+      fromToken: plan.request.fromToken,
+      toToken: plan.request.toToken,
+      amount: plan.request.amount,
+      schedule: plan.schedule,
+      nextRunAt: plan.nextRunAt,
+    });
+
+    return plan;
+  }
+
+  /**
+   * DCA 계획 조회
+   */
+  async getPlan(id: string): Promise<DcaPlan | undefined> {
+    await this.start();
+    return this.plans.get(id);
+  }
+
+  /**
+   * DCA 계획 목록 조회
+   */
+  async listPlans(account?: string): Promise<DcaPlan[]> {
+    await this.start();
+    return Array.from(this.plans.values()).filter(
+      (plan) => !account || plan.account === account
+    );
+  }
+
+  /**
+   * DCA 계획 일시정지
+   */
+  async pausePlan(id: string): Promise<DcaPlan> {
+    const plan = await this.requirePlan(id);
+
+    if (plan.status !== 'active') {
+      throw new SwapError(
+        `DCA plan ${id} is not active`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    this.pause(plan, 'Paused by user');
+    await this.persist();
+
+    log.info('DCA plan paused', { id });
+    return plan;
+  }
+
+  /**
+   * DCA 계획 재개
+   */
+  async resumePlan(id: string, accountSecret?: string): Promise<DcaPlan> {
+    const plan = await this.requirePlan(id);
+
+    if (plan.status !== 'paused') {
+      throw new SwapError(
+        `DCA plan ${id} is not paused`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    if (!plan.usesDefaultAccount) {
+      const secret = accountSecret || this.signers.get(id);
+      if (!secret || Keypair.fromSecret(secret).publicKey() !== plan.account) {
+        throw new SwapError(
+          'accountSecret for the plan account is required to resume',
+          ErrorCode.UNAUTHORIZED
+        );
+      }
+      this.signers.set(id, secret);
+    }
+
+    plan.status = 'active';
+    delete plan.pauseReason;
+    plan.updatedAt = new Date().toISOString();
+    this.scheduleNext(plan);
+    await this.persist();
+
+    log.info('DCA plan resumed', { id, nextRunAt: plan.nextRunAt });
+    return plan;
+  }
+
+  /**
+   * DCA 계획 삭제
+   */
+  async deletePlan(id: string): Promise<DcaPlan> {
+    const plan = await this.requirePlan(id);
+
+    // 진행 중인 실행이 끝난 뒤 다시 예약하지 않도록 상태도 바꾼다
+    plan.status = 'deleted';
+    plan.updatedAt = new Date().toISOString();
+    delete plan.nextRunAt;
+    this.clearTimer(id);
+    this.signers.delete(id);
+    this.plans.delete(id);
+    await this.persist();
+
+    log.info('DCA plan deleted', { id });
+    return plan;
+  }
+
+  /**
+   * 평균 매수 단가 (fromToken 기준 toToken 1개 가격)
+   */
+  getAverageEntryPrice(plan: DcaPlan): number | undefined {
+    return plan.totalReceived > 0
+      ? plan.totalSpent / plan.totalReceived
+      : undefined;
+  }
+
+  /**
+   * 다음 실행 시각 계산 및 타이머 예약
+   */
+  private scheduleNext(plan: DcaPlan): void {
+    this.clearTimer(plan.id);
+
+    if (plan.status !== 'active') {
+      delete plan.nextRunAt;
+      return;
+    }
+
+    const nextRun = getNextCronRun(plan.schedule);
+
+    if (plan.endDate && nextRun.getTime() > new Date(plan.endDate).getTime()) {
+      plan.status = 'completed';
+      delete plan.nextRunAt;
+      this.signers.delete(plan.id);
+      log.info('DCA plan completed', {
+        id: plan.id,
+        executedCount: plan.executedCount,
+      });
+      return;
+    }
+
+    plan.nextRunAt = nextRun.toISOString();
+    this.armTimer(plan);
+  }
+
+  /**
+   * 실행 타이머 설정 (setTimeout 한도를 넘는 대기는 나누어 건다)
+   */
+  private armTimer(plan: DcaPlan): void {
+    if (!plan.nextRunAt) {
+      return;
+    }
+
+    const delay = new Date(plan.nextRunAt).getTime() - Date.now();
+    const timer = setTimeout(
+      () => {
+        this.timers.delete(plan.id);
+
+        if (delay > this.MAX_TIMER_DELAY_MS) {
+          this.armTimer(plan);
+          return;
+        }
+
+        this.runPlan(plan).catch((error) => {
+          log.error('DCA plan run failed', error as Error, { id: plan.id });
+        });
+      },
+      Math.max(0, Math.min(delay, this.MAX_TIMER_DELAY_MS))
+    );
+
+    this.timers.set(plan.id, timer);
+  }
+
+  /**
+   * 계획 1회 실행
+   */
+  private async runPlan(plan: DcaPlan): Promise<void> {
+    if (this.running.has(plan.id) || plan.status !== 'active') {
+      return;
+    }
+
+    this.running.add(plan.id);
+    const fill: DcaFill = { runAt: new Date().toISOString(), status: 'failed' };
+    let recorded = false;
+
+    try {
+      const swapRequest: SwapRequest = { ...plan.request, mode: 'exactIn' };
+      const accountSecret = this.signers.get(plan.id);
+      if (accountSecret) {
+        swapRequest.accountSecret = accountSecret;
+      } else if (!plan.usesDefaultAccount) {
+        // 기본 계정 시크릿으로 대신 서명하지 않음
+        throw new SwapError(
+          'Signer secret is not available for this DCA plan; resume it with accountSecret',
+          ErrorCode.INVALID_INPUT
+        );
+      }
+
+      const estimate = await swapService.estimateSwap(swapRequest);
+      const quotedPrice = estimate.fromAmount / estimate.toAmount;
+
+      // 견적 조회 중 일시정지/삭제되었으면 실행하지 않음
+      if (!this.isLive(plan)) {
+        log.info('DCA run abandoned, plan changed during quote', {
+          id: plan.id,
+          status: plan.status,
+        });
+        return;
+      }
+
+      if (plan.maxPrice !== undefined && quotedPrice > plan.maxPrice) {
+        fill.status = 'skipped';
+        fill.price = quotedPrice;
+        fill.reason = `Price ${quotedPrice} is above maximum ${plan.maxPrice}`;
+        log.info('DCA run skipped above maximum price', {
+          id: plan.id,
+          price: quotedPrice,
+          maxPrice: plan.maxPrice,
+        });
+      } else {
+        // 체결 여부를 알 수 없는 재시작에 대비해 실행 중 체결과 다음 예정 시각을 먼저 저장
+        fill.status = 'executing';
+        this.recordFill(plan, fill);
+        recorded = true;
+        plan.nextRunAt = getNextCronRun(plan.schedule).toISOString();
+        plan.updatedAt = new Date().toISOString();
+        await this.persist();
+
+        const result = await swapService.executeSwap(swapRequest, {
+          scheduled: true,
+          onSubmit: async (submission) => {
+            fill.submission = submission;
+            await this.persist();
+          },
+        });
+
+        this.applyResult(plan, fill, result);
+      }
+    } catch (error) {
+      fill.status = 'failed';
+      fill.reason = (error as Error).message;
+      log.error('DCA run failed', error as Error, { id: plan.id });
+    } finally {
+      this.running.delete(plan.id);
+    }
+
+    if (!recorded) {
+      this.recordFill(plan, fill);
+    }
+
+    plan.updatedAt = new Date().toISOString();
+    if (this.isLive(plan)) {
+      this.scheduleNext(plan);
+    }
+    await this.persist();
+  }
+
+  /**
+   * 저장소에 남아 있는 활성 계획인지 확인 (삭제/일시정지 후 실행과 재예약 방지)
+   */
+  private isLive(plan: DcaPlan): boolean {
+    return this.plans.get(plan.id) === plan && plan.status === 'active';
+  }
+
+  /**
+   * 계획 일시정지 처리
+   */
+  private pause(plan: DcaPlan, reason: string): void {
+    this.clearTimer(plan.id);
+    plan.status = 'paused';
+    plan.pauseReason = reason;
+    delete plan.nextRunAt;
+    plan.updatedAt = new Date().toISOString();
+  }
+
+  /**
+   * 계획 조회 (없으면 에러)
+   */
+  private async requirePlan(id: string): Promise<DcaPlan> {
+    const plan = await this.getPlan(id);
+    if (!plan) {
+      throw new SwapError(`DCA plan not found: ${id}`, ErrorCode.NOT_FOUND);
+    }
+    return plan;
+  }
+
+  /**
+   * 예약 타이머 해제
+   */
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  /**
+   * 저장소 로드 후 활성 계획 재예약
+   */
+  private async loadPlans(): Promise<void> {
+    const plans = await this.store.load();
+    for (const plan of plans) {
+      this.plans.set(plan.id, plan);
+    }
+
+    const interrupted: [DcaPlan, DcaFill][] = [];
+    for (const plan of this.plans.values()) {
+      for (const fill of plan.fills) {
+        if (fill.status === 'executing') {
+          interrupted.push([plan, fill]);
+        }
+      }
+    }
+
+    for (const plan of this.plans.values()) {
+      if (plan.status !== 'active') {
+        continue;
+      }
+
+      // 외부 시크릿은 저장하지 않으므로 재시작 후에는 서명할 수 없다
+      if (!plan.usesDefaultAccount) {
+        this.pause(
+          plan,
+          'Signer secret is not available after restart; resume with accountSecret'
+        );
+        log.warn('DCA plan paused after restart', { id: plan.id });
+        continue;
+      }
+
+      this.scheduleNext(plan);
+    }
+
+    await this.persist();
+    log.info('DCA scheduler started', {
+      plans: this.plans.size,
+      interruptedFills: interrupted.length,
+    });
+
+    // 원장 확인은 타임바운드 만료까지 걸릴 수 있으므로 시작을 막지 않는다
+    for (const [plan, fill] of interrupted) {
+      this.reconcileFill(plan, fill).catch((error) => {
+        log.error('DCA fill reconciliation failed', error as Error, {
+          id: plan.id,
+          runAt: fill.runAt,
+        });
+      });
+    }
+  }
+
+  /**
+   * 재시작 전에 실행 중이던 체결을 원장 기록으로 정리 (다시 실행하지 않음)
+   */
+  private async reconcileFill(plan: DcaPlan, fill: DcaFill): Promise<void> {
+    try {
+      const result = fill.submission
+        ? await swapService.resolveSubmittedSwap(
+            { ...plan.request, mode: 'exactIn' },
+            plan.account,
+            fill.submission
+          )
+        : undefined;
+
+      if (result) {
+        this.applyResult(plan, fill, result);
+      } else {
+        fill.status = 'failed';
+        fill.reason = fill.submission
+          ? 'Server restarted and the run transaction expired without being applied'
+          : 'Server restarted before the run swap was submitted';
+      }
+    } catch (error) {
+      fill.status = 'failed';
+      fill.reason = `Server restarted while the run was executing and its outcome could not be confirmed; check the account history (${(error as Error).message})`;
+    }
+
+    log.info('DCA interrupted fill reconciled', {
+      id: plan.id,
+      runAt: fill.runAt,
+      status: fill.status,
+      transactionHash: fill.submission?.transactionHash,
+    });
+
+    plan.updatedAt = new Date().toISOString();
+    await this.persist();
+  }
+
+  /**
+   * 스왑 결과를 체결 기록과 누적 수량에 반영
+   */
+  private applyResult(plan: DcaPlan, fill: DcaFill, result: SwapResult): void {
+    if (!result.success) {
+      fill.status = 'failed';
+      fill.reason = result.error ?? 'Swap failed';
+      log.warn('DCA run failed', { id: plan.id, error: result.error });
+      return;
+    }
+
+    const fromAmount = result.actualSent ?? result.fromAmount;
+    const toAmount = result.actualReceived ?? result.toAmount;
+
+    fill.status = 'executed';
+    fill.fromAmount = fromAmount;
+    fill.toAmount = toAmount;
+    fill.price = fromAmount / toAmount;
+    if (result.transactionHash) {
+      fill.transactionHash = result.transactionHash;
+    }
+
+    plan.executedCount += 1;
+    plan.totalSpent += fromAmount;
+    plan.totalReceived += toAmount;
+
+    log.info('DCA run executed', {
+      id: plan.id,
+      transactionHash: result.transactionHash,
+      fromAmount,
+      toAmount,
+    });
+  }
+
+  /**
+   * 체결 기록 추가 (최근 MAX_FILL_HISTORY개만 보관)
+   */
+  private recordFill(plan: DcaPlan, fill: DcaFill): void {
+    plan.fills.push(fill);
+    if (plan.fills.length > this.MAX_FILL_HISTORY) {
+      plan.fills.splice(0, plan.fills.length - this.MAX_FILL_HISTORY);
+    }
+  }
+
+  /**
+   * 계획 상태 저장
+   */
+  private async persist(): Promise<void> {
+    await this.store.save(Array.from(this.plans.values()));
+  }
+}
+
+/**
+ * 싱글톤 DCA 스케줄러 인스턴스
+ */
+export const dcaScheduler = new DcaScheduler();
@@ -0,0 +1,96 @@
+/**
+ * 스왑 관련 에러 클래스
+ */
+
+import { ErrorCode } from '@/types';
+import type { PolicyViolation, SwapEstimate } from '@/types';
+
+/**
+ * 기본 스왑 에러 클래스
+ */
+export class SwapError extends Error {
+  constructor(
+    message: string,
+    public code: ErrorCode,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'SwapError';
+  }
+}
+
+/**
+ * 거래 정책 위반 (위반 항목별 코드 포함)
+ */
+export class PolicyViolationError extends SwapError {
+  constructor(public violations: PolicyViolation[]) {
+    super(
+      `Trading policy violation: ${violations.map((violation) => violation.message).join('; ')}`,
+      ErrorCode.POLICY_VIOLATION,
+      { violations }
+    );
+    this.name = 'PolicyViolationError';
+  }
+}
+
+/**
+ * 견적 가격 영향이 MAX_PRICE_IMPACT를 넘은 경우 (한도 내 최대 수량 제안 포함)
+ */
+export class PriceImpactExceededError extends SwapError {
+  constructor(
+    estimate: SwapEstimate,
+    maxPriceImpact: number,
+    suggestedMaxAmount?: number
+  ) {
+    super(
+      `Price impact ${estimate.priceImpact.toFixed(2)}% exceeds the ${maxPriceImpact}% limit` +
+        (suggestedMaxAmount !== undefined
+          ? `; reduce the amount to ${suggestedMaxAmount} or less`
+          : '; no smaller amount stays under the limit'),
+      ErrorCode.SWAP_PRICE_IMPACT_EXCEEDED,
+      {
+        priceImpact: estimate.priceImpact,
+        maxPriceImpact,
+        suggestedMaxAmount,
+        estimate,
+      }
+    );
+    this.name = 'PriceImpactExceededError';
+  }
+}
+
+/**
+ * 제출 직전 재견적이 승인된 견적에서 허용치 이상 벗어난 경우
+ */
+export class QuoteDriftError extends SwapError {
+  constructor(
+    acceptedEstimate: SwapEstimate,
+    requote: SwapEstimate,
+    driftBps: number,
+    thresholdBps: number
+  ) {
+    super(
+      `Quote drifted ${driftBps.toFixed(1)}bps from the accepted estimate (limit ${thresholdBps}bps)`,
+      ErrorCode.SOROSWAP_SLIPPAGE_EXCEEDED,
+      { acceptedEstimate, requote, driftBps, thresholdBps }
+    );
+    this.name = 'QuoteDriftError';
+  }
+}
+
+/**
+ * 제출한 스왑 트랜잭션의 원장 반영 여부를 끝내 확인하지 못한 경우 (체결됐을 수 있음)
+ */
+export class SwapUnconfirmedError extends SwapError {
+  constructor(
+    public transactionHash: string,
+    reason: string
+  ) {
+    super(
+      `Swap transaction ${transactionHash} was submitted but its outcome is unconfirmed (${reason}); check the transaction before retrying`,
+      ErrorCode.SWAP_TIMEOUT,
+      { transactionHash, unconfirmed: true }
+    );
+    this.name = 'SwapUnconfirmedError';
+  }
+}
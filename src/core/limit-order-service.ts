@@ -0,0 +1,492 @@
+/**
+ * 지정가 주문 서비스
+ */
+
+import { randomUUID } from 'crypto';
+import { Keypair } from 'stellar-sdk';
+import { swapService } from './swap-service';
+import { priceService } from './price-service';
+import { SwapError } from './errors';
+import { isSupportedToken } from '@/stellar/utils';
+import { log } from '@/utils/logger';
+import { JsonStore } from '@/utils/store';
+import { stellarConfig } from '@/utils/config';
+import { ErrorCode } from '@/types';
+import type {
+  SwapRequest,
+  SwapResult,
+  LimitOrder,
+  LimitOrderCondition,
+  LimitOrderStatus,
+} from '@/types';
+
+/**
+ * 지정가 주문 생성 옵션
+ */
+export interface LimitOrderOptions {
+  targetPrice: number;
+  condition?: LimitOrderCondition;
+  expiresInMinutes?: number;
+}
+
+/**
+ * 지정가 주문 서비스 클래스
+ *
+ * fromToken/toToken 쌍 가격(fromToken 1개당 toToken)을 주기적으로 확인하고
+ * 목표가에 도달하면 스왑을 실행한다. 주문은 JSON 저장소에 보관된다.
+ * 스왑 직전 주문을 executing으로 저장하고, 재시작 시 실행 중이던 주문은 다시 실행하지 않고
+ * 기록된 트랜잭션 해시로 원장 반영 여부를 확인해 정리한다.
+ */
+export class LimitOrderService {
+  private orders: Map<string, LimitOrder> = new Map();
+  private signers: Map<string, string> = new Map();
+  private store = new JsonStore<LimitOrder>('limit-orders');
+  private timer: NodeJS.Timeout | undefined;
+  private checking = false;
+  private startPromise: Promise<void> | undefined;
+  private readonly POLL_INTERVAL_MS = 30 * 1000;
+  private readonly DEFAULT_EXPIRY_MINUTES = 24 * 60;
+  private readonly MAX_EXPIRY_MINUTES = 30 * 24 * 60;
+
+  /**
+   * 저장된 주문 로드 및 가격 감시 시작
+   */
+  start(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = this.loadOrders().catch((error) => {
+        this.startPromise = undefined;
+        throw error;
+      });
+    }
+    return this.startPromise;
+  }
+
+  /**
+   * 가격 감시 중지
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.startPromise = undefined;
+  }
+
+  /**
+   * 지정가 주문 생성
+   */
+  async placeOrder(
+    request: SwapRequest,
+    options: LimitOrderOptions
+  ): Promise<LimitOrder> {
+    await this.start();
+
+    if (
+      !isSupportedToken(request.fromToken) ||
+      !isSupportedToken(request.toToken)
+    ) {
+      throw new SwapError(
+        `Unsupported token pair: ${request.fromToken}/${request.toToken}`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    if (!(options.targetPrice > 0)) {
+      throw new SwapError(
+        'Target price must be greater than 0',
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const expiresInMinutes =
+      options.expiresInMinutes ?? this.DEFAULT_EXPIRY_MINUTES;
+    if (!(expiresInMinutes > 0) || expiresInMinutes > this.MAX_EXPIRY_MINUTES) {
+      throw new SwapError(
+        `Expiry must be between 1 and ${this.MAX_EXPIRY_MINUTES} minutes`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const accountSecret =
+      request.accountSecret || stellarConfig.defaultAccountSecret;
+    if (!accountSecret) {
+      throw new SwapError(
+        'No account secret provided for limit order',
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    // 승인 대기로 보류할 수 없으므로 승인이 필요한 금액은 등록 시 거부
+    await swapService.rejectIfScheduledApprovalRequired({
+      ...request,
+      mode: 'exactIn',
+    });
+
+    const {
+      accountSecret: _accountSecret,
+      mode: _mode,
+      ...storedRequest
+    } = request;
+    const now = Date.now();
+
+    const order: LimitOrder = {
+      id: `order_${randomUUID()}`,
+      request: {
+        ...storedRequest,
+        fromToken: request.fromToken.toUpperCase(),
+        toToken: request.toToken.toUpperCase(),
+      },
+      account: Keypair.fromSecret(accountSecret).publicKey(),
+      usesDefaultAccount: !request.accountSecret,
+      condition: options.condition ?? 'gte',
+      targetPrice: options.targetPrice,
+      status: 'open',
+      createdAt: new Date(now).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + expiresInMinutes * 60 * 1000).toISOString(),
+    };
+
+    if (request.accountSecret) {
+      this.signers.set(order.id, request.accountSecret);
+    }
+
+    this.orders.set(order.id, order);
+    await this.persist();
+
+    log.info('Limit order placed', {
+      id: order.id,
+      fromToken: order.request.fromToken,
+      toToken: order.request.toToken,
+      amount: order.request.amount,
+      condition: order.condition,
+      targetPrice: order.targetPrice,
+      expiresAt: order.expiresAt,
+    });
+
+    return order;
+  }
+
+  /**
+   * 주문 목록 조회
+   */
+  async listOrders(
+    filter: { account?: string; status?: LimitOrderStatus } = {}
+  ): Promise<LimitOrder[]> {
+    await this.start();
+    return Array.from(this.orders.values()).filter(
+      (order) =>
+        (!filter.account || order.account === filter.account) &&
+        (!filter.status || order.status === filter.status)
+    );
+  }
+
+  /**
+   * 주문 취소
+   */
+  async cancelOrder(id: string): Promise<LimitOrder> {
+    await this.start();
+
+    const order = this.orders.get(id);
+    if (!order) {
+      throw new SwapError(`Limit order not found: ${id}`, ErrorCode.NOT_FOUND);
+    }
+
+    if (order.status !== 'open') {
+      throw new SwapError(
+        `Limit order ${id} is already ${order.status}`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    this.closeOrder(order, 'cancelled');
+    await this.persist();
+
+    log.info('Limit order cancelled', { id });
+    return order;
+  }
+
+  /**
+   * 열린 주문의 가격 조건 확인 및 실행
+   */
+  async checkOrders(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+
+    this.checking = true;
+
+    try {
+      const now = Date.now();
+      const open = Array.from(this.orders.values()).filter(
+        (order) => order.status === 'open'
+      );
+      const prices: Map<string, number | null> = new Map();
+
+      for (const order of open) {
+        if (new Date(order.expiresAt).getTime() <= now) {
+          this.closeOrder(order, 'expired');
+          log.info('Limit order expired', { id: order.id });
+          continue;
+        }
+
+        const tokenPair = `${order.request.fromToken}/${order.request.toToken}`;
+        if (!prices.has(tokenPair)) {
+          prices.set(tokenPair, await this.fetchPairPrice(tokenPair));
+        }
+
+        const price = prices.get(tokenPair);
+        if (price === null || price === undefined) {
+          continue;
+        }
+
+        order.lastPrice = price;
+        order.lastCheckedAt = new Date().toISOString();
+
+        if (this.isTargetMet(order, price)) {
+          await this.executeOrder(order, price);
+        }
+      }
+
+      if (open.length > 0) {
+        await this.persist();
+      }
+    } catch (error) {
+      log.error('Limit order check failed', error as Error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * 조건을 만족한 주문 실행
+   *
+   * 시장 가격만으로 실행하지 않고, 실제 견적 체결가도 목표가를 만족할 때만 스왑한다.
+   */
+  private async executeOrder(order: LimitOrder, price: number): Promise<void> {
+    const swapRequest: SwapRequest = { ...order.request, mode: 'exactIn' };
+
+    if (!order.usesDefaultAccount) {
+      const accountSecret = this.signers.get(order.id);
+      if (!accountSecret) {
+        this.closeOrder(
+          order,
+          'failed',
+          'Signer secret is not available after restart'
+        );
+        log.warn('Limit order cannot be signed', { id: order.id });
+        return;
+      }
+      swapRequest.accountSecret = accountSecret;
+    }
+
+    try {
+      const estimate = await swapService.estimateSwap(swapRequest);
+      const quotedPrice = estimate.toAmount / estimate.fromAmount;
+
+      if (!this.isTargetMet(order, quotedPrice)) {
+        log.debug('Limit order quote does not meet target yet', {
+          id: order.id,
+          marketPrice: price,
+          quotedPrice,
+          targetPrice: order.targetPrice,
+        });
+        return;
+      }
+    } catch (error) {
+      log.warn('Limit order quote failed', {
+        id: order.id,
+        error: (error as Error).message,
+      });
+      return;
+    }
+
+    // 견적 조회 중 취소/만료되었으면 실행하지 않음 (확인과 상태 변경 사이에 await 없음)
+    if (order.status !== 'open') {
+      log.info('Limit order changed during quote, not executing', {
+        id: order.id,
+        status: order.status,
+      });
+      return;
+    }
+
+    log.info('Limit order triggered', {
+      id: order.id,
+      price,
+      condition: order.condition,
+      targetPrice: order.targetPrice,
+    });
+
+    // 체결 여부를 알 수 없는 재시작에 대비해 실행 중 상태와 트랜잭션 해시를 먼저 저장
+    order.triggeredPrice = price;
+    order.status = 'executing';
+    order.updatedAt = new Date().toISOString();
+    await this.persist();
+
+    let result: SwapResult;
+    try {
+      result = await swapService.executeSwap(swapRequest, {
+        scheduled: true,
+        onSubmit: async (submission) => {
+          order.submission = submission;
+          await this.persist();
+        },
+      });
+    } catch (error) {
+      this.closeOrder(order, 'failed', (error as Error).message);
+      log.error('Limit order execution failed', error as Error, {
+        id: order.id,
+      });
+      return;
+    }
+
+    this.settleOrder(order, result);
+  }
+
+  /**
+   * 스왑 결과로 주문 종료
+   */
+  private settleOrder(order: LimitOrder, result: SwapResult): void {
+    order.result = result;
+
+    if (result.success) {
+      this.closeOrder(order, 'filled');
+      log.info('Limit order filled', {
+        id: order.id,
+        transactionHash: result.transactionHash,
+      });
+    } else {
+      this.closeOrder(order, 'failed', result.error);
+      log.warn('Limit order execution failed', {
+        id: order.id,
+        error: result.error,
+      });
+    }
+  }
+
+  /**
+   * 재시작 전에 실행 중이던 주문을 원장 기록으로 정리 (다시 실행하지 않음)
+   */
+  private async reconcileOrder(order: LimitOrder): Promise<void> {
+    try {
+      const result = order.submission
+        ? await swapService.resolveSubmittedSwap(
+            { ...order.request, mode: 'exactIn' },
+            order.account,
+            order.submission
+          )
+        : undefined;
+
+      if (result) {
+        this.settleOrder(order, result);
+      } else {
+        this.closeOrder(
+          order,
+          'failed',
+          order.submission
+            ? 'Server restarted and the order transaction expired without being applied'
+            : 'Server restarted before the order swap was submitted'
+        );
+      }
+    } catch (error) {
+      this.closeOrder(
+        order,
+        'failed',
+        `Server restarted while the order was executing and its outcome could not be confirmed; check the account history (${(error as Error).message})`
+      );
+    }
+
+    log.info('Limit order interrupted execution reconciled', {
+      id: order.id,
+      status: order.status,
+      transactionHash: order.submission?.transactionHash,
+    });
+
+    await this.persist();
+  }
+
+  /**
+   * 목표가 도달 여부
+   */
+  private isTargetMet(order: LimitOrder, price: number): boolean {
+    return order.condition === 'gte'
+      ? price >= order.targetPrice
+      : price <= order.targetPrice;
+  }
+
+  /**
+   * 쌍 가격 조회 (실패 시 null)
+   */
+  private async fetchPairPrice(tokenPair: string): Promise<number | null> {
+    try {
+      const price = await priceService.getTokenPairPrice({ tokenPair });
+      return price.price;
+    } catch (error) {
+      log.warn('Limit order price fetch failed', {
+        tokenPair,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * 주문 종료 처리
+   */
+  private closeOrder(
+    order: LimitOrder,
+    status: LimitOrderStatus,
+    reason?: string
+  ): void {
+    order.status = status;
+    order.updatedAt = new Date().toISOString();
+    if (reason) {
+      order.reason = reason;
+    }
+    this.signers.delete(order.id);
+  }
+
+  /**
+   * 저장소 로드 후 감시 타이머 시작
+   */
+  private async loadOrders(): Promise<void> {
+    const orders = await this.store.load();
+    for (const order of orders) {
+      this.orders.set(order.id, order);
+    }
+
+    this.timer = setInterval(() => {
+      this.checkOrders().catch((error) => {
+        log.error('Limit order check failed', error as Error);
+      });
+    }, this.POLL_INTERVAL_MS);
+
+    const interrupted = orders.filter((order) => order.status === 'executing');
+
+    log.info('Limit order service started', {
+      orders: this.orders.size,
+      open: orders.filter((order) => order.status === 'open').length,
+      interrupted: interrupted.length,
+    });
+
+    // 원장 확인은 타임바운드 만료까지 걸릴 수 있으므로 시작을 막지 않는다
+    for (const order of interrupted) {
+      this.reconcileOrder(order).catch((error) => {
+        log.error('Limit order reconciliation failed', error as Error, {
+          id: order.id,
+        });
+      });
+    }
+  }
+
+  /**
+   * 주문 상태 저장
+   */
+  private async persist(): Promise<void> {
+    await this.store.save(Array.from(this.orders.values()));
+  }
+}
+
+/**
+ * 싱글톤 지정가 주문 서비스 인스턴스
+ */
+export const limitOrderService = new LimitOrderService();
@@ -0,0 +1,381 @@
+/**
+ * 모의 거래 (가상 잔액 장부)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { SwapError } from './errors';
+import { StellarInsufficientBalanceError } from '@/stellar/errors';
+import { paperTradingConfig } from '@/utils/config';
+import { log } from '@/utils/logger';
+import { JsonStore } from '@/utils/store';
+import { ErrorCode } from '@/types';
+import type {
+  CursorPaginatedResponse,
+  PaperAccount,
+  PaperTrade,
+  RouteQuote,
+  SwapEstimate,
+  SwapMode,
+  SwapRequest,
+  SwapResult,
+} from '@/types';
+
+/**
+ * 고정 견적 파일 스키마 ("BASE/QUOTE": BASE 1개당 QUOTE 수량)
+ */
+const FixtureQuotesSchema = z.record(
+  z.string().regex(/^[^/]+\/[^/]+$/),
+  z.number().positive()
+);
+
+/**
+ * 모의 거래 서비스 클래스
+ *
+ * 모의 거래 중에는 스왑을 서명/제출하지 않고 견적대로 계정별 가상 잔액에 체결한다.
+ * 활성화 여부는 PAPER_TRADING이 기본값이고, MCP 세션(서버 프로세스) 안에서 setEnabled로 바꿀 수 있다.
+ * PAPER_QUOTES_FILE에 있는 페어는 실시간 견적 대신 고정 환율로 체결해 네트워크 없이도 재현 가능하다.
+ */
+export class PaperTradingService {
+  private accounts: Map<string, PaperAccount> = new Map();
+  private trades: PaperTrade[] = [];
+  private fixtureQuotes: Map<string, number> = new Map();
+  private sessionEnabled: boolean | undefined;
+  private accountStore = new JsonStore<PaperAccount>('paper-accounts');
+  private tradeStore = new JsonStore<PaperTrade>('paper-trades');
+  private loadPromise: Promise<void> | undefined;
+
+  /**
+   * 가상 잔액, 체결 기록, 고정 견적 로드
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readState().catch((error) => {
+        this.loadPromise = undefined;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * 모의 거래 활성화 여부 (세션 설정이 없으면 PAPER_TRADING)
+   */
+  isEnabled(): boolean {
+    return this.sessionEnabled ?? paperTradingConfig.enabled;
+  }
+
+  /**
+   * 현재 세션의 모의 거래 전환
+   */
+  setEnabled(enabled: boolean): void {
+    this.sessionEnabled = enabled;
+    log.info('Paper trading mode changed', { enabled });
+  }
+
+  /**
+   * 고정 견적 조회 (모의 거래가 아니거나 파일에 없는 페어면 null)
+   *
+   * 역방향 페어만 있으면 역수 환율을 사용한다. 가격 영향과 수수료는 0으로 본다.
+   */
+  async getFixtureQuote(
+    request: SwapRequest,
+    mode: SwapMode
+  ): Promise<RouteQuote | null> {
+    if (!this.isEnabled()) {
+      return null;
+    }
+
+    await this.load();
+
+    const rate = this.getFixtureRate(request.fromToken, request.toToken);
+    if (rate === undefined) {
+      return null;
+    }
+
+    const fromAmount =
+      mode === 'exactOut' ? this.round(request.amount / rate) : request.amount;
+    const toAmount =
+      mode === 'exactOut' ? request.amount : this.round(request.amount * rate);
+
+    return {
+      protocol: 'sdex',
+      venue: 'stellar_dex',
+      fromAmount,
+      toAmount,
+      priceImpact: 0,
+      fee: 0,
+      path: [
+        {
+          fromToken: request.fromToken,
+          toToken: request.toToken,
+          protocol: 'sdex',
+        },
+      ],
+    };
+  }
+
+  /**
+   * 계정의 가상 잔액 (처음 조회하면 시작 잔액으로 생성)
+   */
+  async getBalances(account: string): Promise<Record<string, number>> {
+    await this.load();
+    const paperAccount = await this.getOrCreateAccount(account);
+    return { ...paperAccount.balances };
+  }
+
+  /**
+   * 견적대로 가상 잔액에 체결
+   */
+  async fill(
+    account: string,
+    request: SwapRequest,
+    estimate: SwapEstimate
+  ): Promise<SwapResult> {
+    await this.load();
+
+    const paperAccount = await this.getOrCreateAccount(account);
+    const fromToken = estimate.fromToken.toUpperCase();
+    const toToken = estimate.toToken.toUpperCase();
+    const available = paperAccount.balances[fromToken] ?? 0;
+
+    if (available < estimate.fromAmount) {
+      throw new StellarInsufficientBalanceError(
+        estimate.fromToken,
+        estimate.fromAmount.toString(),
+        available.toString(),
+        account
+      );
+    }
+
+    paperAccount.balances[fromToken] = this.round(
+      available - estimate.fromAmount
+    );
+    paperAccount.balances[toToken] = this.round(
+      (paperAccount.balances[toToken] ?? 0) + estimate.toAmount
+    );
+    paperAccount.updatedAt = new Date().toISOString();
+
+    const trade: PaperTrade = {
+      id: `paper_${randomUUID()}`,
+      account,
+      success: true,
+      fromToken: estimate.fromToken,
+      toToken: estimate.toToken,
+      fromAmount: estimate.fromAmount,
+      toAmount: estimate.toAmount,
+      mode: request.mode ?? 'exactIn',
+      actualSent: estimate.fromAmount,
+      actualReceived: estimate.toAmount,
+      realizedSlippageBps: 0,
+      fee: estimate.fee,
+      networkFee: 0,
+      simulated: true,
+      timestamp: paperAccount.updatedAt,
+    };
+
+    this.trades.push(trade);
+    await this.persist();
+
+    log.info('Paper swap filled', {
+      account,
+      tradeId: trade.id,
+      fromToken: trade.fromToken,
+      toToken: trade.toToken,
+      sent: trade.actualSent,
+      received: trade.actualReceived,
+      venue: estimate.venue,
+    });
+
+    return this.toSwapResult(trade);
+  }
+
+  /**
+   * 모의 체결 기록 조회 (최신순, cursor는 이전 페이지 마지막 기록 ID)
+   */
+  async getSwapHistory(
+    account: string,
+    limit: number = 10,
+    cursor?: string
+  ): Promise<CursorPaginatedResponse<SwapResult>> {
+    await this.load();
+
+    const trades = this.trades
+      .filter((trade) => trade.account === account)
+      .reverse();
+    const start = cursor
+      ? trades.findIndex((trade) => trade.id === cursor) + 1
+      : 0;
+    if (cursor && start === 0) {
+      throw new SwapError(
+        `Unknown paper trade cursor: ${cursor}`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const page = trades.slice(start, start + limit);
+    const hasNext = start + limit < trades.length;
+
+    return {
+      data: page.map((trade) => this.toSwapResult(trade)),
+      pagination: {
+        limit,
+        cursor,
+        nextCursor: hasNext ? page[page.length - 1]?.id : undefined,
+      },
+    };
+  }
+
+  /**
+   * 시작 잔액으로 복원하고 체결 기록 삭제 (account가 없으면 모든 모의 계정)
+   */
+  async reset(account?: string): Promise<PaperAccount[]> {
+    await this.load();
+
+    const targets = account
+      ? [await this.getOrCreateAccount(account)]
+      : Array.from(this.accounts.values());
+    const now = new Date().toISOString();
+
+    for (const paperAccount of targets) {
+      paperAccount.balances = { ...paperTradingConfig.startingBalances };
+      paperAccount.resetAt = now;
+      paperAccount.updatedAt = now;
+    }
+
+    const cleared = this.trades.length;
+    this.trades = account
+      ? this.trades.filter((trade) => trade.account !== account)
+      : [];
+    await this.persist();
+
+    log.info('Paper portfolio reset', {
+      account: account ?? 'all',
+      accounts: targets.length,
+      clearedTrades: cleared - this.trades.length,
+    });
+
+    return targets.map((paperAccount) => ({
+      ...paperAccount,
+      balances: { ...paperAccount.balances },
+    }));
+  }
+
+  /**
+   * 모의 계정 조회 또는 시작 잔액으로 생성
+   */
+  private async getOrCreateAccount(account: string): Promise<PaperAccount> {
+    const existing = this.accounts.get(account);
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const paperAccount: PaperAccount = {
+      id: account,
+      balances: { ...paperTradingConfig.startingBalances },
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.accounts.set(account, paperAccount);
+    await this.persist();
+
+    log.debug('Paper account created', {
+      account,
+      balances: paperAccount.balances,
+    });
+
+    return paperAccount;
+  }
+
+  /**
+   * 고정 환율 조회 (정방향이 없으면 역방향의 역수)
+   */
+  private getFixtureRate(
+    fromToken: string,
+    toToken: string
+  ): number | undefined {
+    const from = fromToken.toUpperCase();
+    const to = toToken.toUpperCase();
+
+    const direct = this.fixtureQuotes.get(`${from}/${to}`);
+    if (direct !== undefined) {
+      return direct;
+    }
+
+    const inverse = this.fixtureQuotes.get(`${to}/${from}`);
+    return inverse !== undefined ? 1 / inverse : undefined;
+  }
+
+  /**
+   * 저장된 장부와 고정 견적 파일 읽기
+   */
+  private async readState(): Promise<void> {
+    const [accounts, trades] = await Promise.all([
+      this.accountStore.load(),
+      this.tradeStore.load(),
+    ]);
+    this.accounts = new Map(accounts.map((account) => [account.id, account]));
+    this.trades = trades;
+
+    const filePath = paperTradingConfig.quotesFile;
+    if (filePath) {
+      try {
+        const resolved = path.resolve(filePath);
+        const raw = FixtureQuotesSchema.parse(
+          JSON.parse(await fs.readFile(resolved, 'utf8'))
+        );
+        this.fixtureQuotes = new Map(
+          Object.entries(raw).map(([pair, rate]) => [pair.toUpperCase(), rate])
+        );
+        log.info('Paper trading quotes loaded', {
+          file: resolved,
+          pairs: this.fixtureQuotes.size,
+        });
+      } catch (error) {
+        log.error('Failed to load paper trading quotes', error as Error, {
+          file: filePath,
+        });
+        throw error;
+      }
+    }
+
+    log.debug('Paper trading ledger loaded', {
+      accounts: accounts.length,
+      trades: trades.length,
+    });
+  }
+
+  /**
+   * 가상 잔액과 체결 기록 저장
+   */
+  private async persist(): Promise<void> {
+    await Promise.all([
+      this.accountStore.save(Array.from(this.accounts.values())),
+      this.tradeStore.save(this.trades),
+    ]);
+  }
+
+  /**
+   * 체결 기록을 스왑 결과로 변환 (장부 전용 필드 제외)
+   */
+  private toSwapResult(trade: PaperTrade): SwapResult {
+    const { id: _id, account: _account, ...result } = trade;
+    return result;
+  }
+
+  /**
+   * Stellar 자산 정밀도(소수점 7자리)로 반올림
+   */
+  private round(amount: number): number {
+    return Number(amount.toFixed(7));
+  }
+}
+
+/**
+ * 싱글톤 모의 거래 서비스 인스턴스
+ */
+export const paperTradingService = new PaperTradingService();
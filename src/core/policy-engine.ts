@@ -0,0 +1,719 @@
+/**
+ * 선언적 거래 정책 엔진 (JSON/YAML 정책 파일)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { load as parseYaml } from 'js-yaml';
+import { z } from 'zod';
+import { priceService } from './price-service';
+import { paperTradingService } from './paper-trading-service';
+import { spendTracker } from './spend-tracker';
+import type { SpendFilter } from './spend-tracker';
+import { PolicyViolationError } from './errors';
+import { policyConfig, spendLimitConfig } from '@/utils/config';
+import { log } from '@/utils/logger';
+import type {
+  AccountPolicyRule,
+  PolicyDecision,
+  PolicyTrade,
+  PolicyViolation,
+  PolicyViolationCode,
+  SpendLimits,
+  SpendLimitStatus,
+  SpendPeriod,
+  TokenPolicyRule,
+  TradingPolicy,
+  TradingWindow,
+} from '@/types';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const TradingWindowSchema = z
+  .object({
+    days: z.array(z.number().int().min(0).max(6)).optional(),
+    start: z.string().regex(TIME_PATTERN, 'Expected HH:MM (UTC)'),
+    end: z.string().regex(TIME_PATTERN, 'Expected HH:MM (UTC)'),
+  })
+  .strict();
+
+const TokenPolicyRuleSchema = z
+  .object({
+    maxTradeUsd: z.number().positive().optional(),
+    maxDailyVolumeUsd: z.number().positive().optional(),
+    maxWeeklyVolumeUsd: z.number().positive().optional(),
+    tradingWindows: z.array(TradingWindowSchema).optional(),
+  })
+  .strict();
+
+const AccountPolicyRuleSchema = TokenPolicyRuleSchema.extend({
+  allowedTokens: z.array(z.string().min(1)).optional(),
+  deniedTokens: z.array(z.string().min(1)).optional(),
+  allowedPairs: z
+    .array(z.string().regex(/^[^/\s]+\/[^/\s]+$/, 'Expected FROM/TO'))
+    .optional(),
+}).strict();
+
+const TradingPolicySchema = z
+  .object({
+    default: AccountPolicyRuleSchema.optional(),
+    accounts: z.record(AccountPolicyRuleSchema).optional(),
+    tokens: z.record(TokenPolicyRuleSchema).optional(),
+  })
+  .strict();
+
+/**
+ * 누적 거래량 한도 기간
+ */
+interface VolumePeriod {
+  period: SpendPeriod;
+  windowMs: number;
+  field: 'maxDailyVolumeUsd' | 'maxWeeklyVolumeUsd';
+  code: PolicyViolationCode;
+  label: string;
+}
+
+const VOLUME_PERIODS: VolumePeriod[] = [
+  {
+    period: 'daily',
+    windowMs: 24 * 60 * 60 * 1000,
+    field: 'maxDailyVolumeUsd',
+    code: 'DAILY_VOLUME_EXCEEDED',
+    label: '24h',
+  },
+  {
+    period: 'weekly',
+    windowMs: 7 * 24 * 60 * 60 * 1000,
+    field: 'maxWeeklyVolumeUsd',
+    code: 'WEEKLY_VOLUME_EXCEEDED',
+    label: '7d',
+  },
+];
+
+/**
+ * 거래 정책 엔진 클래스
+ *
+ * 계정 정책(허용/거부 토큰, 허용 페어, 거래당/24시간/7일 USD 한도, 거래 시간대)과
+ * 토큰 정책(해당 토큰이 포함된 거래의 USD 한도와 시간대)을 평가한다.
+ * 누적 거래량은 spendTracker 기록과 예약 기준이며, 토큰 정책은 계정과 무관하게 서버 전체 기준으로 집계한다.
+ * 모의 거래도 같은 정책으로 예약/기록하되 실거래 지출과는 따로 집계한다.
+ */
+export class PolicyEngine {
+  private policy: TradingPolicy = {};
+  private loadPromise: Promise<void> | undefined;
+
+  /**
+   * 정책 파일 로드 (POLICY_FILE이 없으면 빈 정책)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readPolicy().catch((error) => {
+        this.loadPromise = undefined;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * 정책 파일 다시 읽기
+   */
+  reload(): Promise<void> {
+    this.loadPromise = undefined;
+    return this.load();
+  }
+
+  /**
+   * 거래 정책 평가 (여러 거래는 하나의 요청으로 보고 거래량을 누적해 평가)
+   */
+  async evaluate(
+    publicKey: string,
+    trades: PolicyTrade[]
+  ): Promise<PolicyDecision> {
+    const values = await this.valueTrades(publicKey, trades, false);
+    return this.decide(publicKey, trades, values);
+  }
+
+  /**
+   * 평가에 필요한 정책/지출 기록 로드와 거래별 USD 가치 조회
+   *
+   * all이 false면 USD 한도가 걸린 거래만 가격을 조회한다.
+   */
+  private async valueTrades(
+    publicKey: string,
+    trades: PolicyTrade[],
+    all: boolean
+  ): Promise<Array<number | undefined>> {
+    await Promise.all([this.load(), spendTracker.load()]);
+
+    const rule = this.getAccountRule(publicKey);
+    const values: Array<number | undefined> = [];
+
+    for (const trade of trades) {
+      const limited = [
+        rule,
+        ...this.getTokenRules(trade).map((entry) => entry.rule),
+      ].some((candidate) => this.hasUsdLimit(candidate));
+
+      values.push(all || limited ? await this.valueTrade(trade) : undefined);
+    }
+
+    return values;
+  }
+
+  /**
+   * 조회된 USD 가치로 정책 판정 (동기, 현재 지출 기록과 예약 기준)
+   */
+  private decide(
+    publicKey: string,
+    trades: PolicyTrade[],
+    values: Array<number | undefined>
+  ): PolicyDecision {
+    const now = new Date();
+    const simulated = paperTradingService.isEnabled();
+    const rule = this.getAccountRule(publicKey);
+    const violations: PolicyViolation[] = [];
+    const pending: Map<string, number> = new Map();
+    let usdValue: number | undefined;
+
+    for (const [index, trade] of trades.entries()) {
+      const fromToken = trade.fromToken.toUpperCase();
+      const toToken = trade.toToken.toUpperCase();
+      const tokenRules = this.getTokenRules(trade);
+
+      for (const token of [fromToken, toToken]) {
+        if (rule.deniedTokens?.includes(token)) {
+          violations.push({
+            code: 'TOKEN_DENIED',
+            scope: 'account',
+            subject: token,
+            message: `${token} is denied for account ${publicKey}`,
+          });
+        } else if (rule.allowedTokens && !rule.allowedTokens.includes(token)) {
+          violations.push({
+            code: 'TOKEN_NOT_ALLOWED',
+            scope: 'account',
+            subject: token,
+            message: `${token} is not in the allowed token list for account ${publicKey}`,
+          });
+        }
+      }
+
+      if (
+        rule.allowedPairs &&
+        !this.isPairAllowed(rule.allowedPairs, fromToken, toToken)
+      ) {
+        violations.push({
+          code: 'PAIR_NOT_ALLOWED',
+          scope: 'account',
+          subject: `${fromToken}/${toToken}`,
+          message: `${fromToken}/${toToken} is not in the allowed pair list for account ${publicKey}`,
+        });
+      }
+
+      if (
+        rule.tradingWindows &&
+        !this.isWithinWindows(rule.tradingWindows, now)
+      ) {
+        violations.push({
+          code: 'OUTSIDE_TRADING_WINDOW',
+          scope: 'account',
+          subject: publicKey,
+          message: `Trading is outside the allowed time windows for account ${publicKey}`,
+        });
+      }
+
+      for (const { token, rule: tokenRule } of tokenRules) {
+        if (
+          tokenRule.tradingWindows &&
+          !this.isWithinWindows(tokenRule.tradingWindows, now)
+        ) {
+          violations.push({
+            code: 'OUTSIDE_TRADING_WINDOW',
+            scope: 'token',
+            subject: token,
+            message: `Trading ${token} is outside its allowed time windows`,
+          });
+        }
+      }
+
+      // USD 한도가 하나라도 걸린 거래만 가격 조회
+      const limited = [rule, ...tokenRules.map((entry) => entry.rule)].some(
+        (candidate) => this.hasUsdLimit(candidate)
+      );
+      if (!limited) {
+        continue;
+      }
+
+      const usd = values[index];
+      if (usd === undefined) {
+        violations.push({
+          code: 'PRICE_UNAVAILABLE',
+          scope: 'account',
+          subject: `${fromToken}/${toToken}`,
+          message: `USD price unavailable for ${fromToken}/${toToken}; USD limits cannot be checked`,
+        });
+        continue;
+      }
+
+      usdValue = (usdValue ?? 0) + usd;
+
+      const limits: Array<{
+        filter: SpendFilter;
+        scope: PolicyViolation['scope'];
+        subject: string;
+        rule: TokenPolicyRule;
+      }> = [
+        {
+          filter: { account: publicKey, simulated },
+          scope: 'account',
+          subject: publicKey,
+          rule,
+        },
+        ...tokenRules.map((entry) => ({
+          filter: { token: entry.token, simulated },
+          scope: 'token' as const,
+          subject: entry.token,
+          rule: entry.rule,
+        })),
+      ];
+
+      for (const limit of limits) {
+        if (
+          limit.rule.maxTradeUsd !== undefined &&
+          usd > limit.rule.maxTradeUsd
+        ) {
+          violations.push({
+            code: 'TRADE_LIMIT_EXCEEDED',
+            scope: limit.scope,
+            subject: limit.subject,
+            message: `Trade value $${usd.toFixed(2)} exceeds the $${limit.rule.maxTradeUsd} per-trade limit for ${limit.subject}`,
+            limit: limit.rule.maxTradeUsd,
+            actual: usd,
+          });
+        }
+
+        // 같은 요청의 앞선 거래도 누적에 포함
+        const pendingKey = `${limit.scope}:${limit.subject}`;
+        const pendingUsd = (pending.get(pendingKey) ?? 0) + usd;
+        pending.set(pendingKey, pendingUsd);
+
+        for (const period of VOLUME_PERIODS) {
+          const cap = limit.rule[period.field];
+          if (cap === undefined) {
+            continue;
+          }
+
+          const projected =
+            spendTracker.getSpent(
+              limit.filter,
+              period.windowMs,
+              now.getTime()
+            ) + pendingUsd;
+          if (projected > cap) {
+            violations.push({
+              code: period.code,
+              scope: limit.scope,
+              subject: limit.subject,
+              message: `${period.label} volume $${projected.toFixed(2)} would exceed the $${cap} limit for ${limit.subject}`,
+              limit: cap,
+              actual: projected,
+            });
+          }
+        }
+      }
+    }
+
+    const decision: PolicyDecision = {
+      allowed: violations.length === 0,
+      violations,
+      evaluatedAt: now.toISOString(),
+    };
+
+    if (usdValue !== undefined) {
+      decision.usdValue = usdValue;
+    }
+
+    return decision;
+  }
+
+  /**
+   * 정책 평가 후 위반 시 PolicyViolationError
+   */
+  async enforce(
+    publicKey: string,
+    trades: PolicyTrade[]
+  ): Promise<PolicyDecision> {
+    const decision = await this.evaluate(publicKey, trades);
+    this.assertAllowed(publicKey, trades, decision);
+    return decision;
+  }
+
+  /**
+   * 정책 평가 후 지출 예약 (서명 전, 위반 시 PolicyViolationError)
+   *
+   * 한도 판정과 예약을 await 없이 이어서 처리하므로 동시에 들어온 스왑이 같은 잔여 한도로 함께 통과하지 않는다.
+   * 체결되면 confirmSpend, 실패하거나 제출하지 않으면 releaseSpend를 호출해야 한다.
+   */
+  async reserveSpend(
+    publicKey: string,
+    trades: PolicyTrade[]
+  ): Promise<string> {
+    const values = await this.valueTrades(publicKey, trades, true);
+    const decision = this.decide(publicKey, trades, values);
+    this.assertAllowed(publicKey, trades, decision);
+
+    const simulated = paperTradingService.isEnabled();
+    const reservationId = spendTracker.reserve(
+      trades.flatMap((trade, index) => {
+        const usd = values[index];
+        if (usd === undefined) {
+          log.warn(
+            'Trade not counted toward spend limits, USD price unavailable',
+            {
+              publicKey,
+              fromToken: trade.fromToken,
+              toToken: trade.toToken,
+            }
+          );
+          return [];
+        }
+
+        return [
+          {
+            account: publicKey,
+            fromToken: trade.fromToken.toUpperCase(),
+            toToken: trade.toToken.toUpperCase(),
+            fromAmount: trade.fromAmount,
+            toAmount: trade.toAmount,
+            usdValue: usd,
+            ...(simulated ? { simulated } : {}),
+          },
+        ];
+      })
+    );
+
+    return reservationId;
+  }
+
+  /**
+   * 체결된 예약을 지출 기록으로 확정 (저장 실패 시 경고만 남김)
+   */
+  async confirmSpend(
+    reservationId: string,
+    transactionHash?: string
+  ): Promise<void> {
+    try {
+      await spendTracker.confirm(reservationId, transactionHash);
+    } catch (error) {
+      log.warn('Failed to record trade spend', {
+        reservationId,
+        transactionHash,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * 체결되지 않은 예약 해제
+   */
+  releaseSpend(reservationId: string): void {
+    spendTracker.release(reservationId);
+  }
+
+  /**
+   * 위반이 있으면 보안 로그를 남기고 PolicyViolationError
+   */
+  private assertAllowed(
+    publicKey: string,
+    trades: PolicyTrade[],
+    decision: PolicyDecision
+  ): void {
+    if (!decision.allowed) {
+      log.security('trading policy denied', {
+        publicKey,
+        trades,
+        violations: decision.violations,
+      });
+      throw new PolicyViolationError(decision.violations);
+    }
+  }
+
+  /**
+   * 계정에 적용되는 누적 한도와 남은 허용량 (계정 한도와 정책 파일의 토큰 한도)
+   */
+  async getLimits(publicKey: string): Promise<SpendLimits> {
+    await Promise.all([this.load(), spendTracker.load()]);
+
+    const now = Date.now();
+    const simulated = paperTradingService.isEnabled();
+    const rule = this.getAccountRule(publicKey);
+    const scopes: Array<{
+      filter: SpendFilter;
+      scope: SpendLimitStatus['scope'];
+      subject: string;
+      rule: TokenPolicyRule;
+    }> = [
+      {
+        filter: { account: publicKey, simulated },
+        scope: 'account',
+        subject: publicKey,
+        rule,
+      },
+      ...Object.entries(this.policy.tokens ?? {}).map(([token, tokenRule]) => ({
+        filter: { token, simulated },
+        scope: 'token' as const,
+        subject: token,
+        rule: tokenRule,
+      })),
+    ];
+
+    const limits: SpendLimitStatus[] = [];
+    for (const entry of scopes) {
+      for (const period of VOLUME_PERIODS) {
+        const limitUsd = entry.rule[period.field];
+        if (limitUsd === undefined) {
+          continue;
+        }
+
+        const spentUsd = spendTracker.getSpent(
+          entry.filter,
+          period.windowMs,
+          now
+        );
+        limits.push({
+          scope: entry.scope,
+          subject: entry.subject,
+          period: period.period,
+          limitUsd,
+          spentUsd,
+          remainingUsd: Math.max(0, limitUsd - spentUsd),
+        });
+      }
+    }
+
+    const result: SpendLimits = {
+      account: publicKey,
+      limits,
+      timestamp: new Date(now).toISOString(),
+    };
+
+    if (rule.maxTradeUsd !== undefined) {
+      result.maxTradeUsd = rule.maxTradeUsd;
+    }
+
+    return result;
+  }
+
+  /**
+   * 거래의 USD 가치 (지불 토큰 기준, 가격이 없으면 수령 토큰 기준)
+   */
+  async valueTrade(trade: PolicyTrade): Promise<number | undefined> {
+    const fromPrice = await priceService.getTokenPrice(trade.fromToken, false);
+    if (fromPrice && fromPrice.priceUsd > 0) {
+      return trade.fromAmount * fromPrice.priceUsd;
+    }
+
+    const toPrice = await priceService.getTokenPrice(trade.toToken, false);
+    if (toPrice && toPrice.priceUsd > 0) {
+      return trade.toAmount * toPrice.priceUsd;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 정책 파일 읽기 및 검증
+   */
+  private async readPolicy(): Promise<void> {
+    const filePath = policyConfig.filePath;
+    if (!filePath) {
+      this.policy = {};
+      return;
+    }
+
+    try {
+      const resolved = path.resolve(filePath);
+      const content = await fs.readFile(resolved, 'utf8');
+      const raw = /\.ya?ml$/i.test(resolved)
+        ? parseYaml(content)
+        : JSON.parse(content);
+
+      this.policy = this.normalize(
+        TradingPolicySchema.parse(raw ?? {}) as TradingPolicy
+      );
+
+      log.info('Trading policy loaded', {
+        file: resolved,
+        hasDefault: this.policy.default !== undefined,
+        accounts: Object.keys(this.policy.accounts ?? {}).length,
+        tokens: Object.keys(this.policy.tokens ?? {}).length,
+      });
+    } catch (error) {
+      log.error('Failed to load trading policy', error as Error, {
+        file: filePath,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 토큰 심볼과 페어를 대문자로 정규화
+   */
+  private normalize(policy: TradingPolicy): TradingPolicy {
+    const normalizeRule = (rule: AccountPolicyRule): AccountPolicyRule => {
+      const normalized: AccountPolicyRule = { ...rule };
+      if (rule.allowedTokens) {
+        normalized.allowedTokens = rule.allowedTokens.map((token) =>
+          token.toUpperCase()
+        );
+      }
+      if (rule.deniedTokens) {
+        normalized.deniedTokens = rule.deniedTokens.map((token) =>
+          token.toUpperCase()
+        );
+      }
+      if (rule.allowedPairs) {
+        normalized.allowedPairs = rule.allowedPairs.map((pair) =>
+          pair.toUpperCase()
+        );
+      }
+      return normalized;
+    };
+
+    const normalized: TradingPolicy = {};
+
+    if (policy.default) {
+      normalized.default = normalizeRule(policy.default);
+    }
+    if (policy.accounts) {
+      normalized.accounts = Object.fromEntries(
+        Object.entries(policy.accounts).map(([account, rule]) => [
+          account,
+          normalizeRule(rule),
+        ])
+      );
+    }
+    if (policy.tokens) {
+      normalized.tokens = Object.fromEntries(
+        Object.entries(policy.tokens).map(([token, rule]) => [
+          token.toUpperCase(),
+          rule,
+        ])
+      );
+    }
+
+    return normalized;
+  }
+
+  /**
+   * 계정에 적용되는 정책 (default 위에 계정 항목을 덮어쓰고 거부 토큰은 합침)
+   */
+  private getAccountRule(publicKey: string): AccountPolicyRule {
+    const base: AccountPolicyRule = {
+      ...this.getSpendLimitDefaults(),
+      ...this.policy.default,
+    };
+    const override = this.policy.accounts?.[publicKey];
+    if (!override) {
+      return base;
+    }
+
+    const merged: AccountPolicyRule = { ...base, ...override };
+    if (base.deniedTokens || override.deniedTokens) {
+      merged.deniedTokens = [
+        ...new Set([
+          ...(base.deniedTokens ?? []),
+          ...(override.deniedTokens ?? []),
+        ]),
+      ];
+    }
+    return merged;
+  }
+
+  /**
+   * 허용 페어 확인 (방향 무관)
+   */
+  private isPairAllowed(
+    allowedPairs: string[],
+    fromToken: string,
+    toToken: string
+  ): boolean {
+    return (
+      allowedPairs.includes(`${fromToken}/${toToken}`) ||
+      allowedPairs.includes(`${toToken}/${fromToken}`)
+    );
+  }
+
+  /**
+   * 현재 시각이 허용 시간대 중 하나에 속하는지 확인 (UTC, days는 0=일요일)
+   */
+  private isWithinWindows(windows: TradingWindow[], now: Date): boolean {
+    const minutes = now.getUTCHours() * 60 + now.getUTCMinutes();
+    const day = now.getUTCDay();
+
+    return windows.some((window) => {
+      if (window.days && !window.days.includes(day)) {
+        return false;
+      }
+
+      const start = this.toMinutes(window.start);
+      const end = this.toMinutes(window.end);
+
+      return start <= end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+    });
+  }
+
+  /**
+   * HH:MM을 자정 기준 분으로 변환
+   */
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours ?? 0) * 60 + (minutes ?? 0);
+  }
+
+  /**
+   * 거래의 지불/수령 토큰에 걸린 토큰 정책
+   */
+  private getTokenRules(
+    trade: PolicyTrade
+  ): Array<{ token: string; rule: TokenPolicyRule }> {
+    return [trade.fromToken.toUpperCase(), trade.toToken.toUpperCase()]
+      .map((token) => ({ token, rule: this.policy.tokens?.[token] }))
+      .filter(
+        (entry): entry is { token: string; rule: TokenPolicyRule } =>
+          entry.rule !== undefined
+      );
+  }
+
+  /**
+   * USD 한도 설정 여부
+   */
+  private hasUsdLimit(rule: TokenPolicyRule): boolean {
+    return (
+      rule.maxTradeUsd !== undefined ||
+      VOLUME_PERIODS.some((period) => rule[period.field] !== undefined)
+    );
+  }
+
+  /**
+   * 환경 변수 계정 지출 한도 (정책 파일의 계정 한도가 없을 때 적용)
+   */
+  private getSpendLimitDefaults(): AccountPolicyRule {
+    const defaults: AccountPolicyRule = {};
+    if (spendLimitConfig.dailyUsd !== undefined) {
+      defaults.maxDailyVolumeUsd = spendLimitConfig.dailyUsd;
+    }
+    if (spendLimitConfig.weeklyUsd !== undefined) {
+      defaults.maxWeeklyVolumeUsd = spendLimitConfig.weeklyUsd;
+    }
+    return defaults;
+  }
+}
+
+/**
+ * 싱글톤 거래 정책 엔진 인스턴스
+ */
+export const policyEngine = new PolicyEngine();
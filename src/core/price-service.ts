@@ -2,9 +2,17 @@
  * 가격 조회 서비스
  */
 
-import { soroswapClient, SoroswapPrice, SoroswapAPIError } from '@/soroswap/client';
+import {
+  soroswapClient,
+  SoroswapPrice,
+  SoroswapAPIError,
+} from '@/soroswap/client';
 import { log } from '@/utils/logger';
-import { parseTokenPair, formatTokenPair, isSupportedToken } from '@/stellar/utils';
+import {
+  parseTokenPair,
+  formatTokenPair,
+  isSupportedToken,
+} from '@/stellar/utils';
 import type { TokenPrice, PriceRequest } from '@/types';
 
 /**
@@ -30,11 +38,11 @@ export class PriceService {
   async getTokenPairPrice(request: PriceRequest): Promise<TokenPrice> {
     try {
       const { fromToken, toToken } = parseTokenPair(request.tokenPair);
-      
-      log.debug('Getting token pair price', { 
-        fromToken, 
+
+      log.debug('Getting token pair price', {
+        fromToken,
         toToken,
-        includeChange: request.includeChange 
+        includeChange: request.includeChange,
       });
 
       // 지원되는 토큰인지 확인
@@ -45,28 +53,32 @@ export class PriceService {
       // 캐시에서 조회
       const cacheKey = `${fromToken}-${toToken}`;
       const cached = this.getCachedPrice(cacheKey);
-      
+
       if (cached) {
         log.debug('Price found in cache', { tokenPair: request.tokenPair });
         return cached;
       }
 
       // Soroswap API에서 가격 조회
-      const price = await this.fetchPriceFromAPI(fromToken, toToken, request.includeChange);
-      
+      const price = await this.fetchPriceFromAPI(
+        fromToken,
+        toToken,
+        request.includeChange
+      );
+
       // 캐시에 저장
       this.setCachedPrice(cacheKey, price);
-      
-      log.info('Token pair price retrieved', { 
+
+      log.info('Token pair price retrieved', {
         tokenPair: request.tokenPair,
         price: price.price,
-        priceUsd: price.priceUsd 
+        priceUsd: price.priceUsd,
       });
 
       return price;
     } catch (error) {
-      log.error('Failed to get token pair price', error as Error, { 
-        tokenPair: request.tokenPair 
+      log.error('Failed to get token pair price', error as Error, {
+        tokenPair: request.tokenPair,
       });
       throw error;
     }
@@ -75,7 +87,10 @@ export class PriceService {
   /**
    * 단일 토큰 가격 조회
    */
-  async getTokenPrice(symbol: string, includeChange: boolean = true): Promise<TokenPrice | null> {
+  async getTokenPrice(
+    symbol: string,
+    includeChange: boolean = true
+  ): Promise<TokenPrice | null> {
     try {
       log.debug('Getting token price', { symbol, includeChange });
 
@@ -87,7 +102,7 @@ export class PriceService {
       // 캐시에서 조회
       const cacheKey = `single-${symbol}`;
       const cached = this.getCachedPrice(cacheKey);
-      
+
       if (cached) {
         log.debug('Token price found in cache', { symbol });
         return cached;
@@ -95,7 +110,7 @@ export class PriceService {
 
       // Soroswap API에서 조회
       const soroswapPrice = await soroswapClient.getTokenPrice(symbol);
-      
+
       if (!soroswapPrice) {
         log.warn('Token price not found', { symbol });
         return null;
@@ -103,24 +118,24 @@ export class PriceService {
 
       // 내부 형식으로 변환
       const price = this.convertSoroswapPrice(soroswapPrice);
-      
+
       // 캐시에 저장
       this.setCachedPrice(cacheKey, price);
-      
-      log.info('Token price retrieved', { 
+
+      log.info('Token price retrieved', {
         symbol,
         price: price.price,
-        priceUsd: price.priceUsd 
+        priceUsd: price.priceUsd,
       });
 
       return price;
     } catch (error) {
       log.error('Failed to get token price', error as Error, { symbol });
-      
+
       if (error instanceof SoroswapAPIError) {
         return null; // API 에러의 경우 null 반환
       }
-      
+
       throw error;
     }
   }
@@ -134,18 +149,18 @@ export class PriceService {
 
       // Soroswap API에서 모든 가격 조회
       const soroswapPrices = await soroswapClient.getAllPrices();
-      
+
       // 내부 형식으로 변환
-      const prices = soroswapPrices.map(sp => this.convertSoroswapPrice(sp));
-      
+      const prices = soroswapPrices.map((sp) => this.convertSoroswapPrice(sp));
+
       // 각 가격을 캐시에 저장
-      prices.forEach(price => {
+      prices.forEach((price) => {
         const cacheKey = `single-${price.symbol}`;
         this.setCachedPrice(cacheKey, price);
       });
 
       log.info('All token prices retrieved', { count: prices.length });
-      
+
       return prices;
     } catch (error) {
       log.error('Failed to get all prices', error as Error);
@@ -156,7 +171,10 @@ export class PriceService {
   /**
    * 가격 변동률 조회
    */
-  async getPriceChange(symbol: string, period: '1h' | '24h' | '7d' = '24h'): Promise<{
+  async getPriceChange(
+    symbol: string,
+    period: '1h' | '24h' | '7d' = '24h'
+  ): Promise<{
     symbol: string;
     currentPrice: number;
     previousPrice: number;
@@ -166,18 +184,21 @@ export class PriceService {
   } | null> {
     try {
       const price = await this.getTokenPrice(symbol, true);
-      
+
       if (!price) {
         return null;
       }
 
       // 24시간 변동률만 지원 (현재 Soroswap API 기준)
       if (period !== '24h') {
-        log.warn('Only 24h price change is currently supported', { symbol, period });
+        log.warn('Only 24h price change is currently supported', {
+          symbol,
+          period,
+        });
       }
 
       const previousPrice = price.priceUsd - price.priceChange24h;
-      
+
       return {
         symbol: price.symbol,
         currentPrice: price.priceUsd,
@@ -187,7 +208,10 @@ export class PriceService {
         period: '24h',
       };
     } catch (error) {
-      log.error('Failed to get price change', error as Error, { symbol, period });
+      log.error('Failed to get price change', error as Error, {
+        symbol,
+        period,
+      });
       return null;
     }
   }
@@ -206,33 +230,35 @@ export class PriceService {
       log.debug('Getting market summary');
 
       const allPrices = await this.getAllPrices();
-      
-      const totalMarketCap = allPrices.reduce((sum, price) => 
-        sum + (price.marketCap || 0), 0
+
+      const totalMarketCap = allPrices.reduce(
+        (sum, price) => sum + (price.marketCap || 0),
+        0
       );
-      
-      const totalVolume24h = allPrices.reduce((sum, price) => 
-        sum + price.volume24h, 0
+
+      const totalVolume24h = allPrices.reduce(
+        (sum, price) => sum + price.volume24h,
+        0
       );
 
       // 상위 5개 상승/하락 토큰
       const sortedByChange = allPrices
-        .filter(p => p.priceChangePercentage24h !== undefined)
-        .sort((a, b) => b.priceChangePercentage24h - a.priceChangePercentage24h);
-
-      const topGainers = sortedByChange
-        .slice(0, 5)
-        .map(p => ({ 
-          symbol: p.symbol, 
-          changePercent: p.priceChangePercentage24h 
-        }));
+        .filter((p) => p.priceChangePercentage24h !== undefined)
+        .sort(
+          (a, b) => b.priceChangePercentage24h - a.priceChangePercentage24h
+        );
+
+      const topGainers = sortedByChange.slice(0, 5).map((p) => ({
+        symbol: p.symbol,
+        changePercent: p.priceChangePercentage24h,
+      }));
 
       const topLosers = sortedByChange
         .slice(-5)
         .reverse()
-        .map(p => ({ 
-          symbol: p.symbol, 
-          changePercent: p.priceChangePercentage24h 
+        .map((p) => ({
+          symbol: p.symbol,
+          changePercent: p.priceChangePercentage24h,
         }));
 
       const summary = {
@@ -244,7 +270,7 @@ export class PriceService {
       };
 
       log.info('Market summary retrieved', summary);
-      
+
       return summary;
     } catch (error) {
       log.error('Failed to get market summary', error as Error);
@@ -256,13 +282,13 @@ export class PriceService {
    * 가격 히스토리 조회 (단순 구현)
    */
   async getPriceHistory(
-    symbol: string, 
+    symbol: string,
     period: '1h' | '24h' | '7d' = '24h'
   ): Promise<Array<{ timestamp: number; price: number }>> {
     try {
       // 현재는 단순히 현재 가격만 반환 (실제 구현에서는 히스토리 API 필요)
       const currentPrice = await this.getTokenPrice(symbol);
-      
+
       if (!currentPrice) {
         return [];
       }
@@ -275,7 +301,10 @@ export class PriceService {
         },
       ];
     } catch (error) {
-      log.error('Failed to get price history', error as Error, { symbol, period });
+      log.error('Failed to get price history', error as Error, {
+        symbol,
+        period,
+      });
       return [];
     }
   }
@@ -285,7 +314,7 @@ export class PriceService {
    */
   private getCachedPrice(key: string): TokenPrice | null {
     const entry = this.priceCache.get(key);
-    
+
     if (!entry) {
       return null;
     }
@@ -326,15 +355,15 @@ export class PriceService {
    * Soroswap API에서 토큰 쌍 가격 조회
    */
   private async fetchPriceFromAPI(
-    fromToken: string, 
-    toToken: string, 
+    fromToken: string,
+    toToken: string,
     _includeChange?: boolean
   ): Promise<TokenPrice> {
     // 기본 토큰(일반적으로 USDC)에 대한 가격 조회
     const baseToken = 'USDC';
-    
+
     let fromPrice = 1; // USD 기준
-    let toPrice = 1;   // USD 기준
+    let toPrice = 1; // USD 기준
 
     // fromToken이 기본 토큰이 아닌 경우 USD 가격 조회
     if (fromToken !== baseToken) {
@@ -375,7 +404,8 @@ export class PriceService {
       price: soroswapPrice.price,
       priceUsd: soroswapPrice.priceUsd,
       priceChange24h: soroswapPrice.change24h,
-      priceChangePercentage24h: (soroswapPrice.change24h / soroswapPrice.priceUsd) * 100,
+      priceChangePercentage24h:
+        (soroswapPrice.change24h / soroswapPrice.priceUsd) * 100,
       volume24h: soroswapPrice.volume24h,
       marketCap: soroswapPrice.marketCap,
       lastUpdated: soroswapPrice.lastUpdated,
@@ -436,12 +466,13 @@ export class PriceService {
   }> {
     try {
       const apiStatus = await soroswapClient.testConnection();
-      
+
       // 최근 캐시 업데이트 시간 확인
       let lastUpdate: string | null = null;
       if (this.priceCache.size > 0) {
-        const timestamps = Array.from(this.priceCache.values())
-          .map(entry => entry.timestamp);
+        const timestamps = Array.from(this.priceCache.values()).map(
+          (entry) => entry.timestamp
+        );
         const latestTimestamp = Math.max(...timestamps);
         lastUpdate = new Date(latestTimestamp).toISOString();
       }
@@ -461,4 +492,4 @@ export class PriceService {
 /**
  * 싱글톤 가격 서비스 인스턴스
  */
-export const priceService = new PriceService();
\ No newline at end of file
+export const priceService = new PriceService();
@@ -0,0 +1,583 @@
+/**
+ * 손절(stop-loss)/익절(take-profit) 주문 서비스
+ */
+
+import { randomUUID } from 'crypto';
+import { Keypair } from 'stellar-sdk';
+import { swapService } from './swap-service';
+import { priceService } from './price-service';
+import { SwapError } from './errors';
+import { soroswapClient } from '@/soroswap/client';
+import { isSupportedToken } from '@/stellar/utils';
+import { log } from '@/utils/logger';
+import { notifier } from '@/utils/notifier';
+import { JsonStore } from '@/utils/store';
+import { securityConfig, stellarConfig } from '@/utils/config';
+import { ErrorCode } from '@/types';
+import type {
+  SwapRequest,
+  SwapResult,
+  ProtectiveOrder,
+  ProtectiveOrderType,
+  ProtectiveOrderStatus,
+} from '@/types';
+
+/**
+ * 손절/익절 주문 생성 옵션
+ */
+export interface ProtectiveOrderOptions {
+  type: ProtectiveOrderType;
+  token: string;
+  exitToken: string;
+  amount: number;
+  triggerPriceUsd: number;
+  slippage?: number;
+  hysteresisPercent?: number;
+  confirmations?: number;
+  minLiquidityUsd?: number;
+  accountSecret?: string;
+}
+
+/**
+ * 손절/익절 주문 서비스 클래스
+ *
+ * 보유 토큰의 USD 가격을 주기적으로 확인해 임계가를 넘으면 exitToken으로 매도한다.
+ * 연속 확인 횟수와 히스테리시스 구간으로 일시적인 가격 튐에 발동하지 않도록 한다.
+ * 발동한 주문은 스왑 전에 triggered로 저장하고, 결과 없이 triggered인 주문은 재시작 시
+ * 다시 실행하지 않고 기록된 트랜잭션 해시로 원장 반영 여부를 확인해 정리한다.
+ */
+export class ProtectiveOrderService {
+  private orders: Map<string, ProtectiveOrder> = new Map();
+  private signers: Map<string, string> = new Map();
+  private store = new JsonStore<ProtectiveOrder>('protective-orders');
+  private timer: NodeJS.Timeout | undefined;
+  private checking = false;
+  private startPromise: Promise<void> | undefined;
+  private readonly POLL_INTERVAL_MS = 30 * 1000;
+  private readonly DEFAULT_HYSTERESIS_PERCENT = 1.0;
+  private readonly DEFAULT_CONFIRMATIONS = 3;
+  private readonly DEFAULT_MIN_LIQUIDITY_USD = 10000;
+
+  /**
+   * 저장된 주문 로드 및 가격 감시 시작
+   */
+  start(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = this.loadOrders().catch((error) => {
+        this.startPromise = undefined;
+        throw error;
+      });
+    }
+    return this.startPromise;
+  }
+
+  /**
+   * 가격 감시 중지
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.startPromise = undefined;
+  }
+
+  /**
+   * 손절/익절 주문 생성
+   */
+  async placeOrder(options: ProtectiveOrderOptions): Promise<ProtectiveOrder> {
+    await this.start();
+
+    const token = options.token.toUpperCase();
+    const exitToken = options.exitToken.toUpperCase();
+
+    if (
+      !isSupportedToken(token) ||
+      !isSupportedToken(exitToken) ||
+      token === exitToken
+    ) {
+      throw new SwapError(
+        `Unsupported token pair: ${token}/${exitToken}`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    if (
+      options.amount < securityConfig.minAmount ||
+      options.amount > securityConfig.maxAmount
+    ) {
+      throw new SwapError(
+        `Amount must be between ${securityConfig.minAmount} and ${securityConfig.maxAmount}`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    if (!(options.triggerPriceUsd > 0)) {
+      throw new SwapError(
+        'Trigger price must be greater than 0',
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const hysteresisPercent =
+      options.hysteresisPercent ?? this.DEFAULT_HYSTERESIS_PERCENT;
+    if (hysteresisPercent < 0 || hysteresisPercent > 50) {
+      throw new SwapError(
+        'Hysteresis must be between 0 and 50 percent',
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const confirmations = Math.floor(
+      options.confirmations ?? this.DEFAULT_CONFIRMATIONS
+    );
+    if (confirmations < 1) {
+      throw new SwapError(
+        'Confirmations must be at least 1',
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const accountSecret =
+      options.accountSecret || stellarConfig.defaultAccountSecret;
+    if (!accountSecret) {
+      throw new SwapError(
+        'No account secret provided for protective order',
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    // 승인 대기로 보류할 수 없으므로 승인이 필요한 금액은 등록 시 거부
+    await swapService.rejectIfScheduledApprovalRequired({
+      fromToken: token,
+      toToken: exitToken,
+      amount: options.amount,
+      slippage: options.slippage ?? 1.0,
+      mode: 'exactIn',
+    });
+
+    const now = new Date().toISOString();
+    const order: ProtectiveOrder = {
+      id: `${options.type === 'stop_loss' ? 'sl' : 'tp'}_${randomUUID()}`,
+      type: options.type,
+      account: Keypair.fromSecret(accountSecret).publicKey(),
+      usesDefaultAccount: !options.accountSecret,
+      token,
+      exitToken,
+      amount: options.amount,
+      slippage: options.slippage ?? 1.0,
+      triggerPriceUsd: options.triggerPriceUsd,
+      hysteresisPercent,
+      confirmations,
+      minLiquidityUsd:
+        options.minLiquidityUsd ?? this.DEFAULT_MIN_LIQUIDITY_USD,
+      status: 'active',
+      breachCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (options.accountSecret) {
+      this.signers.set(order.id, options.accountSecret);
+    }
+
+    this.orders.set(order.id, order);
+    await this.persist();
+
+    log.info('Protective order placed', {
+      id: order.id,
+      type: order.type,
+      token,
+      exitToken,
+      amount: order.amount,
+      triggerPriceUsd: order.triggerPriceUsd,
+    });
+
+    return order;
+  }
+
+  /**
+   * 주문 목록 조회
+   */
+  async listOrders(
+    filter: { account?: string; status?: ProtectiveOrderStatus } = {}
+  ): Promise<ProtectiveOrder[]> {
+    await this.start();
+    return Array.from(this.orders.values()).filter(
+      (order) =>
+        (!filter.account || order.account === filter.account) &&
+        (!filter.status || order.status === filter.status)
+    );
+  }
+
+  /**
+   * 주문 취소
+   */
+  async cancelOrder(id: string): Promise<ProtectiveOrder> {
+    await this.start();
+
+    const order = this.orders.get(id);
+    if (!order) {
+      throw new SwapError(
+        `Protective order not found: ${id}`,
+        ErrorCode.NOT_FOUND
+      );
+    }
+
+    if (order.status !== 'active') {
+      throw new SwapError(
+        `Protective order ${id} is already ${order.status}`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    this.closeOrder(order, 'cancelled');
+    await this.persist();
+
+    log.info('Protective order cancelled', { id });
+    return order;
+  }
+
+  /**
+   * 활성 주문의 가격 조건 확인 및 실행
+   */
+  async checkOrders(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+
+    this.checking = true;
+
+    try {
+      const active = Array.from(this.orders.values()).filter(
+        (order) => order.status === 'active'
+      );
+      const prices: Map<string, number | null> = new Map();
+
+      for (const order of active) {
+        if (!prices.has(order.token)) {
+          prices.set(order.token, await this.fetchUsdPrice(order.token));
+        }
+
+        const price = prices.get(order.token);
+        if (price === null || price === undefined) {
+          continue;
+        }
+
+        order.lastPriceUsd = price;
+        order.lastCheckedAt = new Date().toISOString();
+        this.updateBreachCount(order, price);
+
+        if (order.breachCount >= order.confirmations) {
+          await this.triggerOrder(order, price);
+        }
+      }
+
+      if (active.length > 0) {
+        await this.persist();
+      }
+    } catch (error) {
+      log.error('Protective order check failed', error as Error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * 연속 임계가 돌파 횟수 갱신
+   *
+   * 임계가를 넘으면 증가하고, 히스테리시스 구간 밖으로 되돌아가야만 초기화된다.
+   */
+  private updateBreachCount(order: ProtectiveOrder, price: number): void {
+    const band = order.triggerPriceUsd * (order.hysteresisPercent / 100);
+
+    if (order.type === 'stop_loss') {
+      if (price <= order.triggerPriceUsd) {
+        order.breachCount += 1;
+      } else if (price > order.triggerPriceUsd + band) {
+        order.breachCount = 0;
+      }
+    } else if (price >= order.triggerPriceUsd) {
+      order.breachCount += 1;
+    } else if (price < order.triggerPriceUsd - band) {
+      order.breachCount = 0;
+    }
+  }
+
+  /**
+   * 발동 조건을 만족한 주문 실행
+   */
+  private async triggerOrder(
+    order: ProtectiveOrder,
+    price: number
+  ): Promise<void> {
+    const liquidity = await this.fetchPairLiquidity(
+      order.token,
+      order.exitToken
+    );
+
+    if (liquidity === null || liquidity < order.minLiquidityUsd) {
+      order.reason =
+        liquidity === null
+          ? 'Pool liquidity unavailable'
+          : `Pool liquidity ${liquidity} USD is below minimum ${order.minLiquidityUsd} USD`;
+      log.warn('Protective order held back by liquidity check', {
+        id: order.id,
+        liquidity,
+        minLiquidityUsd: order.minLiquidityUsd,
+      });
+      return;
+    }
+
+    // 가격/유동성 조회 중 취소되었으면 매도하지 않음 (이후 발동 상태 저장까지 await 없음)
+    if (order.status !== 'active') {
+      log.info('Protective order changed before trigger, not executing', {
+        id: order.id,
+        status: order.status,
+      });
+      return;
+    }
+
+    const swapRequest: SwapRequest = {
+      fromToken: order.token,
+      toToken: order.exitToken,
+      amount: order.amount,
+      slippage: order.slippage,
+      mode: 'exactIn',
+    };
+
+    if (!order.usesDefaultAccount) {
+      const accountSecret = this.signers.get(order.id);
+      if (!accountSecret) {
+        this.closeOrder(
+          order,
+          'failed',
+          'Signer secret is not available after restart'
+        );
+        await this.notifyTriggered(order, price);
+        return;
+      }
+      swapRequest.accountSecret = accountSecret;
+    }
+
+    log.info('Protective order triggered', {
+      id: order.id,
+      type: order.type,
+      priceUsd: price,
+      triggerPriceUsd: order.triggerPriceUsd,
+      breachCount: order.breachCount,
+    });
+
+    // 체결 여부를 알 수 없는 재시작에 대비해 발동 상태와 트랜잭션 해시를 먼저 저장
+    order.status = 'triggered';
+    order.triggeredAt = new Date().toISOString();
+    order.triggeredPriceUsd = price;
+    order.updatedAt = order.triggeredAt;
+    await this.persist();
+
+    try {
+      const result = await swapService.executeSwap(swapRequest, {
+        scheduled: true,
+        onSubmit: async (submission) => {
+          order.submission = submission;
+          await this.persist();
+        },
+      });
+      this.settleOrder(order, result);
+    } catch (error) {
+      this.closeOrder(order, 'failed', (error as Error).message);
+      log.error('Protective order execution failed', error as Error, {
+        id: order.id,
+      });
+    }
+
+    await this.notifyTriggered(order, price);
+  }
+
+  /**
+   * 스왑 결과로 주문 종료
+   */
+  private settleOrder(order: ProtectiveOrder, result: SwapResult): void {
+    order.result = result;
+
+    if (result.success) {
+      this.closeOrder(order, 'triggered');
+    } else {
+      this.closeOrder(order, 'failed', result.error);
+    }
+  }
+
+  /**
+   * 재시작 전에 발동해 스왑 중이던 주문을 원장 기록으로 정리 (다시 실행하지 않음)
+   */
+  private async reconcileOrder(order: ProtectiveOrder): Promise<void> {
+    try {
+      const result = order.submission
+        ? await swapService.resolveSubmittedSwap(
+            {
+              fromToken: order.token,
+              toToken: order.exitToken,
+              amount: order.amount,
+              slippage: order.slippage,
+              mode: 'exactIn',
+            },
+            order.account,
+            order.submission
+          )
+        : undefined;
+
+      if (result) {
+        this.settleOrder(order, result);
+      } else {
+        this.closeOrder(
+          order,
+          'failed',
+          order.submission
+            ? 'Server restarted and the exit transaction expired without being applied'
+            : 'Server restarted before the exit swap was submitted'
+        );
+      }
+    } catch (error) {
+      this.closeOrder(
+        order,
+        'failed',
+        `Server restarted while the exit swap was executing and its outcome could not be confirmed; check the account history (${(error as Error).message})`
+      );
+    }
+
+    log.info('Protective order interrupted execution reconciled', {
+      id: order.id,
+      status: order.status,
+      transactionHash: order.submission?.transactionHash,
+    });
+
+    await this.persist();
+    await this.notifyTriggered(order, order.triggeredPriceUsd ?? 0);
+  }
+
+  /**
+   * 발동 알림 전송
+   */
+  private async notifyTriggered(
+    order: ProtectiveOrder,
+    price: number
+  ): Promise<void> {
+    const label = order.type === 'stop_loss' ? 'Stop-loss' : 'Take-profit';
+
+    await notifier.notify({
+      title: `${label} ${order.status === 'triggered' ? 'executed' : 'failed'}: ${order.token}`,
+      message: `${order.token} reached ${price} USD (trigger ${order.triggerPriceUsd} USD)`,
+      fields: {
+        orderId: order.id,
+        account: order.account,
+        amount: order.amount,
+        exitToken: order.exitToken,
+        received: order.result?.actualReceived,
+        transactionHash: order.result?.transactionHash,
+        error: order.reason,
+      },
+    });
+  }
+
+  /**
+   * 토큰 USD 가격 조회 (실패 시 null)
+   */
+  private async fetchUsdPrice(token: string): Promise<number | null> {
+    try {
+      const price = await priceService.getTokenPrice(token, false);
+      return price ? price.priceUsd : null;
+    } catch (error) {
+      log.warn('Protective order price fetch failed', {
+        token,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * 매도 쌍의 풀 유동성(USD) 조회 (실패 시 null)
+   */
+  private async fetchPairLiquidity(
+    token: string,
+    exitToken: string
+  ): Promise<number | null> {
+    try {
+      const stats = await soroswapClient.getPairStats(token, exitToken);
+      const liquidity = parseFloat(stats.liquidity);
+      return Number.isFinite(liquidity) ? liquidity : null;
+    } catch (error) {
+      log.warn('Protective order liquidity fetch failed', {
+        token,
+        exitToken,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * 주문 종료 처리
+   */
+  private closeOrder(
+    order: ProtectiveOrder,
+    status: ProtectiveOrderStatus,
+    reason?: string
+  ): void {
+    order.status = status;
+    order.updatedAt = new Date().toISOString();
+    if (reason) {
+      order.reason = reason;
+    } else {
+      delete order.reason;
+    }
+    this.signers.delete(order.id);
+  }
+
+  /**
+   * 저장소 로드 후 감시 타이머 시작
+   */
+  private async loadOrders(): Promise<void> {
+    const orders = await this.store.load();
+    for (const order of orders) {
+      this.orders.set(order.id, order);
+    }
+
+    this.timer = setInterval(() => {
+      this.checkOrders().catch((error) => {
+        log.error('Protective order check failed', error as Error);
+      });
+    }, this.POLL_INTERVAL_MS);
+
+    const interrupted = orders.filter(
+      (order) => order.status === 'triggered' && !order.result
+    );
+
+    log.info('Protective order service started', {
+      orders: this.orders.size,
+      active: orders.filter((order) => order.status === 'active').length,
+      interrupted: interrupted.length,
+    });
+
+    // 원장 확인은 타임바운드 만료까지 걸릴 수 있으므로 시작을 막지 않는다
+    for (const order of interrupted) {
+      this.reconcileOrder(order).catch((error) => {
+        log.error('Protective order reconciliation failed', error as Error, {
+          id: order.id,
+        });
+      });
+    }
+  }
+
+  /**
+   * 주문 상태 저장
+   */
+  private async persist(): Promise<void> {
+    await this.store.save(Array.from(this.orders.values()));
+  }
+}
+
+/**
+ * 싱글톤 손절/익절 주문 서비스 인스턴스
+ */
+export const protectiveOrderService = new ProtectiveOrderService();
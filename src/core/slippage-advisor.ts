@@ -0,0 +1,206 @@
+/**
+ * 슬리피지 허용치 추천 (풀 깊이와 견적 가격 영향 기반)
+ */
+
+import { soroswapClient } from '@/soroswap/client';
+import type { SoroswapPair } from '@/soroswap/client';
+import { securityConfig } from '@/utils/config';
+import { log } from '@/utils/logger';
+import type {
+  SlippageRecommendation,
+  SwapEstimate,
+  SwapRequest,
+} from '@/types';
+
+/**
+ * 풀 데이터 캐시 엔트리
+ */
+interface PoolCacheEntry {
+  pool: SoroswapPair | null;
+  turnover24h: number | undefined;
+  expiresAt: number;
+}
+
+/**
+ * 슬리피지 추천 클래스
+ *
+ * 견적 시점과 체결 시점 사이의 가격 변동 여지를 거래 규모가 풀에서 차지하는 비중,
+ * 견적 가격 영향, 최근 24시간 거래 회전율로 추정해 허용치를 정한다.
+ */
+export class SlippageAdvisor {
+  private poolCache: Map<string, PoolCacheEntry> = new Map();
+  private readonly CACHE_TTL_MS = 30 * 1000;
+  private readonly MIN_SLIPPAGE = 0.1;
+  private readonly BASE_BUFFER = 0.3;
+  private readonly IMPACT_WEIGHT = 0.5;
+  private readonly POOL_SHARE_WEIGHT = 0.5;
+  private readonly TURNOVER_WEIGHT = 0.25;
+  private readonly MAX_TURNOVER = 2;
+  private readonly UNKNOWN_DEPTH_BUFFER = 0.5;
+  private readonly STEP = 0.05;
+
+  /**
+   * 거래별 슬리피지 허용치 추천 (풀 조회 실패 시 가격 영향만으로 보수적으로 추천)
+   */
+  async recommend(
+    request: SwapRequest,
+    estimate: SwapEstimate
+  ): Promise<SlippageRecommendation> {
+    const reasons: string[] = [
+      `Base buffer of ${this.BASE_BUFFER}% for price movement before inclusion`,
+    ];
+    let slippage = this.BASE_BUFFER;
+
+    const impactBuffer = estimate.priceImpact * this.IMPACT_WEIGHT;
+    if (impactBuffer > 0) {
+      slippage += impactBuffer;
+      reasons.push(
+        `Quoted price impact ${estimate.priceImpact.toFixed(2)}% adds ${impactBuffer.toFixed(2)}%`
+      );
+    }
+
+    const { pool, turnover24h } = await this.getPoolData(
+      request.fromToken,
+      request.toToken
+    );
+
+    // 수량 기준 토큰(exactIn은 fromToken, exactOut은 toToken)의 준비금 대비 거래 비중
+    const amountToken =
+      estimate.mode === 'exactOut' ? request.toToken : request.fromToken;
+    const reserve = pool ? this.getReserve(pool, amountToken) : undefined;
+    let poolShare: number | undefined;
+
+    if (reserve !== undefined && reserve > 0) {
+      poolShare = (request.amount / reserve) * 100;
+      const depthBuffer = poolShare * this.POOL_SHARE_WEIGHT;
+      slippage += depthBuffer;
+      reasons.push(
+        `Trade is ${poolShare.toFixed(2)}% of the ${amountToken} pool reserve, adds ${depthBuffer.toFixed(2)}%`
+      );
+    } else {
+      slippage += this.UNKNOWN_DEPTH_BUFFER;
+      reasons.push(
+        `Pool reserves unavailable, adds ${this.UNKNOWN_DEPTH_BUFFER}% for unknown depth`
+      );
+    }
+
+    if (turnover24h !== undefined && turnover24h > 0) {
+      const turnoverBuffer =
+        Math.min(turnover24h, this.MAX_TURNOVER) * this.TURNOVER_WEIGHT;
+      slippage += turnoverBuffer;
+      reasons.push(
+        `24h volume is ${turnover24h.toFixed(2)}x pool liquidity, adds ${turnoverBuffer.toFixed(2)}%`
+      );
+    }
+
+    const rounded = Math.ceil(slippage / this.STEP) * this.STEP;
+    const recommended = Math.min(
+      Math.max(rounded, this.MIN_SLIPPAGE),
+      securityConfig.maxSlippage
+    );
+
+    if (rounded > securityConfig.maxSlippage) {
+      reasons.push(
+        `Capped at the configured maximum slippage of ${securityConfig.maxSlippage}%`
+      );
+    }
+
+    const recommendation: SlippageRecommendation = {
+      slippage: Number(recommended.toFixed(2)),
+      applied: false,
+      priceImpact: estimate.priceImpact,
+      reasons,
+    };
+
+    if (poolShare !== undefined) {
+      recommendation.poolShare = poolShare;
+    }
+    if (turnover24h !== undefined) {
+      recommendation.turnover24h = turnover24h;
+    }
+
+    log.debug('Slippage recommended', {
+      fromToken: request.fromToken,
+      toToken: request.toToken,
+      amount: request.amount,
+      slippage: recommendation.slippage,
+    });
+
+    return recommendation;
+  }
+
+  /**
+   * 풀 준비금과 24시간 회전율(거래량 / 유동성) 조회 (캐시)
+   */
+  private async getPoolData(
+    fromToken: string,
+    toToken: string
+  ): Promise<{ pool: SoroswapPair | null; turnover24h: number | undefined }> {
+    const key = [fromToken, toToken]
+      .map((token) => token.toUpperCase())
+      .sort()
+      .join('/');
+    const cached = this.poolCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const [poolResult, statsResult] = await Promise.allSettled([
+      soroswapClient.getPool(fromToken, toToken),
+      soroswapClient.getPairStats(fromToken, toToken),
+    ]);
+
+    let pool: SoroswapPair | null = null;
+    if (poolResult.status === 'fulfilled') {
+      pool = poolResult.value;
+    } else {
+      log.debug('Pool reserves unavailable for slippage advice', {
+        fromToken,
+        toToken,
+        error: (poolResult.reason as Error).message,
+      });
+    }
+
+    let turnover24h: number | undefined;
+    if (statsResult.status === 'fulfilled') {
+      const volume = parseFloat(statsResult.value.volume24h);
+      const liquidity = parseFloat(statsResult.value.liquidity);
+      if (
+        Number.isFinite(volume) &&
+        Number.isFinite(liquidity) &&
+        liquidity > 0
+      ) {
+        turnover24h = volume / liquidity;
+      }
+    }
+
+    const entry: PoolCacheEntry = {
+      pool,
+      turnover24h,
+      expiresAt: Date.now() + this.CACHE_TTL_MS,
+    };
+    this.poolCache.set(key, entry);
+
+    return entry;
+  }
+
+  /**
+   * 풀에서 토큰 쪽 준비금 조회
+   */
+  private getReserve(pool: SoroswapPair, token: string): number | undefined {
+    const symbol = token.toUpperCase();
+
+    if (pool.token0.symbol.toUpperCase() === symbol) {
+      return parseFloat(pool.reserve0);
+    }
+    if (pool.token1.symbol.toUpperCase() === symbol) {
+      return parseFloat(pool.reserve1);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * 싱글톤 슬리피지 추천 인스턴스
+ */
+export const slippageAdvisor = new SlippageAdvisor();
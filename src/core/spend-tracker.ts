@@ -0,0 +1,161 @@
+/**
+ * 체결된 스왑의 USD 지출 기록 (재시작 후에도 유지)
+ */
+
+import { randomUUID } from 'crypto';
+import { JsonStore } from '@/utils/store';
+import { log } from '@/utils/logger';
+import type { SpendRecord } from '@/types';
+
+/**
+ * 지출 집계 조건 (account와 token은 선택, token은 지불/수령 어느 쪽이든 일치)
+ *
+ * simulated가 같은 기록만 집계하므로 모의 거래 지출은 실거래 지출과 따로 합산된다.
+ */
+export interface SpendFilter {
+  account?: string;
+  token?: string;
+  simulated?: boolean;
+}
+
+/**
+ * 예약할 지출 (확정 시 ID와 체결 시각이 붙음)
+ */
+export type SpendEntry = Omit<SpendRecord, 'id' | 'executedAt'>;
+
+/**
+ * 지출 기록 클래스
+ *
+ * 계정과 토큰별 누적 지출을 기간 단위로 집계한다. 가장 긴 집계 기간(7일)보다 오래된 기록은 저장 시 정리한다.
+ * 서명 전 예약한 지출도 확정/해제 전까지 집계에 포함한다 (예약은 메모리에만 보관).
+ */
+export class SpendTracker {
+  private records: SpendRecord[] = [];
+  private reservations: Map<string, SpendRecord[]> = new Map();
+  private store = new JsonStore<SpendRecord>('spend-records');
+  private loadPromise: Promise<void> | undefined;
+  private readonly RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+  /**
+   * 저장된 기록 로드
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.store.load().then(
+        (records) => {
+          this.records = records;
+          log.debug('Spend records loaded', { count: records.length });
+        },
+        (error) => {
+          this.loadPromise = undefined;
+          throw error;
+        }
+      );
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * 지출 예약 (동기, 한도 확인 직후 같은 구간에서 호출)
+   */
+  reserve(entries: SpendEntry[]): string {
+    const reservationId = randomUUID();
+    const reservedAt = new Date().toISOString();
+
+    this.reservations.set(
+      reservationId,
+      entries.map((entry) => ({
+        ...entry,
+        id: randomUUID(),
+        executedAt: reservedAt,
+      }))
+    );
+
+    log.debug('Spend reserved', {
+      reservationId,
+      usdValue: entries.reduce((sum, entry) => sum + entry.usdValue, 0),
+    });
+
+    return reservationId;
+  }
+
+  /**
+   * 예약을 체결 기록으로 확정
+   */
+  async confirm(
+    reservationId: string,
+    transactionHash?: string
+  ): Promise<SpendRecord[]> {
+    await this.load();
+
+    const reserved = this.reservations.get(reservationId);
+    if (!reserved) {
+      return [];
+    }
+
+    const executedAt = new Date().toISOString();
+    const records = reserved.map((record) => ({
+      ...record,
+      executedAt,
+      ...(transactionHash ? { transactionHash } : {}),
+    }));
+
+    const cutoff = Date.now() - this.RETENTION_MS;
+    this.records = this.records.filter(
+      (existing) => Date.parse(existing.executedAt) >= cutoff
+    );
+    this.records.push(...records);
+    this.reservations.delete(reservationId);
+    await this.store.save(this.records);
+
+    for (const record of records) {
+      log.debug('Spend recorded', {
+        account: record.account,
+        fromToken: record.fromToken,
+        toToken: record.toToken,
+        usdValue: record.usdValue,
+        simulated: record.simulated ?? false,
+      });
+    }
+
+    return records;
+  }
+
+  /**
+   * 체결되지 않은 예약 해제
+   */
+  release(reservationId: string): void {
+    if (this.reservations.delete(reservationId)) {
+      log.debug('Spend reservation released', { reservationId });
+    }
+  }
+
+  /**
+   * 최근 windowMs 동안의 USD 지출 합계 (예약 포함, load 이후 호출)
+   */
+  getSpent(
+    filter: SpendFilter,
+    windowMs: number,
+    now: number = Date.now()
+  ): number {
+    const token = filter.token?.toUpperCase();
+    const simulated = filter.simulated ?? false;
+
+    return [...this.records, ...Array.from(this.reservations.values()).flat()]
+      .filter((record) => (record.simulated ?? false) === simulated)
+      .filter((record) => now - Date.parse(record.executedAt) < windowMs)
+      .filter((record) => !filter.account || record.account === filter.account)
+      .filter(
+        (record) =>
+          !token ||
+          record.fromToken.toUpperCase() === token ||
+          record.toToken.toUpperCase() === token
+      )
+      .reduce((sum, record) => sum + record.usdValue, 0);
+  }
+}
+
+/**
+ * 싱글톤 지출 기록 인스턴스
+ */
+export const spendTracker = new SpendTracker();
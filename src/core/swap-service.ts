@@ -2,28 +2,148 @@
  * 토큰 스왑 서비스
  */
 
-import { Keypair } from 'stellar-sdk';
+import { randomUUID } from 'crypto';
+import {
+  Horizon,
+  Keypair,
+  Transaction,
+  TransactionBuilder,
+  xdr,
+} from 'stellar-sdk';
 import { stellarClient } from '@/stellar/client';
+import { sorobanClient } from '@/stellar/soroban';
+import { feeStrategy } from '@/stellar/fees';
 import { soroswapClient, SoroswapAPIError } from '@/soroswap/client';
+import {
+  SwapError,
+  QuoteDriftError,
+  PriceImpactExceededError,
+  SwapUnconfirmedError,
+} from './errors';
 import { walletService } from './wallet-service';
-import { 
+import { slippageAdvisor } from './slippage-advisor';
+import { policyEngine } from './policy-engine';
+import { approvalQueue } from './approval-queue';
+import { paperTradingService } from './paper-trading-service';
+import { liquidityAggregator } from '@/liquidity/aggregator';
+import type { ProtocolSelection } from '@/liquidity/aggregator';
+import { stellarDexProvider } from '@/liquidity/stellar-dex-provider';
+import type { BuildSwapOptions, LiquidityProvider } from '@/liquidity/provider';
+import {
+  StellarError,
   StellarInsufficientBalanceError,
-  StellarTransactionFailedError 
+  StellarTransactionFailedError,
+  TransactionExpiredError,
+  TransactionTimeoutError,
+  formatResultCodes,
 } from '@/stellar/errors';
+import { transactionSubmitter } from '@/stellar/submission';
+import { channelAccountManager } from '@/stellar/channels';
+import type { ChannelLease } from '@/stellar/channels';
+import type { SubmissionResult } from '@/stellar/submission';
 import {
   hasTokenBalance,
   hasTrustline,
   compareBalances,
-  isSupportedToken
+  isSupportedToken,
+  getTokenInfo,
+  fromContractAmount,
+  fromStroops,
+  symbolToAsset,
+  assetFieldsToSymbol,
+  isBalanceEffect,
 } from '@/stellar/utils';
 import { log } from '@/utils/logger';
 import { securityConfig, stellarConfig } from '@/utils/config';
-import type { 
-  SwapRequest, 
-  SwapEstimate, 
-  SwapResult
+import { ErrorCode } from '@/types';
+import type {
+  SwapRequest,
+  SwapEstimate,
+  SwapResult,
+  SwapMode,
+  SwapVenue,
+  SwapHop,
+  LiquidityProtocol,
+  RouteQuote,
+  PreparedSwap,
+  SwapDryRunResult,
+  BalanceChange,
+  ReserveImpact,
+  TrustlineChange,
+  TrustlineAddition,
+  BatchSwapResult,
+  PolicyTrade,
+  SwapApproval,
+  CursorPaginatedResponse,
+  SubmittedSwap,
 } from '@/types';
 
+/**
+ * 스왑 트랜잭션 유효 시간 (초)
+ */
+const SWAP_TX_TIMEOUT_SECONDS = 30;
+
+/**
+ * 준비된 스왑(견적 ID)의 유효 시간 (초)
+ *
+ * 트랜잭션 타임바운드도 같은 값으로 설정되어 만료 후에는 네트워크에서도 거부된다.
+ */
+const PREPARED_SWAP_TTL_SECONDS = 120;
+
+/**
+ * 트랜잭션 하나에 담을 수 있는 최대 오퍼레이션 수 (Stellar 프로토콜 한도)
+ */
+const MAX_BATCH_OPERATIONS = 100;
+
+/**
+ * 가격 영향 한도 초과 시 제안 수량 탐색 횟수 (견적 조회 횟수)
+ */
+const PRICE_IMPACT_SEARCH_STEPS = 6;
+
+/**
+ * 스왑 히스토리 조회 시 Horizon에 한 번에 요청하는 오퍼레이션 수
+ */
+const HISTORY_SCAN_PAGE_SIZE = 50;
+
+/**
+ * 스왑 히스토리 한 번 조회에서 읽는 최대 Horizon 페이지 수
+ *
+ * 스왑이 드문 계정에서 전체 기록을 훑지 않도록 제한하고, 남은 구간은 nextCursor로 이어서 조회한다.
+ */
+const HISTORY_MAX_SCAN_PAGES = 10;
+
+/**
+ * 제출된 스왑의 원장 반영 여부 재확인 간격 (밀리초)
+ */
+const SUBMITTED_SWAP_POLL_MS = 5000;
+
+/**
+ * 타임바운드 이후 원장 반영 확인을 더 기다리는 최대 시간 (밀리초)
+ *
+ * Horizon이 오래된 원장만 돌려주면 마감 시각이 타임바운드를 넘지 않으므로 무한히 기다리지 않게 한다.
+ */
+const SUBMITTED_SWAP_GRACE_MS = 60000;
+
+/**
+ * 예약 실행기 스왑이 승인 임계값을 넘을 때의 오류 메시지
+ */
+const SCHEDULED_APPROVAL_MESSAGE =
+  'Swap exceeds the approval threshold; scheduled swaps cannot wait for operator approval, use a smaller amount or a single swap';
+
+/**
+ * 스왑 실행 옵션
+ */
+export interface ExecuteSwapOptions {
+  // 운영자가 승인한 요청을 실행할 때만 승인 큐가 전달
+  approvalId?: string;
+  // 운영자가 승인한 시점의 견적 (실행 견적이 허용치 이상 불리하면 중단)
+  approvedEstimate?: SwapEstimate;
+  // 서명한 트랜잭션을 제출하기 직전 호출 (예약 실행기가 해시를 먼저 저장해 재시작 후 결과를 확인)
+  onSubmit?: (submission: SubmittedSwap) => Promise<void>;
+  // 예약 실행기의 스왑은 승인 대기로 보류하지 않고 APPROVAL_REQUIRED로 실패
+  scheduled?: boolean;
+}
+
 /**
  * 스왑 검증 결과
  */
@@ -37,56 +157,104 @@ interface SwapValidationResult {
  * 스왑 서비스 클래스
  */
 export class SwapService {
+  private preparedSwaps: Map<string, PreparedSwap> = new Map();
+
   /**
    * 스왑 견적 조회
+   *
+   * 요청의 protocols/excludeProtocols 조건에 맞는 프로토콜 견적만 비교한다.
    */
   async estimateSwap(request: SwapRequest): Promise<SwapEstimate> {
     try {
+      const mode = request.mode ?? 'exactIn';
+
       log.info('Estimating swap', {
         fromToken: request.fromToken,
         toToken: request.toToken,
         amount: request.amount,
         slippage: request.slippage,
+        mode,
       });
 
       // 기본 검증
       await this.validateSwapRequest(request);
 
-      // Soroswap API에서 견적 조회
-      const quote = await soroswapClient.getQuote(
-        request.fromToken,
-        request.toToken,
-        request.amount.toString(),
-        request.slippage
+      // 선택된 프로토콜 견적을 함께 조회 (모의 거래 중 고정 견적이 있으면 대신 사용)
+      const fixtureQuote = await paperTradingService.getFixtureQuote(
+        request,
+        mode
       );
+      const quotes = fixtureQuote
+        ? [fixtureQuote]
+        : await liquidityAggregator.quote(request, mode);
+
+      const best = liquidityAggregator.pickBest(quotes, mode);
+      if (!best) {
+        throw new SwapError(
+          `No route available for ${request.fromToken}/${request.toToken}`,
+          ErrorCode.SOROSWAP_INSUFFICIENT_LIQUIDITY
+        );
+      }
 
       // 내부 형식으로 변환
-      const estimate: SwapEstimate = {
-        fromToken: quote.fromToken,
-        toToken: quote.toToken,
-        fromAmount: parseFloat(quote.fromAmount),
-        toAmount: parseFloat(quote.toAmount),
-        minimumReceived: parseFloat(quote.minimumReceived),
-        priceImpact: quote.priceImpact,
-        fee: parseFloat(quote.fee),
-        path: quote.path,
-      };
+      const estimate = this.toSwapEstimate(best, request);
+      if (quotes.length > 1) {
+        estimate.comparison = liquidityAggregator.compare(best, quotes, mode);
+      }
+
+      // 가격 영향 차단 (한도 내 최대 수량을 함께 제안)
+      if (estimate.priceImpact > securityConfig.maxPriceImpact) {
+        const suggestedMaxAmount = await this.findMaxAmountWithinImpact(
+          request,
+          mode
+        );
+
+        log.warn('Quote rejected by price impact limit', {
+          fromToken: request.fromToken,
+          toToken: request.toToken,
+          amount: request.amount,
+          priceImpact: estimate.priceImpact,
+          maxPriceImpact: securityConfig.maxPriceImpact,
+          suggestedMaxAmount,
+        });
+
+        throw new PriceImpactExceededError(
+          estimate,
+          securityConfig.maxPriceImpact,
+          suggestedMaxAmount
+        );
+      }
+
+      // 거래별 슬리피지 추천 (autoSlippage면 보호 한도에 반영)
+      const recommendation = await slippageAdvisor.recommend(request, estimate);
+      if (request.autoSlippage) {
+        this.applySlippageLimit(estimate, recommendation.slippage);
+        recommendation.applied = true;
+      }
+      estimate.slippageRecommendation = recommendation;
 
       log.info('Swap estimate completed', {
         fromToken: estimate.fromToken,
         toToken: estimate.toToken,
+        mode,
+        protocol: estimate.protocol,
+        venue: estimate.venue,
+        expectedInput: estimate.fromAmount,
         expectedOutput: estimate.toAmount,
         priceImpact: estimate.priceImpact,
+        advantageBps: estimate.comparison?.advantageBps,
+        recommendedSlippage: recommendation.slippage,
+        autoSlippage: recommendation.applied,
       });
 
       return estimate;
     } catch (error) {
       log.error('Failed to estimate swap', error as Error, { request });
-      
+
       if (error instanceof SoroswapAPIError) {
         throw new Error(`Swap estimation failed: ${error.message}`);
       }
-      
+
       throw error;
     }
   }
@@ -94,25 +262,44 @@ export class SwapService {
   /**
    * 토큰 스왑 실행
    */
-  async executeSwap(request: SwapRequest): Promise<SwapResult> {
+  async executeSwap(
+    request: SwapRequest,
+    options: ExecuteSwapOptions = {}
+  ): Promise<SwapResult> {
     const startTime = Date.now();
-    
+
     try {
       log.info('Starting token swap execution', {
         fromToken: request.fromToken,
         toToken: request.toToken,
         amount: request.amount,
         slippage: request.slippage,
+        mode: request.mode ?? 'exactIn',
       });
 
       // 스왑 요청 검증
       const validation = await this.validateSwapRequest(request);
       if (!validation.isValid) {
-        throw new Error(`Swap validation failed: ${validation.errors.join(', ')}`);
+        throw new Error(
+          `Swap validation failed: ${validation.errors.join(', ')}`
+        );
+      }
+
+      // 모의 거래: 서명/제출 없이 가상 잔액에 체결
+      if (paperTradingService.isEnabled()) {
+        const result = await this.performPaperSwap(request);
+
+        log.info('Paper swap completed', {
+          ...result,
+          duration: `${Date.now() - startTime}ms`,
+        });
+
+        return result;
       }
 
       // 사용할 계정 결정
-      const accountSecret = request.accountSecret || stellarConfig.defaultAccountSecret;
+      const accountSecret =
+        request.accountSecret || stellarConfig.defaultAccountSecret;
       if (!accountSecret) {
         throw new Error('No account secret provided for swap execution');
       }
@@ -120,21 +307,84 @@ export class SwapService {
       const keypair = Keypair.fromSecret(accountSecret);
       const publicKey = keypair.publicKey();
 
-      // 사전 검증: 잔액 및 트러스트라인 확인
-      await this.validateAccountForSwap(publicKey, request);
+      // 스왑 견적 조회 (트러스트라인을 추가해야 하면 함께 담을 수 있는 프로토콜로 한정)
+      const trustline = await this.planTrustline(publicKey, request);
+      const estimate = await this.estimateSwap(
+        trustline ? this.restrictToTrustlineProtocols(request) : request
+      );
+
+      // 승인 이후 시세가 허용치 이상 불리해졌으면 승인된 조건이 아니므로 중단
+      if (options.approvedEstimate) {
+        this.guardApprovedEstimate(options.approvedEstimate, estimate);
+      }
 
-      // 스왑 견적 조회
-      const estimate = await this.estimateSwap(request);
+      // 거래 정책 확인 및 지출 예약 (서명 전, 체결되지 않으면 해제)
+      const reservationId = await policyEngine.reserveSpend(publicKey, [
+        this.toPolicyTrade(estimate),
+      ]);
 
-      // 실제 스왑 실행
-      const result = await this.performSwap(
-        keypair,
-        request,
-        estimate
-      );
+      let result: SwapResult;
+      try {
+        // 사전 검증: 잔액 및 트러스트라인 확인
+        await this.validateAccountForSwap(
+          publicKey,
+          request,
+          estimate,
+          trustline
+        );
+
+        // 승인 임계값을 넘으면 운영자 승인 전까지 보류
+        if (options.approvalId) {
+          if (!approvalQueue.isApproved(options.approvalId)) {
+            throw new SwapError(
+              `Swap approval ${options.approvalId} is not approved`,
+              ErrorCode.APPROVAL_REQUIRED,
+              { approvalId: options.approvalId }
+            );
+          }
+        } else {
+          const approvalCheck = await approvalQueue.check([
+            this.toPolicyTrade(estimate),
+          ]);
+          if (approvalCheck.required && options.scheduled) {
+            throw new SwapError(
+              SCHEDULED_APPROVAL_MESSAGE,
+              ErrorCode.APPROVAL_REQUIRED,
+              { usdValue: approvalCheck.usdValue }
+            );
+          }
+          if (approvalCheck.required) {
+            policyEngine.releaseSpend(reservationId);
+            const approval = await approvalQueue.park(
+              request,
+              publicKey,
+              estimate,
+              approvalCheck.usdValue
+            );
+            return this.buildPendingApprovalResult(request, approval);
+          }
+        }
+
+        // 실제 스왑 실행
+        result = await this.performSwap(
+          keypair,
+          request,
+          estimate,
+          trustline,
+          options.onSubmit
+        );
+      } catch (error) {
+        await this.settleReservation(reservationId, error);
+        throw error;
+      }
+      await policyEngine.confirmSpend(reservationId, result.transactionHash);
+
+      if (options.approvalId) {
+        result.approvalId = options.approvalId;
+      }
 
       const duration = Date.now() - startTime;
-      
+
       log.info('Token swap completed successfully', {
         ...result,
         duration: `${duration}ms`,
@@ -143,349 +393,2196 @@ export class SwapService {
       return result;
     } catch (error) {
       const duration = Date.now() - startTime;
-      
+
       log.error('Token swap execution failed', error as Error, {
         request,
         duration: `${duration}ms`,
       });
 
       // 실패 결과 반환
-      return {
-        success: false,
-        fromToken: request.fromToken,
-        toToken: request.toToken,
-        fromAmount: request.amount,
-        toAmount: 0,
-        fee: 0,
-        timestamp: new Date().toISOString(),
-        error: (error as Error).message,
-      };
+      const result = this.buildFailedResult(request, error as Error);
+      if (paperTradingService.isEnabled()) {
+        result.simulated = true;
+      }
+      return result;
     }
   }
 
   /**
-   * 최적 스왑 경로 조회
+   * 스왑 준비 (견적 + 서명 전 트랜잭션을 견적 ID로 저장)
+   *
+   * 반환된 조건을 사람이 확인한 뒤 confirmSwap으로 동일한 트랜잭션만 실행할 수 있다.
    */
-  async getBestSwapRoute(
-    fromToken: string,
-    toToken: string,
-    amount: number
-  ): Promise<{
-    path: string[];
-    expectedOutput: number;
-    priceImpact: number;
-    estimatedFee: number;
-  }> {
+  async prepareSwap(request: SwapRequest): Promise<PreparedSwap> {
     try {
-      log.debug('Finding best swap route', { fromToken, toToken, amount });
+      log.info('Preparing swap', {
+        fromToken: request.fromToken,
+        toToken: request.toToken,
+        amount: request.amount,
+        mode: request.mode ?? 'exactIn',
+      });
 
-      const route = await soroswapClient.getBestRoute(
-        fromToken,
-        toToken,
-        amount.toString()
+      const validation = await this.validateSwapRequest(request);
+      if (!validation.isValid) {
+        throw new Error(
+          `Swap validation failed: ${validation.errors.join(', ')}`
+        );
+      }
+
+      // 준비 단계에서는 공개키만 필요
+      const publicKey = request.accountSecret
+        ? Keypair.fromSecret(request.accountSecret).publicKey()
+        : stellarConfig.defaultAccountPublic;
+      if (!publicKey) {
+        throw new Error('No account provided for swap preparation');
+      }
+
+      const trustline = await this.planTrustline(publicKey, request);
+      const estimate = await this.estimateSwap(
+        trustline ? this.restrictToTrustlineProtocols(request) : request
+      );
+      await policyEngine.enforce(publicKey, [this.toPolicyTrade(estimate)]);
+      await this.validateAccountForSwap(
+        publicKey,
+        request,
+        estimate,
+        trustline
       );
+      await this.rejectIfApprovalRequired([this.toPolicyTrade(estimate)]);
 
-      return {
-        path: route.path,
-        expectedOutput: parseFloat(route.expectedOutput),
-        priceImpact: route.priceImpact,
-        estimatedFee: parseFloat(route.fee),
+      const venue = this.getEstimateProvider(request, estimate).venue;
+      const transaction = await this.buildSwapTransaction(
+        publicKey,
+        request,
+        estimate,
+        PREPARED_SWAP_TTL_SECONDS,
+        null,
+        trustline
+      );
+
+      this.cleanupExpiredPreparedSwaps();
+
+      const now = Date.now();
+      const { accountSecret: _accountSecret, ...publicRequest } = request;
+      const prepared: PreparedSwap = {
+        quoteId: `quote_${randomUUID()}`,
+        request: publicRequest,
+        estimate,
+        venue,
+        sourceAccount: publicKey,
+        transactionXdr: transaction.toXDR(),
+        networkFee: fromStroops(transaction.fee),
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(
+          now + PREPARED_SWAP_TTL_SECONDS * 1000
+        ).toISOString(),
       };
+
+      if (trustline) {
+        prepared.trustlineAdded = trustline;
+      }
+      if (await this.isFeeCapped(request)) {
+        prepared.feeCapped = true;
+      }
+
+      this.preparedSwaps.set(prepared.quoteId, prepared);
+
+      log.info('Swap prepared', {
+        quoteId: prepared.quoteId,
+        venue,
+        expiresAt: prepared.expiresAt,
+      });
+
+      return prepared;
     } catch (error) {
-      log.error('Failed to find best swap route', error as Error, {
-        fromToken,
-        toToken,
-        amount,
+      log.error('Failed to prepare swap', error as Error, {
+        fromToken: request.fromToken,
+        toToken: request.toToken,
+        amount: request.amount,
       });
       throw error;
     }
   }
 
   /**
-   * 스왑 가능성 확인
+   * 스왑 드라이런 (트랜잭션 생성과 시뮬레이션만 하고 제출하지 않음)
+   *
+   * 서명 전 XDR, 수수료, 영향을 받는 자산별 예상 잔액과 리저브/트러스트라인 변화를 반환한다.
+   * 잔액 부족이나 트러스트라인 누락은 실패로 끝내지 않고 경고로 표시한다.
    */
-  async canSwap(
-    publicKey: string,
-    fromToken: string,
-    toToken: string,
-    amount: number
-  ): Promise<{
-    canSwap: boolean;
-    reason?: string;
-    missingTrustlines?: string[];
-    insufficientBalance?: boolean;
-  }> {
+  async dryRunSwap(request: SwapRequest): Promise<SwapDryRunResult> {
     try {
-      // 지원되는 토큰인지 확인
-      if (!isSupportedToken(fromToken) || !isSupportedToken(toToken)) {
-        return {
-          canSwap: false,
-          reason: 'Unsupported token pair',
-        };
-      }
+      log.info('Dry-running swap', {
+        fromToken: request.fromToken,
+        toToken: request.toToken,
+        amount: request.amount,
+        mode: request.mode ?? 'exactIn',
+      });
 
-      // 트러스트라인 확인
-      const missingTrustlines: string[] = [];
-      
-      if (!(await hasTrustline(publicKey, fromToken))) {
-        missingTrustlines.push(fromToken);
+      const validation = await this.validateSwapRequest(request);
+      if (!validation.isValid) {
+        throw new Error(
+          `Swap validation failed: ${validation.errors.join(', ')}`
+        );
       }
-      
-      if (!(await hasTrustline(publicKey, toToken))) {
-        missingTrustlines.push(toToken);
+
+      const publicKey = request.accountSecret
+        ? Keypair.fromSecret(request.accountSecret).publicKey()
+        : stellarConfig.defaultAccountPublic;
+      if (!publicKey) {
+        throw new Error('No account provided for swap dry run');
       }
 
-      if (missingTrustlines.length > 0) {
-        return {
-          canSwap: false,
-          reason: 'Missing trustlines',
-          missingTrustlines,
-        };
+      if (!(await stellarClient.accountExists(publicKey))) {
+        throw new Error(`Account does not exist: ${publicKey}`);
       }
 
-      // 잔액 확인
-      const hasBalance = await hasTokenBalance(
+      const trustline = await this.planTrustline(publicKey, request);
+      const estimate = await this.estimateSwap(
+        trustline ? this.restrictToTrustlineProtocols(request) : request
+      );
+      const venue = this.getEstimateProvider(request, estimate).venue;
+      const transaction = await this.buildSwapTransaction(
         publicKey,
-        fromToken,
-        amount.toString()
+        request,
+        estimate,
+        SWAP_TX_TIMEOUT_SECONDS,
+        null,
+        trustline
       );
+      const networkFee = fromStroops(transaction.fee);
+      const isExactOut = estimate.mode === 'exactOut';
 
-      if (!hasBalance) {
-        return {
-          canSwap: false,
-          reason: 'Insufficient balance',
-          insufficientBalance: true,
-        };
+      // 예상 체결량 (Soroban 경로는 시뮬레이션 반환값 기준)
+      let expectedSent = isExactOut ? estimate.fromAmount : request.amount;
+      let expectedReceived = isExactOut ? request.amount : estimate.toAmount;
+      let simulated = false;
+
+      if (venue === 'soroswap_router') {
+        const simulation = await sorobanClient.simulate(transaction);
+        const amounts = sorobanClient.readReturnedAmounts(
+          simulation.result?.retval
+        );
+        const sentRaw = amounts[0];
+        const receivedRaw = amounts[amounts.length - 1];
+
+        if (sentRaw !== undefined && receivedRaw !== undefined) {
+          expectedSent = fromContractAmount(
+            sentRaw,
+            getTokenInfo(request.fromToken)?.decimals
+          );
+          expectedReceived = fromContractAmount(
+            receivedRaw,
+            getTokenInfo(request.toToken)?.decimals
+          );
+        }
+        simulated = true;
       }
 
-      return { canSwap: true };
-    } catch (error) {
-      log.error('Failed to check swap possibility', error as Error, {
-        publicKey,
-        fromToken,
-        toToken,
-        amount,
+      const worstCaseSent = isExactOut
+        ? (estimate.maximumSent ?? estimate.fromAmount)
+        : request.amount;
+      const worstCaseReceived = isExactOut
+        ? request.amount
+        : (estimate.minimumReceived ?? estimate.toAmount);
+
+      // 자산별 변화량 (네트워크 수수료는 XLM에서 차감)
+      const changes: Map<string, { change: number; worstCase: number }> =
+        new Map();
+      const addChange = (
+        token: string,
+        change: number,
+        worstCase: number
+      ): void => {
+        const current = changes.get(token) ?? { change: 0, worstCase: 0 };
+        changes.set(token, {
+          change: current.change + change,
+          worstCase: current.worstCase + worstCase,
+        });
+      };
+      addChange(request.fromToken, -expectedSent, -worstCaseSent);
+      addChange(request.toToken, expectedReceived, worstCaseReceived);
+      addChange('XLM', -networkFee, -networkFee);
+
+      const balances: BalanceChange[] = [];
+      for (const [token, { change, worstCase }] of changes) {
+        const before = parseFloat(
+          await walletService.getTokenBalance(publicKey, token)
+        );
+        balances.push({
+          token,
+          before,
+          change,
+          after: before + change,
+          worstCaseAfter: before + worstCase,
+        });
+      }
+
+      const warnings = [...validation.warnings];
+
+      // 시장 수수료가 상한을 넘으면 상한 수수료로는 혼잡 시 체결이 지연될 수 있음
+      const feeCapped = await this.isFeeCapped(request);
+      if (feeCapped) {
+        warnings.push(
+          'Network fee is capped at MAX_FEE_STROOPS below the current market fee; the transaction may not confirm during surge pricing'
+        );
+      }
+
+      // 정책 위반은 거부하지 않고 결과와 경고로 표시
+      const policy = await policyEngine.evaluate(publicKey, [
+        this.toPolicyTrade(estimate),
+      ]);
+      warnings.push(
+        ...policy.violations.map(
+          (violation) => `Policy ${violation.code}: ${violation.message}`
+        )
+      );
+
+      const trustlineChanges: TrustlineChange[] = [];
+      if (trustline) {
+        trustlineChanges.push({ token: trustline.token, action: 'create' });
+      }
+      for (const token of [request.fromToken, request.toToken]) {
+        if (
+          token !== 'XLM' &&
+          token !== trustline?.token &&
+          !(await hasTrustline(publicKey, token))
+        ) {
+          trustlineChanges.push({ token, action: 'missing' });
+          warnings.push(`Missing trustline for ${token}; the swap would fail`);
+        }
+      }
+
+      const spent = balances.find(
+        (balance) => balance.token === request.fromToken
+      );
+      if (spent && spent.worstCaseAfter < 0) {
+        warnings.push(
+          `Insufficient ${request.fromToken} balance: ${spent.before} available`
+        );
+      }
+
+      // 새 트러스트라인은 베이스 리저브만큼 최소 잔액을 올린다
+      const { minimumBalance } =
+        await stellarClient.getMinimumBalance(publicKey);
+      const reserveChange = trustline?.reserveLocked ?? 0;
+      const xlmAfter =
+        balances.find((balance) => balance.token === 'XLM')?.worstCaseAfter ??
+        0;
+      const reserve: ReserveImpact = {
+        minimumBalance: minimumBalance + reserveChange,
+        reserveChange,
+        xlmAfter,
+        belowReserve: xlmAfter < minimumBalance + reserveChange,
+      };
+
+      if (reserve.belowReserve) {
+        warnings.push(
+          `XLM balance after the swap (${xlmAfter}) would fall below the minimum reserve (${reserve.minimumBalance})`
+        );
+      }
+
+      const { accountSecret: _accountSecret, ...publicRequest } = request;
+
+      log.info('Swap dry run completed', {
+        venue,
+        simulated,
+        networkFee,
+        warnings: warnings.length,
       });
-      
+
       return {
-        canSwap: false,
-        reason: `Error checking swap possibility: ${(error as Error).message}`,
+        dryRun: true,
+        request: publicRequest,
+        estimate,
+        venue,
+        sourceAccount: publicKey,
+        transactionXdr: transaction.toXDR(),
+        networkFee,
+        feeCapped,
+        simulated,
+        balances,
+        reserve,
+        trustlineChanges,
+        policy,
+        warnings,
       };
+    } catch (error) {
+      log.error('Swap dry run failed', error as Error, {
+        fromToken: request.fromToken,
+        toToken: request.toToken,
+        amount: request.amount,
+      });
+      throw error;
     }
   }
 
   /**
-   * 스왑 요청 검증
+   * 준비된 스왑 실행 (만료되지 않은 견적 ID의 트랜잭션만 서명/제출)
    */
-  private async validateSwapRequest(request: SwapRequest): Promise<SwapValidationResult> {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    // 기본 필드 검증
-    if (!request.fromToken || !request.toToken) {
-      errors.push('From token and to token are required');
+  async confirmSwap(
+    quoteId: string,
+    accountSecret?: string
+  ): Promise<SwapResult> {
+    const prepared = this.preparedSwaps.get(quoteId);
+    if (!prepared) {
+      throw new Error(`Unknown or already used quote ID: ${quoteId}`);
     }
 
-    if (request.fromToken === request.toToken) {
-      errors.push('Cannot swap the same token');
-    }
+    // 견적 ID는 1회용
+    this.preparedSwaps.delete(quoteId);
 
-    if (!request.amount || request.amount <= 0) {
-      errors.push('Amount must be greater than 0');
-    }
+    const request: SwapRequest = { ...prepared.request };
 
-    if (request.slippage < 0.1 || request.slippage > securityConfig.maxSlippage) {
-      errors.push(`Slippage must be between 0.1% and ${securityConfig.maxSlippage}%`);
-    }
+    try {
+      this.rejectIfPaperTrading('Prepared swaps');
 
-    // 수량 범위 검증
-    if (request.amount < securityConfig.minAmount) {
-      errors.push(`Amount must be at least ${securityConfig.minAmount}`);
-    }
+      if (Date.now() > Date.parse(prepared.expiresAt)) {
+        throw new Error(`Quote ${quoteId} expired at ${prepared.expiresAt}`);
+      }
 
-    if (request.amount > securityConfig.maxAmount) {
-      errors.push(`Amount exceeds maximum limit of ${securityConfig.maxAmount}`);
-    }
+      const secret = accountSecret || stellarConfig.defaultAccountSecret;
+      if (!secret) {
+        throw new Error('No account secret provided for swap execution');
+      }
 
-    // 지원되는 토큰 검증
+      const keypair = Keypair.fromSecret(secret);
+      if (keypair.publicKey() !== prepared.sourceAccount) {
+        throw new Error(
+          'Signing account does not match the prepared swap source account'
+        );
+      }
+
+      const transaction = TransactionBuilder.fromXDR(
+        prepared.transactionXdr,
+        stellarClient.getNetworkInfo().passphrase
+      ) as Transaction;
+
+      log.info('Confirming prepared swap', { quoteId, venue: prepared.venue });
+
+      // 준비 이후 시간대/거래량이 바뀌었을 수 있으므로 정책 재확인 후 지출 예약
+      const reservationId = await policyEngine.reserveSpend(
+        prepared.sourceAccount,
+        [this.toPolicyTrade(prepared.estimate)]
+      );
+
+      let result: SwapResult;
+      try {
+        // 승인 이후 시세 변동 확인
+        await this.guardQuoteDrift(request, prepared.estimate);
+
+        try {
+          result = await this.submitSwapTransaction(
+            transaction,
+            keypair,
+            request,
+            prepared.estimate,
+            prepared.venue
+          );
+        } catch (error) {
+          if (!(error instanceof TransactionTimeoutError)) {
+            throw error;
+          }
+          result = await this.settleTimedOutSwap(
+            request,
+            prepared.sourceAccount,
+            {
+              transactionHash: transaction.hash().toString('hex'),
+              expiresAt: new Date(
+                Number(transaction.timeBounds?.maxTime ?? 0) * 1000
+              ).toISOString(),
+            }
+          );
+        }
+      } catch (error) {
+        await this.settleReservation(reservationId, error);
+        throw error;
+      }
+      await policyEngine.confirmSpend(reservationId, result.transactionHash);
+
+      if (prepared.trustlineAdded) {
+        result.trustlineAdded = prepared.trustlineAdded;
+      }
+
+      return result;
+    } catch (error) {
+      log.error('Prepared swap confirmation failed', error as Error, {
+        quoteId,
+      });
+      return this.buildFailedResult(request, error as Error);
+    }
+  }
+
+  /**
+   * 여러 스왑을 하나의 트랜잭션으로 원자적으로 실행
+   *
+   * 모든 구간은 Stellar DEX 경로 결제로 실행되며, 하나라도 실패하면 전체가 취소된다.
+   */
+  async executeBatchSwap(
+    requests: SwapRequest[],
+    accountSecret?: string
+  ): Promise<BatchSwapResult> {
+    const startTime = Date.now();
+
+    try {
+      log.info('Starting batch swap execution', { legs: requests.length });
+
+      this.rejectIfPaperTrading('Batch swaps');
+
+      if (requests.length === 0) {
+        throw new SwapError(
+          'Batch must contain at least one swap',
+          ErrorCode.SWAP_VALIDATION_ERROR
+        );
+      }
+
+      if (requests.length > MAX_BATCH_OPERATIONS) {
+        throw new SwapError(
+          `Batch exceeds ${MAX_BATCH_OPERATIONS} operations per transaction`,
+          ErrorCode.SWAP_VALIDATION_ERROR,
+          { legs: requests.length, maxLegs: MAX_BATCH_OPERATIONS }
+        );
+      }
+
+      // 모든 구간을 먼저 검증
+      const errors: string[] = [];
+      for (const [index, request] of requests.entries()) {
+        const validation = await this.validateSwapRequest(request);
+        errors.push(
+          ...validation.errors.map((error) => `leg ${index}: ${error}`)
+        );
+
+        const protocols = liquidityAggregator
+          .selectProviders(request.fromToken, request.toToken, request)
+          .map((provider) => provider.protocol);
+        if (!protocols.includes('sdex')) {
+          errors.push(`leg ${index}: only Stellar DEX swaps can be batched`);
+        }
+      }
+
+      if (errors.length > 0) {
+        throw new SwapError(
+          `Batch validation failed: ${errors.join(', ')}`,
+          ErrorCode.SWAP_VALIDATION_ERROR,
+          { errors }
+        );
+      }
+
+      const secret = accountSecret || stellarConfig.defaultAccountSecret;
+      if (!secret) {
+        throw new Error('No account secret provided for swap execution');
+      }
+
+      const keypair = Keypair.fromSecret(secret);
+      const publicKey = keypair.publicKey();
+
+      // 하나의 트랜잭션에 담기 위해 Stellar DEX 경로 견적만 사용
+      const estimates: SwapEstimate[] = [];
+      for (const request of requests) {
+        estimates.push(
+          await this.estimateSwap({ ...request, protocols: ['sdex'] })
+        );
+      }
+
+      const policyTrades = estimates.map((estimate) =>
+        this.toPolicyTrade(estimate)
+      );
+
+      // 거래 정책 확인 및 지출 예약 (서명 전, 체결되지 않으면 해제)
+      const reservationId = await policyEngine.reserveSpend(
+        publicKey,
+        policyTrades
+      );
+
+      let feeCapped: boolean;
+      let submission;
+      try {
+        await this.validateAccountForBatch(publicKey, requests, estimates);
+        await this.rejectIfApprovalRequired(policyTrades);
+
+        const urgency = feeStrategy.mostUrgent(
+          requests.map((request) => request.urgency)
+        );
+        const baseFee = await feeStrategy.getBaseFee(urgency);
+        ({ capped: feeCapped } = await feeStrategy.quoteFee(urgency));
+        const lease = await channelAccountManager.lease(publicKey);
+        try {
+          const txBuilder = await stellarClient.createTransactionBuilder(
+            lease?.account ?? publicKey,
+            baseFee
+          );
+          requests.forEach((request, index) => {
+            txBuilder.addOperation(
+              stellarDexProvider.createPathPaymentOperation(
+                publicKey,
+                request,
+                estimates[index]!,
+                lease !== null
+              )
+            );
+          });
+          const transaction = txBuilder
+            .setTimeout(SWAP_TX_TIMEOUT_SECONDS)
+            .build();
+
+          // 제출 직전 구간별 시세 변동 확인
+          for (const [index, request] of requests.entries()) {
+            await this.guardQuoteDrift(request, estimates[index]!);
+          }
+
+          try {
+            submission = await this.submitTransaction(
+              transaction,
+              this.getSigners(keypair, lease),
+              'Batch swap'
+            );
+          } catch (error) {
+            // 결과 불명: 구간이 체결됐을 수 있으므로 실패가 아닌 미확정으로 보고
+            if (error instanceof TransactionTimeoutError) {
+              throw new SwapUnconfirmedError(
+                transaction.hash().toString('hex'),
+                error.message
+              );
+            }
+            throw error;
+          }
+          channelAccountManager.release(lease);
+        } catch (error) {
+          channelAccountManager.release(lease, true);
+          throw error;
+        }
+      } catch (error) {
+        await this.settleReservation(reservationId, error);
+        throw error;
+      }
+
+      await policyEngine.confirmSpend(reservationId, submission.hash);
+
+      const legs = requests.map((request, index) =>
+        this.buildBatchLegResult(
+          request,
+          estimates[index]!,
+          submission.resultXdr,
+          index
+        )
+      );
+
+      log.transaction('batch swap completed', submission.hash, {
+        ledger: submission.ledger,
+        networkFee: submission.feeCharged,
+        feeBumped: submission.feeBumped,
+        legs: legs.map((leg) => ({
+          fromToken: leg.fromToken,
+          toToken: leg.toToken,
+          actualReceived: leg.actualReceived,
+        })),
+        duration: `${Date.now() - startTime}ms`,
+      });
+
+      return {
+        success: true,
+        transactionHash: submission.hash,
+        ledger: submission.ledger,
+        legs,
+        fee: legs.reduce((sum, leg) => sum + leg.fee, 0),
+        networkFee: submission.feeCharged,
+        feeBumped: submission.feeBumped,
+        feeCapped,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Batch swap execution failed', error as Error, {
+        legs: requests.length,
+        duration: `${Date.now() - startTime}ms`,
+      });
+
+      return this.buildFailedBatchResult(requests, error as Error);
+    }
+  }
+
+  /**
+   * 준비된 스왑 조회
+   */
+  getPreparedSwap(quoteId: string): PreparedSwap | null {
+    return this.preparedSwaps.get(quoteId) || null;
+  }
+
+  /**
+   * 최적 스왑 경로 조회 (프로토콜별 경로 탐색 결과 중 수령량 최대)
+   */
+  async getBestSwapRoute(
+    fromToken: string,
+    toToken: string,
+    amount: number,
+    selection: ProtocolSelection = {}
+  ): Promise<{
+    path: SwapHop[];
+    expectedOutput: number;
+    priceImpact: number;
+    estimatedFee: number;
+    protocol: LiquidityProtocol;
+    venue: SwapVenue;
+  }> {
+    try {
+      log.debug('Finding best swap route', { fromToken, toToken, amount });
+
+      const routes = await liquidityAggregator.route(
+        fromToken,
+        toToken,
+        amount,
+        selection
+      );
+      const best = liquidityAggregator.pickBest(routes, 'exactIn');
+      if (!best) {
+        throw new SwapError(
+          `No route available for ${fromToken}/${toToken}`,
+          ErrorCode.SOROSWAP_INSUFFICIENT_LIQUIDITY
+        );
+      }
+
+      return {
+        path: best.path,
+        expectedOutput: best.toAmount,
+        priceImpact: best.priceImpact,
+        estimatedFee: best.fee,
+        protocol: best.protocol,
+        venue: best.venue,
+      };
+    } catch (error) {
+      log.error('Failed to find best swap route', error as Error, {
+        fromToken,
+        toToken,
+        amount,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 스왑 가능성 확인
+   */
+  async canSwap(
+    publicKey: string,
+    fromToken: string,
+    toToken: string,
+    amount: number
+  ): Promise<{
+    canSwap: boolean;
+    reason?: string;
+    missingTrustlines?: string[];
+    insufficientBalance?: boolean;
+  }> {
+    try {
+      // 지원되는 토큰인지 확인
+      if (!isSupportedToken(fromToken) || !isSupportedToken(toToken)) {
+        return {
+          canSwap: false,
+          reason: 'Unsupported token pair',
+        };
+      }
+
+      // 트러스트라인 확인
+      const missingTrustlines: string[] = [];
+
+      if (!(await hasTrustline(publicKey, fromToken))) {
+        missingTrustlines.push(fromToken);
+      }
+
+      if (!(await hasTrustline(publicKey, toToken))) {
+        missingTrustlines.push(toToken);
+      }
+
+      if (missingTrustlines.length > 0) {
+        return {
+          canSwap: false,
+          reason: 'Missing trustlines',
+          missingTrustlines,
+        };
+      }
+
+      // 잔액 확인
+      const hasBalance = await hasTokenBalance(
+        publicKey,
+        fromToken,
+        amount.toString()
+      );
+
+      if (!hasBalance) {
+        return {
+          canSwap: false,
+          reason: 'Insufficient balance',
+          insufficientBalance: true,
+        };
+      }
+
+      return { canSwap: true };
+    } catch (error) {
+      log.error('Failed to check swap possibility', error as Error, {
+        publicKey,
+        fromToken,
+        toToken,
+        amount,
+      });
+
+      return {
+        canSwap: false,
+        reason: `Error checking swap possibility: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * 스왑 요청 검증
+   */
+  private async validateSwapRequest(
+    request: SwapRequest
+  ): Promise<SwapValidationResult> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // 기본 필드 검증
+    if (!request.fromToken || !request.toToken) {
+      errors.push('From token and to token are required');
+    }
+
+    if (request.fromToken === request.toToken) {
+      errors.push('Cannot swap the same token');
+    }
+
+    if (!request.amount || request.amount <= 0) {
+      errors.push('Amount must be greater than 0');
+    }
+
+    if (
+      request.mode &&
+      request.mode !== 'exactIn' &&
+      request.mode !== 'exactOut'
+    ) {
+      errors.push(`Invalid swap mode: ${request.mode}`);
+    }
+
+    if (
+      request.slippage < 0.1 ||
+      request.slippage > securityConfig.maxSlippage
+    ) {
+      errors.push(
+        `Slippage must be between 0.1% and ${securityConfig.maxSlippage}%`
+      );
+    }
+
+    // 수량 범위 검증
+    if (request.amount < securityConfig.minAmount) {
+      errors.push(`Amount must be at least ${securityConfig.minAmount}`);
+    }
+
+    if (request.amount > securityConfig.maxAmount) {
+      errors.push(
+        `Amount exceeds maximum limit of ${securityConfig.maxAmount}`
+      );
+    }
+
+    // 지원되는 토큰 검증
     if (!isSupportedToken(request.fromToken)) {
       errors.push(`Unsupported from token: ${request.fromToken}`);
     }
 
-    if (!isSupportedToken(request.toToken)) {
-      errors.push(`Unsupported to token: ${request.toToken}`);
+    if (!isSupportedToken(request.toToken)) {
+      errors.push(`Unsupported to token: ${request.toToken}`);
+    }
+
+    // 프로토콜 선택 검증
+    for (const protocol of [
+      ...(request.protocols ?? []),
+      ...(request.excludeProtocols ?? []),
+    ]) {
+      if (!liquidityAggregator.isRegistered(protocol)) {
+        errors.push(`Unknown liquidity protocol: ${protocol}`);
+      }
+    }
+
+    if (
+      request.fromToken &&
+      request.toToken &&
+      liquidityAggregator.selectProviders(
+        request.fromToken,
+        request.toToken,
+        request
+      ).length === 0
+    ) {
+      errors.push(
+        `No enabled liquidity protocol supports ${request.fromToken}/${request.toToken}`
+      );
+    }
+
+    // 슬리피지 경고
+    if (request.slippage > 5) {
+      warnings.push(`High slippage tolerance: ${request.slippage}%`);
+    }
+
+    // 대량 거래 경고
+    if (request.amount > securityConfig.maxAmount * 0.5) {
+      warnings.push('Large transaction amount detected');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+    };
+  }
+
+  /**
+   * 계정의 스왑 가능성 검증
+   *
+   * 트러스트라인을 추가하는 경우 스왑 후 사용 가능한 XLM이 추가 베이스 리저브를 감당하는지 확인한다.
+   */
+  private async validateAccountForSwap(
+    publicKey: string,
+    request: SwapRequest,
+    estimate: SwapEstimate,
+    trustline: TrustlineAddition | null = null
+  ): Promise<void> {
+    try {
+      // 계정 존재 확인
+      const accountExists = await stellarClient.accountExists(publicKey);
+      if (!accountExists) {
+        throw new Error(`Account does not exist: ${publicKey}`);
+      }
+
+      // 트러스트라인 확인
+      const fromTrustline = await hasTrustline(publicKey, request.fromToken);
+      if (!fromTrustline && request.fromToken !== 'XLM') {
+        throw new Error(`Missing trustline for ${request.fromToken}`);
+      }
+
+      const toTrustline =
+        trustline !== null || (await hasTrustline(publicKey, request.toToken));
+      if (!toTrustline && request.toToken !== 'XLM') {
+        throw new Error(
+          `Missing trustline for ${request.toToken}; set autoTrustline to add it with the swap`
+        );
+      }
+
+      // 잔액 확인 (exactOut은 최대 지불량 기준)
+      const requiredAmount =
+        estimate.mode === 'exactOut'
+          ? (estimate.maximumSent ?? estimate.fromAmount)
+          : request.amount;
+
+      const balance = await walletService.getTokenBalance(
+        publicKey,
+        request.fromToken
+      );
+      if (!compareBalances(balance, requiredAmount.toString())) {
+        throw new StellarInsufficientBalanceError(
+          request.fromToken,
+          requiredAmount.toString(),
+          balance,
+          publicKey
+        );
+      }
+
+      if (trustline) {
+        const { minimumBalance } =
+          await stellarClient.getMinimumBalance(publicKey);
+        const xlmBalance = parseFloat(
+          await walletService.getTokenBalance(publicKey, 'XLM')
+        );
+        const xlmSpent = request.fromToken === 'XLM' ? requiredAmount : 0;
+        const available = xlmBalance - minimumBalance - xlmSpent;
+
+        if (available < trustline.reserveLocked) {
+          throw new SwapError(
+            `Available XLM (${available.toFixed(7)}) does not cover the ${trustline.reserveLocked} XLM reserve for a new ${trustline.token} trustline`,
+            ErrorCode.STELLAR_INSUFFICIENT_BALANCE,
+            {
+              available,
+              reserveRequired: trustline.reserveLocked,
+              minimumBalance,
+              xlmSpent,
+            }
+          );
+        }
+      }
+
+      log.debug('Account validation completed', { publicKey });
+    } catch (error) {
+      log.error('Account validation failed', error as Error, { publicKey });
+      throw error;
+    }
+  }
+
+  /**
+   * 배치 스왑 계정 검증 (같은 토큰을 쓰는 구간의 지불량은 합산)
+   */
+  private async validateAccountForBatch(
+    publicKey: string,
+    requests: SwapRequest[],
+    estimates: SwapEstimate[]
+  ): Promise<void> {
+    const accountExists = await stellarClient.accountExists(publicKey);
+    if (!accountExists) {
+      throw new Error(`Account does not exist: ${publicKey}`);
+    }
+
+    const tokens = new Set(
+      requests.flatMap((request) => [request.fromToken, request.toToken])
+    );
+    for (const token of tokens) {
+      if (token !== 'XLM' && !(await hasTrustline(publicKey, token))) {
+        throw new Error(`Missing trustline for ${token}`);
+      }
+    }
+
+    const required: Map<string, number> = new Map();
+    requests.forEach((request, index) => {
+      const estimate = estimates[index]!;
+      const amount =
+        estimate.mode === 'exactOut'
+          ? (estimate.maximumSent ?? estimate.fromAmount)
+          : request.amount;
+      required.set(
+        request.fromToken,
+        (required.get(request.fromToken) ?? 0) + amount
+      );
+    });
+
+    for (const [token, amount] of required) {
+      const balance = await walletService.getTokenBalance(publicKey, token);
+      if (!compareBalances(balance, amount.toString())) {
+        throw new StellarInsufficientBalanceError(
+          token,
+          amount.toString(),
+          balance,
+          publicKey
+        );
+      }
+    }
+
+    log.debug('Batch account validation completed', {
+      publicKey,
+      legs: requests.length,
+    });
+  }
+
+  /**
+   * 실제 스왑 실행
+   */
+  private async performSwap(
+    keypair: Keypair,
+    request: SwapRequest,
+    estimate: SwapEstimate,
+    trustline: TrustlineAddition | null = null,
+    onSubmit?: ExecuteSwapOptions['onSubmit']
+  ): Promise<SwapResult> {
+    try {
+      const publicKey = keypair.publicKey();
+      const venue = this.getEstimateProvider(request, estimate).venue;
+
+      log.info('Performing swap transaction', {
+        account: publicKey,
+        fromToken: request.fromToken,
+        toToken: request.toToken,
+        amount: request.amount,
+        venue,
+      });
+
+      // 채널 계정을 지원하는 경로는 채널을 트랜잭션 소스로 사용해 동시 스왑끼리 시퀀스가 겹치지 않게 한다
+      const lease = this.getEstimateProvider(request, estimate).supportsChannels
+        ? await channelAccountManager.lease(publicKey)
+        : null;
+
+      try {
+        const transaction = await this.buildSwapTransaction(
+          publicKey,
+          request,
+          estimate,
+          SWAP_TX_TIMEOUT_SECONDS,
+          lease,
+          trustline
+        );
+
+        // 제출 직전 시세 변동 확인
+        await this.guardQuoteDrift(request, estimate);
+
+        // 트랜잭션 해시는 서명과 무관하므로 제출 전에 알려 호출자가 먼저 저장하게 한다
+        const submitted: SubmittedSwap = {
+          transactionHash: transaction.hash().toString('hex'),
+          expiresAt: new Date(
+            Number(transaction.timeBounds?.maxTime ?? 0) * 1000
+          ).toISOString(),
+        };
+        await onSubmit?.(submitted);
+
+        let result: SwapResult;
+        try {
+          result = await this.submitSwapTransaction(
+            transaction,
+            keypair,
+            request,
+            estimate,
+            venue,
+            lease
+          );
+        } catch (error) {
+          if (!(error instanceof TransactionTimeoutError)) {
+            throw error;
+          }
+          // 결과 불명: 채널을 돌려주기 전에 원장에서 반영 여부를 확정
+          result = await this.settleTimedOutSwap(request, publicKey, submitted);
+        }
+        channelAccountManager.release(lease);
+
+        if (trustline) {
+          result.trustlineAdded = trustline;
+        }
+        if (await this.isFeeCapped(request)) {
+          result.feeCapped = true;
+        }
+
+        return result;
+      } catch (error) {
+        channelAccountManager.release(lease, true);
+        throw error;
+      }
+    } catch (error) {
+      log.error('Swap execution failed', error as Error);
+
+      if (error instanceof StellarError || error instanceof SwapError) {
+        throw error;
+      }
+
+      throw new StellarTransactionFailedError(
+        `Swap execution failed: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * 모의 스왑 실행 (승인 큐는 거치지 않고, 지출은 실거래와 분리된 모의 지출로 예약/기록)
+   */
+  private async performPaperSwap(request: SwapRequest): Promise<SwapResult> {
+    const accountSecret =
+      request.accountSecret || stellarConfig.defaultAccountSecret;
+    const publicKey = accountSecret
+      ? Keypair.fromSecret(accountSecret).publicKey()
+      : stellarConfig.defaultAccountPublic;
+    if (!publicKey) {
+      throw new Error('No account provided for paper trading');
+    }
+
+    const estimate = await this.estimateSwap(request);
+    const reservationId = await policyEngine.reserveSpend(publicKey, [
+      this.toPolicyTrade(estimate),
+    ]);
+
+    let result: SwapResult;
+    try {
+      result = await paperTradingService.fill(publicKey, request, estimate);
+    } catch (error) {
+      policyEngine.releaseSpend(reservationId);
+      throw error;
+    }
+    await policyEngine.confirmSpend(reservationId);
+
+    return result;
+  }
+
+  /**
+   * 모의 거래 중에는 실제 트랜잭션을 제출하는 경로 차단
+   */
+  private rejectIfPaperTrading(operation: string): void {
+    if (paperTradingService.isEnabled()) {
+      throw new SwapError(
+        `${operation} submit real transactions and are disabled in paper trading mode; use swap_tokens instead`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+  }
+
+  /**
+   * 정규화된 견적을 내부 형식으로 변환
+   */
+  private toSwapEstimate(
+    route: RouteQuote,
+    request: SwapRequest
+  ): SwapEstimate {
+    const mode = request.mode ?? 'exactIn';
+    const estimate: SwapEstimate = {
+      fromToken: request.fromToken,
+      toToken: request.toToken,
+      mode,
+      fromAmount: route.fromAmount,
+      toAmount: route.toAmount,
+      priceImpact: route.priceImpact,
+      fee: route.fee,
+      path: route.path,
+      protocol: route.protocol,
+      venue: route.venue,
+    };
+
+    // 슬리피지 보호 한도: exactIn은 최소 수령량, exactOut은 최대 지불량
+    if (mode === 'exactOut') {
+      estimate.maximumSent =
+        route.maximumSent ?? estimate.fromAmount * (1 + request.slippage / 100);
+    } else {
+      estimate.minimumReceived =
+        route.minimumReceived ??
+        estimate.toAmount * (1 - request.slippage / 100);
+    }
+
+    return estimate;
+  }
+
+  /**
+   * 가격 영향이 한도 이하로 유지되는 최대 수량 탐색 (없으면 undefined)
+   *
+   * 가격 영향은 수량에 대해 증가하므로 요청 수량 아래 구간을 이분 탐색한다.
+   */
+  private async findMaxAmountWithinImpact(
+    request: SwapRequest,
+    mode: SwapMode
+  ): Promise<number | undefined> {
+    let low = 0;
+    let high = request.amount;
+    let found: number | undefined;
+
+    for (let step = 0; step < PRICE_IMPACT_SEARCH_STEPS; step++) {
+      const amount = Math.floor(((low + high) / 2) * 1e7) / 1e7;
+      if (amount <= low) {
+        break;
+      }
+
+      try {
+        const quotes = await liquidityAggregator.quote(
+          { ...request, amount },
+          mode
+        );
+        const best = liquidityAggregator.pickBest(quotes, mode);
+
+        if (best && best.priceImpact <= securityConfig.maxPriceImpact) {
+          low = amount;
+          found = amount;
+        } else {
+          high = amount;
+        }
+      } catch (error) {
+        log.debug('Price impact probe failed', {
+          amount,
+          error: (error as Error).message,
+        });
+        high = amount;
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * 주어진 허용치로 슬리피지 보호 한도 재계산
+   */
+  private applySlippageLimit(estimate: SwapEstimate, slippage: number): void {
+    if (estimate.mode === 'exactOut') {
+      estimate.maximumSent = estimate.fromAmount * (1 + slippage / 100);
+    } else {
+      estimate.minimumReceived = estimate.toAmount * (1 - slippage / 100);
+    }
+  }
+
+  /**
+   * 제출 직전 재견적으로 시세 변동 확인
+   *
+   * exactIn은 예상 수령량, exactOut은 예상 지불량을 승인된 견적과 비교한다.
+   */
+  private async guardQuoteDrift(
+    request: SwapRequest,
+    acceptedEstimate: SwapEstimate
+  ): Promise<SwapEstimate> {
+    const route = await this.getEstimateProvider(
+      request,
+      acceptedEstimate
+    ).quote(request, acceptedEstimate.mode);
+    if (!route) {
+      throw new SwapError(
+        `Route for ${request.fromToken}/${request.toToken} is no longer available`,
+        ErrorCode.SOROSWAP_INSUFFICIENT_LIQUIDITY,
+        { acceptedEstimate }
+      );
+    }
+    const requote = this.toSwapEstimate(route, request);
+
+    const [accepted, current] =
+      acceptedEstimate.mode === 'exactOut'
+        ? [acceptedEstimate.fromAmount, requote.fromAmount]
+        : [acceptedEstimate.toAmount, requote.toAmount];
+
+    const driftBps =
+      accepted > 0 ? (Math.abs(current - accepted) / accepted) * 10000 : 0;
+    const thresholdBps = securityConfig.maxQuoteDriftBps;
+
+    if (driftBps > thresholdBps) {
+      log.warn('Quote drift exceeded threshold', {
+        fromToken: request.fromToken,
+        toToken: request.toToken,
+        accepted,
+        current,
+        driftBps,
+        thresholdBps,
+      });
+      throw new QuoteDriftError(
+        acceptedEstimate,
+        requote,
+        driftBps,
+        thresholdBps
+      );
+    }
+
+    log.debug('Quote drift within threshold', { driftBps, thresholdBps });
+
+    return requote;
+  }
+
+  /**
+   * 실행 견적이 운영자가 승인한 견적보다 허용치 이상 불리한지 확인
+   *
+   * exactIn은 수령량 감소, exactOut은 지불량 증가만 변동으로 본다.
+   */
+  private guardApprovedEstimate(
+    approvedEstimate: SwapEstimate,
+    estimate: SwapEstimate
+  ): void {
+    const worseBy =
+      approvedEstimate.mode === 'exactOut'
+        ? estimate.fromAmount - approvedEstimate.fromAmount
+        : approvedEstimate.toAmount - estimate.toAmount;
+    const approved =
+      approvedEstimate.mode === 'exactOut'
+        ? approvedEstimate.fromAmount
+        : approvedEstimate.toAmount;
+
+    const driftBps =
+      approved > 0 ? (Math.max(0, worseBy) / approved) * 10000 : 0;
+    const thresholdBps = securityConfig.maxQuoteDriftBps;
+
+    if (driftBps > thresholdBps) {
+      log.warn('Execution quote is worse than the approved estimate', {
+        fromToken: approvedEstimate.fromToken,
+        toToken: approvedEstimate.toToken,
+        approved,
+        driftBps,
+        thresholdBps,
+      });
+      throw new QuoteDriftError(
+        approvedEstimate,
+        estimate,
+        driftBps,
+        thresholdBps
+      );
+    }
+  }
+
+  /**
+   * 승인이 필요한 거래 거부 (승인 큐는 swap_tokens 단건 실행만 지원)
+   */
+  private async rejectIfApprovalRequired(
+    trades: PolicyTrade[],
+    message: string = 'Swap exceeds the approval threshold; submit it as a single swap to queue it for operator approval'
+  ): Promise<void> {
+    const approvalCheck = await approvalQueue.check(trades);
+    if (approvalCheck.required) {
+      throw new SwapError(message, ErrorCode.APPROVAL_REQUIRED, {
+        usdValue: approvalCheck.usdValue,
+      });
+    }
+  }
+
+  /**
+   * 승인 대기로 보류된 스왑 결과 생성
+   */
+  private buildPendingApprovalResult(
+    request: SwapRequest,
+    approval: SwapApproval
+  ): SwapResult {
+    const usdLabel =
+      approval.usdValue !== undefined
+        ? `$${approval.usdValue.toFixed(2)}`
+        : 'Unknown USD value';
+    const result = this.buildFailedResult(
+      request,
+      new SwapError(
+        `${usdLabel} exceeds the $${approval.thresholdUsd} approval threshold; awaiting operator approval until ${approval.expiresAt}`,
+        ErrorCode.APPROVAL_REQUIRED,
+        {
+          approvalId: approval.id,
+          status: approval.status,
+          usdValue: approval.usdValue,
+          thresholdUsd: approval.thresholdUsd,
+          expiresAt: approval.expiresAt,
+        }
+      )
+    );
+    result.approvalId = approval.id;
+
+    log.info('Swap parked for operator approval', {
+      approvalId: approval.id,
+      usdValue: approval.usdValue,
+      expiresAt: approval.expiresAt,
+    });
+
+    return result;
+  }
+
+  /**
+   * 요청 긴급도의 시장 수수료가 MAX_FEE_STROOPS로 낮춰졌는지 확인
+   */
+  private async isFeeCapped(request: SwapRequest): Promise<boolean> {
+    const { capped } = await feeStrategy.quoteFee(request.urgency);
+    return capped;
+  }
+
+  /**
+   * 견적을 정책 평가 대상 거래로 변환
+   */
+  private toPolicyTrade(estimate: SwapEstimate): PolicyTrade {
+    return {
+      fromToken: estimate.fromToken,
+      toToken: estimate.toToken,
+      fromAmount: estimate.fromAmount,
+      toAmount: estimate.toAmount,
+    };
+  }
+
+  /**
+   * 실패한 스왑 결과 생성
+   */
+  private buildFailedResult(request: SwapRequest, error: Error): SwapResult {
+    const isExactOut = request.mode === 'exactOut';
+
+    const result: SwapResult = {
+      success: false,
+      fromToken: request.fromToken,
+      toToken: request.toToken,
+      fromAmount: isExactOut ? 0 : request.amount,
+      toAmount: isExactOut ? request.amount : 0,
+      mode: request.mode ?? 'exactIn',
+      fee: 0,
+      timestamp: new Date().toISOString(),
+      error: error.message,
+    };
+
+    if (error instanceof SwapError || error instanceof StellarError) {
+      result.errorCode = error.code;
+      if (error.details) {
+        result.details = error.details;
+      }
+    }
+
+    if (error instanceof SwapUnconfirmedError) {
+      result.transactionHash = error.transactionHash;
+      result.unconfirmed = true;
+    }
+
+    return result;
+  }
+
+  /**
+   * 배치 스왑 구간 결과 생성
+   */
+  private buildBatchLegResult(
+    request: SwapRequest,
+    estimate: SwapEstimate,
+    resultXdr: string,
+    operationIndex: number
+  ): SwapResult {
+    const isExactOut = estimate.mode === 'exactOut';
+    const actualReceived = this.readPathPaymentReceived(
+      resultXdr,
+      estimate.mode,
+      operationIndex
+    );
+    const actualSent = isExactOut ? undefined : request.amount;
+
+    const result: SwapResult = {
+      success: true,
+      fromToken: request.fromToken,
+      toToken: request.toToken,
+      fromAmount: isExactOut ? estimate.fromAmount : request.amount,
+      toAmount: isExactOut ? request.amount : estimate.toAmount,
+      mode: estimate.mode,
+      fee: estimate.fee,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (actualSent !== undefined) {
+      result.actualSent = actualSent;
+    }
+
+    if (actualReceived !== undefined) {
+      result.actualReceived = actualReceived;
+    }
+
+    const realizedSlippageBps = this.calculateRealizedSlippageBps(
+      estimate,
+      actualSent,
+      actualReceived
+    );
+    if (realizedSlippageBps !== undefined) {
+      result.realizedSlippageBps = realizedSlippageBps;
+    }
+
+    return result;
+  }
+
+  /**
+   * 실패한 배치 스왑 결과 생성 (오퍼레이션 결과 코드는 해당 구간에 표시)
+   */
+  private buildFailedBatchResult(
+    requests: SwapRequest[],
+    error: Error
+  ): BatchSwapResult {
+    const operationCodes: string[] =
+      error instanceof StellarError
+        ? (error.details?.resultCodes?.operations ?? [])
+        : [];
+
+    const result: BatchSwapResult = {
+      success: false,
+      legs: requests.map((request, index) => {
+        const leg = this.buildFailedResult(request, error);
+        const code = operationCodes[index];
+        if (code) {
+          leg.details = { ...leg.details, operationResultCode: code };
+        }
+        return leg;
+      }),
+      fee: 0,
+      timestamp: new Date().toISOString(),
+      error: error.message,
+    };
+
+    if (error instanceof SwapError || error instanceof StellarError) {
+      result.errorCode = error.code;
+      if (error.details) {
+        result.details = error.details;
+      }
+    }
+
+    if (error instanceof SwapUnconfirmedError) {
+      result.transactionHash = error.transactionHash;
+      result.unconfirmed = true;
     }
 
-    // 슬리피지 경고
-    if (request.slippage > 5) {
-      warnings.push(`High slippage tolerance: ${request.slippage}%`);
+    return result;
+  }
+
+  /**
+   * 만료된 준비 스왑 정리
+   */
+  private cleanupExpiredPreparedSwaps(): void {
+    const now = Date.now();
+
+    for (const [quoteId, prepared] of this.preparedSwaps.entries()) {
+      if (now > Date.parse(prepared.expiresAt)) {
+        this.preparedSwaps.delete(quoteId);
+      }
     }
+  }
 
-    // 대량 거래 경고
-    if (request.amount > securityConfig.maxAmount * 0.5) {
-      warnings.push('Large transaction amount detected');
+  /**
+   * 서명 전 스왑 트랜잭션 생성 (견적을 낸 프로토콜 어댑터가 생성)
+   */
+  private async buildSwapTransaction(
+    publicKey: string,
+    request: SwapRequest,
+    estimate: SwapEstimate,
+    timeoutSeconds: number = SWAP_TX_TIMEOUT_SECONDS,
+    lease: ChannelLease | null = null,
+    trustline: TrustlineAddition | null = null
+  ): Promise<Transaction> {
+    const options: BuildSwapOptions = {};
+    if (lease) {
+      options.channel = lease.account;
+    }
+    if (trustline) {
+      options.trustline = symbolToAsset(trustline.token);
     }
 
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings,
+    return this.getEstimateProvider(request, estimate).buildSwap(
+      publicKey,
+      request,
+      estimate,
+      timeoutSeconds,
+      options
+    );
+  }
+
+  /**
+   * autoTrustline 요청에서 추가할 수령 자산 트러스트라인 결정 (필요 없으면 null)
+   */
+  private async planTrustline(
+    publicKey: string,
+    request: SwapRequest
+  ): Promise<TrustlineAddition | null> {
+    if (
+      !request.autoTrustline ||
+      request.toToken === 'XLM' ||
+      (await hasTrustline(publicKey, request.toToken))
+    ) {
+      return null;
+    }
+
+    if (!getTokenInfo(request.toToken)?.assetIssuer) {
+      throw new SwapError(
+        `Cannot add a trustline for ${request.toToken}: it is not a classic Stellar asset`,
+        ErrorCode.SWAP_VALIDATION_ERROR
+      );
+    }
+
+    const { baseReserve } = await stellarClient.getMinimumBalance(publicKey);
+    return { token: request.toToken, reserveLocked: baseReserve };
+  }
+
+  /**
+   * 트러스트라인 오퍼레이션을 함께 담을 수 있는 프로토콜로 견적 대상 한정
+   */
+  private restrictToTrustlineProtocols(request: SwapRequest): SwapRequest {
+    const protocols = liquidityAggregator
+      .selectProviders(request.fromToken, request.toToken, request)
+      .filter((provider) => provider.supportsTrustlineCreation)
+      .map((provider) => provider.protocol);
+
+    if (protocols.length === 0) {
+      throw new SwapError(
+        `autoTrustline requires a Stellar DEX route for ${request.fromToken}/${request.toToken}; add the ${request.toToken} trustline first`,
+        ErrorCode.SWAP_VALIDATION_ERROR
+      );
+    }
+
+    return { ...request, protocols };
+  }
+
+  /**
+   * 견적을 낸 프로토콜 어댑터 조회 (프로토콜이 없으면 요청에서 선택된 첫 어댑터)
+   */
+  private getEstimateProvider(
+    request: SwapRequest,
+    estimate: SwapEstimate
+  ): LiquidityProvider {
+    if (estimate.protocol) {
+      return liquidityAggregator.getProvider(estimate.protocol);
+    }
+
+    const [provider] = liquidityAggregator.selectProviders(
+      request.fromToken,
+      request.toToken,
+      request
+    );
+    if (!provider) {
+      throw new SwapError(
+        `No liquidity protocol available for ${request.fromToken}/${request.toToken}`,
+        ErrorCode.SWAP_VALIDATION_ERROR
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * 스왑 트랜잭션 서명/제출 후 결과 변환
+   */
+  private async submitSwapTransaction(
+    transaction: Transaction,
+    keypair: Keypair,
+    request: SwapRequest,
+    estimate: SwapEstimate,
+    venue: SwapVenue,
+    lease: ChannelLease | null = null
+  ): Promise<SwapResult> {
+    const isExactOut = estimate.mode === 'exactOut';
+    let actualSent: number | undefined;
+    let actualReceived: number | undefined;
+    const submission = await this.submitTransaction(
+      transaction,
+      this.getSigners(keypair, lease),
+      'Swap'
+    );
+    const { hash, ledger, feeBumped } = submission;
+    const networkFee = submission.feeCharged;
+
+    if (venue === 'soroswap_router') {
+      const amounts = sorobanClient.readReturnedAmounts(submission.returnValue);
+      const sentRaw = amounts[0];
+      const receivedRaw = amounts[amounts.length - 1];
+
+      actualSent =
+        sentRaw !== undefined
+          ? fromContractAmount(
+              sentRaw,
+              getTokenInfo(request.fromToken)?.decimals
+            )
+          : undefined;
+      actualReceived =
+        receivedRaw !== undefined
+          ? fromContractAmount(
+              receivedRaw,
+              getTokenInfo(request.toToken)?.decimals
+            )
+          : undefined;
+    } else {
+      actualSent = isExactOut ? undefined : request.amount;
+      // 트러스트라인이 추가된 경우에도 경로 결제는 마지막 오퍼레이션
+      actualReceived = this.readPathPaymentReceived(
+        submission.resultXdr,
+        estimate.mode,
+        transaction.operations.length - 1
+      );
+    }
+
+    // 실제 체결량은 이펙트 기준, 조회 실패 시 결과 XDR/컨트랙트 반환값 사용
+    const settled = await this.readSettledAmounts(
+      hash,
+      keypair.publicKey(),
+      request
+    );
+    actualSent = settled.sent ?? actualSent;
+    actualReceived = settled.received ?? actualReceived;
+
+    const realizedSlippageBps = this.calculateRealizedSlippageBps(
+      estimate,
+      actualSent,
+      actualReceived
+    );
+
+    log.transaction('swap completed', hash, {
+      ledger,
+      venue,
+      fromToken: request.fromToken,
+      toToken: request.toToken,
+      mode: estimate.mode,
+      expectedAmount: isExactOut ? estimate.fromAmount : estimate.toAmount,
+      actualSent,
+      actualReceived,
+      realizedSlippageBps,
+      networkFee,
+      feeBumped,
+    });
+
+    const result: SwapResult = {
+      success: true,
+      transactionHash: hash,
+      ledger,
+      fromToken: request.fromToken,
+      toToken: request.toToken,
+      fromAmount: isExactOut ? estimate.fromAmount : request.amount,
+      toAmount: isExactOut ? request.amount : estimate.toAmount,
+      mode: estimate.mode,
+      fee: estimate.fee,
+      networkFee,
+      feeBumped,
+      timestamp: new Date().toISOString(),
     };
+
+    if (actualSent !== undefined) {
+      result.actualSent = actualSent;
+    }
+
+    if (actualReceived !== undefined) {
+      result.actualReceived = actualReceived;
+    }
+
+    if (realizedSlippageBps !== undefined) {
+      result.realizedSlippageBps = realizedSlippageBps;
+    }
+
+    return result;
   }
 
   /**
-   * 계정의 스왑 가능성 검증
+   * 트랜잭션 이펙트에서 계정의 실제 차감/입금량 조회
    */
-  private async validateAccountForSwap(
+  private async readSettledAmounts(
+    hash: string,
     publicKey: string,
     request: SwapRequest
-  ): Promise<void> {
+  ): Promise<{ sent?: number; received?: number }> {
     try {
-      // 계정 존재 확인
-      const accountExists = await stellarClient.accountExists(publicKey);
-      if (!accountExists) {
-        throw new Error(`Account does not exist: ${publicKey}`);
-      }
-
-      // 트러스트라인 확인
-      const fromTrustline = await hasTrustline(publicKey, request.fromToken);
-      if (!fromTrustline && request.fromToken !== 'XLM') {
-        throw new Error(`Missing trustline for ${request.fromToken}`);
-      }
+      const effects = await stellarClient.getTransactionEffects(hash);
+      const fromToken = request.fromToken.toUpperCase();
+      const toToken = request.toToken.toUpperCase();
+      const amounts: { sent?: number; received?: number } = {};
 
-      const toTrustline = await hasTrustline(publicKey, request.toToken);
-      if (!toTrustline && request.toToken !== 'XLM') {
-        throw new Error(`Missing trustline for ${request.toToken}`);
-      }
+      for (const effect of effects) {
+        if (!isBalanceEffect(effect) || effect.account !== publicKey) {
+          continue;
+        }
 
-      // 잔액 확인
-      const balance = await walletService.getTokenBalance(publicKey, request.fromToken);
-      if (!compareBalances(balance, request.amount.toString())) {
-        throw new StellarInsufficientBalanceError(
-          request.fromToken,
-          request.amount.toString(),
-          balance,
-          publicKey
+        const token = assetFieldsToSymbol(
+          effect.asset_type,
+          effect.asset_code,
+          effect.asset_issuer
         );
+
+        if (effect.type === 'account_debited' && token === fromToken) {
+          amounts.sent = (amounts.sent ?? 0) + parseFloat(effect.amount);
+        } else if (effect.type === 'account_credited' && token === toToken) {
+          amounts.received =
+            (amounts.received ?? 0) + parseFloat(effect.amount);
+        }
       }
 
-      log.debug('Account validation completed', { publicKey });
+      return amounts;
     } catch (error) {
-      log.error('Account validation failed', error as Error, { publicKey });
-      throw error;
+      log.warn('Failed to read swap effects', {
+        hash,
+        error: (error as Error).message,
+      });
+      return {};
     }
   }
 
   /**
-   * 실제 스왑 실행
+   * 견적 대비 실제 체결 슬리피지 계산 (bps, 양수면 불리한 체결)
+   *
+   * exactIn은 수령량, exactOut은 지불량을 견적과 비교한다.
    */
-  private async performSwap(
-    keypair: Keypair,
+  private calculateRealizedSlippageBps(
+    estimate: SwapEstimate,
+    actualSent?: number,
+    actualReceived?: number
+  ): number | undefined {
+    if (estimate.mode === 'exactOut') {
+      if (actualSent === undefined || estimate.fromAmount <= 0) {
+        return undefined;
+      }
+      return ((actualSent - estimate.fromAmount) / estimate.fromAmount) * 10000;
+    }
+
+    if (actualReceived === undefined || estimate.toAmount <= 0) {
+      return undefined;
+    }
+    return ((estimate.toAmount - actualReceived) / estimate.toAmount) * 10000;
+  }
+
+  /**
+   * 트랜잭션 서명자 목록 (채널 계정이 첫 번째 서명자이자 fee-bump 수수료 지불 계정)
+   */
+  private getSigners(keypair: Keypair, lease: ChannelLease | null): Keypair[] {
+    return lease ? [lease.keypair, keypair] : [keypair];
+  }
+
+  /**
+   * 트랜잭션(클래식/Soroban)을 제출 파이프라인으로 제출하고 최종 상태를 에러로 변환
+   *
+   * 실패와 만료는 원장 적용 여부가 확정된 상태이므로 만료된 요청은 그대로 재시도해도 안전하다.
+   */
+  private async submitTransaction(
+    transaction: Transaction,
+    signers: Keypair[],
+    label: string
+  ): Promise<SubmissionResult & { ledger: number; resultXdr: string }> {
+    const submission = await transactionSubmitter.submit(transaction, signers);
+
+    if (submission.status === 'expired') {
+      throw new TransactionExpiredError(
+        submission.hash,
+        Number(transaction.timeBounds?.maxTime ?? 0)
+      );
+    }
+
+    if (
+      submission.status === 'failed' ||
+      submission.ledger === undefined ||
+      !submission.resultXdr
+    ) {
+      const { resultCodes } = submission;
+      throw new StellarTransactionFailedError(
+        resultCodes
+          ? `${label} transaction failed: ${formatResultCodes(resultCodes)}`
+          : `${label} transaction failed`,
+        submission.hash,
+        resultCodes
+      );
+    }
+
+    return {
+      ...submission,
+      ledger: submission.ledger,
+      resultXdr: submission.resultXdr,
+    };
+  }
+
+  /**
+   * 원장에서 확인한 스왑 트랜잭션을 결과로 변환 (체결량은 이펙트 기준)
+   */
+  private async toSubmittedSwapResult(
     request: SwapRequest,
-    estimate: SwapEstimate
+    account: string,
+    record: Horizon.ServerApi.TransactionRecord
   ): Promise<SwapResult> {
+    const isExactOut = request.mode === 'exactOut';
+    const result: SwapResult = {
+      success: record.successful,
+      transactionHash: record.hash,
+      ledger: record.ledger_attr,
+      fromToken: request.fromToken,
+      toToken: request.toToken,
+      fromAmount: isExactOut ? 0 : request.amount,
+      toAmount: isExactOut ? request.amount : 0,
+      mode: request.mode ?? 'exactIn',
+      fee: 0,
+      networkFee: fromStroops(record.fee_charged),
+      timestamp: record.created_at,
+    };
+
+    if (!record.successful) {
+      result.error = 'Swap transaction failed on the ledger';
+      result.errorCode = ErrorCode.STELLAR_TRANSACTION_FAILED;
+      return result;
+    }
+
+    const settled = await this.readSettledAmounts(
+      record.hash,
+      account,
+      request
+    );
+    if (settled.sent !== undefined) {
+      result.actualSent = settled.sent;
+      if (isExactOut) {
+        result.fromAmount = settled.sent;
+      }
+    }
+    if (settled.received !== undefined) {
+      result.actualReceived = settled.received;
+      if (!isExactOut) {
+        result.toAmount = settled.received;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 트랜잭션 결과 XDR에서 실제 수령량 추출
+   */
+  private readPathPaymentReceived(
+    resultXdr: string,
+    mode: SwapMode,
+    operationIndex: number = 0
+  ): number | undefined {
     try {
-      const publicKey = keypair.publicKey();
-      
-      log.info('Performing swap transaction', {
-        account: publicKey,
-        fromToken: request.fromToken,
-        toToken: request.toToken,
-        amount: request.amount,
+      const result = xdr.TransactionResult.fromXDR(
+        resultXdr,
+        'base64'
+      ).result();
+      const opResults =
+        result.switch() === xdr.TransactionResultCode.txFeeBumpInnerSuccess()
+          ? result.innerResultPair().result().result().results()
+          : result.results();
+      const opResult = opResults[operationIndex];
+      const success =
+        mode === 'exactOut'
+          ? opResult?.tr().pathPaymentStrictReceiveResult().success()
+          : opResult?.tr().pathPaymentStrictSendResult().success();
+
+      return success
+        ? fromStroops(success.last().amount().toString())
+        : undefined;
+    } catch (error) {
+      log.warn('Failed to decode swap result XDR', {
+        error: (error as Error).message,
       });
+      return undefined;
+    }
+  }
+
+  /**
+   * 예약 실행기 등록 전 승인 필요 여부 확인 (필요하면 APPROVAL_REQUIRED)
+   *
+   * 예약 실행기는 승인 대기로 보류할 수 없으므로 현재 견적 기준으로 등록 시 거부한다.
+   */
+  async rejectIfScheduledApprovalRequired(request: SwapRequest): Promise<void> {
+    if (!approvalQueue.isEnabled() || paperTradingService.isEnabled()) {
+      return;
+    }
 
-      // 현재는 Stellar DEX를 통한 직접 스왑으로 단순화
-      // 실제 Soroswap 스마트 컨트랙트 연동은 추후 구현
-      const result = await this.executeDirectSwap(keypair, request, estimate);
+    const estimate = await this.estimateSwap(request);
+    await this.rejectIfApprovalRequired(
+      [this.toPolicyTrade(estimate)],
+      SCHEDULED_APPROVAL_MESSAGE
+    );
+  }
 
-      return result;
+  /**
+   * 확정 대기 시간이 지난 스왑을 해시로 다시 조회해 체결 결과로 바꾼다
+   *
+   * 적용되지 않았으면 TransactionExpiredError, 원장에서 실패했으면 StellarTransactionFailedError,
+   * 끝내 확인하지 못하면 SwapUnconfirmedError (체결됐을 수 있으므로 실패로 다루면 안 된다).
+   */
+  private async settleTimedOutSwap(
+    request: SwapRequest,
+    account: string,
+    submitted: SubmittedSwap
+  ): Promise<SwapResult> {
+    const { transactionHash } = submitted;
+    log.warn('Swap confirmation timed out, resolving by transaction hash', {
+      transactionHash,
+      expiresAt: submitted.expiresAt,
+    });
+
+    let result: SwapResult | undefined;
+    try {
+      result = await this.resolveSubmittedSwap(request, account, submitted);
     } catch (error) {
-      log.error('Swap execution failed', error as Error);
+      throw new SwapUnconfirmedError(transactionHash, (error as Error).message);
+    }
+
+    if (!result) {
+      throw new TransactionExpiredError(
+        transactionHash,
+        Math.floor(new Date(submitted.expiresAt).getTime() / 1000)
+      );
+    }
+
+    if (!result.success) {
       throw new StellarTransactionFailedError(
-        `Swap execution failed: ${(error as Error).message}`
+        result.error ?? 'Swap transaction failed on the ledger',
+        transactionHash
       );
     }
+
+    return result;
+  }
+
+  /**
+   * 체결되지 않은 스왑의 지출 예약 정리 (결과 불명이면 체결된 것으로 보고 유지)
+   */
+  private async settleReservation(
+    reservationId: string,
+    error: unknown
+  ): Promise<void> {
+    if (error instanceof SwapUnconfirmedError) {
+      await policyEngine.confirmSpend(reservationId, error.transactionHash);
+      return;
+    }
+    policyEngine.releaseSpend(reservationId);
   }
 
   /**
-   * 직접 스왑 실행 (Stellar DEX 사용)
+   * 결과를 받기 전에 중단된 스왑의 원장 반영 결과 확인
+   *
+   * 원장에 포함될 때까지 기다리고, 타임바운드가 지나도록 없으면 적용되지 않았으므로 undefined를 반환한다.
+   * 타임바운드 후 유예 시간까지도 확정할 수 없으면 TransactionTimeoutError (결과 불명).
    */
-  private async executeDirectSwap(
-    _keypair: Keypair,
+  async resolveSubmittedSwap(
     request: SwapRequest,
-    estimate: SwapEstimate
-  ): Promise<SwapResult> {
+    account: string,
+    submission: SubmittedSwap
+  ): Promise<SwapResult | undefined> {
+    const { transactionHash } = submission;
+    const maxTime = Math.floor(new Date(submission.expiresAt).getTime() / 1000);
+    const startedAt = Date.now();
+    const deadline =
+      Math.max(startedAt, maxTime * 1000) + SUBMITTED_SWAP_GRACE_MS;
+
     try {
-      // publicKey는 현재 사용하지 않음
-      // const publicKey = keypair.publicKey();
-      
-      // 트랜잭션 빌더 생성 (현재는 사용하지 않음)
-      // const txBuilder = await stellarClient.createTransactionBuilder(publicKey);
-      
-      // 자산 객체 생성 (현재는 사용하지 않음)
-      // const fromAsset = symbolToAsset(request.fromToken);
-      // const toAsset = symbolToAsset(request.toToken);
-
-      // Path Payment Strict Send 오퍼레이션 추가
-      // (실제 구현에서는 Soroswap 스마트 컨트랙트 호출로 대체)
-      // const pathPaymentOp = {
-      //   sendAsset: fromAsset,
-      //   sendAmount: request.amount.toString(),
-      //   destination: publicKey, // 자기 자신에게 전송
-      //   destAsset: toAsset,
-      //   destMin: estimate.minimumReceived.toString(),
-      //   path: [], // 단순화를 위해 직접 경로 사용
-      // };
-
-      // TODO: 실제 Soroswap 스마트 컨트랙트 호출로 대체
-      // 현재는 시뮬레이션된 결과 반환
-      
-      const mockTxHash = `mock_tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      log.info('Mock swap transaction completed', {
-        txHash: mockTxHash,
-        fromToken: request.fromToken,
-        toToken: request.toToken,
-        fromAmount: request.amount,
-        toAmount: estimate.toAmount,
-      });
+      for (;;) {
+        // 마감 시각을 먼저 읽어야 그 뒤 조회에 없는 트랜잭션이 이후에도 포함될 수 없음이 확정된다
+        const closeTime = await stellarClient.getLatestLedgerCloseTime();
+        const record = await stellarClient.getTransaction(transactionHash);
 
-      return {
-        success: true,
-        transactionHash: mockTxHash,
-        fromToken: request.fromToken,
-        toToken: request.toToken,
-        fromAmount: request.amount,
-        toAmount: estimate.toAmount,
-        actualReceived: estimate.toAmount,
-        fee: estimate.fee,
-        timestamp: new Date().toISOString(),
-      };
+        if (record) {
+          return await this.toSubmittedSwapResult(request, account, record);
+        }
+
+        if (closeTime > maxTime) {
+          log.warn('Submitted swap expired without being applied', {
+            transactionHash,
+            expiresAt: submission.expiresAt,
+          });
+          return undefined;
+        }
+
+        if (Date.now() >= deadline) {
+          throw new TransactionTimeoutError(
+            transactionHash,
+            Date.now() - startedAt
+          );
+        }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, SUBMITTED_SWAP_POLL_MS)
+        );
+      }
     } catch (error) {
-      log.error('Direct swap execution failed', error as Error);
+      log.error('Failed to resolve submitted swap', error as Error, {
+        transactionHash,
+      });
       throw error;
     }
   }
 
   /**
    * 스왑 히스토리 조회
+   *
+   * 경로 결제와 Soroban 컨트랙트 호출 오퍼레이션을 최신순으로 읽어 스왑만 추린다.
+   * 스왑이 limit개 모이거나 기록이 끝날 때까지 다음 페이지를 계속 읽으며,
+   * nextCursor는 마지막으로 확인한 오퍼레이션이라 다음 조회는 그 이후부터 이어진다.
    */
   async getSwapHistory(
     publicKey: string,
-    _limit: number = 10
-  ): Promise<SwapResult[]> {
+    limit: number = 10,
+    cursor?: string
+  ): Promise<CursorPaginatedResponse<SwapResult>> {
     try {
-      // 현재는 트랜잭션 히스토리에서 스왩 관련 거래 필터링
-      // transactions는 현재 사용하지 않음
-      // const transactions = await stellarClient.getTransactionHistory(publicKey, limit * 2);
-      
-      // TODO: 실제 스왑 거래만 필터링하는 로직 구현
-      // 현재는 빈 배열 반환
-      return [];
+      log.debug('Fetching swap history', { publicKey, limit, cursor });
+
+      const swaps: SwapResult[] = [];
+      let position = cursor;
+      let exhausted = false;
+
+      for (
+        let page = 0;
+        page < HISTORY_MAX_SCAN_PAGES && swaps.length < limit && !exhausted;
+        page++
+      ) {
+        const operations = await stellarClient.getOperations(
+          publicKey,
+          HISTORY_SCAN_PAGE_SIZE,
+          position
+        );
+
+        let scanned = 0;
+        for (const operation of operations) {
+          scanned++;
+          position = operation.paging_token;
+
+          const swap = await this.mapOperationToSwap(publicKey, operation);
+          if (swap) {
+            swaps.push(swap);
+            if (swaps.length === limit) {
+              break;
+            }
+          }
+        }
+
+        // 마지막 페이지를 끝까지 읽었으면 더 이상 기록이 없음
+        exhausted =
+          operations.length < HISTORY_SCAN_PAGE_SIZE &&
+          scanned === operations.length;
+      }
+
+      return {
+        data: swaps,
+        pagination: {
+          limit,
+          cursor,
+          nextCursor: exhausted ? undefined : position,
+        },
+      };
     } catch (error) {
       log.error('Failed to get swap history', error as Error, { publicKey });
-      return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Horizon 오퍼레이션을 스왑 결과로 변환 (스왑이 아니면 null)
+   */
+  private async mapOperationToSwap(
+    publicKey: string,
+    operation: Horizon.ServerApi.OperationRecord
+  ): Promise<SwapResult | null> {
+    const { OperationResponseType } = Horizon.HorizonApi;
+    // getOperations가 트랜잭션을 조인하므로 추가 요청 없이 반환됨
+    const transaction = await operation.transaction();
+    const fee = fromStroops(transaction.fee_charged);
+
+    // 경로 결제: 자기 자신에게 보낸 경우만 스왑으로 간주
+    if (
+      operation.type === OperationResponseType.pathPaymentStrictSend ||
+      operation.type === OperationResponseType.pathPayment
+    ) {
+      if (operation.from !== publicKey || operation.to !== publicKey) {
+        return null;
+      }
+
+      const fromAmount = parseFloat(operation.source_amount);
+      const toAmount = parseFloat(operation.amount);
+
+      return {
+        success: operation.transaction_successful,
+        transactionHash: operation.transaction_hash,
+        ledger: transaction.ledger_attr,
+        fromToken: assetFieldsToSymbol(
+          operation.source_asset_type,
+          operation.source_asset_code,
+          operation.source_asset_issuer
+        ),
+        toToken: assetFieldsToSymbol(
+          operation.asset_type,
+          operation.asset_code,
+          operation.asset_issuer
+        ),
+        fromAmount,
+        toAmount,
+        mode:
+          operation.type === OperationResponseType.pathPayment
+            ? 'exactOut'
+            : 'exactIn',
+        actualSent: fromAmount,
+        actualReceived: toAmount,
+        fee,
+        timestamp: operation.created_at,
+      };
+    }
+
+    // Soroban 컨트랙트 호출: 오퍼레이션에 담긴 자산 이동에서 계정이 보낸 자산과 받은 자산이 서로 다르면 스왑으로 간주
+    // (오퍼레이션별 이펙트를 따로 조회하지 않도록 레코드의 asset_balance_changes 사용)
+    if (operation.type === OperationResponseType.invokeHostFunction) {
+      const balanceChanges = operation.asset_balance_changes ?? [];
+
+      const debited = balanceChanges.find(
+        (change) => change.from === publicKey
+      );
+      const credited = balanceChanges.find((change) => change.to === publicKey);
+
+      if (!debited || !credited) {
+        return null;
+      }
+
+      const fromToken = assetFieldsToSymbol(
+        debited.asset_type,
+        debited.asset_code,
+        debited.asset_issuer
+      );
+      const toToken = assetFieldsToSymbol(
+        credited.asset_type,
+        credited.asset_code,
+        credited.asset_issuer
+      );
+
+      if (fromToken === toToken) {
+        return null;
+      }
+
+      const fromAmount = parseFloat(debited.amount);
+      const toAmount = parseFloat(credited.amount);
+
+      return {
+        success: operation.transaction_successful,
+        transactionHash: operation.transaction_hash,
+        ledger: transaction.ledger_attr,
+        fromToken,
+        toToken,
+        fromAmount,
+        toAmount,
+        actualSent: fromAmount,
+        actualReceived: toAmount,
+        fee,
+        timestamp: operation.created_at,
+      };
     }
+
+    return null;
   }
 
   /**
@@ -500,11 +2597,13 @@ export class SwapService {
     try {
       const stellarConnection = await stellarClient.testConnection();
       const soroswapConnection = await soroswapClient.testConnection();
-      
+
       let defaultAccountStatus = 'not_configured';
       if (stellarConfig.defaultAccountPublic) {
         try {
-          const exists = await stellarClient.accountExists(stellarConfig.defaultAccountPublic);
+          const exists = await stellarClient.accountExists(
+            stellarConfig.defaultAccountPublic
+          );
           defaultAccountStatus = exists ? 'active' : 'not_found';
         } catch {
           defaultAccountStatus = 'error';
@@ -527,4 +2626,4 @@ export class SwapService {
 /**
  * 싱글톤 스왑 서비스 인스턴스
  */
-export const swapService = new SwapService();
\ No newline at end of file
+export const swapService = new SwapService();
@@ -0,0 +1,664 @@
+/**
+ * TWAP(시간 가중 평균 가격) 분할 스왑 실행기
+ */
+
+import { randomUUID } from 'crypto';
+import { Keypair } from 'stellar-sdk';
+import { swapService } from './swap-service';
+import { SwapError } from './errors';
+import { log } from '@/utils/logger';
+import { JsonStore } from '@/utils/store';
+import { securityConfig, stellarConfig } from '@/utils/config';
+import { ErrorCode } from '@/types';
+import type {
+  SwapRequest,
+  TwapOrder,
+  TwapSlice,
+  TwapImpactAction,
+} from '@/types';
+
+/**
+ * TWAP 생성 옵션
+ */
+export interface TwapOptions {
+  slices: number;
+  durationMinutes: number;
+  maxPriceImpact?: number;
+  impactAction?: TwapImpactAction;
+}
+
+/**
+ * TWAP 진행 현황
+ */
+export interface TwapProgress {
+  totalSlices: number;
+  executedSlices: number;
+  skippedSlices: number;
+  failedSlices: number;
+  pendingSlices: number;
+  totalSent: number;
+  totalReceived: number;
+  averagePrice?: number;
+  nextSliceAt?: string;
+}
+
+/**
+ * TWAP 실행기 클래스
+ *
+ * 큰 스왑을 일정 간격의 조각으로 나누어 조각마다 재견적 후 실행한다.
+ * 상태는 JSON 저장소에 보관되며 재시작 시 남은 조각부터 이어서 실행한다.
+ * 스왑 직전 조각을 executing으로 저장하므로, 실행 중 종료된 조각은 다시 실행하지 않고
+ * 기록된 트랜잭션 해시로 원장 반영 여부를 확인해 정리한다.
+ */
+export class TwapExecutor {
+  private orders: Map<string, TwapOrder> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private signers: Map<string, string> = new Map();
+  private running: Set<string> = new Set();
+  private store = new JsonStore<TwapOrder>('twap-orders');
+  private started = false;
+  private startPromise: Promise<void> | undefined;
+  private readonly MIN_SLICES = 2;
+  private readonly MAX_SLICES = 100;
+  private readonly DEFAULT_MAX_PRICE_IMPACT = 1.0;
+  private readonly MAX_CONSECUTIVE_FAILURES = 3;
+
+  /**
+   * 저장된 TWAP 주문을 불러와 실행 재개
+   */
+  start(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = this.loadAndResume().catch((error) => {
+        this.startPromise = undefined;
+        throw error;
+      });
+    }
+    return this.startPromise;
+  }
+
+  /**
+   * 저장소 로드 후 실행 중이던 주문 재예약
+   */
+  private async loadAndResume(): Promise<void> {
+    const orders = await this.store.load();
+    for (const order of orders) {
+      this.orders.set(order.id, order);
+    }
+    this.started = true;
+
+    const interrupted: [TwapOrder, TwapSlice][] = [];
+    for (const order of this.orders.values()) {
+      for (const slice of order.slices) {
+        if (slice.status === 'executing') {
+          interrupted.push([order, slice]);
+          this.running.add(order.id);
+        }
+      }
+    }
+
+    for (const order of this.orders.values()) {
+      if (order.status !== 'running') {
+        continue;
+      }
+
+      // 외부 시크릿은 저장하지 않으므로 재시작 후에는 서명할 수 없다
+      if (!order.usesDefaultAccount) {
+        this.pauseOrder(
+          order,
+          'Signer secret is not available after restart; resume with accountSecret'
+        );
+        continue;
+      }
+
+      this.reschedulePending(order);
+      this.scheduleNext(order);
+    }
+
+    await this.persist();
+    log.info('TWAP executor started', {
+      orders: this.orders.size,
+      interruptedSlices: interrupted.length,
+    });
+
+    // 원장 확인은 타임바운드 만료까지 걸릴 수 있으므로 시작을 막지 않는다
+    for (const [order, slice] of interrupted) {
+      this.reconcileSlice(order, slice).catch((error) => {
+        log.error('TWAP slice reconciliation failed', error as Error, {
+          id: order.id,
+          slice: slice.index,
+        });
+      });
+    }
+  }
+
+  /**
+   * 예약된 타이머 정리
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.started = false;
+    this.startPromise = undefined;
+  }
+
+  /**
+   * TWAP 주문 생성
+   */
+  async createTwap(
+    request: SwapRequest,
+    options: TwapOptions
+  ): Promise<TwapOrder> {
+    await this.start();
+
+    const slices = Math.floor(options.slices);
+    if (slices < this.MIN_SLICES || slices > this.MAX_SLICES) {
+      throw new SwapError(
+        `Slice count must be between ${this.MIN_SLICES} and ${this.MAX_SLICES}`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    if (!(options.durationMinutes > 0)) {
+      throw new SwapError(
+        'Duration must be greater than 0 minutes',
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const sliceAmount = Math.floor((request.amount / slices) * 1e7) / 1e7;
+    if (sliceAmount < securityConfig.minAmount) {
+      throw new SwapError(
+        `Slice amount ${sliceAmount} is below minimum ${securityConfig.minAmount}; use fewer slices`,
+        ErrorCode.INVALID_INPUT,
+        { sliceAmount, minAmount: securityConfig.minAmount }
+      );
+    }
+
+    const accountSecret =
+      request.accountSecret || stellarConfig.defaultAccountSecret;
+    if (!accountSecret) {
+      throw new SwapError(
+        'No account secret provided for TWAP execution',
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const { accountSecret: _accountSecret, ...storedRequest } = request;
+    const now = Date.now();
+    const intervalMs = Math.floor(
+      (options.durationMinutes * 60 * 1000) / slices
+    );
+
+    const order: TwapOrder = {
+      id: `twap_${randomUUID()}`,
+      request: storedRequest,
+      account: Keypair.fromSecret(accountSecret).publicKey(),
+      usesDefaultAccount: !request.accountSecret,
+      slices: Array.from({ length: slices }, (_, index) => ({
+        index,
+        // 마지막 조각이 반올림 잔량을 가져간다
+        amount:
+          index === slices - 1
+            ? Math.round((request.amount - sliceAmount * (slices - 1)) * 1e7) /
+              1e7
+            : sliceAmount,
+        scheduledAt: new Date(now + index * intervalMs).toISOString(),
+        status: 'pending',
+      })),
+      intervalMs,
+      maxPriceImpact: options.maxPriceImpact ?? this.DEFAULT_MAX_PRICE_IMPACT,
+      impactAction: options.impactAction ?? 'skip',
+      status: 'running',
+      createdAt: new Date(now).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+    };
+
+    // 승인 대기로 보류할 수 없으므로 승인이 필요한 금액은 등록 시 거부
+    await swapService.rejectIfScheduledApprovalRequired({
+      ...storedRequest,
+      // 마지막 조각이 가장 크다
+      amount: order.slices[slices - 1]!.amount,
+    });
+
+    if (request.accountSecret) {
+      this.signers.set(order.id, request.accountSecret);
+    }
+
+    this.orders.set(order.id, order);
+    await this.persist();
+
+    log.info('TWAP order created', {
+      id: order.id,
+      fromToken: request.fromToken,
+      toToken: request.toToken,
+      amount: request.amount,
+      slices,
+      intervalMs,
+      maxPriceImpact: order.maxPriceImpact,
+    });
+
+    this.scheduleNext(order);
+    return order;
+  }
+
+  /**
+   * TWAP 주문 조회
+   */
+  async getTwap(id: string): Promise<TwapOrder | undefined> {
+    await this.start();
+    return this.orders.get(id);
+  }
+
+  /**
+   * TWAP 주문 목록 조회
+   */
+  async listTwaps(account?: string): Promise<TwapOrder[]> {
+    await this.start();
+    return Array.from(this.orders.values()).filter(
+      (order) => !account || order.account === account
+    );
+  }
+
+  /**
+   * 일시정지된 TWAP 주문 재개 (남은 조각은 지금부터 다시 간격을 둔다)
+   */
+  async resumeTwap(id: string, accountSecret?: string): Promise<TwapOrder> {
+    const order = await this.requireOrder(id);
+
+    if (order.status !== 'paused') {
+      throw new SwapError(
+        `TWAP order ${id} is not paused`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    if (!order.usesDefaultAccount) {
+      const secret = accountSecret || this.signers.get(id);
+      if (!secret || Keypair.fromSecret(secret).publicKey() !== order.account) {
+        throw new SwapError(
+          'accountSecret for the order account is required to resume',
+          ErrorCode.UNAUTHORIZED
+        );
+      }
+      this.signers.set(id, secret);
+    }
+
+    order.status = 'running';
+    delete order.pauseReason;
+    this.reschedulePending(order);
+    order.updatedAt = new Date().toISOString();
+    await this.persist();
+
+    log.info('TWAP order resumed', { id });
+    this.scheduleNext(order);
+    return order;
+  }
+
+  /**
+   * TWAP 주문 취소 (남은 조각은 실행하지 않음)
+   */
+  async cancelTwap(id: string): Promise<TwapOrder> {
+    const order = await this.requireOrder(id);
+
+    if (order.status !== 'running' && order.status !== 'paused') {
+      throw new SwapError(
+        `TWAP order ${id} is already ${order.status}`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    this.clearTimer(id);
+    this.signers.delete(id);
+    order.status = 'cancelled';
+    order.completedAt = new Date().toISOString();
+    order.updatedAt = order.completedAt;
+    await this.persist();
+
+    log.info('TWAP order cancelled', { id });
+    return order;
+  }
+
+  /**
+   * TWAP 진행 현황 계산
+   */
+  getProgress(order: TwapOrder): TwapProgress {
+    const executed = order.slices.filter(
+      (slice) => slice.status === 'executed'
+    );
+    const totalSent = executed.reduce(
+      (sum, slice) =>
+        sum + (slice.result?.actualSent ?? slice.result?.fromAmount ?? 0),
+      0
+    );
+    const totalReceived = executed.reduce(
+      (sum, slice) =>
+        sum + (slice.result?.actualReceived ?? slice.result?.toAmount ?? 0),
+      0
+    );
+    const nextSlice =
+      order.status === 'running'
+        ? order.slices.find((slice) => slice.status === 'pending')
+        : undefined;
+
+    const progress: TwapProgress = {
+      totalSlices: order.slices.length,
+      executedSlices: executed.length,
+      skippedSlices: order.slices.filter((slice) => slice.status === 'skipped')
+        .length,
+      failedSlices: order.slices.filter((slice) => slice.status === 'failed')
+        .length,
+      pendingSlices: order.slices.filter((slice) => slice.status === 'pending')
+        .length,
+      totalSent,
+      totalReceived,
+    };
+
+    if (totalSent > 0 && totalReceived > 0) {
+      progress.averagePrice = totalReceived / totalSent;
+    }
+
+    if (nextSlice) {
+      progress.nextSliceAt = nextSlice.scheduledAt;
+    }
+
+    return progress;
+  }
+
+  /**
+   * 다음 대기 조각 실행 예약
+   */
+  private scheduleNext(order: TwapOrder): void {
+    this.clearTimer(order.id);
+
+    if (!this.started || order.status !== 'running') {
+      return;
+    }
+
+    const slice = order.slices.find((item) => item.status === 'pending');
+    if (!slice) {
+      return;
+    }
+
+    const delay = Math.max(
+      0,
+      new Date(slice.scheduledAt).getTime() - Date.now()
+    );
+    const timer = setTimeout(() => {
+      this.timers.delete(order.id);
+      this.runSlice(order, slice).catch((error) => {
+        log.error('TWAP slice run failed', error as Error, {
+          id: order.id,
+          slice: slice.index,
+        });
+      });
+    }, delay);
+
+    this.timers.set(order.id, timer);
+  }
+
+  /**
+   * 조각 하나를 재견적 후 실행
+   */
+  private async runSlice(order: TwapOrder, slice: TwapSlice): Promise<void> {
+    if (this.running.has(order.id) || order.status !== 'running') {
+      return;
+    }
+
+    this.running.add(order.id);
+
+    try {
+      const sliceRequest: SwapRequest = {
+        ...order.request,
+        amount: slice.amount,
+      };
+      const accountSecret = this.signers.get(order.id);
+      if (accountSecret) {
+        sliceRequest.accountSecret = accountSecret;
+      } else if (!order.usesDefaultAccount) {
+        // 기본 계정 시크릿으로 대신 서명하지 않음
+        throw new SwapError(
+          'Signer secret is not available for this TWAP order; resume it with accountSecret',
+          ErrorCode.INVALID_INPUT
+        );
+      }
+
+      const estimate = await swapService.estimateSwap(sliceRequest);
+
+      // 견적 조회 중 취소/일시정지되었으면 조각을 실행하지 않고 대기 상태로 둔다
+      if (order.status !== 'running') {
+        log.info('TWAP slice not executed, order changed during quote', {
+          id: order.id,
+          slice: slice.index,
+          status: order.status,
+        });
+        return;
+      }
+
+      slice.priceImpact = estimate.priceImpact;
+
+      if (estimate.priceImpact > order.maxPriceImpact) {
+        const reason = `Price impact ${estimate.priceImpact}% exceeds cap ${order.maxPriceImpact}%`;
+
+        if (order.impactAction === 'pause') {
+          this.pauseOrder(order, reason);
+        } else {
+          slice.status = 'skipped';
+          slice.reason = reason;
+          slice.executedAt = new Date().toISOString();
+        }
+
+        log.warn('TWAP slice held back by price impact cap', {
+          id: order.id,
+          slice: slice.index,
+          priceImpact: estimate.priceImpact,
+          maxPriceImpact: order.maxPriceImpact,
+          action: order.impactAction,
+        });
+      } else {
+        // 체결 여부를 알 수 없는 재시작에 대비해 실행 중 상태와 트랜잭션 해시를 먼저 저장
+        slice.status = 'executing';
+        order.updatedAt = new Date().toISOString();
+        await this.persist();
+
+        const result = await swapService.executeSwap(sliceRequest, {
+          scheduled: true,
+          onSubmit: async (submission) => {
+            slice.submission = submission;
+            await this.persist();
+          },
+        });
+
+        slice.result = result;
+        slice.executedAt = new Date().toISOString();
+        slice.status = result.success ? 'executed' : 'failed';
+        if (!result.success && result.error) {
+          slice.reason = result.error;
+        }
+
+        log.info('TWAP slice finished', {
+          id: order.id,
+          slice: slice.index,
+          success: result.success,
+          transactionHash: result.transactionHash,
+        });
+
+        if (!result.success && this.hasTooManyFailures(order)) {
+          order.status = 'failed';
+          order.completedAt = new Date().toISOString();
+          this.signers.delete(order.id);
+          log.error(
+            'TWAP order stopped after consecutive failures',
+            undefined,
+            { id: order.id }
+          );
+        }
+      }
+    } catch (error) {
+      // 견적 실패는 해당 조각만 실패 처리하고 다음 조각을 이어간다
+      slice.status = 'failed';
+      slice.reason = (error as Error).message;
+      slice.executedAt = new Date().toISOString();
+      log.error('TWAP slice failed', error as Error, {
+        id: order.id,
+        slice: slice.index,
+      });
+    } finally {
+      this.running.delete(order.id);
+    }
+
+    await this.finishSlice(order);
+  }
+
+  /**
+   * 재시작 전에 실행 중이던 조각을 원장 기록으로 정리 (다시 실행하지 않음)
+   */
+  private async reconcileSlice(
+    order: TwapOrder,
+    slice: TwapSlice
+  ): Promise<void> {
+    this.running.add(order.id);
+
+    try {
+      const result = slice.submission
+        ? await swapService.resolveSubmittedSwap(
+            { ...order.request, amount: slice.amount },
+            order.account,
+            slice.submission
+          )
+        : undefined;
+
+      if (result) {
+        slice.result = result;
+        slice.status = result.success ? 'executed' : 'failed';
+        if (!result.success && result.error) {
+          slice.reason = result.error;
+        }
+      } else {
+        slice.status = 'failed';
+        slice.reason = slice.submission
+          ? 'Server restarted and the slice transaction expired without being applied'
+          : 'Server restarted before the slice swap was submitted';
+      }
+    } catch (error) {
+      slice.status = 'failed';
+      slice.reason = `Server restarted while the slice was executing and its outcome could not be confirmed; check the account history (${(error as Error).message})`;
+    } finally {
+      this.running.delete(order.id);
+    }
+
+    slice.executedAt = new Date().toISOString();
+    log.info('TWAP interrupted slice reconciled', {
+      id: order.id,
+      slice: slice.index,
+      status: slice.status,
+      transactionHash: slice.submission?.transactionHash,
+    });
+
+    await this.finishSlice(order);
+  }
+
+  /**
+   * 조각 처리 후 완료 여부 확인, 저장, 다음 조각 예약
+   */
+  private async finishSlice(order: TwapOrder): Promise<void> {
+    if (
+      order.status === 'running' &&
+      !order.slices.some(
+        (item) => item.status === 'pending' || item.status === 'executing'
+      )
+    ) {
+      order.status = 'completed';
+      order.completedAt = new Date().toISOString();
+      this.signers.delete(order.id);
+      log.info('TWAP order completed', {
+        id: order.id,
+        ...this.getProgress(order),
+      });
+    }
+
+    order.updatedAt = new Date().toISOString();
+    await this.persist();
+    this.scheduleNext(order);
+  }
+
+  /**
+   * 최근 조각들이 연속으로 실패했는지 확인
+   */
+  private hasTooManyFailures(order: TwapOrder): boolean {
+    const finished = order.slices.filter(
+      (slice) => slice.status !== 'pending' && slice.status !== 'executing'
+    );
+    const recent = finished.slice(-this.MAX_CONSECUTIVE_FAILURES);
+
+    return (
+      recent.length === this.MAX_CONSECUTIVE_FAILURES &&
+      recent.every((slice) => slice.status === 'failed')
+    );
+  }
+
+  /**
+   * 남은 조각을 현재 시각부터 원래 간격으로 재배치
+   */
+  private reschedulePending(order: TwapOrder): void {
+    const now = Date.now();
+    const pending = order.slices.filter((slice) => slice.status === 'pending');
+    const first = pending[0];
+
+    if (!first || new Date(first.scheduledAt).getTime() >= now) {
+      return;
+    }
+
+    pending.forEach((slice, offset) => {
+      slice.scheduledAt = new Date(
+        now + offset * order.intervalMs
+      ).toISOString();
+    });
+  }
+
+  /**
+   * 주문 일시정지
+   */
+  private pauseOrder(order: TwapOrder, reason: string): void {
+    this.clearTimer(order.id);
+    order.status = 'paused';
+    order.pauseReason = reason;
+    order.updatedAt = new Date().toISOString();
+    log.warn('TWAP order paused', { id: order.id, reason });
+  }
+
+  /**
+   * 주문 조회 (없으면 에러)
+   */
+  private async requireOrder(id: string): Promise<TwapOrder> {
+    const order = await this.getTwap(id);
+    if (!order) {
+      throw new SwapError(`TWAP order not found: ${id}`, ErrorCode.NOT_FOUND);
+    }
+    return order;
+  }
+
+  /**
+   * 예약 타이머 해제
+   */
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  /**
+   * 주문 상태 저장
+   */
+  private async persist(): Promise<void> {
+    await this.store.save(Array.from(this.orders.values()));
+  }
+}
+
+/**
+ * 싱글톤 TWAP 실행기 인스턴스
+ */
+export const twapExecutor = new TwapExecutor();
@@ -3,10 +3,10 @@
  */
 
 import { stellarClient } from '@/stellar/client';
-import { 
+import {
   convertStellarError,
   StellarAccountNotFoundError,
-  InvalidKeypairError 
+  InvalidKeypairError,
 } from '@/stellar/errors';
 import {
   isValidStellarAddress,
@@ -15,14 +15,11 @@ import {
   getTokenBalanceInfo,
   shortenAddress,
   calculateAvailableXLM,
-  getSupportedTokens
+  getSupportedTokens,
 } from '@/stellar/utils';
 import { log } from '@/utils/logger';
 import { stellarConfig } from '@/utils/config';
-import type { 
-  StellarBalance, 
-  StellarTransaction
-} from '@/types';
+import type { StellarBalance, StellarTransaction } from '@/types';
 
 /**
  * 지갑 정보 인터페이스
@@ -51,7 +48,9 @@ export class WalletService {
 
       // 공개키 유효성 검증
       if (!isValidStellarAddress(publicKey)) {
-        throw new InvalidKeypairError(`Invalid Stellar public key: ${publicKey}`);
+        throw new InvalidKeypairError(
+          `Invalid Stellar public key: ${publicKey}`
+        );
       }
 
       // 계정 존재 여부 확인
@@ -62,7 +61,7 @@ export class WalletService {
 
       // 계정 정보 조회
       const account = await stellarClient.getAccount(publicKey);
-      
+
       // 지갑 정보 생성
       const walletInfo: WalletInfo = {
         publicKey: account.publicKey,
@@ -70,7 +69,8 @@ export class WalletService {
         isConnected: true,
         balances: account.balances,
         availableXLM: this.calculateAvailableXLMBalance(account.balances),
-        trustlineCount: account.balances.filter(b => b.assetType !== 'native').length,
+        trustlineCount: account.balances.filter((b) => b.assetType !== 'native')
+          .length,
       };
 
       // 연결된 지갑 목록에 추가
@@ -118,17 +118,20 @@ export class WalletService {
    */
   async refreshWallet(publicKey: string): Promise<WalletInfo> {
     try {
-      log.debug('Refreshing wallet info', { publicKey: shortenAddress(publicKey) });
+      log.debug('Refreshing wallet info', {
+        publicKey: shortenAddress(publicKey),
+      });
 
       const account = await stellarClient.getAccount(publicKey);
-      
+
       const walletInfo: WalletInfo = {
         publicKey: account.publicKey,
         accountId: account.accountId,
         isConnected: true,
         balances: account.balances,
         availableXLM: this.calculateAvailableXLMBalance(account.balances),
-        trustlineCount: account.balances.filter(b => b.assetType !== 'native').length,
+        trustlineCount: account.balances.filter((b) => b.assetType !== 'native')
+          .length,
       };
 
       // 캐시 업데이트
@@ -149,10 +152,10 @@ export class WalletService {
       log.debug('Fetching balances', { publicKey: shortenAddress(publicKey) });
 
       const balances = await stellarClient.getBalances(publicKey);
-      
-      log.debug('Balances retrieved', { 
+
+      log.debug('Balances retrieved', {
         publicKey: shortenAddress(publicKey),
-        count: balances.length 
+        count: balances.length,
       });
 
       return balances;
@@ -170,9 +173,9 @@ export class WalletService {
       const balanceInfo = await getTokenBalanceInfo(publicKey, symbol);
       return balanceInfo ? balanceInfo.balance : '0';
     } catch (error) {
-      log.error('Failed to get token balance', error as Error, { 
-        publicKey, 
-        symbol 
+      log.error('Failed to get token balance', error as Error, {
+        publicKey,
+        symbol,
       });
       throw convertStellarError(error);
     }
@@ -182,27 +185,30 @@ export class WalletService {
    * 거래 히스토리 조회
    */
   async getTransactionHistory(
-    publicKey: string, 
+    publicKey: string,
     limit: number = 10
   ): Promise<StellarTransaction[]> {
     try {
-      log.debug('Fetching transaction history', { 
+      log.debug('Fetching transaction history', {
         publicKey: shortenAddress(publicKey),
-        limit 
+        limit,
       });
 
-      const history = await stellarClient.getTransactionHistory(publicKey, limit);
-      
-      log.debug('Transaction history retrieved', { 
+      const history = await stellarClient.getTransactionHistory(
+        publicKey,
+        limit
+      );
+
+      log.debug('Transaction history retrieved', {
         publicKey: shortenAddress(publicKey),
-        count: history.length 
+        count: history.length,
       });
 
       return history;
     } catch (error) {
-      log.error('Failed to fetch transaction history', error as Error, { 
+      log.error('Failed to fetch transaction history', error as Error, {
         publicKey,
-        limit 
+        limit,
       });
       throw convertStellarError(error);
     }
@@ -211,14 +217,18 @@ export class WalletService {
   /**
    * 토큰 보유 여부 확인
    */
-  async hasToken(publicKey: string, symbol: string, minAmount: string = '0'): Promise<boolean> {
+  async hasToken(
+    publicKey: string,
+    symbol: string,
+    minAmount: string = '0'
+  ): Promise<boolean> {
     try {
       return await hasTokenBalance(publicKey, symbol, minAmount);
     } catch (error) {
       log.error('Failed to check token ownership', error as Error, {
         publicKey,
         symbol,
-        minAmount
+        minAmount,
       });
       return false;
     }
@@ -227,13 +237,16 @@ export class WalletService {
   /**
    * 트러스트라인 존재 여부 확인
    */
-  async hasTrustlineForToken(publicKey: string, symbol: string): Promise<boolean> {
+  async hasTrustlineForToken(
+    publicKey: string,
+    symbol: string
+  ): Promise<boolean> {
     try {
       return await hasTrustline(publicKey, symbol);
     } catch (error) {
       log.error('Failed to check trustline', error as Error, {
         publicKey,
-        symbol
+        symbol,
       });
       return false;
     }
@@ -253,13 +266,15 @@ export class WalletService {
   }> {
     try {
       const balances = await this.getBalances(publicKey);
-      const xlmBalance = balances.find(b => b.assetType === 'native')?.balance || '0';
-      
+      const xlmBalance =
+        balances.find((b) => b.assetType === 'native')?.balance || '0';
+
       return {
         address: publicKey,
         shortAddress: shortenAddress(publicKey),
         totalBalances: balances.length,
-        totalTrustlines: balances.filter(b => b.assetType !== 'native').length,
+        totalTrustlines: balances.filter((b) => b.assetType !== 'native')
+          .length,
         xlmBalance,
         availableXLM: this.calculateAvailableXLMBalance(balances),
         supportedTokens: getSupportedTokens(),
@@ -292,11 +307,11 @@ export class WalletService {
    */
   generateNewKeypair(): { publicKey: string; secretKey: string } {
     const keypair = stellarClient.generateKeypair();
-    
-    log.info('New keypair generated', { 
-      publicKey: shortenAddress(keypair.publicKey) 
+
+    log.info('New keypair generated', {
+      publicKey: shortenAddress(keypair.publicKey),
     });
-    
+
     return keypair;
   }
 
@@ -326,10 +341,12 @@ export class WalletService {
    * 사용 가능한 XLM 잔액 계산
    */
   private calculateAvailableXLMBalance(balances: StellarBalance[]): string {
-    const xlmBalance = balances.find(b => b.assetType === 'native');
+    const xlmBalance = balances.find((b) => b.assetType === 'native');
     if (!xlmBalance) return '0';
 
-    const trustlineCount = balances.filter(b => b.assetType !== 'native').length;
+    const trustlineCount = balances.filter(
+      (b) => b.assetType !== 'native'
+    ).length;
     return calculateAvailableXLM(xlmBalance.balance, trustlineCount);
   }
 
@@ -343,9 +360,10 @@ export class WalletService {
   }> {
     try {
       const networkStatus = await stellarClient.testConnection();
-      
-      let defaultAccountStatus: 'connected' | 'not_configured' | 'error' = 'not_configured';
-      
+
+      let defaultAccountStatus: 'connected' | 'not_configured' | 'error' =
+        'not_configured';
+
       if (stellarConfig.defaultAccountPublic) {
         try {
           await stellarClient.accountExists(stellarConfig.defaultAccountPublic);
@@ -370,4 +388,4 @@ export class WalletService {
 /**
  * 싱글톤 지갑 서비스 인스턴스
  */
-export const walletService = new WalletService();
\ No newline at end of file
+export const walletService = new WalletService();
@@ -4,6 +4,8 @@
  * Soroswap MCP Server 메인 엔트리 포인트
  */
 
+import { readFileSync, realpathSync } from 'fs';
+import { pathToFileURL } from 'url';
 import { SoroswapMCPServer } from '@/mcp/server';
 import { log, ensureLogDirectory, closeLogger } from '@/utils/logger';
 import { validateConfig, printConfig } from '@/utils/config';
@@ -20,7 +22,7 @@ async function main(): Promise<void> {
 
     // 설정 검증
     validateConfig();
-    
+
     // 설정 정보 출력 (개발 모드에서만)
     if (process.env.NODE_ENV === 'development') {
       printConfig();
@@ -36,7 +38,6 @@ async function main(): Promise<void> {
 
     // 종료 신호 처리
     setupGracefulShutdown(server);
-
   } catch (error) {
     log.error('❌ 서버 시작 실패', error as Error);
     process.exit(1);
@@ -53,10 +54,10 @@ function setupGracefulShutdown(server: SoroswapMCPServer): void {
     try {
       // 서버 정지
       await server.stop();
-      
+
       // 로거 종료
       await closeLogger();
-      
+
       log.info('✅ 서버가 안전하게 종료되었습니다');
       process.exit(0);
     } catch (error) {
@@ -114,7 +115,9 @@ AI-powered automated token swapping on Stellar via Soroswap DEX
  * 버전 정보 출력
  */
 function printVersion(): void {
-  const packageJson = require('../package.json');
+  const packageJson = JSON.parse(
+    readFileSync(new URL('../package.json', import.meta.url), 'utf8')
+  ) as { version: string };
   console.log(`v${packageJson.version}`);
 }
 
@@ -131,10 +134,21 @@ if (args.includes('--version') || args.includes('-v')) {
   process.exit(0);
 }
 
+/**
+ * 직접 실행된 엔트리 모듈인지 확인 (ES 모듈이므로 require.main 대신 import.meta.url 비교)
+ */
+function isEntryModule(): boolean {
+  const entry = process.argv[1];
+  return (
+    entry !== undefined &&
+    import.meta.url === pathToFileURL(realpathSync(entry)).href
+  );
+}
+
 // 메인 함수 실행
-if (require.main === module) {
+if (isEntryModule()) {
   main().catch((error) => {
     console.error('❌ 서버 시작 실패:', error);
     process.exit(1);
   });
-}
\ No newline at end of file
+}
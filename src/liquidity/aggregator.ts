@@ -0,0 +1,336 @@
+/**
+ * 멀티 프로토콜 유동성 집계기
+ */
+
+import { soroswapProvider } from './soroswap-provider';
+import { stellarDexProvider } from './stellar-dex-provider';
+import type { LiquidityProvider } from './provider';
+import { log } from '@/utils/logger';
+import type {
+  LiquidityPool,
+  LiquidityProtocol,
+  RouteQuote,
+  SwapMode,
+  SwapRequest,
+  VenueComparison,
+} from '@/types';
+
+/**
+ * 프로토콜 선택 조건
+ */
+export type ProtocolSelection = Pick<
+  SwapRequest,
+  'protocols' | 'excludeProtocols'
+>;
+
+/**
+ * 유동성 집계기 클래스
+ *
+ * 등록된 프로토콜 어댑터에 견적을 동시에 요청하고 가장 유리한 경로를 고른다.
+ */
+export class LiquidityAggregator {
+  private providers: Map<LiquidityProtocol, LiquidityProvider> = new Map();
+
+  constructor(providers: LiquidityProvider[] = []) {
+    providers.forEach((provider) => this.register(provider));
+  }
+
+  /**
+   * 프로토콜 어댑터 등록 (같은 프로토콜은 교체)
+   */
+  register(provider: LiquidityProvider): void {
+    this.providers.set(provider.protocol, provider);
+    log.debug('Liquidity provider registered', {
+      protocol: provider.protocol,
+      venue: provider.venue,
+    });
+  }
+
+  /**
+   * 등록된 프로토콜 목록
+   */
+  getProtocols(): LiquidityProtocol[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * 프로토콜 등록 여부
+   */
+  isRegistered(protocol: string): protocol is LiquidityProtocol {
+    return this.providers.has(protocol as LiquidityProtocol);
+  }
+
+  /**
+   * 프로토콜 어댑터 조회
+   */
+  getProvider(protocol: LiquidityProtocol): LiquidityProvider {
+    const provider = this.providers.get(protocol);
+    if (!provider) {
+      throw new Error(`Liquidity protocol is not registered: ${protocol}`);
+    }
+    return provider;
+  }
+
+  /**
+   * 요청의 포함/제외 조건과 토큰 쌍 지원 여부로 어댑터 선택
+   */
+  selectProviders(
+    fromToken: string,
+    toToken: string,
+    selection: ProtocolSelection = {}
+  ): LiquidityProvider[] {
+    return Array.from(this.providers.values()).filter(
+      (provider) =>
+        (!selection.protocols ||
+          selection.protocols.includes(provider.protocol)) &&
+        !selection.excludeProtocols?.includes(provider.protocol) &&
+        provider.supports(fromToken, toToken)
+    );
+  }
+
+  /**
+   * 선택된 프로토콜 견적 수집 (일부 실패는 무시, 모두 실패하면 첫 에러 전파)
+   */
+  async quote(request: SwapRequest, mode: SwapMode): Promise<RouteQuote[]> {
+    const providers = this.selectProviders(
+      request.fromToken,
+      request.toToken,
+      request
+    );
+    const quotes = await this.collect(providers, (provider) =>
+      provider.quote(request, mode)
+    );
+    await this.applyNetAmounts(quotes, mode, request);
+    return quotes;
+  }
+
+  /**
+   * 선택된 프로토콜의 exactIn 최적 경로 수집
+   */
+  async route(
+    fromToken: string,
+    toToken: string,
+    amount: number,
+    selection: ProtocolSelection = {}
+  ): Promise<RouteQuote[]> {
+    const providers = this.selectProviders(fromToken, toToken, selection);
+    const quotes = await this.collect(providers, (provider) =>
+      provider.route(fromToken, toToken, amount)
+    );
+    await this.applyNetAmounts(quotes, 'exactIn', {
+      ...selection,
+      fromToken,
+      toToken,
+    });
+    return quotes;
+  }
+
+  /**
+   * 가장 유리한 견적 선택 (exactIn은 순수령량 최대, exactOut은 총지불량 최소)
+   */
+  pickBest(quotes: RouteQuote[], mode: SwapMode): RouteQuote | undefined {
+    return quotes.reduce<RouteQuote | undefined>((best, route) => {
+      if (!best) {
+        return route;
+      }
+      return mode === 'exactOut'
+        ? this.getNetAmount(route, mode) < this.getNetAmount(best, mode)
+          ? route
+          : best
+        : this.getNetAmount(route, mode) > this.getNetAmount(best, mode)
+          ? route
+          : best;
+    }, undefined);
+  }
+
+  /**
+   * 선택된 견적이 차선 견적보다 얼마나 유리한지 계산 (수수료 차감 후 기준)
+   */
+  compare(
+    best: RouteQuote,
+    quotes: RouteQuote[],
+    mode: SwapMode
+  ): VenueComparison {
+    const runnerUp = this.pickBest(
+      quotes.filter((route) => route !== best),
+      mode
+    );
+
+    let advantage = 0;
+    let advantageBps = 0;
+
+    if (runnerUp) {
+      const bestNet = this.getNetAmount(best, mode);
+      const runnerUpNet = this.getNetAmount(runnerUp, mode);
+
+      advantage =
+        mode === 'exactOut' ? runnerUpNet - bestNet : bestNet - runnerUpNet;
+      advantageBps = runnerUpNet > 0 ? (advantage / runnerUpNet) * 10000 : 0;
+    }
+
+    return {
+      winner: best.protocol,
+      venue: best.venue,
+      advantage,
+      advantageBps,
+      quotes,
+    };
+  }
+
+  /**
+   * 프로토콜별 유동성 풀 조회 (일부 프로토콜 실패는 무시)
+   */
+  async getPools(selection: ProtocolSelection = {}): Promise<LiquidityPool[]> {
+    const providers = Array.from(this.providers.values()).filter(
+      (provider) =>
+        (!selection.protocols ||
+          selection.protocols.includes(provider.protocol)) &&
+        !selection.excludeProtocols?.includes(provider.protocol)
+    );
+
+    const settled = await Promise.allSettled(
+      providers.map((provider) => provider.getPools())
+    );
+    const pools: LiquidityPool[] = [];
+
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        pools.push(...outcome.value);
+      } else {
+        log.warn('Liquidity pool fetch failed', {
+          protocol: providers[index]?.protocol,
+          error: (outcome.reason as Error).message,
+        });
+      }
+    });
+
+    return pools;
+  }
+
+  /**
+   * 견적별 수수료 차감 후 비교 기준액 계산
+   *
+   * 프로토콜 수수료(입력 토큰)는 견적 환율로, 네트워크 수수료(XLM)는 XLM 환율로 기준 토큰에 환산한다.
+   * exactIn은 출력 토큰 순수령량, exactOut은 입력 토큰 총지불량이 기준이다.
+   */
+  private async applyNetAmounts(
+    quotes: RouteQuote[],
+    mode: SwapMode,
+    request: Pick<SwapRequest, 'fromToken' | 'toToken'> & ProtocolSelection
+  ): Promise<void> {
+    const token = mode === 'exactOut' ? request.fromToken : request.toToken;
+    const counterToken =
+      mode === 'exactOut' ? request.toToken : request.fromToken;
+    const needsXlmRate =
+      !this.isXlm(token) &&
+      !this.isXlm(counterToken) &&
+      quotes.some((route) => (route.networkFee ?? 0) > 0);
+    const xlmRate = needsXlmRate
+      ? await this.getXlmRate(token, request)
+      : undefined;
+
+    for (const route of quotes) {
+      const rate = route.fromAmount > 0 ? route.toAmount / route.fromAmount : 0;
+      const networkFee = route.networkFee ?? 0;
+
+      // 네트워크 수수료를 기준 토큰으로 환산 (반대쪽이 XLM이면 견적 환율 사용)
+      let networkCost = 0;
+      if (this.isXlm(token)) {
+        networkCost = networkFee;
+      } else if (this.isXlm(counterToken)) {
+        if (mode === 'exactIn') {
+          networkCost = networkFee * rate;
+        } else if (rate > 0) {
+          networkCost = networkFee / rate;
+        }
+      } else if (xlmRate !== undefined) {
+        networkCost = networkFee * xlmRate;
+      }
+
+      route.netAmount =
+        mode === 'exactOut'
+          ? route.fromAmount + route.fee + networkCost
+          : route.toAmount - route.fee * rate - networkCost;
+    }
+  }
+
+  /**
+   * 1 XLM으로 받을 수 있는 토큰 수량 (조회 실패 시 undefined)
+   */
+  private async getXlmRate(
+    token: string,
+    selection: ProtocolSelection
+  ): Promise<number | undefined> {
+    try {
+      const providers = this.selectProviders('XLM', token, selection);
+      const routes = await this.collect(providers, (provider) =>
+        provider.route('XLM', token, 1)
+      );
+      return Math.max(0, ...routes.map((route) => route.toAmount)) || undefined;
+    } catch (error) {
+      log.warn('XLM rate lookup failed, ranking quotes without network fee', {
+        token,
+        error: (error as Error).message,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * 수수료 차감 후 비교 기준액 (계산 전이면 견적 수량)
+   */
+  private getNetAmount(route: RouteQuote, mode: SwapMode): number {
+    return (
+      route.netAmount ??
+      (mode === 'exactOut' ? route.fromAmount : route.toAmount)
+    );
+  }
+
+  /**
+   * 네이티브 XLM 여부
+   */
+  private isXlm(token: string): boolean {
+    return token.toUpperCase() === 'XLM';
+  }
+
+  /**
+   * 어댑터별 견적 병렬 수집
+   */
+  private async collect(
+    providers: LiquidityProvider[],
+    fetch: (provider: LiquidityProvider) => Promise<RouteQuote | null>
+  ): Promise<RouteQuote[]> {
+    const settled = await Promise.allSettled(providers.map(fetch));
+
+    const quotes: RouteQuote[] = [];
+    const errors: unknown[] = [];
+
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        if (outcome.value) {
+          quotes.push(outcome.value);
+        }
+      } else {
+        errors.push(outcome.reason);
+        log.warn('Route quote failed', {
+          protocol: providers[index]?.protocol,
+          error: (outcome.reason as Error).message,
+        });
+      }
+    });
+
+    if (quotes.length === 0 && errors.length > 0) {
+      throw errors[0];
+    }
+
+    return quotes;
+  }
+}
+
+/**
+ * 싱글톤 유동성 집계기 인스턴스 (Soroswap, Stellar DEX 등록)
+ */
+export const liquidityAggregator = new LiquidityAggregator([
+  soroswapProvider,
+  stellarDexProvider,
+]);
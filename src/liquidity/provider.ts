@@ -0,0 +1,165 @@
+/**
+ * 유동성 프로토콜 어댑터 인터페이스
+ */
+
+import type { Account, Asset, Transaction } from 'stellar-sdk';
+import {
+  getTokenInfo,
+  isContractToken,
+  isSupportedToken,
+  pathSymbolToAsset,
+} from '@/stellar/utils';
+import type {
+  LiquidityPool,
+  LiquidityProtocol,
+  RouteQuote,
+  SwapEstimate,
+  SwapHop,
+  SwapMode,
+  SwapRequest,
+  SwapVenue,
+} from '@/types';
+
+/**
+ * 스왑 트랜잭션 생성 옵션
+ * - channel: 트랜잭션 소스로 쓸 채널 계정 (오퍼레이션 소스는 스왑 계정)
+ * - trustline: 스왑 앞에 changeTrust를 추가할 수령 자산
+ */
+export interface BuildSwapOptions {
+  channel?: Account;
+  trustline?: Asset;
+}
+
+/**
+ * 유동성 프로토콜 어댑터
+ *
+ * 새 프로토콜(Phoenix, Aqua 등)은 이 인터페이스를 구현해 집계기에 등록하면
+ * SwapService를 수정하지 않고도 견적 비교와 실행 대상에 포함된다.
+ */
+export interface LiquidityProvider {
+  /**
+   * 프로토콜 식별자
+   */
+  readonly protocol: LiquidityProtocol;
+
+  /**
+   * 이 프로토콜의 견적이 체결되는 실행 경로
+   */
+  readonly venue: SwapVenue;
+
+  /**
+   * 채널 계정을 트랜잭션 소스로 쓸 수 있는지 여부
+   */
+  readonly supportsChannels: boolean;
+
+  /**
+   * 스왑 트랜잭션에 changeTrust 오퍼레이션을 함께 담을 수 있는지 여부
+   */
+  readonly supportsTrustlineCreation: boolean;
+
+  /**
+   * 토큰 쌍 체결 가능 여부
+   */
+  supports(fromToken: string, toToken: string): boolean;
+
+  /**
+   * 슬리피지 한도를 포함한 견적 조회 (경로가 없으면 null)
+   */
+  quote(request: SwapRequest, mode: SwapMode): Promise<RouteQuote | null>;
+
+  /**
+   * exactIn 기준 최적 경로 탐색 (경로가 없으면 null)
+   */
+  route(
+    fromToken: string,
+    toToken: string,
+    amount: number
+  ): Promise<RouteQuote | null>;
+
+  /**
+   * 이 프로토콜 견적으로 서명 전 스왑 트랜잭션 생성
+   */
+  buildSwap(
+    publicKey: string,
+    request: SwapRequest,
+    estimate: SwapEstimate,
+    timeoutSeconds: number,
+    options?: BuildSwapOptions
+  ): Promise<Transaction>;
+
+  /**
+   * 유동성 풀 목록 조회
+   */
+  getPools(): Promise<LiquidityPool[]>;
+}
+
+/**
+ * 토큰 목록을 단일 프로토콜 구간 목록으로 변환
+ */
+export function toSwapHops(
+  tokens: string[],
+  protocol: LiquidityProtocol
+): SwapHop[] {
+  const hops: SwapHop[] = [];
+
+  for (let index = 1; index < tokens.length; index++) {
+    hops.push({
+      fromToken: tokens[index - 1]!,
+      toToken: tokens[index]!,
+      protocol,
+    });
+  }
+
+  return hops;
+}
+
+/**
+ * 구간 목록을 출발부터 도착까지의 토큰 목록으로 변환
+ */
+export function getPathTokens(hops: SwapHop[]): string[] {
+  const first = hops[0];
+  return first ? [first.fromToken, ...hops.map((hop) => hop.toToken)] : [];
+}
+
+/**
+ * 경로에서 출발/도착 토큰을 제외한 중간 토큰 추출
+ */
+export function getIntermediateTokens(
+  request: SwapRequest,
+  hops: SwapHop[]
+): string[] {
+  const endpoints = [
+    request.fromToken.toUpperCase(),
+    request.toToken.toUpperCase(),
+  ];
+
+  for (const token of [request.fromToken, request.toToken]) {
+    const contractAddress = getTokenInfo(token)?.contractAddress;
+    if (contractAddress) {
+      endpoints.push(contractAddress.toUpperCase());
+    }
+  }
+
+  return getPathTokens(hops).filter(
+    (token) => !endpoints.includes(token.toUpperCase())
+  );
+}
+
+/**
+ * 경로의 중간 자산만 Asset 객체로 변환 (클래식 자산 경로 결제용)
+ */
+export function resolvePathAssets(
+  request: SwapRequest,
+  hops: SwapHop[]
+): Asset[] {
+  return getIntermediateTokens(request, hops).map((symbol) => {
+    const isIssuedAsset = symbol.includes(':');
+    if (
+      !isIssuedAsset &&
+      (!isSupportedToken(symbol) || isContractToken(symbol))
+    ) {
+      throw new Error(`Unsupported path asset: ${symbol}`);
+    }
+    return pathSymbolToAsset(symbol);
+  });
+}
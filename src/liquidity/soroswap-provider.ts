@@ -0,0 +1,217 @@
+/**
+ * Soroswap AMM 유동성 어댑터
+ */
+
+import type { Transaction } from 'stellar-sdk';
+import { soroswapClient } from '@/soroswap/client';
+import type { SoroswapTokenInfo } from '@/soroswap/client';
+import { sorobanClient } from '@/stellar/soroban';
+import { feeStrategy } from '@/stellar/fees';
+import {
+  fromStroops,
+  getTokenContractAddress,
+  getTokenInfo,
+  isContractToken,
+  toContractAmount,
+} from '@/stellar/utils';
+import { soroswapConfig } from '@/utils/config';
+import { getIntermediateTokens, toSwapHops } from './provider';
+import type { LiquidityProvider } from './provider';
+import type {
+  LiquidityPool,
+  RouteQuote,
+  SwapEstimate,
+  SwapHop,
+  SwapMode,
+  SwapRequest,
+  TokenInfo,
+} from '@/types';
+
+/**
+ * 라우터 스왑 deadline 여유 시간 (초)
+ */
+const ROUTER_DEADLINE_SECONDS = 120;
+
+/**
+ * Soroswap 어댑터 클래스
+ *
+ * Soroswap API로 견적/경로를 조회하고 라우터 컨트랙트 호출로 체결한다.
+ */
+export class SoroswapProvider implements LiquidityProvider {
+  readonly protocol = 'soroswap' as const;
+  readonly venue = 'soroswap_router' as const;
+  // 라우터 호출 인증이 호출자 계정 기준이므로 기본 계정이 직접 트랜잭션 소스가 된다
+  readonly supportsChannels = false;
+  // Soroban 트랜잭션은 오퍼레이션을 하나만 담을 수 있다
+  readonly supportsTrustlineCreation = false;
+
+  /**
+   * 컨트랙트 기반 토큰이 포함되었거나 라우터가 설정되어 있으면 체결 가능
+   */
+  supports(fromToken: string, toToken: string): boolean {
+    return (
+      isContractToken(fromToken) ||
+      isContractToken(toToken) ||
+      !!soroswapConfig.routerContract
+    );
+  }
+
+  /**
+   * Soroswap API 견적 조회
+   *
+   * 네트워크 수수료는 포함 수수료와 API가 추정한 Soroban 리소스 수수료(estimatedGas, stroop)의 합이다.
+   */
+  async quote(
+    request: SwapRequest,
+    mode: SwapMode
+  ): Promise<RouteQuote | null> {
+    const quote = await soroswapClient.getQuote(
+      request.fromToken,
+      request.toToken,
+      request.amount.toString(),
+      request.slippage,
+      mode
+    );
+    const { baseFee } = await feeStrategy.quoteFee(request.urgency);
+
+    const route: RouteQuote = {
+      protocol: this.protocol,
+      venue: this.venue,
+      fromAmount: parseFloat(quote.fromAmount),
+      toAmount: parseFloat(quote.toAmount),
+      priceImpact: quote.priceImpact,
+      fee: parseFloat(quote.fee),
+      networkFee: fromStroops(baseFee + (Number(quote.estimatedGas) || 0)),
+      path: this.toHops(request.fromToken, request.toToken, quote.path),
+    };
+
+    if (quote.minimumReceived !== undefined) {
+      route.minimumReceived = parseFloat(quote.minimumReceived);
+    }
+
+    if (quote.maximumSent !== undefined) {
+      route.maximumSent = parseFloat(quote.maximumSent);
+    }
+
+    return route;
+  }
+
+  /**
+   * exactIn 기준 최적 경로 조회 (리소스 수수료 추정이 있는 견적 API 사용)
+   */
+  async route(
+    fromToken: string,
+    toToken: string,
+    amount: number
+  ): Promise<RouteQuote | null> {
+    return this.quote({ fromToken, toToken, amount, slippage: 0 }, 'exactIn');
+  }
+
+  /**
+   * 라우터 호출 트랜잭션 생성 (시뮬레이션 반영, 포함 수수료는 요청 긴급도 기준)
+   */
+  async buildSwap(
+    publicKey: string,
+    request: SwapRequest,
+    estimate: SwapEstimate,
+    timeoutSeconds: number
+  ): Promise<Transaction> {
+    const routerContract = soroswapConfig.routerContract;
+    if (!routerContract) {
+      throw new Error('Soroswap router contract is not configured');
+    }
+
+    const passphrase = sorobanClient.getNetworkPassphrase();
+    const fromInfo = getTokenInfo(request.fromToken);
+    const toInfo = getTokenInfo(request.toToken);
+
+    const path = [
+      request.fromToken,
+      ...getIntermediateTokens(request, estimate.path),
+      request.toToken,
+    ].map((token) => getTokenContractAddress(token, passphrase));
+
+    const deadline = Math.floor(Date.now() / 1000) + ROUTER_DEADLINE_SECONDS;
+
+    const params =
+      estimate.mode === 'exactOut'
+        ? {
+            amountOut: toContractAmount(request.amount, toInfo?.decimals),
+            amountInMax: toContractAmount(
+              estimate.maximumSent ?? estimate.fromAmount,
+              fromInfo?.decimals
+            ),
+            path,
+            to: publicKey,
+            deadline,
+          }
+        : {
+            amountIn: toContractAmount(request.amount, fromInfo?.decimals),
+            amountOutMin: toContractAmount(
+              estimate.minimumReceived ?? estimate.toAmount,
+              toInfo?.decimals
+            ),
+            path,
+            to: publicKey,
+            deadline,
+          };
+
+    return sorobanClient.buildRouterSwap(
+      publicKey,
+      routerContract,
+      params,
+      timeoutSeconds,
+      await feeStrategy.getBaseFee(request.urgency)
+    );
+  }
+
+  /**
+   * Soroswap 페어 목록 조회
+   */
+  async getPools(): Promise<LiquidityPool[]> {
+    const pairs = await soroswapClient.getPools();
+
+    return pairs.map((pair) => ({
+      id: pair.id,
+      protocol: this.protocol,
+      tokenA: this.toTokenInfo(pair.token0),
+      tokenB: this.toTokenInfo(pair.token1),
+      reserveA: parseFloat(pair.reserve0),
+      reserveB: parseFloat(pair.reserve1),
+      totalLiquidity: parseFloat(pair.totalSupply),
+      fee: pair.fee,
+    }));
+  }
+
+  /**
+   * API 경로를 구간 목록으로 변환 (경로가 비어 있으면 직접 구간)
+   */
+  private toHops(
+    fromToken: string,
+    toToken: string,
+    path: string[]
+  ): SwapHop[] {
+    return toSwapHops(
+      path.length >= 2 ? path : [fromToken, toToken],
+      this.protocol
+    );
+  }
+
+  /**
+   * Soroswap 토큰 정보를 공통 형식으로 변환
+   */
+  private toTokenInfo(token: SoroswapTokenInfo): TokenInfo {
+    return {
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      assetCode: token.symbol,
+      contractAddress: token.contract,
+    };
+  }
+}
+
+/**
+ * 싱글톤 Soroswap 어댑터 인스턴스
+ */
+export const soroswapProvider = new SoroswapProvider();
@@ -0,0 +1,299 @@
+/**
+ * Stellar 클래식 DEX 유동성 어댑터 (오더북 + 클래식 AMM 풀)
+ */
+
+import { Asset, Horizon, Transaction, xdr } from 'stellar-sdk';
+import { stellarClient } from '@/stellar/client';
+import { feeStrategy } from '@/stellar/fees';
+import {
+  assetToPathSymbol,
+  fromStroops,
+  getTokenInfo,
+  isContractToken,
+  pathSymbolToAsset,
+  symbolToAsset,
+  toStellarAmount,
+} from '@/stellar/utils';
+import { log } from '@/utils/logger';
+import { resolvePathAssets, toSwapHops } from './provider';
+import type { BuildSwapOptions, LiquidityProvider } from './provider';
+import type {
+  LiquidityPool,
+  RouteQuote,
+  SwapEstimate,
+  SwapMode,
+  SwapRequest,
+  TokenInfo,
+} from '@/types';
+
+/**
+ * Stellar DEX 어댑터 클래스
+ *
+ * Horizon Strict Send/Receive 경로 탐색으로 견적하고 경로 결제 오퍼레이션으로 체결한다.
+ */
+export class StellarDexProvider implements LiquidityProvider {
+  readonly protocol = 'sdex' as const;
+  readonly venue = 'stellar_dex' as const;
+  readonly supportsChannels = true;
+  readonly supportsTrustlineCreation = true;
+
+  /**
+   * 컨트랙트 기반 토큰은 경로 결제로 체결할 수 없음
+   */
+  supports(fromToken: string, toToken: string): boolean {
+    return !isContractToken(fromToken) && !isContractToken(toToken);
+  }
+
+  /**
+   * Horizon Strict Send/Receive 경로 탐색 견적
+   *
+   * 오더북/풀 체결 가격에 LP 수수료가 이미 반영되어 있으므로 fee는 0이고,
+   * 비용은 경로 결제 오퍼레이션 하나의 네트워크 수수료(networkFee)로 잡는다.
+   * 가격 영향은 1% 규모 소량 주문의 체결 가격과 비교해 추정한다.
+   */
+  async quote(
+    request: SwapRequest,
+    mode: SwapMode
+  ): Promise<RouteQuote | null> {
+    const best = await this.findBestPath(request, mode, request.amount);
+    if (!best) {
+      return null;
+    }
+
+    const fromAmount = parseFloat(best.source_amount);
+    const toAmount = parseFloat(best.destination_amount);
+    const { baseFee } = await feeStrategy.quoteFee(request.urgency);
+
+    let priceImpact = 0;
+    try {
+      const probe = await this.findBestPath(
+        request,
+        mode,
+        Math.max(request.amount / 100, 0.0000001)
+      );
+      if (probe) {
+        const probeRate =
+          parseFloat(probe.destination_amount) /
+          parseFloat(probe.source_amount);
+        const rate = toAmount / fromAmount;
+        priceImpact =
+          probeRate > 0
+            ? Math.max(0, ((probeRate - rate) / probeRate) * 100)
+            : 0;
+      }
+    } catch (error) {
+      log.debug('Price impact probe failed', {
+        error: (error as Error).message,
+      });
+    }
+
+    return {
+      protocol: this.protocol,
+      venue: this.venue,
+      fromAmount,
+      toAmount,
+      priceImpact,
+      fee: 0,
+      networkFee: fromStroops(baseFee),
+      path: toSwapHops(
+        [
+          request.fromToken,
+          ...best.path.map((hop) =>
+            hop.asset_type === 'native'
+              ? 'XLM'
+              : assetToPathSymbol(new Asset(hop.asset_code, hop.asset_issuer))
+          ),
+          request.toToken,
+        ],
+        this.protocol
+      ),
+    };
+  }
+
+  /**
+   * exactIn 기준 최적 경로 탐색
+   */
+  async route(
+    fromToken: string,
+    toToken: string,
+    amount: number
+  ): Promise<RouteQuote | null> {
+    return this.quote({ fromToken, toToken, amount, slippage: 0 }, 'exactIn');
+  }
+
+  /**
+   * 경로 결제 트랜잭션 생성 (기본 수수료는 요청 긴급도 기준)
+   *
+   * 트러스트라인을 추가하면 changeTrust가 먼저 실행되므로 경로 결제는 항상 마지막 오퍼레이션이다.
+   */
+  async buildSwap(
+    publicKey: string,
+    request: SwapRequest,
+    estimate: SwapEstimate,
+    timeoutSeconds: number,
+    options: BuildSwapOptions = {}
+  ): Promise<Transaction> {
+    const { channel, trustline } = options;
+    const baseFee = await feeStrategy.getBaseFee(request.urgency);
+    const txBuilder = await stellarClient.createTransactionBuilder(
+      channel ?? publicKey,
+      baseFee
+    );
+
+    if (trustline) {
+      txBuilder.addOperation(
+        stellarClient.createChangeTrustOperation(
+          trustline,
+          undefined,
+          channel ? publicKey : undefined
+        )
+      );
+    }
+
+    return txBuilder
+      .addOperation(
+        this.createPathPaymentOperation(
+          publicKey,
+          request,
+          estimate,
+          channel !== undefined
+        )
+      )
+      .setTimeout(timeoutSeconds)
+      .build();
+  }
+
+  /**
+   * 자기 자신에게 전송하는 Path Payment 오퍼레이션 생성 (exactOut은 Strict Receive)
+   *
+   * 배치 스왑처럼 여러 오퍼레이션을 한 트랜잭션에 담을 때도 사용한다.
+   * 채널 계정 트랜잭션에서는 withSource로 오퍼레이션 소스를 publicKey로 지정한다.
+   */
+  createPathPaymentOperation(
+    publicKey: string,
+    request: SwapRequest,
+    estimate: SwapEstimate,
+    withSource: boolean = false
+  ): xdr.Operation {
+    const source = withSource ? publicKey : undefined;
+    const fromAsset = symbolToAsset(request.fromToken);
+    const toAsset = symbolToAsset(request.toToken);
+    const pathAssets = resolvePathAssets(request, estimate.path);
+
+    return estimate.mode === 'exactOut'
+      ? stellarClient.createPathPaymentStrictReceiveOperation(
+          fromAsset,
+          toStellarAmount(estimate.maximumSent ?? estimate.fromAmount),
+          publicKey,
+          toAsset,
+          toStellarAmount(request.amount),
+          pathAssets,
+          source
+        )
+      : stellarClient.createPathPaymentStrictSendOperation(
+          fromAsset,
+          toStellarAmount(request.amount),
+          publicKey,
+          toAsset,
+          toStellarAmount(estimate.minimumReceived ?? estimate.toAmount),
+          pathAssets,
+          source
+        );
+  }
+
+  /**
+   * 클래식 AMM 유동성 풀 조회
+   */
+  async getPools(): Promise<LiquidityPool[]> {
+    const records = await stellarClient.getLiquidityPools();
+
+    return records
+      .filter((record) => record.reserves.length === 2)
+      .map((record) => ({
+        id: record.id,
+        protocol: this.protocol,
+        tokenA: this.toTokenInfo(record.reserves[0]!.asset),
+        tokenB: this.toTokenInfo(record.reserves[1]!.asset),
+        reserveA: parseFloat(record.reserves[0]!.amount),
+        reserveB: parseFloat(record.reserves[1]!.amount),
+        totalLiquidity: parseFloat(record.total_shares),
+        fee: record.fee_bp / 100,
+      }));
+  }
+
+  /**
+   * 가장 유리한 경로 레코드 선택 (exactIn은 수령량 최대, exactOut은 지불량 최소)
+   */
+  private async findBestPath(
+    request: SwapRequest,
+    mode: SwapMode,
+    amount: number
+  ): Promise<Horizon.ServerApi.PaymentPathRecord | undefined> {
+    const fromAsset = symbolToAsset(request.fromToken);
+    const toAsset = symbolToAsset(request.toToken);
+
+    const records =
+      mode === 'exactOut'
+        ? await stellarClient.findStrictReceivePaths(
+            fromAsset,
+            toAsset,
+            toStellarAmount(amount)
+          )
+        : await stellarClient.findStrictSendPaths(
+            fromAsset,
+            toStellarAmount(amount),
+            toAsset
+          );
+
+    return records.reduce<Horizon.ServerApi.PaymentPathRecord | undefined>(
+      (best, record) => {
+        if (!best) {
+          return record;
+        }
+        return mode === 'exactOut'
+          ? parseFloat(record.source_amount) < parseFloat(best.source_amount)
+            ? record
+            : best
+          : parseFloat(record.destination_amount) >
+              parseFloat(best.destination_amount)
+            ? record
+            : best;
+      },
+      undefined
+    );
+  }
+
+  /**
+   * Horizon 풀 준비금 자산 표기("native" 또는 CODE:ISSUER)를 토큰 정보로 변환
+   */
+  private toTokenInfo(reserveAsset: string): TokenInfo {
+    const asset =
+      reserveAsset === 'native'
+        ? Asset.native()
+        : pathSymbolToAsset(reserveAsset);
+    const symbol = assetToPathSymbol(asset);
+    const known = getTokenInfo(symbol);
+
+    if (known) {
+      return known;
+    }
+
+    const info: TokenInfo = {
+      symbol,
+      name: asset.getCode(),
+      decimals: 7,
+      assetCode: asset.getCode(),
+    };
+
+    if (!asset.isNative()) {
+      info.assetIssuer = asset.getIssuer();
+    }
+
+    return info;
+  }
+}
+
+/**
+ * 싱글톤 Stellar DEX 어댑터 인스턴스
+ */
+export const stellarDexProvider = new StellarDexProvider();
@@ -13,7 +13,13 @@ import {
 
 import { log, generateRequestId } from '@/utils/logger';
 import { serverConfig } from '@/utils/config';
-import type { MCPTool, MCPResource } from '@/types';
+import type {
+  MCPTool,
+  MCPResource,
+  LimitOrder,
+  DcaPlan,
+  ProtectiveOrder,
+} from '@/types';
 
 /**
  * Soroswap MCP 서버 클래스
@@ -51,9 +57,9 @@ export class SoroswapMCPServer {
       try {
         const tools = await this.getAvailableTools();
         log.requestEnd('list_tools', requestId, 0, true);
-        
+
         return {
-          tools: tools.map(tool => ({
+          tools: tools.map((tool) => ({
             name: tool.name,
             description: tool.description,
             inputSchema: tool.inputSchema,
@@ -70,13 +76,13 @@ export class SoroswapMCPServer {
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const requestId = generateRequestId();
       const { name, arguments: args } = request.params;
-      
+
       log.requestStart('call_tool', { name, arguments: args }, requestId);
 
       try {
         const result = await this.callTool(name, args);
         log.requestEnd('call_tool', requestId, 0, true);
-        
+
         return {
           content: [
             {
@@ -86,9 +92,11 @@ export class SoroswapMCPServer {
           ],
         };
       } catch (error) {
-        log.error(`Tool call failed: ${name}`, error as Error, { arguments: args });
+        log.error(`Tool call failed: ${name}`, error as Error, {
+          arguments: args,
+        });
         log.requestEnd('call_tool', requestId, 0, false);
-        
+
         return {
           content: [
             {
@@ -109,9 +117,9 @@ export class SoroswapMCPServer {
       try {
         const resources = await this.getAvailableResources();
         log.requestEnd('list_resources', requestId, 0, true);
-        
+
         return {
-          resources: resources.map(resource => ({
+          resources: resources.map((resource) => ({
             uri: resource.uri,
             name: resource.name,
             description: resource.description,
@@ -126,31 +134,34 @@ export class SoroswapMCPServer {
     });
 
     // 리소스 읽기 핸들러
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const requestId = generateRequestId();
-      const { uri } = request.params;
-      
-      log.requestStart('read_resource', { uri }, requestId);
+    this.server.setRequestHandler(
+      ReadResourceRequestSchema,
+      async (request) => {
+        const requestId = generateRequestId();
+        const { uri } = request.params;
 
-      try {
-        const content = await this.readResource(uri);
-        log.requestEnd('read_resource', requestId, 0, true);
-        
-        return {
-          contents: [
-            {
-              uri,
-              mimeType: 'application/json',
-              text: JSON.stringify(content, null, 2),
-            },
-          ],
-        };
-      } catch (error) {
-        log.error(`Resource read failed: ${uri}`, error as Error);
-        log.requestEnd('read_resource', requestId, 0, false);
-        throw error;
+        log.requestStart('read_resource', { uri }, requestId);
+
+        try {
+          const content = await this.readResource(uri);
+          log.requestEnd('read_resource', requestId, 0, true);
+
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(content, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          log.error(`Resource read failed: ${uri}`, error as Error);
+          log.requestEnd('read_resource', requestId, 0, false);
+          throw error;
+        }
       }
-    });
+    );
   }
 
   /**
@@ -160,7 +171,8 @@ export class SoroswapMCPServer {
     return [
       {
         name: 'swap_tokens',
-        description: 'Execute token swap on Soroswap DEX',
+        description:
+          'Execute token swap through the best available liquidity protocol (Soroswap or Stellar DEX). Swaps above the USD approval threshold are queued for operator approval and return an approvalId instead of executing. In paper trading mode the swap fills against the virtual portfolio and the result is marked simulated',
         inputSchema: {
           type: 'object',
           properties: {
@@ -174,16 +186,56 @@ export class SoroswapMCPServer {
             },
             amount: {
               type: 'number',
-              description: 'Amount of tokens to swap',
+              description:
+                'Amount of tokens to swap (fromToken in exactIn mode, toToken in exactOut mode)',
               minimum: 0.1,
             },
             slippage: {
-              type: 'number',
-              description: 'Maximum slippage tolerance in percentage (0.1-50)',
-              minimum: 0.1,
-              maximum: 50,
+              anyOf: [
+                { type: 'number', minimum: 0.1, maximum: 50 },
+                { type: 'string', enum: ['auto'] },
+              ],
+              description:
+                'Maximum slippage tolerance in percentage (0.1-50), or "auto" to apply the tolerance recommended from pool depth and price impact',
               default: 1.0,
             },
+            mode: {
+              type: 'string',
+              enum: ['exactIn', 'exactOut'],
+              description:
+                'exactIn: spend exactly amount of fromToken, exactOut: receive exactly amount of toToken',
+              default: 'exactIn',
+            },
+            protocols: {
+              type: 'array',
+              items: { type: 'string', enum: ['soroswap', 'sdex'] },
+              description:
+                'Only route through these liquidity protocols (default: all)',
+            },
+            excludeProtocols: {
+              type: 'array',
+              items: { type: 'string', enum: ['soroswap', 'sdex'] },
+              description: 'Never route through these liquidity protocols',
+            },
+            urgency: {
+              type: 'string',
+              enum: ['low', 'normal', 'urgent'],
+              description:
+                'Fee urgency: picks the 10th/50th/90th percentile of recent network fees, capped by MAX_FEE_STROOPS',
+              default: 'normal',
+            },
+            autoTrustline: {
+              type: 'boolean',
+              description:
+                'If the account has no toToken trustline, add changeTrust to the swap transaction (Stellar DEX route only; locks one base reserve of XLM)',
+              default: false,
+            },
+            dryRun: {
+              type: 'boolean',
+              description:
+                'Build (and simulate for Soroswap) without submitting; returns unsigned XDR, fee, predicted balances and reserve/trustline changes',
+              default: false,
+            },
           },
           required: ['fromToken', 'toToken', 'amount'],
         },
@@ -209,7 +261,8 @@ export class SoroswapMCPServer {
       },
       {
         name: 'get_balance',
-        description: 'Check wallet balance for specific tokens',
+        description:
+          'Check wallet balance for specific tokens (virtual portfolio balances in paper trading mode)',
         inputSchema: {
           type: 'object',
           properties: {
@@ -219,7 +272,8 @@ export class SoroswapMCPServer {
             },
             token: {
               type: 'string',
-              description: 'Token symbol to check balance for (optional, returns all if not specified)',
+              description:
+                'Token symbol to check balance for (optional, returns all if not specified)',
             },
           },
           required: ['account'],
@@ -246,9 +300,97 @@ export class SoroswapMCPServer {
           required: ['account'],
         },
       },
+      {
+        name: 'get_swap_history',
+        description:
+          'Get executed swaps for an account with amounts sent and received, fee and timestamp (simulated fills in paper trading mode)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            account: {
+              type: 'string',
+              description: 'Stellar account public key',
+            },
+            limit: {
+              type: 'number',
+              description: 'Number of swaps to return',
+              minimum: 1,
+              maximum: 100,
+              default: 10,
+            },
+            cursor: {
+              type: 'string',
+              description:
+                'Paging cursor returned as nextCursor by a previous call',
+            },
+          },
+          required: ['account'],
+        },
+      },
+      {
+        name: 'get_approval',
+        description:
+          'Check the status of a swap queued for operator approval (pending, approved, rejected, expired, executed, failed)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            approvalId: {
+              type: 'string',
+              description: 'Approval ID returned by swap_tokens',
+            },
+          },
+          required: ['approvalId'],
+        },
+      },
+      {
+        name: 'get_limits',
+        description:
+          'Show daily and weekly USD spend limits for an account, how much has been spent and the remaining allowance. In paper trading mode the totals count simulated fills only',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            account: {
+              type: 'string',
+              description:
+                'Stellar account public key (default: the server default account)',
+            },
+          },
+        },
+      },
+      {
+        name: 'set_paper_trading',
+        description:
+          'Turn paper trading on or off for this session. While on, swaps fill against live (or fixture) quotes into a virtual portfolio and nothing is submitted to the network',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            enabled: {
+              type: 'boolean',
+              description: 'true to simulate swaps, false to trade for real',
+            },
+          },
+          required: ['enabled'],
+        },
+      },
+      {
+        name: 'reset_paper_portfolio',
+        description:
+          'Restore the paper trading starting balances and clear simulated swap history',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            account: {
+              type: 'string',
+              description:
+                'Stellar account public key (default: every paper account)',
+            },
+          },
+        },
+      },
       {
         name: 'estimate_swap',
-        description: 'Estimate swap output and fees without executing',
+        description:
+          'Estimate swap output and fees without executing, comparing quotes across liquidity protocols (Soroswap, Stellar DEX)',
         inputSchema: {
           type: 'object',
           properties: {
@@ -262,107 +404,1513 @@ export class SoroswapMCPServer {
             },
             amount: {
               type: 'number',
-              description: 'Amount of tokens to swap',
+              description:
+                'Amount of tokens to swap (fromToken in exactIn mode, toToken in exactOut mode)',
               minimum: 0.1,
             },
+            slippage: {
+              anyOf: [
+                { type: 'number', minimum: 0.1, maximum: 50 },
+                { type: 'string', enum: ['auto'] },
+              ],
+              description:
+                'Maximum slippage tolerance in percentage (0.1-50), or "auto" to apply the tolerance recommended from pool depth and price impact',
+              default: 1.0,
+            },
+            mode: {
+              type: 'string',
+              enum: ['exactIn', 'exactOut'],
+              description:
+                'exactIn: spend exactly amount of fromToken, exactOut: receive exactly amount of toToken',
+              default: 'exactIn',
+            },
+            protocols: {
+              type: 'array',
+              items: { type: 'string', enum: ['soroswap', 'sdex'] },
+              description:
+                'Only route through these liquidity protocols (default: all)',
+            },
+            excludeProtocols: {
+              type: 'array',
+              items: { type: 'string', enum: ['soroswap', 'sdex'] },
+              description: 'Never route through these liquidity protocols',
+            },
           },
           required: ['fromToken', 'toToken', 'amount'],
         },
       },
-    ];
-  }
-
-  /**
-   * 사용 가능한 리소스 목록 반환
-   */
-  private async getAvailableResources(): Promise<MCPResource[]> {
-    return [
       {
-        uri: 'soroswap://account/info',
-        name: 'Account Information',
-        description: 'Current account information and balances',
-        mimeType: 'application/json',
+        name: 'prepare_swap',
+        description:
+          'Quote a swap and build its unsigned transaction for review. Returns a quote ID that expires shortly',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            fromToken: {
+              type: 'string',
+              description: 'Symbol of the token to swap from (e.g., XLM, USDC)',
+            },
+            toToken: {
+              type: 'string',
+              description: 'Symbol of the token to swap to (e.g., XLM, USDC)',
+            },
+            amount: {
+              type: 'number',
+              description:
+                'Amount of tokens to swap (fromToken in exactIn mode, toToken in exactOut mode)',
+              minimum: 0.1,
+            },
+            slippage: {
+              anyOf: [
+                { type: 'number', minimum: 0.1, maximum: 50 },
+                { type: 'string', enum: ['auto'] },
+              ],
+              description:
+                'Maximum slippage tolerance in percentage (0.1-50), or "auto" to apply the tolerance recommended from pool depth and price impact',
+              default: 1.0,
+            },
+            mode: {
+              type: 'string',
+              enum: ['exactIn', 'exactOut'],
+              description:
+                'exactIn: spend exactly amount of fromToken, exactOut: receive exactly amount of toToken',
+              default: 'exactIn',
+            },
+            autoTrustline: {
+              type: 'boolean',
+              description:
+                'If the account has no toToken trustline, add changeTrust to the swap transaction (Stellar DEX route only; locks one base reserve of XLM)',
+              default: false,
+            },
+          },
+          required: ['fromToken', 'toToken', 'amount'],
+        },
       },
       {
-        uri: 'soroswap://market/prices',
-        name: 'Market Prices',
-        description: 'Current market prices for all supported tokens',
-        mimeType: 'application/json',
+        name: 'confirm_swap',
+        description:
+          'Sign and submit exactly the transaction prepared by prepare_swap, if its quote has not expired',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            quoteId: {
+              type: 'string',
+              description: 'Quote ID returned by prepare_swap',
+            },
+          },
+          required: ['quoteId'],
+        },
       },
       {
-        uri: 'soroswap://pools/liquidity',
-        name: 'Liquidity Pools',
-        description: 'Information about available liquidity pools',
-        mimeType: 'application/json',
+        name: 'batch_swap',
+        description:
+          'Execute several swaps in one atomic Stellar transaction; either every leg fills or none does. ' +
+          'Batches whose combined USD value exceeds the approval threshold are refused with APPROVAL_REQUIRED ' +
+          'instead of being queued for operator approval; submit those legs as single swap_tokens calls',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            swaps: {
+              type: 'array',
+              description:
+                'Swaps to execute together (up to 100 legs, classic Stellar assets only)',
+              minItems: 1,
+              maxItems: 100,
+              items: {
+                type: 'object',
+                properties: {
+                  fromToken: {
+                    type: 'string',
+                    description: 'Symbol of the token to swap from',
+                  },
+                  toToken: {
+                    type: 'string',
+                    description: 'Symbol of the token to swap to',
+                  },
+                  amount: {
+                    type: 'number',
+                    description:
+                      'Amount of tokens to swap (fromToken in exactIn mode, toToken in exactOut mode)',
+                    minimum: 0.1,
+                  },
+                  slippage: {
+                    type: 'number',
+                    description:
+                      'Maximum slippage tolerance in percentage (0.1-50)',
+                    minimum: 0.1,
+                    maximum: 50,
+                    default: 1.0,
+                  },
+                  mode: {
+                    type: 'string',
+                    enum: ['exactIn', 'exactOut'],
+                    default: 'exactIn',
+                  },
+                },
+                required: ['fromToken', 'toToken', 'amount'],
+              },
+            },
+          },
+          required: ['swaps'],
+        },
       },
       {
-        uri: 'soroswap://network/status',
-        name: 'Network Status',
-        description: 'Stellar network and Soroswap service status',
-        mimeType: 'application/json',
+        name: 'twap_swap',
+        description:
+          'Split a large swap into equal slices executed over a time window, re-quoting each slice and holding back slices above a price impact cap',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            fromToken: {
+              type: 'string',
+              description: 'Symbol of the token to swap from (e.g., XLM, USDC)',
+            },
+            toToken: {
+              type: 'string',
+              description: 'Symbol of the token to swap to (e.g., XLM, USDC)',
+            },
+            amount: {
+              type: 'number',
+              description:
+                'Total amount to swap across all slices (fromToken in exactIn mode, toToken in exactOut mode)',
+              minimum: 0.1,
+            },
+            slippage: {
+              type: 'number',
+              description:
+                'Maximum slippage tolerance per slice in percentage (0.1-50)',
+              minimum: 0.1,
+              maximum: 50,
+              default: 1.0,
+            },
+            mode: {
+              type: 'string',
+              enum: ['exactIn', 'exactOut'],
+              description:
+                'exactIn: spend exactly amount of fromToken, exactOut: receive exactly amount of toToken',
+              default: 'exactIn',
+            },
+            slices: {
+              type: 'number',
+              description: 'Number of child swaps (2-100)',
+              minimum: 2,
+              maximum: 100,
+            },
+            durationMinutes: {
+              type: 'number',
+              description: 'Time window over which the slices are spread',
+              minimum: 1,
+            },
+            maxPriceImpact: {
+              type: 'number',
+              description: 'Maximum price impact per slice in percentage',
+              default: 1.0,
+            },
+            impactAction: {
+              type: 'string',
+              enum: ['skip', 'pause'],
+              description:
+                'skip: drop a slice above the cap, pause: pause the whole schedule',
+              default: 'skip',
+            },
+          },
+          required: [
+            'fromToken',
+            'toToken',
+            'amount',
+            'slices',
+            'durationMinutes',
+          ],
+        },
       },
-    ];
-  }
-
-  /**
-   * 도구 호출 실행
-   */
-  private async callTool(name: string, args: any): Promise<any> {
-    log.info(`Executing tool: ${name}`, { arguments: args });
-
-    switch (name) {
-      case 'swap_tokens':
-        return this.handleSwapTokens(args);
-      
-      case 'get_price':
-        return this.handleGetPrice(args);
-      
-      case 'get_balance':
-        return this.handleGetBalance(args);
-      
-      case 'get_history':
-        return this.handleGetHistory(args);
-      
-      case 'estimate_swap':
-        return this.handleEstimateSwap(args);
-      
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+      {
+        name: 'get_twap_status',
+        description:
+          'Get progress of a TWAP swap, or list all TWAP swaps when no ID is given',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            twapId: {
+              type: 'string',
+              description: 'TWAP ID returned by twap_swap',
+            },
+            account: {
+              type: 'string',
+              description:
+                'Only list TWAP swaps of this account (when twapId is omitted)',
+            },
+          },
+        },
+      },
+      {
+        name: 'resume_twap',
+        description:
+          'Resume a paused TWAP swap; remaining slices are rescheduled from now',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            twapId: {
+              type: 'string',
+              description: 'TWAP ID returned by twap_swap',
+            },
+          },
+          required: ['twapId'],
+        },
+      },
+      {
+        name: 'cancel_twap',
+        description:
+          'Cancel a running or paused TWAP swap; slices not yet executed are dropped',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            twapId: {
+              type: 'string',
+              description: 'TWAP ID returned by twap_swap',
+            },
+          },
+          required: ['twapId'],
+        },
+      },
+      {
+        name: 'place_limit_order',
+        description:
+          'Place a limit order that swaps fromToken to toToken once the fromToken/toToken price reaches the target',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            fromToken: {
+              type: 'string',
+              description: 'Symbol of the token to sell (e.g., XLM)',
+            },
+            toToken: {
+              type: 'string',
+              description: 'Symbol of the token to buy (e.g., USDC)',
+            },
+            amount: {
+              type: 'number',
+              description: 'Amount of fromToken to sell',
+              minimum: 0.1,
+            },
+            targetPrice: {
+              type: 'number',
+              description:
+                'Target price in toToken per fromToken (e.g., 0.15 for XLM/USDC)',
+            },
+            condition: {
+              type: 'string',
+              enum: ['gte', 'lte'],
+              description:
+                'gte: trigger when price >= target, lte: trigger when price <= target',
+              default: 'gte',
+            },
+            slippage: {
+              type: 'number',
+              description: 'Maximum slippage tolerance in percentage (0.1-50)',
+              minimum: 0.1,
+              maximum: 50,
+              default: 1.0,
+            },
+            expiresInMinutes: {
+              type: 'number',
+              description: 'Minutes until the order expires (default 1440)',
+              minimum: 1,
+              default: 1440,
+            },
+          },
+          required: ['fromToken', 'toToken', 'amount', 'targetPrice'],
+        },
+      },
+      {
+        name: 'list_orders',
+        description:
+          'List limit orders, optionally filtered by account and status',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            account: {
+              type: 'string',
+              description: 'Stellar account public key',
+            },
+            status: {
+              type: 'string',
+              enum: [
+                'open',
+                'executing',
+                'filled',
+                'failed',
+                'cancelled',
+                'expired',
+              ],
+              description: 'Only return orders with this status',
+            },
+          },
+        },
+      },
+      {
+        name: 'cancel_order',
+        description: 'Cancel an open limit order',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            orderId: {
+              type: 'string',
+              description: 'Order ID returned by place_limit_order',
+            },
+          },
+          required: ['orderId'],
+        },
+      },
+      {
+        name: 'create_dca_plan',
+        description:
+          'Create a recurring buy plan that swaps a fixed amount of fromToken into toToken on a cron schedule (UTC)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            fromToken: {
+              type: 'string',
+              description: 'Symbol of the token to spend (e.g., USDC)',
+            },
+            toToken: {
+              type: 'string',
+              description: 'Symbol of the token to buy (e.g., XLM)',
+            },
+            amount: {
+              type: 'number',
+              description: 'Amount of fromToken to spend per run',
+              minimum: 0.1,
+            },
+            schedule: {
+              type: 'string',
+              description:
+                'Cron expression "minute hour day month weekday" in UTC, or @hourly/@daily/@weekly/@monthly',
+            },
+            maxPrice: {
+              type: 'number',
+              description:
+                'Skip a run when one toToken costs more than this many fromToken',
+            },
+            endDate: {
+              type: 'string',
+              description: 'ISO date after which the plan stops',
+            },
+            slippage: {
+              type: 'number',
+              description: 'Maximum slippage tolerance in percentage (0.1-50)',
+              minimum: 0.1,
+              maximum: 50,
+              default: 1.0,
+            },
+          },
+          required: ['fromToken', 'toToken', 'amount', 'schedule'],
+        },
+      },
+      {
+        name: 'pause_dca_plan',
+        description: 'Pause a DCA plan',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            planId: {
+              type: 'string',
+              description: 'DCA plan ID returned by create_dca_plan',
+            },
+          },
+          required: ['planId'],
+        },
+      },
+      {
+        name: 'resume_dca_plan',
+        description: 'Resume a paused DCA plan from its next scheduled run',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            planId: {
+              type: 'string',
+              description: 'DCA plan ID returned by create_dca_plan',
+            },
+          },
+          required: ['planId'],
+        },
+      },
+      {
+        name: 'delete_dca_plan',
+        description: 'Delete a DCA plan and its fill history',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            planId: {
+              type: 'string',
+              description: 'DCA plan ID returned by create_dca_plan',
+            },
+          },
+          required: ['planId'],
+        },
+      },
+      {
+        name: 'place_protective_order',
+        description:
+          'Place a stop-loss or take-profit order that sells a held token into an exit token when its USD price crosses a trigger',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['stop_loss', 'take_profit'],
+              description:
+                'stop_loss: sell when price <= trigger, take_profit: sell when price >= trigger',
+            },
+            token: {
+              type: 'string',
+              description: 'Symbol of the held token to protect (e.g., XLM)',
+            },
+            exitToken: {
+              type: 'string',
+              description: 'Symbol of the token to sell into (e.g., USDC)',
+            },
+            amount: {
+              type: 'number',
+              description: 'Amount of the held token to sell when triggered',
+              minimum: 0.1,
+            },
+            triggerPriceUsd: {
+              type: 'number',
+              description:
+                'USD price of the held token that triggers the order',
+            },
+            slippage: {
+              type: 'number',
+              description: 'Maximum slippage tolerance in percentage (0.1-50)',
+              minimum: 0.1,
+              maximum: 50,
+              default: 1.0,
+            },
+            hysteresisPercent: {
+              type: 'number',
+              description:
+                'Price must move back this far past the trigger before the confirmation count resets',
+              minimum: 0,
+              maximum: 50,
+              default: 1.0,
+            },
+            confirmations: {
+              type: 'number',
+              description:
+                'Consecutive price checks beyond the trigger required before selling',
+              minimum: 1,
+              default: 3,
+            },
+            minLiquidityUsd: {
+              type: 'number',
+              description: 'Minimum pool liquidity in USD required to sell',
+              minimum: 0,
+              default: 10000,
+            },
+          },
+          required: ['type', 'token', 'exitToken', 'amount', 'triggerPriceUsd'],
+        },
+      },
+      {
+        name: 'list_protective_orders',
+        description:
+          'List stop-loss and take-profit orders, optionally filtered by account and status',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            account: {
+              type: 'string',
+              description: 'Stellar account public key',
+            },
+            status: {
+              type: 'string',
+              enum: ['active', 'triggered', 'failed', 'cancelled'],
+              description: 'Only return orders with this status',
+            },
+          },
+        },
+      },
+      {
+        name: 'cancel_protective_order',
+        description: 'Cancel an active stop-loss or take-profit order',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            orderId: {
+              type: 'string',
+              description: 'Order ID returned by place_protective_order',
+            },
+          },
+          required: ['orderId'],
+        },
+      },
+    ];
+  }
+
+  /**
+   * 사용 가능한 리소스 목록 반환
+   */
+  private async getAvailableResources(): Promise<MCPResource[]> {
+    return [
+      {
+        uri: 'soroswap://account/info',
+        name: 'Account Information',
+        description: 'Current account information and balances',
+        mimeType: 'application/json',
+      },
+      {
+        uri: 'soroswap://market/prices',
+        name: 'Market Prices',
+        description: 'Current market prices for all supported tokens',
+        mimeType: 'application/json',
+      },
+      {
+        uri: 'soroswap://pools/liquidity',
+        name: 'Liquidity Pools',
+        description:
+          'Liquidity pools across all registered protocols (Soroswap, Stellar DEX)',
+        mimeType: 'application/json',
+      },
+      {
+        uri: 'soroswap://network/status',
+        name: 'Network Status',
+        description: 'Stellar network and Soroswap service status',
+        mimeType: 'application/json',
+      },
+      {
+        uri: 'soroswap://orders/open',
+        name: 'Open Limit Orders',
+        description: 'Limit orders waiting for their target price',
+        mimeType: 'application/json',
+      },
+      {
+        uri: 'soroswap://dca/plans',
+        name: 'DCA Plans',
+        description:
+          'Recurring buy plans with next run and average entry price',
+        mimeType: 'application/json',
+      },
+    ];
+  }
+
+  /**
+   * 도구 호출 실행
+   */
+  private async callTool(name: string, args: any): Promise<any> {
+    log.info(`Executing tool: ${name}`, { arguments: args });
+
+    switch (name) {
+      case 'swap_tokens':
+        return this.handleSwapTokens(args);
+
+      case 'get_price':
+        return this.handleGetPrice(args);
+
+      case 'get_balance':
+        return this.handleGetBalance(args);
+
+      case 'get_history':
+        return this.handleGetHistory(args);
+
+      case 'get_swap_history':
+        return this.handleGetSwapHistory(args);
+
+      case 'get_approval':
+        return this.handleGetApproval(args);
+
+      case 'get_limits':
+        return this.handleGetLimits(args);
+
+      case 'set_paper_trading':
+        return this.handleSetPaperTrading(args);
+
+      case 'reset_paper_portfolio':
+        return this.handleResetPaperPortfolio(args);
+
+      case 'estimate_swap':
+        return this.handleEstimateSwap(args);
+
+      case 'prepare_swap':
+        return this.handlePrepareSwap(args);
+
+      case 'confirm_swap':
+        return this.handleConfirmSwap(args);
+
+      case 'batch_swap':
+        return this.handleBatchSwap(args);
+
+      case 'twap_swap':
+        return this.handleTwapSwap(args);
+
+      case 'get_twap_status':
+        return this.handleGetTwapStatus(args);
+
+      case 'resume_twap':
+        return this.handleResumeTwap(args);
+
+      case 'cancel_twap':
+        return this.handleCancelTwap(args);
+
+      case 'place_limit_order':
+        return this.handlePlaceLimitOrder(args);
+
+      case 'list_orders':
+        return this.handleListOrders(args);
+
+      case 'cancel_order':
+        return this.handleCancelOrder(args);
+
+      case 'create_dca_plan':
+        return this.handleCreateDcaPlan(args);
+
+      case 'pause_dca_plan':
+        return this.handlePauseDcaPlan(args);
+
+      case 'resume_dca_plan':
+        return this.handleResumeDcaPlan(args);
+
+      case 'delete_dca_plan':
+        return this.handleDeleteDcaPlan(args);
+
+      case 'place_protective_order':
+        return this.handlePlaceProtectiveOrder(args);
+
+      case 'list_protective_orders':
+        return this.handleListProtectiveOrders(args);
+
+      case 'cancel_protective_order':
+        return this.handleCancelProtectiveOrder(args);
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  /**
+   * 리소스 읽기 실행
+   */
+  private async readResource(uri: string): Promise<any> {
+    log.info(`Reading resource: ${uri}`);
+
+    switch (uri) {
+      case 'soroswap://account/info':
+        return this.getAccountInfo();
+
+      case 'soroswap://market/prices':
+        return this.getMarketPrices();
+
+      case 'soroswap://pools/liquidity':
+        return this.getLiquidityPools();
+
+      case 'soroswap://network/status':
+        return this.getNetworkStatus();
+
+      case 'soroswap://orders/open':
+        return this.getOpenOrders();
+
+      case 'soroswap://dca/plans':
+        return this.getDcaPlans();
+
+      default:
+        throw new Error(`Unknown resource: ${uri}`);
+    }
+  }
+
+  // ============================================================================
+  // 도구 핸들러 메서드들 (실제 서비스 연동)
+  // ============================================================================
+
+  private async handleSwapTokens(args: any): Promise<any> {
+    try {
+      const { swapService } = await import('@/core/swap-service');
+
+      const swapRequest = {
+        fromToken: args.fromToken,
+        toToken: args.toToken,
+        amount: args.amount,
+        slippage: args.slippage === 'auto' ? 1.0 : args.slippage || 1.0,
+        autoSlippage: args.slippage === 'auto',
+        mode: args.mode || 'exactIn',
+        protocols: args.protocols,
+        excludeProtocols: args.excludeProtocols,
+        urgency: args.urgency,
+        autoTrustline: args.autoTrustline,
+        accountSecret: args.accountSecret,
+      };
+
+      if (args.dryRun) {
+        const dryRun = await swapService.dryRunSwap(swapRequest);
+        return {
+          ...dryRun,
+          timestamp: new Date().toISOString(),
+        };
+      }
+
+      const result = await swapService.executeSwap(swapRequest);
+
+      return {
+        success: result.success,
+        transactionHash: result.transactionHash,
+        ledger: result.ledger,
+        fromToken: result.fromToken,
+        toToken: result.toToken,
+        fromAmount: result.fromAmount,
+        toAmount: result.toAmount,
+        mode: result.mode,
+        actualSent: result.actualSent,
+        actualReceived: result.actualReceived,
+        realizedSlippageBps: result.realizedSlippageBps,
+        fee: result.fee,
+        networkFee: result.networkFee,
+        feeBumped: result.feeBumped,
+        feeCapped: result.feeCapped ?? false,
+        unconfirmed: result.unconfirmed ?? false,
+        trustlineAdded: result.trustlineAdded,
+        approvalId: result.approvalId,
+        simulated: result.simulated,
+        timestamp: result.timestamp,
+        error: result.error,
+        errorCode: result.errorCode,
+        details: result.details,
+        explorerUrl: result.transactionHash
+          ? `https://stellar.expert/explorer/testnet/tx/${result.transactionHash}`
+          : undefined,
+      };
+    } catch (error) {
+      log.error('Swap tokens handler failed', error as Error);
+      return {
+        success: false,
+        error: (error as Error).message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleGetPrice(args: any): Promise<any> {
+    try {
+      const { priceService } = await import('@/core/price-service');
+
+      const priceRequest = {
+        tokenPair: args.tokenPair,
+        includeChange: args.includeChange !== false,
+      };
+
+      const price = await priceService.getTokenPairPrice(priceRequest);
+
+      return {
+        symbol: price.symbol,
+        price: price.price,
+        priceUsd: price.priceUsd,
+        priceChange24h: price.priceChange24h,
+        priceChangePercentage24h: price.priceChangePercentage24h,
+        volume24h: price.volume24h,
+        marketCap: price.marketCap,
+        lastUpdated: price.lastUpdated,
+      };
+    } catch (error) {
+      log.error('Get price handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        tokenPair: args.tokenPair,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleGetBalance(args: any): Promise<any> {
+    try {
+      const { walletService } = await import('@/core/wallet-service');
+      const { paperTradingService } =
+        await import('@/core/paper-trading-service');
+
+      if (paperTradingService.isEnabled()) {
+        // 모의 거래 가상 잔액 조회
+        const balances = await paperTradingService.getBalances(args.account);
+        if (args.token) {
+          return {
+            account: args.account,
+            token: args.token,
+            balance: String(balances[args.token.toUpperCase()] ?? 0),
+            simulated: true,
+            timestamp: new Date().toISOString(),
+          };
+        }
+
+        return {
+          account: args.account,
+          balances: Object.entries(balances).map(([asset, balance]) => ({
+            asset,
+            balance: String(balance),
+          })),
+          simulated: true,
+          timestamp: new Date().toISOString(),
+        };
+      }
+
+      if (args.token) {
+        // 특정 토큰 잔액 조회
+        const balance = await walletService.getTokenBalance(
+          args.account,
+          args.token
+        );
+        return {
+          account: args.account,
+          token: args.token,
+          balance,
+          timestamp: new Date().toISOString(),
+        };
+      } else {
+        // 모든 잔액 조회
+        const balances = await walletService.getBalances(args.account);
+        return {
+          account: args.account,
+          balances: balances.map((b) => ({
+            asset: b.asset,
+            assetType: b.assetType,
+            assetCode: b.assetCode,
+            assetIssuer: b.assetIssuer,
+            balance: b.balance,
+            limit: b.limit,
+          })),
+          timestamp: new Date().toISOString(),
+        };
+      }
+    } catch (error) {
+      log.error('Get balance handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        account: args.account,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleGetHistory(args: any): Promise<any> {
+    try {
+      const { walletService } = await import('@/core/wallet-service');
+
+      const limit = args.limit || 10;
+      const transactions = await walletService.getTransactionHistory(
+        args.account,
+        limit
+      );
+
+      return {
+        account: args.account,
+        transactions: transactions.map((tx) => ({
+          hash: tx.hash,
+          ledger: tx.ledger,
+          createdAt: tx.createdAt,
+          sourceAccount: tx.sourceAccount,
+          feePaid: tx.feePaid,
+          operationCount: tx.operationCount,
+          successful: tx.successful,
+          explorerUrl: `https://stellar.expert/explorer/testnet/tx/${tx.hash}`,
+        })),
+        count: transactions.length,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Get history handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        account: args.account,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleGetSwapHistory(args: any): Promise<any> {
+    try {
+      const { swapService } = await import('@/core/swap-service');
+      const { paperTradingService } =
+        await import('@/core/paper-trading-service');
+
+      // 모의 거래 중에는 가상 체결 기록 조회
+      const limit = args.limit || 10;
+      const history = paperTradingService.isEnabled()
+        ? await paperTradingService.getSwapHistory(
+            args.account,
+            limit,
+            args.cursor
+          )
+        : await swapService.getSwapHistory(args.account, limit, args.cursor);
+
+      return {
+        account: args.account,
+        swaps: history.data.map((swap) => ({
+          ...swap,
+          explorerUrl: swap.transactionHash
+            ? `https://stellar.expert/explorer/testnet/tx/${swap.transactionHash}`
+            : undefined,
+        })),
+        pagination: history.pagination,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Get swap history handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        account: args.account,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleGetApproval(args: any): Promise<any> {
+    try {
+      const { approvalQueue } = await import('@/core/approval-queue');
+
+      const approval = await approvalQueue.getApproval(args.approvalId);
+      if (!approval) {
+        throw new Error(`Swap approval not found: ${args.approvalId}`);
+      }
+
+      return {
+        ...approval,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Get approval handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        approvalId: args.approvalId,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleGetLimits(args: any): Promise<any> {
+    try {
+      const { policyEngine } = await import('@/core/policy-engine');
+      const { stellarConfig } = await import('@/utils/config');
+
+      const account = args.account || stellarConfig.defaultAccountPublic;
+      if (!account) {
+        throw new Error(
+          'No account provided and no default account configured'
+        );
+      }
+
+      return await policyEngine.getLimits(account);
+    } catch (error) {
+      log.error('Get limits handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        account: args.account,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleSetPaperTrading(args: any): Promise<any> {
+    try {
+      const { paperTradingService } =
+        await import('@/core/paper-trading-service');
+
+      if (typeof args.enabled !== 'boolean') {
+        throw new Error('enabled must be true or false');
+      }
+
+      await paperTradingService.load();
+      paperTradingService.setEnabled(args.enabled);
+
+      return {
+        paperTrading: paperTradingService.isEnabled(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Set paper trading handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleResetPaperPortfolio(args: any): Promise<any> {
+    try {
+      const { paperTradingService } =
+        await import('@/core/paper-trading-service');
+
+      const accounts = await paperTradingService.reset(args.account);
+
+      return {
+        accounts: accounts.map((account) => ({
+          account: account.id,
+          balances: account.balances,
+          resetAt: account.resetAt,
+        })),
+        paperTrading: paperTradingService.isEnabled(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Reset paper portfolio handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        account: args.account,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleEstimateSwap(args: any): Promise<any> {
+    try {
+      const { swapService } = await import('@/core/swap-service');
+
+      const swapRequest = {
+        fromToken: args.fromToken,
+        toToken: args.toToken,
+        amount: args.amount,
+        slippage: args.slippage === 'auto' ? 1.0 : args.slippage || 1.0,
+        autoSlippage: args.slippage === 'auto',
+        mode: args.mode || 'exactIn',
+        protocols: args.protocols,
+        excludeProtocols: args.excludeProtocols,
+      };
+
+      const estimate = await swapService.estimateSwap(swapRequest);
+
+      return {
+        fromToken: estimate.fromToken,
+        toToken: estimate.toToken,
+        mode: estimate.mode,
+        fromAmount: estimate.fromAmount,
+        toAmount: estimate.toAmount,
+        minimumReceived: estimate.minimumReceived,
+        maximumSent: estimate.maximumSent,
+        priceImpact: estimate.priceImpact,
+        fee: estimate.fee,
+        path: estimate.path,
+        protocol: estimate.protocol,
+        venue: estimate.venue,
+        slippageRecommendation: estimate.slippageRecommendation,
+        comparison: estimate.comparison
+          ? {
+              winner: estimate.comparison.winner,
+              venue: estimate.comparison.venue,
+              advantage: estimate.comparison.advantage,
+              advantageBps: estimate.comparison.advantageBps,
+              quotes: estimate.comparison.quotes.map((quote) => ({
+                protocol: quote.protocol,
+                venue: quote.venue,
+                fromAmount: quote.fromAmount,
+                toAmount: quote.toAmount,
+                priceImpact: quote.priceImpact,
+                fee: quote.fee,
+                path: quote.path,
+              })),
+            }
+          : undefined,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Estimate swap handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        fromToken: args.fromToken,
+        toToken: args.toToken,
+        amount: args.amount,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handlePrepareSwap(args: any): Promise<any> {
+    try {
+      const { swapService } = await import('@/core/swap-service');
+
+      const swapRequest = {
+        fromToken: args.fromToken,
+        toToken: args.toToken,
+        amount: args.amount,
+        slippage: args.slippage === 'auto' ? 1.0 : args.slippage || 1.0,
+        autoSlippage: args.slippage === 'auto',
+        mode: args.mode || 'exactIn',
+        autoTrustline: args.autoTrustline,
+        accountSecret: args.accountSecret,
+      };
+
+      const prepared = await swapService.prepareSwap(swapRequest);
+
+      return {
+        quoteId: prepared.quoteId,
+        expiresAt: prepared.expiresAt,
+        venue: prepared.venue,
+        sourceAccount: prepared.sourceAccount,
+        fromToken: prepared.estimate.fromToken,
+        toToken: prepared.estimate.toToken,
+        mode: prepared.estimate.mode,
+        fromAmount: prepared.estimate.fromAmount,
+        toAmount: prepared.estimate.toAmount,
+        minimumReceived: prepared.estimate.minimumReceived,
+        maximumSent: prepared.estimate.maximumSent,
+        priceImpact: prepared.estimate.priceImpact,
+        fee: prepared.estimate.fee,
+        networkFee: prepared.networkFee,
+        feeCapped: prepared.feeCapped ?? false,
+        trustlineAdded: prepared.trustlineAdded,
+        slippageRecommendation: prepared.estimate.slippageRecommendation,
+        path: prepared.estimate.path,
+        transactionXdr: prepared.transactionXdr,
+        timestamp: prepared.createdAt,
+      };
+    } catch (error) {
+      log.error('Prepare swap handler failed', error as Error);
+      const { SwapError } = await import('@/core/errors');
+      return {
+        error: (error as Error).message,
+        errorCode: error instanceof SwapError ? error.code : undefined,
+        details: error instanceof SwapError ? error.details : undefined,
+        fromToken: args.fromToken,
+        toToken: args.toToken,
+        amount: args.amount,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleConfirmSwap(args: any): Promise<any> {
+    try {
+      const { swapService } = await import('@/core/swap-service');
+
+      const result = await swapService.confirmSwap(
+        args.quoteId,
+        args.accountSecret
+      );
+
+      return {
+        quoteId: args.quoteId,
+        success: result.success,
+        transactionHash: result.transactionHash,
+        ledger: result.ledger,
+        fromToken: result.fromToken,
+        toToken: result.toToken,
+        fromAmount: result.fromAmount,
+        toAmount: result.toAmount,
+        mode: result.mode,
+        actualSent: result.actualSent,
+        actualReceived: result.actualReceived,
+        realizedSlippageBps: result.realizedSlippageBps,
+        fee: result.fee,
+        networkFee: result.networkFee,
+        feeBumped: result.feeBumped,
+        feeCapped: result.feeCapped ?? false,
+        unconfirmed: result.unconfirmed ?? false,
+        trustlineAdded: result.trustlineAdded,
+        timestamp: result.timestamp,
+        error: result.error,
+        errorCode: result.errorCode,
+        details: result.details,
+        explorerUrl: result.transactionHash
+          ? `https://stellar.expert/explorer/testnet/tx/${result.transactionHash}`
+          : undefined,
+      };
+    } catch (error) {
+      log.error('Confirm swap handler failed', error as Error);
+      return {
+        success: false,
+        quoteId: args.quoteId,
+        error: (error as Error).message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleBatchSwap(args: any): Promise<any> {
+    try {
+      const { swapService } = await import('@/core/swap-service');
+
+      const swapRequests = (args.swaps || []).map((swap: any) => ({
+        fromToken: swap.fromToken,
+        toToken: swap.toToken,
+        amount: swap.amount,
+        slippage: swap.slippage || 1.0,
+        mode: swap.mode || 'exactIn',
+      }));
+
+      const result = await swapService.executeBatchSwap(
+        swapRequests,
+        args.accountSecret
+      );
+
+      return {
+        success: result.success,
+        transactionHash: result.transactionHash,
+        ledger: result.ledger,
+        legs: result.legs.map((leg) => ({
+          success: leg.success,
+          fromToken: leg.fromToken,
+          toToken: leg.toToken,
+          fromAmount: leg.fromAmount,
+          toAmount: leg.toAmount,
+          mode: leg.mode,
+          actualSent: leg.actualSent,
+          actualReceived: leg.actualReceived,
+          realizedSlippageBps: leg.realizedSlippageBps,
+          fee: leg.fee,
+          error: leg.error,
+          details: leg.details,
+        })),
+        fee: result.fee,
+        networkFee: result.networkFee,
+        feeBumped: result.feeBumped,
+        feeCapped: result.feeCapped ?? false,
+        unconfirmed: result.unconfirmed ?? false,
+        timestamp: result.timestamp,
+        error: result.error,
+        errorCode: result.errorCode,
+        details: result.details,
+        explorerUrl: result.transactionHash
+          ? `https://stellar.expert/explorer/testnet/tx/${result.transactionHash}`
+          : undefined,
+      };
+    } catch (error) {
+      log.error('Batch swap handler failed', error as Error);
+      return {
+        success: false,
+        error: (error as Error).message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleTwapSwap(args: any): Promise<any> {
+    try {
+      const { twapExecutor } = await import('@/core/twap-executor');
+
+      const swapRequest = {
+        fromToken: args.fromToken,
+        toToken: args.toToken,
+        amount: args.amount,
+        slippage: args.slippage || 1.0,
+        mode: args.mode || 'exactIn',
+        accountSecret: args.accountSecret,
+      };
+
+      const order = await twapExecutor.createTwap(swapRequest, {
+        slices: args.slices,
+        durationMinutes: args.durationMinutes,
+        maxPriceImpact: args.maxPriceImpact,
+        impactAction: args.impactAction,
+      });
+
+      return {
+        twapId: order.id,
+        status: order.status,
+        account: order.account,
+        fromToken: order.request.fromToken,
+        toToken: order.request.toToken,
+        amount: order.request.amount,
+        mode: order.request.mode,
+        slices: order.slices.map((slice) => ({
+          index: slice.index,
+          amount: slice.amount,
+          scheduledAt: slice.scheduledAt,
+        })),
+        maxPriceImpact: order.maxPriceImpact,
+        impactAction: order.impactAction,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('TWAP swap handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleGetTwapStatus(args: any): Promise<any> {
+    try {
+      const { twapExecutor } = await import('@/core/twap-executor');
+
+      if (!args.twapId) {
+        const orders = await twapExecutor.listTwaps(args.account);
+        return {
+          twaps: orders.map((order) => ({
+            twapId: order.id,
+            status: order.status,
+            fromToken: order.request.fromToken,
+            toToken: order.request.toToken,
+            amount: order.request.amount,
+            progress: twapExecutor.getProgress(order),
+            createdAt: order.createdAt,
+          })),
+          count: orders.length,
+          timestamp: new Date().toISOString(),
+        };
+      }
+
+      const order = await twapExecutor.getTwap(args.twapId);
+      if (!order) {
+        return {
+          error: `TWAP order not found: ${args.twapId}`,
+          twapId: args.twapId,
+          timestamp: new Date().toISOString(),
+        };
+      }
+
+      return {
+        twapId: order.id,
+        status: order.status,
+        pauseReason: order.pauseReason,
+        account: order.account,
+        fromToken: order.request.fromToken,
+        toToken: order.request.toToken,
+        amount: order.request.amount,
+        mode: order.request.mode,
+        progress: twapExecutor.getProgress(order),
+        slices: order.slices.map((slice) => ({
+          index: slice.index,
+          amount: slice.amount,
+          status: slice.status,
+          scheduledAt: slice.scheduledAt,
+          executedAt: slice.executedAt,
+          priceImpact: slice.priceImpact,
+          transactionHash: slice.result?.transactionHash,
+          actualReceived: slice.result?.actualReceived,
+          reason: slice.reason,
+        })),
+        createdAt: order.createdAt,
+        completedAt: order.completedAt,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Get TWAP status handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        twapId: args.twapId,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleResumeTwap(args: any): Promise<any> {
+    try {
+      const { twapExecutor } = await import('@/core/twap-executor');
+
+      const order = await twapExecutor.resumeTwap(
+        args.twapId,
+        args.accountSecret
+      );
+
+      return {
+        twapId: order.id,
+        status: order.status,
+        progress: twapExecutor.getProgress(order),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Resume TWAP handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        twapId: args.twapId,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleCancelTwap(args: any): Promise<any> {
+    try {
+      const { twapExecutor } = await import('@/core/twap-executor');
+
+      const order = await twapExecutor.cancelTwap(args.twapId);
+
+      return {
+        twapId: order.id,
+        status: order.status,
+        progress: twapExecutor.getProgress(order),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Cancel TWAP handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        twapId: args.twapId,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handlePlaceLimitOrder(args: any): Promise<any> {
+    try {
+      const { limitOrderService } = await import('@/core/limit-order-service');
+
+      const swapRequest = {
+        fromToken: args.fromToken,
+        toToken: args.toToken,
+        amount: args.amount,
+        slippage: args.slippage || 1.0,
+        accountSecret: args.accountSecret,
+      };
+
+      const order = await limitOrderService.placeOrder(swapRequest, {
+        targetPrice: args.targetPrice,
+        condition: args.condition,
+        expiresInMinutes: args.expiresInMinutes,
+      });
+
+      return {
+        ...this.formatLimitOrder(order),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Place limit order handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        timestamp: new Date().toISOString(),
+      };
     }
   }
 
-  /**
-   * 리소스 읽기 실행
-   */
-  private async readResource(uri: string): Promise<any> {
-    log.info(`Reading resource: ${uri}`);
+  private async handleListOrders(args: any): Promise<any> {
+    try {
+      const { limitOrderService } = await import('@/core/limit-order-service');
 
-    switch (uri) {
-      case 'soroswap://account/info':
-        return this.getAccountInfo();
-      
-      case 'soroswap://market/prices':
-        return this.getMarketPrices();
-      
-      case 'soroswap://pools/liquidity':
-        return this.getLiquidityPools();
-      
-      case 'soroswap://network/status':
-        return this.getNetworkStatus();
-      
-      default:
-        throw new Error(`Unknown resource: ${uri}`);
+      const orders = await limitOrderService.listOrders({
+        account: args.account,
+        status: args.status,
+      });
+
+      return {
+        orders: orders.map((order) => this.formatLimitOrder(order)),
+        count: orders.length,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('List orders handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        timestamp: new Date().toISOString(),
+      };
     }
   }
 
-  // ============================================================================
-  // 도구 핸들러 메서드들 (실제 서비스 연동)
-  // ============================================================================
+  private async handleCancelOrder(args: any): Promise<any> {
+    try {
+      const { limitOrderService } = await import('@/core/limit-order-service');
 
-  private async handleSwapTokens(args: any): Promise<any> {
+      const order = await limitOrderService.cancelOrder(args.orderId);
+
+      return {
+        ...this.formatLimitOrder(order),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Cancel order handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        orderId: args.orderId,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async handleCreateDcaPlan(args: any): Promise<any> {
     try {
-      const { swapService } = await import('@/core/swap-service');
-      
+      const { dcaScheduler } = await import('@/core/dca-scheduler');
+
       const swapRequest = {
         fromToken: args.fromToken,
         toToken: args.toToken,
@@ -371,170 +1919,247 @@ export class SoroswapMCPServer {
         accountSecret: args.accountSecret,
       };
 
-      const result = await swapService.executeSwap(swapRequest);
-      
+      const plan = await dcaScheduler.createPlan(swapRequest, {
+        schedule: args.schedule,
+        maxPrice: args.maxPrice,
+        endDate: args.endDate,
+      });
+
       return {
-        success: result.success,
-        transactionHash: result.transactionHash,
-        fromToken: result.fromToken,
-        toToken: result.toToken,
-        fromAmount: result.fromAmount,
-        toAmount: result.toAmount,
-        actualReceived: result.actualReceived,
-        fee: result.fee,
-        timestamp: result.timestamp,
-        error: result.error,
-        explorerUrl: result.transactionHash ? 
-          `https://stellar.expert/explorer/testnet/tx/${result.transactionHash}` : undefined,
+        ...this.formatDcaPlan(plan, dcaScheduler.getAverageEntryPrice(plan)),
+        timestamp: new Date().toISOString(),
       };
     } catch (error) {
-      log.error('Swap tokens handler failed', error as Error);
+      log.error('Create DCA plan handler failed', error as Error);
       return {
-        success: false,
         error: (error as Error).message,
         timestamp: new Date().toISOString(),
       };
     }
   }
 
-  private async handleGetPrice(args: any): Promise<any> {
+  private async handlePauseDcaPlan(args: any): Promise<any> {
     try {
-      const { priceService } = await import('@/core/price-service');
-      
-      const priceRequest = {
-        tokenPair: args.tokenPair,
-        includeChange: args.includeChange !== false,
-      };
+      const { dcaScheduler } = await import('@/core/dca-scheduler');
+
+      const plan = await dcaScheduler.pausePlan(args.planId);
 
-      const price = await priceService.getTokenPairPrice(priceRequest);
-      
       return {
-        symbol: price.symbol,
-        price: price.price,
-        priceUsd: price.priceUsd,
-        priceChange24h: price.priceChange24h,
-        priceChangePercentage24h: price.priceChangePercentage24h,
-        volume24h: price.volume24h,
-        marketCap: price.marketCap,
-        lastUpdated: price.lastUpdated,
+        ...this.formatDcaPlan(plan, dcaScheduler.getAverageEntryPrice(plan)),
+        timestamp: new Date().toISOString(),
       };
     } catch (error) {
-      log.error('Get price handler failed', error as Error);
+      log.error('Pause DCA plan handler failed', error as Error);
       return {
         error: (error as Error).message,
-        tokenPair: args.tokenPair,
+        planId: args.planId,
         timestamp: new Date().toISOString(),
       };
     }
   }
 
-  private async handleGetBalance(args: any): Promise<any> {
+  private async handleResumeDcaPlan(args: any): Promise<any> {
     try {
-      const { walletService } = await import('@/core/wallet-service');
-      
-      if (args.token) {
-        // 특정 토큰 잔액 조회
-        const balance = await walletService.getTokenBalance(args.account, args.token);
-        return {
-          account: args.account,
-          token: args.token,
-          balance,
-          timestamp: new Date().toISOString(),
-        };
-      } else {
-        // 모든 잔액 조회
-        const balances = await walletService.getBalances(args.account);
-        return {
-          account: args.account,
-          balances: balances.map(b => ({
-            asset: b.asset,
-            assetType: b.assetType,
-            assetCode: b.assetCode,
-            assetIssuer: b.assetIssuer,
-            balance: b.balance,
-            limit: b.limit,
-          })),
-          timestamp: new Date().toISOString(),
-        };
-      }
+      const { dcaScheduler } = await import('@/core/dca-scheduler');
+
+      const plan = await dcaScheduler.resumePlan(
+        args.planId,
+        args.accountSecret
+      );
+
+      return {
+        ...this.formatDcaPlan(plan, dcaScheduler.getAverageEntryPrice(plan)),
+        timestamp: new Date().toISOString(),
+      };
     } catch (error) {
-      log.error('Get balance handler failed', error as Error);
+      log.error('Resume DCA plan handler failed', error as Error);
       return {
         error: (error as Error).message,
-        account: args.account,
+        planId: args.planId,
         timestamp: new Date().toISOString(),
       };
     }
   }
 
-  private async handleGetHistory(args: any): Promise<any> {
+  private async handleDeleteDcaPlan(args: any): Promise<any> {
     try {
-      const { walletService } = await import('@/core/wallet-service');
-      
-      const limit = args.limit || 10;
-      const transactions = await walletService.getTransactionHistory(args.account, limit);
-      
+      const { dcaScheduler } = await import('@/core/dca-scheduler');
+
+      const plan = await dcaScheduler.deletePlan(args.planId);
+
       return {
-        account: args.account,
-        transactions: transactions.map(tx => ({
-          hash: tx.hash,
-          ledger: tx.ledger,
-          createdAt: tx.createdAt,
-          sourceAccount: tx.sourceAccount,
-          feePaid: tx.feePaid,
-          operationCount: tx.operationCount,
-          successful: tx.successful,
-          explorerUrl: `https://stellar.expert/explorer/testnet/tx/${tx.hash}`,
-        })),
-        count: transactions.length,
+        ...this.formatDcaPlan(plan, dcaScheduler.getAverageEntryPrice(plan)),
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
-      log.error('Get history handler failed', error as Error);
+      log.error('Delete DCA plan handler failed', error as Error);
       return {
         error: (error as Error).message,
-        account: args.account,
+        planId: args.planId,
         timestamp: new Date().toISOString(),
       };
     }
   }
 
-  private async handleEstimateSwap(args: any): Promise<any> {
+  private async handlePlaceProtectiveOrder(args: any): Promise<any> {
     try {
-      const { swapService } = await import('@/core/swap-service');
-      
-      const swapRequest = {
-        fromToken: args.fromToken,
-        toToken: args.toToken,
+      const { protectiveOrderService } =
+        await import('@/core/protective-order-service');
+
+      const order = await protectiveOrderService.placeOrder({
+        type: args.type,
+        token: args.token,
+        exitToken: args.exitToken,
         amount: args.amount,
-        slippage: args.slippage || 1.0,
+        triggerPriceUsd: args.triggerPriceUsd,
+        slippage: args.slippage,
+        hysteresisPercent: args.hysteresisPercent,
+        confirmations: args.confirmations,
+        minLiquidityUsd: args.minLiquidityUsd,
+        accountSecret: args.accountSecret,
+      });
+
+      return {
+        ...this.formatProtectiveOrder(order),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Place protective order handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        timestamp: new Date().toISOString(),
       };
+    }
+  }
+
+  private async handleListProtectiveOrders(args: any): Promise<any> {
+    try {
+      const { protectiveOrderService } =
+        await import('@/core/protective-order-service');
+
+      const orders = await protectiveOrderService.listOrders({
+        account: args.account,
+        status: args.status,
+      });
 
-      const estimate = await swapService.estimateSwap(swapRequest);
-      
       return {
-        fromToken: estimate.fromToken,
-        toToken: estimate.toToken,
-        fromAmount: estimate.fromAmount,
-        toAmount: estimate.toAmount,
-        minimumReceived: estimate.minimumReceived,
-        priceImpact: estimate.priceImpact,
-        fee: estimate.fee,
-        path: estimate.path,
+        orders: orders.map((order) => this.formatProtectiveOrder(order)),
+        count: orders.length,
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
-      log.error('Estimate swap handler failed', error as Error);
+      log.error('List protective orders handler failed', error as Error);
       return {
         error: (error as Error).message,
-        fromToken: args.fromToken,
-        toToken: args.toToken,
-        amount: args.amount,
         timestamp: new Date().toISOString(),
       };
     }
   }
 
+  private async handleCancelProtectiveOrder(args: any): Promise<any> {
+    try {
+      const { protectiveOrderService } =
+        await import('@/core/protective-order-service');
+
+      const order = await protectiveOrderService.cancelOrder(args.orderId);
+
+      return {
+        ...this.formatProtectiveOrder(order),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Cancel protective order handler failed', error as Error);
+      return {
+        error: (error as Error).message,
+        orderId: args.orderId,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * 손절/익절 주문 응답 형식 변환
+   */
+  private formatProtectiveOrder(
+    order: ProtectiveOrder
+  ): Record<string, unknown> {
+    return {
+      orderId: order.id,
+      type: order.type,
+      status: order.status,
+      account: order.account,
+      token: order.token,
+      exitToken: order.exitToken,
+      amount: order.amount,
+      triggerPriceUsd: order.triggerPriceUsd,
+      hysteresisPercent: order.hysteresisPercent,
+      confirmations: order.confirmations,
+      breachCount: order.breachCount,
+      minLiquidityUsd: order.minLiquidityUsd,
+      lastPriceUsd: order.lastPriceUsd,
+      lastCheckedAt: order.lastCheckedAt,
+      triggeredAt: order.triggeredAt,
+      triggeredPriceUsd: order.triggeredPriceUsd,
+      transactionHash: order.result?.transactionHash,
+      actualReceived: order.result?.actualReceived,
+      reason: order.reason,
+      createdAt: order.createdAt,
+    };
+  }
+
+  /**
+   * DCA 계획 응답 형식 변환
+   */
+  private formatDcaPlan(
+    plan: DcaPlan,
+    averageEntryPrice?: number
+  ): Record<string, unknown> {
+    return {
+      planId: plan.id,
+      status: plan.status,
+      pauseReason: plan.pauseReason,
+      account: plan.account,
+      fromToken: plan.request.fromToken,
+      toToken: plan.request.toToken,
+      amountPerRun: plan.request.amount,
+      schedule: plan.schedule,
+      maxPrice: plan.maxPrice,
+      endDate: plan.endDate,
+      nextRunAt: plan.nextRunAt,
+      executedCount: plan.executedCount,
+      totalSpent: plan.totalSpent,
+      totalReceived: plan.totalReceived,
+      averageEntryPrice,
+      lastFill: plan.fills[plan.fills.length - 1],
+      createdAt: plan.createdAt,
+    };
+  }
+
+  /**
+   * 지정가 주문 응답 형식 변환
+   */
+  private formatLimitOrder(order: LimitOrder): Record<string, unknown> {
+    return {
+      orderId: order.id,
+      status: order.status,
+      account: order.account,
+      fromToken: order.request.fromToken,
+      toToken: order.request.toToken,
+      amount: order.request.amount,
+      slippage: order.request.slippage,
+      condition: order.condition,
+      targetPrice: order.targetPrice,
+      lastPrice: order.lastPrice,
+      lastCheckedAt: order.lastCheckedAt,
+      triggeredPrice: order.triggeredPrice,
+      transactionHash: order.result?.transactionHash,
+      actualReceived: order.result?.actualReceived,
+      reason: order.reason,
+      createdAt: order.createdAt,
+      expiresAt: order.expiresAt,
+    };
+  }
+
   // ============================================================================
   // 리소스 핸들러 메서드들 (실제 서비스 연동)
   // ============================================================================
@@ -542,9 +2167,9 @@ export class SoroswapMCPServer {
   private async getAccountInfo(): Promise<any> {
     try {
       const { walletService } = await import('@/core/wallet-service');
-      
+
       const defaultAccount = await walletService.getDefaultAccountInfo();
-      
+
       if (defaultAccount) {
         return {
           account: {
@@ -575,10 +2200,10 @@ export class SoroswapMCPServer {
   private async getMarketPrices(): Promise<any> {
     try {
       const { priceService } = await import('@/core/price-service');
-      
+
       const marketSummary = await priceService.getMarketSummary();
       const allPrices = await priceService.getAllPrices();
-      
+
       return {
         summary: {
           totalMarketCap: marketSummary.totalMarketCap,
@@ -587,7 +2212,7 @@ export class SoroswapMCPServer {
         },
         topGainers: marketSummary.topGainers,
         topLosers: marketSummary.topLosers,
-        prices: allPrices.map(price => ({
+        prices: allPrices.map((price) => ({
           symbol: price.symbol,
           price: price.price,
           priceUsd: price.priceUsd,
@@ -605,31 +2230,78 @@ export class SoroswapMCPServer {
     }
   }
 
+  private async getDcaPlans(): Promise<any> {
+    try {
+      const { dcaScheduler } = await import('@/core/dca-scheduler');
+
+      const plans = await dcaScheduler.listPlans();
+
+      return {
+        plans: plans.map((plan) => ({
+          ...this.formatDcaPlan(plan, dcaScheduler.getAverageEntryPrice(plan)),
+          recentFills: plan.fills.slice(-10),
+        })),
+        count: plans.length,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Get DCA plans failed', error as Error);
+      return {
+        error: (error as Error).message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async getOpenOrders(): Promise<any> {
+    try {
+      const { limitOrderService } = await import('@/core/limit-order-service');
+
+      const orders = await limitOrderService.listOrders({ status: 'open' });
+
+      return {
+        orders: orders.map((order) => this.formatLimitOrder(order)),
+        count: orders.length,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      log.error('Get open orders failed', error as Error);
+      return {
+        error: (error as Error).message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
   private async getLiquidityPools(): Promise<any> {
     try {
-      const { soroswapClient } = await import('@/soroswap/client');
-      
-      const pools = await soroswapClient.getPools();
-      
+      const { liquidityAggregator } = await import('@/liquidity/aggregator');
+
+      const pools = await liquidityAggregator.getPools();
+
       return {
-        pools: pools.map(pool => ({
+        pools: pools.map((pool) => ({
           id: pool.id,
+          protocol: pool.protocol,
           token0: {
-            symbol: pool.token0.symbol,
-            name: pool.token0.name,
-            contract: pool.token0.contract,
+            symbol: pool.tokenA.symbol,
+            name: pool.tokenA.name,
+            contract: pool.tokenA.contractAddress,
+            issuer: pool.tokenA.assetIssuer,
           },
           token1: {
-            symbol: pool.token1.symbol,
-            name: pool.token1.name,
-            contract: pool.token1.contract,
+            symbol: pool.tokenB.symbol,
+            name: pool.tokenB.name,
+            contract: pool.tokenB.contractAddress,
+            issuer: pool.tokenB.assetIssuer,
           },
-          reserve0: pool.reserve0,
-          reserve1: pool.reserve1,
-          totalSupply: pool.totalSupply,
+          reserve0: pool.reserveA,
+          reserve1: pool.reserveB,
+          totalSupply: pool.totalLiquidity,
           fee: pool.fee,
         })),
         count: pools.length,
+        protocols: liquidityAggregator.getProtocols(),
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
@@ -644,19 +2316,24 @@ export class SoroswapMCPServer {
   private async getNetworkStatus(): Promise<any> {
     try {
       const { stellarClient } = await import('@/stellar/client');
+      const { sorobanClient } = await import('@/stellar/soroban');
       const { soroswapClient } = await import('@/soroswap/client');
       const { walletService } = await import('@/core/wallet-service');
       const { priceService } = await import('@/core/price-service');
       const { swapService } = await import('@/core/swap-service');
-      
+      const { channelAccountManager } = await import('@/stellar/channels');
+      const { stellarConfig } = await import('@/utils/config');
+
       const [
         stellarStatus,
+        sorobanStatus,
         soroswapStatus,
         walletStatus,
         priceStatus,
-        swapStatus
+        swapStatus,
       ] = await Promise.all([
         stellarClient.testConnection(),
+        sorobanClient.testConnection(),
         soroswapClient.testConnection(),
         walletService.healthCheck(),
         priceService.healthCheck(),
@@ -669,6 +2346,10 @@ export class SoroswapMCPServer {
           horizonUrl: stellarClient.getNetworkInfo().horizonUrl,
           connected: stellarStatus,
         },
+        soroban: {
+          rpcUrl: stellarConfig.sorobanRpcUrl,
+          connected: sorobanStatus,
+        },
         soroswap: {
           apiUrl: soroswapClient.getConfig().baseURL,
           hasApiKey: soroswapClient.getConfig().hasApiKey,
@@ -691,6 +2372,7 @@ export class SoroswapMCPServer {
             defaultAccountStatus: swapStatus.defaultAccountStatus,
             supportedTokens: swapStatus.supportedTokens,
           },
+          channels: channelAccountManager.getStatus(),
         },
         timestamp: new Date().toISOString(),
       };
@@ -718,10 +2400,49 @@ export class SoroswapMCPServer {
 
     try {
       log.info('Starting Soroswap MCP Server...');
-      
+
       const transport = new StdioServerTransport();
       await this.server.connect(transport);
-      
+
+      // 정책 파일이 잘못되었으면 거래를 받기 전에 시작 실패
+      const { policyEngine } = await import('@/core/policy-engine');
+      await policyEngine.load();
+
+      // 모의 거래 장부와 고정 견적 파일 로드 (파일이 잘못되었으면 시작 실패)
+      const { paperTradingService } =
+        await import('@/core/paper-trading-service');
+      await paperTradingService.load();
+
+      // 재시작 전 승인 대기 요청 복원 후 운영자 관리 API 시작
+      const { approvalQueue } = await import('@/core/approval-queue');
+      const { adminServer } = await import('@/admin/server');
+      await approvalQueue.start();
+      await adminServer.start();
+
+      // 예약 주문 재개 전에 채널 계정 풀 준비 (실패해도 기본 계정으로 직접 제출)
+      const { channelAccountManager } = await import('@/stellar/channels');
+      try {
+        await channelAccountManager.start();
+      } catch (error) {
+        log.warn(
+          'Channel account pool unavailable, submitting from the default account',
+          {
+            error: (error as Error).message,
+          }
+        );
+      }
+
+      // 재시작 전에 예약된 TWAP, 지정가/손절/익절 주문, DCA 계획 재개
+      const { twapExecutor } = await import('@/core/twap-executor');
+      const { limitOrderService } = await import('@/core/limit-order-service');
+      const { dcaScheduler } = await import('@/core/dca-scheduler');
+      const { protectiveOrderService } =
+        await import('@/core/protective-order-service');
+      await twapExecutor.start();
+      await limitOrderService.start();
+      await dcaScheduler.start();
+      await protectiveOrderService.start();
+
       this.isRunning = true;
       log.info('Soroswap MCP Server started successfully', {
         port: serverConfig.port,
@@ -744,9 +2465,23 @@ export class SoroswapMCPServer {
 
     try {
       log.info('Stopping Soroswap MCP Server...');
-      
+
+      const { twapExecutor } = await import('@/core/twap-executor');
+      const { limitOrderService } = await import('@/core/limit-order-service');
+      const { dcaScheduler } = await import('@/core/dca-scheduler');
+      const { protectiveOrderService } =
+        await import('@/core/protective-order-service');
+      const { channelAccountManager } = await import('@/stellar/channels');
+      const { adminServer } = await import('@/admin/server');
+      twapExecutor.stop();
+      limitOrderService.stop();
+      dcaScheduler.stop();
+      protectiveOrderService.stop();
+      channelAccountManager.stop();
+      await adminServer.stop();
+
       await this.server.close();
-      
+
       this.isRunning = false;
       log.info('Soroswap MCP Server stopped successfully');
     } catch (error) {
@@ -771,4 +2506,4 @@ export class SoroswapMCPServer {
       timestamp: new Date().toISOString(),
     };
   }
-}
\ No newline at end of file
+}
@@ -5,6 +5,7 @@
 import axios, { AxiosInstance } from 'axios';
 import { log } from '@/utils/logger';
 import { soroswapConfig } from '@/utils/config';
+import type { SwapMode } from '@/types';
 
 /**
  * Soroswap API 응답 타입들
@@ -42,7 +43,8 @@ export interface SoroswapQuote {
   toToken: string;
   fromAmount: string;
   toAmount: string;
-  minimumReceived: string;
+  minimumReceived?: string;
+  maximumSent?: string;
   priceImpact: number;
   fee: string;
   path: string[];
@@ -72,7 +74,7 @@ export class SoroswapClient {
 
   constructor() {
     this.baseURL = soroswapConfig.apiUrl;
-    
+
     this.client = axios.create({
       baseURL: this.baseURL,
       timeout: 30000, // 30초
@@ -84,7 +86,8 @@ export class SoroswapClient {
 
     // API 키가 있는 경우 헤더에 추가
     if (soroswapConfig.apiKey) {
-      this.client.defaults.headers.common['Authorization'] = `Bearer ${soroswapConfig.apiKey}`;
+      this.client.defaults.headers.common['Authorization'] =
+        `Bearer ${soroswapConfig.apiKey}`;
     }
 
     // 요청 인터셉터
@@ -116,7 +119,7 @@ export class SoroswapClient {
       (error) => {
         const message = error.response?.data?.message || error.message;
         const status = error.response?.status;
-        
+
         log.error('Soroswap API error', error, {
           status,
           message,
@@ -136,14 +139,14 @@ export class SoroswapClient {
   async testConnection(): Promise<boolean> {
     try {
       log.debug('Testing Soroswap API connection...');
-      
+
       const response = await this.client.get('/health');
-      
+
       if (response.status === 200) {
         log.info('Soroswap API connection successful');
         return true;
       }
-      
+
       return false;
     } catch (error) {
       log.error('Soroswap API connection failed', error as Error);
@@ -169,7 +172,9 @@ export class SoroswapClient {
    */
   async getTokenInfo(symbol: string): Promise<SoroswapTokenInfo | null> {
     try {
-      const response = await this.client.get<SoroswapTokenInfo>(`/tokens/${symbol}`);
+      const response = await this.client.get<SoroswapTokenInfo>(
+        `/tokens/${symbol}`
+      );
       return response.data;
     } catch (error) {
       if ((error as any).status === 404) {
@@ -185,7 +190,9 @@ export class SoroswapClient {
    */
   async getTokenPrice(symbol: string): Promise<SoroswapPrice | null> {
     try {
-      const response = await this.client.get<SoroswapPrice>(`/prices/${symbol}`);
+      const response = await this.client.get<SoroswapPrice>(
+        `/prices/${symbol}`
+      );
       return response.data;
     } catch (error) {
       if ((error as any).status === 404) {
@@ -227,7 +234,9 @@ export class SoroswapClient {
    */
   async getPool(token0: string, token1: string): Promise<SoroswapPair | null> {
     try {
-      const response = await this.client.get<SoroswapPair>(`/pools/${token0}/${token1}`);
+      const response = await this.client.get<SoroswapPair>(
+        `/pools/${token0}/${token1}`
+      );
       return response.data;
     } catch (error) {
       if ((error as any).status === 404) {
@@ -240,25 +249,31 @@ export class SoroswapClient {
 
   /**
    * 스왑 견적 조회
+   *
+   * exactOut 모드에서는 amount가 수령할 toToken 수량으로 해석된다.
    */
   async getQuote(
     fromToken: string,
     toToken: string,
     amount: string,
-    slippage?: number
+    slippage?: number,
+    mode: SwapMode = 'exactIn'
   ): Promise<SoroswapQuote> {
     try {
       const params: any = {
         fromToken,
         toToken,
         amount,
+        tradeType: mode === 'exactOut' ? 'EXACT_OUT' : 'EXACT_IN',
       };
 
       if (slippage !== undefined) {
         params.slippage = slippage;
       }
 
-      const response = await this.client.get<SoroswapQuote>('/quote', { params });
+      const response = await this.client.get<SoroswapQuote>('/quote', {
+        params,
+      });
       return response.data;
     } catch (error) {
       log.error('Failed to get quote', error as Error, {
@@ -266,6 +281,7 @@ export class SoroswapClient {
         toToken,
         amount,
         slippage,
+        mode,
       });
       throw this.convertError(error);
     }
@@ -292,7 +308,7 @@ export class SoroswapClient {
           amount,
         },
       });
-      
+
       return response.data;
     } catch (error) {
       log.error('Failed to get best route', error as Error, {
@@ -327,7 +343,7 @@ export class SoroswapClient {
         slippage,
         userAddress,
       });
-      
+
       return response.data;
     } catch (error) {
       log.error('Failed to build swap transaction', error as Error, {
@@ -344,7 +360,10 @@ export class SoroswapClient {
   /**
    * 토큰 쌍의 24시간 통계 조회
    */
-  async getPairStats(token0: string, token1: string): Promise<{
+  async getPairStats(
+    token0: string,
+    token1: string
+  ): Promise<{
     volume24h: string;
     volumeChange24h: number;
     liquidity: string;
@@ -364,19 +383,23 @@ export class SoroswapClient {
   /**
    * 사용자의 유동성 포지션 조회
    */
-  async getUserPositions(userAddress: string): Promise<{
-    poolId: string;
-    token0: string;
-    token1: string;
-    liquidity: string;
-    uncollectedFees0: string;
-    uncollectedFees1: string;
-  }[]> {
+  async getUserPositions(userAddress: string): Promise<
+    {
+      poolId: string;
+      token0: string;
+      token1: string;
+      liquidity: string;
+      uncollectedFees0: string;
+      uncollectedFees1: string;
+    }[]
+  > {
     try {
       const response = await this.client.get(`/positions/${userAddress}`);
       return response.data;
     } catch (error) {
-      log.error('Failed to get user positions', error as Error, { userAddress });
+      log.error('Failed to get user positions', error as Error, {
+        userAddress,
+      });
       throw this.convertError(error);
     }
   }
@@ -409,7 +432,10 @@ export class SoroswapClient {
       return error;
     }
 
-    const message = error.response?.data?.message || error.message || 'Unknown Soroswap API error';
+    const message =
+      error.response?.data?.message ||
+      error.message ||
+      'Unknown Soroswap API error';
     const status = error.response?.status;
     const data = error.response?.data;
 
@@ -430,4 +456,4 @@ export class SoroswapClient {
 /**
  * 싱글톤 Soroswap 클라이언트 인스턴스
  */
-export const soroswapClient = new SoroswapClient();
\ No newline at end of file
+export const soroswapClient = new SoroswapClient();
@@ -0,0 +1,336 @@
+/**
+ * 채널 계정 풀 (기본 계정의 병렬 트랜잭션 제출)
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+import { Account, Keypair } from 'stellar-sdk';
+import { stellarClient } from './client';
+import { feeStrategy } from './fees';
+import { sequenceCache } from './sequence';
+import { transactionSubmitter } from './submission';
+import { channelConfig, securityConfig, stellarConfig } from '@/utils/config';
+import { JsonStore } from '@/utils/store';
+import { log } from '@/utils/logger';
+
+/**
+ * 저장되는 채널 계정 (시크릿은 ENCRYPTION_KEY로 암호화)
+ */
+interface StoredChannel {
+  id: string;
+  encryptedSecret: string;
+  createdAt: string;
+}
+
+/**
+ * 트랜잭션 하나 동안 빌린 채널 계정
+ */
+export interface ChannelLease {
+  keypair: Keypair;
+  account: Account;
+}
+
+/**
+ * 채널 풀 상태
+ */
+export interface ChannelPoolStatus {
+  enabled: boolean;
+  total: number;
+  available: number;
+  waiting: number;
+}
+
+/**
+ * 채널 계정 관리 클래스
+ *
+ * 채널 계정은 트랜잭션 소스(시퀀스 번호와 수수료)만 맡고, 오퍼레이션 소스는 기본 계정으로 둔다.
+ * 트랜잭션마다 서로 다른 채널을 빌려 쓰므로 동시 스왑이 같은 시퀀스 번호로 충돌하지 않는다.
+ */
+export class ChannelAccountManager {
+  private channels: Keypair[] = [];
+  private idle: Keypair[] = [];
+  private waiters: Array<(keypair: Keypair) => void> = [];
+  private treasury: Keypair | undefined;
+  private store = new JsonStore<StoredChannel>('channel-accounts');
+  private startPromise: Promise<void> | undefined;
+  private readonly LEASE_TIMEOUT_MS = 30000;
+  private readonly FUNDING_BATCH_SIZE = 50;
+  private readonly FUNDING_TX_TIMEOUT_SECONDS = 60;
+
+  /**
+   * 채널 계정 로드 및 부족분 생성/충전
+   */
+  start(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = this.initialize().catch((error) => {
+        this.startPromise = undefined;
+        throw error;
+      });
+    }
+    return this.startPromise;
+  }
+
+  /**
+   * 풀 비활성화 (대기 중인 요청은 시간 초과로 종료됨)
+   */
+  stop(): void {
+    this.channels = [];
+    this.idle = [];
+    this.treasury = undefined;
+    this.startPromise = undefined;
+  }
+
+  /**
+   * 채널 계정 임대 (기본 계정이 아니거나 풀이 비활성화되어 있으면 null)
+   *
+   * 모든 채널이 사용 중이면 반납될 때까지 기다린다.
+   */
+  async lease(publicKey: string): Promise<ChannelLease | null> {
+    if (
+      !this.treasury ||
+      this.treasury.publicKey() !== publicKey ||
+      this.channels.length === 0
+    ) {
+      return null;
+    }
+
+    const keypair = this.idle.shift() ?? (await this.waitForChannel());
+
+    try {
+      const account = await sequenceCache.getAccount(keypair.publicKey());
+      log.debug('Channel account leased', { channel: keypair.publicKey() });
+      return { keypair, account };
+    } catch (error) {
+      this.handOff(keypair);
+      throw error;
+    }
+  }
+
+  /**
+   * 채널 계정 반납
+   *
+   * 제출이 실패하면 빌드 시 증가시킨 시퀀스가 원장과 어긋났을 수 있으므로 재동기화한다.
+   */
+  release(lease: ChannelLease | null, failed: boolean = false): void {
+    if (!lease) {
+      return;
+    }
+
+    if (failed) {
+      sequenceCache.resync(lease.keypair.publicKey());
+    }
+
+    // 풀이 재구성된 뒤 반납된 이전 채널은 버림
+    if (!this.channels.includes(lease.keypair)) {
+      return;
+    }
+
+    this.handOff(lease.keypair);
+  }
+
+  /**
+   * 풀 상태 조회
+   */
+  getStatus(): ChannelPoolStatus {
+    return {
+      enabled: this.channels.length > 0,
+      total: this.channels.length,
+      available: this.idle.length,
+      waiting: this.waiters.length,
+    };
+  }
+
+  /**
+   * 저장된 채널 복원 후 설정된 수만큼 생성하고 미개설 계정 충전
+   */
+  private async initialize(): Promise<void> {
+    const count = channelConfig.accountCount;
+    if (count === 0) {
+      return;
+    }
+
+    if (!stellarConfig.defaultAccountSecret) {
+      log.warn(
+        'Channel accounts require DEFAULT_ACCOUNT_SECRET; channel pool disabled'
+      );
+      return;
+    }
+
+    const treasury = Keypair.fromSecret(stellarConfig.defaultAccountSecret);
+    const records = await this.store.load();
+    const keypairs = records.map((record) =>
+      Keypair.fromSecret(this.decrypt(record.encryptedSecret))
+    );
+
+    if (keypairs.length < count) {
+      const now = new Date().toISOString();
+      while (keypairs.length < count) {
+        const keypair = Keypair.random();
+        keypairs.push(keypair);
+        records.push({
+          id: keypair.publicKey(),
+          encryptedSecret: this.encrypt(keypair.secret()),
+          createdAt: now,
+        });
+      }
+
+      // 충전 전에 저장해야 제출 후 종료되어도 채널 자금을 잃지 않는다
+      await this.store.save(records);
+    }
+
+    const selected = keypairs.slice(0, count);
+    const unfunded: Keypair[] = [];
+    for (const keypair of selected) {
+      if (!(await stellarClient.accountExists(keypair.publicKey()))) {
+        unfunded.push(keypair);
+      }
+    }
+
+    for (
+      let index = 0;
+      index < unfunded.length;
+      index += this.FUNDING_BATCH_SIZE
+    ) {
+      await this.fund(
+        treasury,
+        unfunded.slice(index, index + this.FUNDING_BATCH_SIZE)
+      );
+    }
+
+    this.treasury = treasury;
+    this.channels = selected;
+    this.idle = [...selected];
+
+    log.info('Channel account pool ready', {
+      channels: selected.length,
+      funded: unfunded.length,
+      treasury: treasury.publicKey(),
+    });
+  }
+
+  /**
+   * 기본 계정에서 채널 계정 개설
+   */
+  private async fund(treasury: Keypair, keypairs: Keypair[]): Promise<void> {
+    const baseFee = await feeStrategy.getBaseFee();
+    const txBuilder = await stellarClient.createTransactionBuilder(
+      treasury.publicKey(),
+      baseFee
+    );
+    const startingBalance = channelConfig.startingBalance.toFixed(7);
+
+    keypairs.forEach((keypair) => {
+      txBuilder.addOperation(
+        stellarClient.createAccountOperation(
+          keypair.publicKey(),
+          startingBalance
+        )
+      );
+    });
+
+    const transaction = txBuilder
+      .setTimeout(this.FUNDING_TX_TIMEOUT_SECONDS)
+      .build();
+    const submission = await transactionSubmitter.submit(transaction, [
+      treasury,
+    ]);
+
+    if (submission.status !== 'success') {
+      throw new Error(
+        `Channel account funding ${submission.status}: ${submission.hash}`
+      );
+    }
+
+    log.transaction('channel accounts funded', submission.hash, {
+      channels: keypairs.length,
+      startingBalance,
+    });
+  }
+
+  /**
+   * 반납된 채널을 대기자에게 넘기거나 유휴 목록에 추가
+   */
+  private handOff(keypair: Keypair): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter(keypair);
+    } else {
+      this.idle.push(keypair);
+    }
+  }
+
+  /**
+   * 채널 반납 대기
+   */
+  private waitForChannel(): Promise<Keypair> {
+    return new Promise((resolve, reject) => {
+      const waiter = (keypair: Keypair): void => {
+        clearTimeout(timer);
+        resolve(keypair);
+      };
+
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((candidate) => candidate !== waiter);
+        reject(
+          new Error(
+            `No channel account became available within ${this.LEASE_TIMEOUT_MS}ms`
+          )
+        );
+      }, this.LEASE_TIMEOUT_MS);
+
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * 채널 시크릿 암호화 (AES-256-GCM, iv:tag:ciphertext)
+   */
+  private encrypt(secret: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.getKey(), iv);
+    const encrypted = Buffer.concat([
+      cipher.update(secret, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString('base64'))
+      .join(':');
+  }
+
+  /**
+   * 채널 시크릿 복호화
+   */
+  private decrypt(payload: string): string {
+    const [iv, tag, encrypted] = payload
+      .split(':')
+      .map((part) => Buffer.from(part, 'base64'));
+    if (!iv || !tag || !encrypted) {
+      throw new Error('Malformed channel account secret');
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', this.getKey(), iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  /**
+   * 암호화 키 (ENCRYPTION_KEY의 SHA-256)
+   */
+  private getKey(): Buffer {
+    return createHash('sha256').update(securityConfig.encryptionKey).digest();
+  }
+}
+
+/**
+ * 싱글톤 채널 계정 관리 인스턴스
+ */
+export const channelAccountManager = new ChannelAccountManager();
@@ -3,12 +3,16 @@
  */
 
 import {
+  Account,
+  FeeBumpTransaction,
   Horizon,
   Keypair,
   Networks,
   Operation,
+  Transaction,
   TransactionBuilder,
   Asset,
+  xdr,
 } from 'stellar-sdk';
 
 import { log } from '@/utils/logger';
@@ -29,11 +33,9 @@ export class StellarClient {
   constructor() {
     // Horizon 서버 설정
     this.server = new Horizon.Server(stellarConfig.horizonUrl);
-    
+
     // 네트워크 패스프레이즈 설정
-    this.networkPassphrase = isTestnet 
-      ? Networks.TESTNET 
-      : Networks.PUBLIC;
+    this.networkPassphrase = isTestnet ? Networks.TESTNET : Networks.PUBLIC;
 
     log.info('Stellar client initialized', {
       network: stellarConfig.network,
@@ -47,9 +49,9 @@ export class StellarClient {
   async testConnection(): Promise<boolean> {
     try {
       log.debug('Testing Stellar network connection...');
-      
+
       const ledger = await this.server.ledgers().order('desc').limit(1).call();
-      
+
       if (ledger.records && ledger.records.length > 0) {
         log.info('Stellar network connection successful', {
           latestLedger: ledger.records[0]?.sequence,
@@ -57,7 +59,7 @@ export class StellarClient {
         });
         return true;
       }
-      
+
       throw new Error('No ledger records found');
     } catch (error) {
       log.error('Stellar network connection failed', error as Error);
@@ -71,9 +73,9 @@ export class StellarClient {
   async getAccount(publicKey: string): Promise<StellarAccount> {
     try {
       log.debug('Fetching account info', { publicKey });
-      
+
       const account = await this.server.loadAccount(publicKey);
-      
+
       const stellarAccount: StellarAccount = {
         publicKey: account.accountId(),
         accountId: account.accountId(),
@@ -105,28 +107,33 @@ export class StellarClient {
   /**
    * 특정 토큰 잔액 조회
    */
-  async getTokenBalance(publicKey: string, assetCode?: string, assetIssuer?: string): Promise<string> {
+  async getTokenBalance(
+    publicKey: string,
+    assetCode?: string,
+    assetIssuer?: string
+  ): Promise<string> {
     try {
       const balances = await this.getBalances(publicKey);
-      
+
       if (!assetCode || assetCode === 'XLM') {
         // XLM (네이티브) 잔액
-        const xlmBalance = balances.find(b => b.assetType === 'native');
+        const xlmBalance = balances.find((b) => b.assetType === 'native');
         return xlmBalance ? xlmBalance.balance : '0';
       }
-      
+
       // 다른 토큰 잔액
-      const tokenBalance = balances.find(b => 
-        b.assetCode === assetCode && 
-        (!assetIssuer || b.assetIssuer === assetIssuer)
+      const tokenBalance = balances.find(
+        (b) =>
+          b.assetCode === assetCode &&
+          (!assetIssuer || b.assetIssuer === assetIssuer)
       );
-      
+
       return tokenBalance ? tokenBalance.balance : '0';
     } catch (error) {
-      log.error('Failed to fetch token balance', error as Error, { 
-        publicKey, 
-        assetCode, 
-        assetIssuer 
+      log.error('Failed to fetch token balance', error as Error, {
+        publicKey,
+        assetCode,
+        assetIssuer,
       });
       throw error;
     }
@@ -136,12 +143,12 @@ export class StellarClient {
    * 계정 거래 히스토리 조회
    */
   async getTransactionHistory(
-    publicKey: string, 
+    publicKey: string,
     limit: number = 10
   ): Promise<StellarTransaction[]> {
     try {
       log.debug('Fetching transaction history', { publicKey, limit });
-      
+
       const transactions = await this.server
         .transactions()
         .forAccount(publicKey)
@@ -149,7 +156,7 @@ export class StellarClient {
         .limit(limit)
         .call();
 
-      const history = transactions.records.map(tx => ({
+      const history = transactions.records.map((tx) => ({
         hash: tx.hash,
         ledger: tx.ledger_attr,
         createdAt: tx.created_at,
@@ -159,14 +166,135 @@ export class StellarClient {
         successful: tx.successful,
       }));
 
-      log.debug('Transaction history retrieved', { 
-        publicKey, 
-        count: history.length 
+      log.debug('Transaction history retrieved', {
+        publicKey,
+        count: history.length,
       });
-      
+
       return history;
     } catch (error) {
-      log.error('Failed to fetch transaction history', error as Error, { publicKey });
+      log.error('Failed to fetch transaction history', error as Error, {
+        publicKey,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 계정 오퍼레이션 조회 (커서 기반, 트랜잭션 정보 포함)
+   */
+  async getOperations(
+    publicKey: string,
+    limit: number = 10,
+    cursor?: string
+  ): Promise<Horizon.ServerApi.OperationRecord[]> {
+    try {
+      log.debug('Fetching operations', { publicKey, limit, cursor });
+
+      let builder = this.server
+        .operations()
+        .forAccount(publicKey)
+        .join('transactions')
+        .order('desc')
+        .limit(limit);
+
+      if (cursor) {
+        builder = builder.cursor(cursor);
+      }
+
+      const operations = await builder.call();
+      return operations.records;
+    } catch (error) {
+      log.error('Failed to fetch operations', error as Error, { publicKey });
+      throw error;
+    }
+  }
+
+  /**
+   * 트랜잭션 이펙트 조회
+   */
+  async getTransactionEffects(
+    hash: string
+  ): Promise<Horizon.ServerApi.EffectRecord[]> {
+    try {
+      const effects = await this.server
+        .effects()
+        .forTransaction(hash)
+        .limit(200)
+        .call();
+
+      return effects.records;
+    } catch (error) {
+      log.error('Failed to fetch transaction effects', error as Error, {
+        hash,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Strict Send 경로 탐색 (보낼 수량 고정, 받을 수량이 큰 순)
+   */
+  async findStrictSendPaths(
+    sourceAsset: Asset,
+    sourceAmount: string,
+    destAsset: Asset
+  ): Promise<Horizon.ServerApi.PaymentPathRecord[]> {
+    try {
+      const paths = await this.server
+        .strictSendPaths(sourceAsset, sourceAmount, [destAsset])
+        .call();
+
+      return paths.records;
+    } catch (error) {
+      log.error('Failed to find strict send paths', error as Error, {
+        sourceAmount,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Strict Receive 경로 탐색 (받을 수량 고정, 보낼 수량이 작은 순)
+   */
+  async findStrictReceivePaths(
+    sourceAsset: Asset,
+    destAsset: Asset,
+    destAmount: string
+  ): Promise<Horizon.ServerApi.PaymentPathRecord[]> {
+    try {
+      const paths = await this.server
+        .strictReceivePaths([sourceAsset], destAsset, destAmount)
+        .call();
+
+      return paths.records;
+    } catch (error) {
+      log.error('Failed to find strict receive paths', error as Error, {
+        destAmount,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 클래식 유동성 풀 조회 (자산을 지정하면 해당 자산을 모두 포함하는 풀만)
+   */
+  async getLiquidityPools(
+    assets: Asset[] = [],
+    limit: number = 200
+  ): Promise<Horizon.ServerApi.LiquidityPoolRecord[]> {
+    try {
+      let builder = this.server.liquidityPools();
+      if (assets.length > 0) {
+        builder = builder.forAssets(...assets);
+      }
+
+      const pools = await builder.limit(limit).call();
+      return pools.records;
+    } catch (error) {
+      log.error('Failed to fetch liquidity pools', error as Error, {
+        assets: assets.length,
+      });
       throw error;
     }
   }
@@ -176,11 +304,11 @@ export class StellarClient {
    */
   generateKeypair(): { publicKey: string; secretKey: string } {
     const keypair = Keypair.random();
-    
-    log.info('New keypair generated', { 
-      publicKey: keypair.publicKey() 
+
+    log.info('New keypair generated', {
+      publicKey: keypair.publicKey(),
     });
-    
+
     return {
       publicKey: keypair.publicKey(),
       secretKey: keypair.secret(),
@@ -231,22 +359,64 @@ export class StellarClient {
 
   /**
    * 트랜잭션 빌더 생성
+   *
+   * baseFee(오퍼레이션당 stroop)를 지정하지 않으면 네트워크 기본 수수료를 사용한다.
+   * 시퀀스 캐시의 Account를 넘기면 계정을 다시 조회하지 않는다.
    */
-  async createTransactionBuilder(sourceAccount: string): Promise<TransactionBuilder> {
+  async createTransactionBuilder(
+    sourceAccount: string | Account,
+    baseFee?: number
+  ): Promise<TransactionBuilder> {
     try {
-      const account = await this.server.loadAccount(sourceAccount);
-      const baseFee = await this.server.fetchBaseFee();
-      
+      const account =
+        typeof sourceAccount === 'string'
+          ? await this.server.loadAccount(sourceAccount)
+          : sourceAccount;
+      const fee = baseFee ?? (await this.server.fetchBaseFee());
+
       return new TransactionBuilder(account, {
-        fee: baseFee.toString(),
+        fee: fee.toString(),
         networkPassphrase: this.networkPassphrase,
       });
     } catch (error) {
-      log.error('Failed to create transaction builder', error as Error, { sourceAccount });
+      log.error('Failed to create transaction builder', error as Error, {
+        sourceAccount:
+          typeof sourceAccount === 'string'
+            ? sourceAccount
+            : sourceAccount.accountId(),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 수수료 통계 조회 (최근 원장들의 수수료 분포)
+   */
+  async getFeeStats(): Promise<Horizon.HorizonApi.FeeStatsResponse> {
+    try {
+      return await this.server.feeStats();
+    } catch (error) {
+      log.error('Failed to fetch fee stats', error as Error);
       throw error;
     }
   }
 
+  /**
+   * 서명된 트랜잭션을 fee-bump 트랜잭션으로 감싸기 (수수료 계정 서명 전)
+   */
+  buildFeeBumpTransaction(
+    innerTransaction: Transaction,
+    feeSource: Keypair,
+    baseFee: number
+  ): FeeBumpTransaction {
+    return TransactionBuilder.buildFeeBumpTransaction(
+      feeSource,
+      baseFee.toString(),
+      innerTransaction,
+      this.networkPassphrase
+    );
+  }
+
   /**
    * 결제 오퍼레이션 생성
    */
@@ -262,19 +432,156 @@ export class StellarClient {
     });
   }
 
+  /**
+   * 계정 생성 오퍼레이션 생성
+   */
+  createAccountOperation(destination: string, startingBalance: string): any {
+    return Operation.createAccount({
+      destination,
+      startingBalance,
+    });
+  }
+
+  /**
+   * Path Payment Strict Send 오퍼레이션 생성
+   *
+   * source를 지정하면 트랜잭션 소스(채널 계정)와 다른 계정의 자산으로 결제한다.
+   */
+  createPathPaymentStrictSendOperation(
+    sendAsset: Asset,
+    sendAmount: string,
+    destination: string,
+    destAsset: Asset,
+    destMin: string,
+    path: Asset[] = [],
+    source?: string
+  ): xdr.Operation {
+    return Operation.pathPaymentStrictSend({
+      sendAsset,
+      sendAmount,
+      destination,
+      destAsset,
+      destMin,
+      path,
+      ...(source ? { source } : {}),
+    });
+  }
+
+  /**
+   * Path Payment Strict Receive 오퍼레이션 생성
+   *
+   * source를 지정하면 트랜잭션 소스(채널 계정)와 다른 계정의 자산으로 결제한다.
+   */
+  createPathPaymentStrictReceiveOperation(
+    sendAsset: Asset,
+    sendMax: string,
+    destination: string,
+    destAsset: Asset,
+    destAmount: string,
+    path: Asset[] = [],
+    source?: string
+  ): xdr.Operation {
+    return Operation.pathPaymentStrictReceive({
+      sendAsset,
+      sendMax,
+      destination,
+      destAsset,
+      destAmount,
+      path,
+      ...(source ? { source } : {}),
+    });
+  }
+
   /**
    * 트러스트라인 오퍼레이션 생성
    */
-  createChangeTrustOperation(asset: Asset, limit?: string | undefined): any {
+  createChangeTrustOperation(
+    asset: Asset,
+    limit?: string | undefined,
+    source?: string
+  ): any {
     const options: any = { asset };
     if (limit !== undefined) {
       options.limit = limit;
     }
+    if (source !== undefined) {
+      options.source = source;
+    }
     return Operation.changeTrust(options);
   }
 
   /**
-   * 트랜잭션 제출
+   * 트랜잭션 해시로 조회 (fee-bump는 내부 트랜잭션 해시로도 조회됨, 없으면 null)
+   */
+  async getTransaction(
+    hash: string
+  ): Promise<Horizon.ServerApi.TransactionRecord | null> {
+    try {
+      return await this.server.transactions().transaction(hash).call();
+    } catch (error) {
+      if ((error as any).response?.status === 404) {
+        return null;
+      }
+      log.error('Failed to fetch transaction', error as Error, { hash });
+      throw error;
+    }
+  }
+
+  /**
+   * 최신 원장 마감 시각 (유닉스 초)
+   */
+  async getLatestLedgerCloseTime(): Promise<number> {
+    try {
+      const ledgers = await this.server.ledgers().order('desc').limit(1).call();
+      const latest = ledgers.records[0];
+      if (!latest) {
+        throw new Error('No ledger records found');
+      }
+      return Math.floor(new Date(latest.closed_at).getTime() / 1000);
+    } catch (error) {
+      log.error('Failed to fetch latest ledger', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 계정 최소 잔액 (XLM, 하위 항목과 스폰서십 반영)
+   *
+   * (2 + 하위 항목 수 + 스폰서 중인 항목 - 스폰서 받은 항목) × 베이스 리저브
+   */
+  async getMinimumBalance(
+    publicKey: string
+  ): Promise<{ minimumBalance: number; baseReserve: number }> {
+    try {
+      const [account, ledgers] = await Promise.all([
+        this.server.accounts().accountId(publicKey).call(),
+        this.server.ledgers().order('desc').limit(1).call(),
+      ]);
+      const latest = ledgers.records[0];
+      if (!latest) {
+        throw new Error('No ledger records found');
+      }
+
+      const baseReserve = latest.base_reserve_in_stroops / 10_000_000;
+      const entries =
+        2 +
+        account.subentry_count +
+        account.num_sponsoring -
+        account.num_sponsored;
+
+      return { minimumBalance: entries * baseReserve, baseReserve };
+    } catch (error) {
+      log.error('Failed to compute minimum balance', error as Error, {
+        publicKey,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 트랜잭션 단일 제출
+   *
+   * 504/타임아웃 확인과 재제출은 transactionSubmitter가 담당한다.
    */
   async submitTransaction(
     transaction: any,
@@ -282,23 +589,23 @@ export class StellarClient {
   ): Promise<Horizon.HorizonApi.SubmitTransactionResponse> {
     try {
       // 트랜잭션 서명
-      signers.forEach(signer => {
+      signers.forEach((signer) => {
         transaction.sign(signer);
       });
 
-      log.info('Submitting transaction', { 
+      log.info('Submitting transaction', {
         hash: transaction.hash().toString('hex'),
-        signers: signers.length 
+        signers: signers.length,
       });
 
       // 트랜잭션 제출
       const response = await this.server.submitTransaction(transaction);
-      
-      log.info('Transaction submitted successfully', { 
+
+      log.info('Transaction submitted successfully', {
         hash: response.hash,
-        ledger: response.ledger 
+        ledger: response.ledger,
       });
-      
+
       return response;
     } catch (error) {
       log.error('Transaction submission failed', error as Error);
@@ -323,7 +630,11 @@ export class StellarClient {
   /**
    * 현재 네트워크 정보 반환
    */
-  getNetworkInfo(): { network: string; passphrase: string; horizonUrl: string } {
+  getNetworkInfo(): {
+    network: string;
+    passphrase: string;
+    horizonUrl: string;
+  } {
     return {
       network: stellarConfig.network,
       passphrase: this.networkPassphrase,
@@ -337,11 +648,15 @@ export class StellarClient {
   private mapBalance(balance: any): StellarBalance {
     const baseBalance: StellarBalance = {
       asset: balance.asset_type === 'native' ? 'XLM' : balance.asset_code || '',
-      assetType: balance.asset_type as 'native' | 'credit_alphanum4' | 'credit_alphanum12',
+      assetType: balance.asset_type as
+        'native' | 'credit_alphanum4' | 'credit_alphanum12',
       balance: balance.balance,
     };
 
-    if (balance.asset_type !== 'native' && balance.asset_type !== 'liquidity_pool_shares') {
+    if (
+      balance.asset_type !== 'native' &&
+      balance.asset_type !== 'liquidity_pool_shares'
+    ) {
       baseBalance.assetCode = balance.asset_code;
       baseBalance.assetIssuer = balance.asset_issuer;
       baseBalance.limit = balance.limit;
@@ -356,4 +671,4 @@ export class StellarClient {
 /**
  * 싱글톤 Stellar 클라이언트 인스턴스
  */
-export const stellarClient = new StellarClient();
\ No newline at end of file
+export const stellarClient = new StellarClient();
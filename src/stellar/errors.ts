@@ -61,21 +61,76 @@ export class StellarInsufficientBalanceError extends StellarError {
   }
 }
 
+/**
+ * 긴급 수수료가 MAX_FEE_STROOPS를 넘는 경우 (상한 수수료로는 혼잡 시 체결되지 않을 수 있어 제출 전 거부)
+ */
+export class FeeCapExceededError extends StellarError {
+  constructor(marketFee: number, maxFeeStroops: number) {
+    super(
+      `Urgent network fee ${marketFee} stroops exceeds MAX_FEE_STROOPS (${maxFeeStroops}); ` +
+        'retry later, lower the urgency or raise the fee cap',
+      ErrorCode.STELLAR_FEE_CAP_EXCEEDED,
+      { marketFee, maxFeeStroops }
+    );
+    this.name = 'FeeCapExceededError';
+  }
+}
+
 /**
  * 트랜잭션 실패 에러
  */
 export class StellarTransactionFailedError extends StellarError {
-  constructor(
-    message: string,
-    transactionHash?: string,
-    resultCodes?: any
-  ) {
+  constructor(message: string, transactionHash?: string, resultCodes?: any) {
+    super(message, ErrorCode.STELLAR_TRANSACTION_FAILED, {
+      transactionHash,
+      resultCodes,
+    });
+    this.name = 'StellarTransactionFailedError';
+  }
+}
+
+/**
+ * Soroban 시뮬레이션 실패 에러
+ */
+export class SorobanSimulationError extends StellarError {
+  constructor(message: string, contractId?: string, method?: string) {
+    super(message, ErrorCode.STELLAR_TRANSACTION_FAILED, {
+      contractId,
+      method,
+    });
+    this.name = 'SorobanSimulationError';
+  }
+}
+
+/**
+ * 트랜잭션 확정 대기 시간 초과 에러
+ */
+export class TransactionTimeoutError extends StellarError {
+  constructor(transactionHash: string, timeoutMs: number) {
     super(
-      message,
-      ErrorCode.STELLAR_TRANSACTION_FAILED,
-      { transactionHash, resultCodes }
+      `Transaction ${transactionHash} was not confirmed within ${timeoutMs}ms`,
+      ErrorCode.SWAP_TIMEOUT,
+      { transactionHash, timeoutMs }
     );
-    this.name = 'StellarTransactionFailedError';
+    this.name = 'TransactionTimeoutError';
+  }
+}
+
+/**
+ * 타임바운드가 지나도록 원장에 포함되지 않은 트랜잭션 (적용되지 않았음이 확정됨)
+ */
+export class TransactionExpiredError extends StellarError {
+  constructor(transactionHash: string, maxTime: number) {
+    super(
+      `Transaction ${transactionHash} expired without being applied; it is safe to retry`,
+      ErrorCode.SWAP_TIMEOUT,
+      {
+        transactionHash,
+        maxTime: new Date(maxTime * 1000).toISOString(),
+        applied: false,
+      }
+    );
+    this.name = 'TransactionExpiredError';
   }
 }
 
@@ -109,10 +164,9 @@ export class TrustlineNotFoundError extends StellarError {
 export function convertStellarError(error: any): StellarError {
   // 네트워크 연결 에러
   if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND') {
-    return new StellarConnectionError(
-      'Failed to connect to Stellar network',
-      { originalError: error.message }
-    );
+    return new StellarConnectionError('Failed to connect to Stellar network', {
+      originalError: error.message,
+    });
   }
 
   // HTTP 에러 응답
@@ -137,13 +191,14 @@ export function convertStellarError(error: any): StellarError {
     }
   }
 
-  // Stellar SDK 에러
+  // Stellar SDK 에러 (Horizon problem 응답이 response 필드에 담김)
   if (error.name === 'BadResponseError') {
-    if (error.data?.extras?.result_codes) {
+    const resultCodes = extractResultCodes(error);
+    if (resultCodes) {
       return new StellarTransactionFailedError(
-        error.message,
+        `${error.message} (${formatResultCodes(resultCodes)})`,
         undefined,
-        error.data.extras.result_codes
+        resultCodes
       );
     }
   }
@@ -154,4 +209,38 @@ export function convertStellarError(error: any): StellarError {
     ErrorCode.STELLAR_CONNECTION_ERROR,
     { originalError: error }
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Horizon 트랜잭션 결과 코드
+ */
+export interface TransactionResultCodes {
+  transaction?: string;
+  operations?: string[];
+}
+
+/**
+ * 에러 객체에서 Horizon 결과 코드 추출
+ */
+export function extractResultCodes(
+  error: any
+): TransactionResultCodes | undefined {
+  return (
+    error?.response?.extras?.result_codes ||
+    error?.response?.data?.extras?.result_codes ||
+    error?.data?.extras?.result_codes ||
+    undefined
+  );
+}
+
+/**
+ * 결과 코드를 읽기 쉬운 문자열로 변환 (예: tx_failed: op_under_dest_min)
+ */
+export function formatResultCodes(resultCodes: TransactionResultCodes): string {
+  const txCode = resultCodes.transaction || 'unknown';
+  const opCodes = (resultCodes.operations || []).filter(
+    (code) => code !== 'op_success'
+  );
+
+  return opCodes.length > 0 ? `${txCode}: ${opCodes.join(', ')}` : txCode;
+}
@@ -0,0 +1,138 @@
+/**
+ * 트랜잭션 수수료 전략 (Horizon fee_stats 기반 수수료 선택)
+ */
+
+import { BASE_FEE, Horizon } from 'stellar-sdk';
+import { stellarClient } from './client';
+import { FeeCapExceededError } from './errors';
+import { feeConfig } from '@/utils/config';
+import { log } from '@/utils/logger';
+import type { FeeQuote, FeeUrgency } from '@/types';
+
+/**
+ * 긴급도별 fee_stats 백분위
+ */
+const URGENCY_PERCENTILES: Record<
+  FeeUrgency,
+  keyof Horizon.HorizonApi.FeeDistribution
+> = {
+  low: 'p10',
+  normal: 'p50',
+  urgent: 'p90',
+};
+
+/**
+ * 긴급도 우선순위 (높을수록 급함)
+ */
+const URGENCY_RANK: Record<FeeUrgency, number> = {
+  low: 0,
+  normal: 1,
+  urgent: 2,
+};
+
+/**
+ * 수수료 전략 클래스
+ */
+export class FeeStrategy {
+  private cachedStats:
+    | { stats: Horizon.HorizonApi.FeeStatsResponse; fetchedAt: number }
+    | undefined;
+  private readonly STATS_TTL_MS = 5000;
+
+  /**
+   * 긴급도에 맞는 오퍼레이션당 기본 수수료 (stroop, 상한 적용)
+   *
+   * urgent인데 시장 수수료가 상한을 넘으면 낮춘 수수료로 제출하지 않고 FeeCapExceededError를 던진다.
+   */
+  async getBaseFee(urgency: FeeUrgency = 'normal'): Promise<number> {
+    const quote = await this.quoteFee(urgency);
+
+    if (quote.capped && urgency === 'urgent') {
+      throw new FeeCapExceededError(quote.marketFee, feeConfig.maxFeeStroops);
+    }
+
+    return quote.baseFee;
+  }
+
+  /**
+   * 긴급도별 수수료와 상한 적용 여부
+   */
+  async quoteFee(urgency: FeeUrgency = 'normal'): Promise<FeeQuote> {
+    let fee = Number(BASE_FEE);
+
+    try {
+      const stats = await this.getFeeStats();
+      fee = Math.max(
+        Number(stats.last_ledger_base_fee),
+        Number(stats.fee_charged[URGENCY_PERCENTILES[urgency]])
+      );
+    } catch (error) {
+      log.warn('Fee stats unavailable, using minimum base fee', {
+        error: (error as Error).message,
+      });
+    }
+
+    if (fee > feeConfig.maxFeeStroops) {
+      log.warn('Network fee exceeds configured maximum', {
+        urgency,
+        fee,
+        maxFeeStroops: feeConfig.maxFeeStroops,
+      });
+      return {
+        urgency,
+        baseFee: feeConfig.maxFeeStroops,
+        marketFee: fee,
+        capped: true,
+      };
+    }
+
+    return { urgency, baseFee: fee, marketFee: fee, capped: false };
+  }
+
+  /**
+   * 여러 긴급도 중 가장 급한 값
+   */
+  mostUrgent(urgencies: (FeeUrgency | undefined)[]): FeeUrgency {
+    return urgencies
+      .map((urgency) => urgency ?? 'normal')
+      .reduce<FeeUrgency>(
+        (highest, urgency) =>
+          URGENCY_RANK[urgency] > URGENCY_RANK[highest] ? urgency : highest,
+        'low'
+      );
+  }
+
+  /**
+   * 다음 fee-bump 수수료 (긴급 백분위와 현재의 2배 중 큰 값, 상한 초과 시 null)
+   */
+  async getBumpFee(currentBaseFee: number): Promise<number | null> {
+    const { baseFee: urgentFee } = await this.quoteFee('urgent');
+    const nextFee = Math.min(
+      Math.max(urgentFee, currentBaseFee * 2),
+      feeConfig.maxFeeStroops
+    );
+
+    return nextFee > currentBaseFee ? nextFee : null;
+  }
+
+  /**
+   * fee_stats 조회 (원장 마감 주기 동안 캐시)
+   */
+  private async getFeeStats(): Promise<Horizon.HorizonApi.FeeStatsResponse> {
+    if (
+      this.cachedStats &&
+      Date.now() - this.cachedStats.fetchedAt < this.STATS_TTL_MS
+    ) {
+      return this.cachedStats.stats;
+    }
+
+    const stats = await stellarClient.getFeeStats();
+    this.cachedStats = { stats, fetchedAt: Date.now() };
+    return stats;
+  }
+}
+
+/**
+ * 싱글톤 수수료 전략 인스턴스
+ */
+export const feeStrategy = new FeeStrategy();
@@ -0,0 +1,66 @@
+/**
+ * 계정 시퀀스 번호 캐시
+ */
+
+import { Account } from 'stellar-sdk';
+import { stellarClient } from './client';
+import { log } from '@/utils/logger';
+
+/**
+ * 시퀀스 번호 캐시 클래스
+ *
+ * 트랜잭션마다 계정을 조회하지 않도록 Account를 재사용한다.
+ * TransactionBuilder.build()가 같은 Account의 시퀀스를 증가시키므로 빌드마다 다음 번호가 배정된다.
+ * 빌드한 트랜잭션이 원장에 반영되지 않으면 번호가 어긋나므로 호출자가 resync 해야 한다.
+ */
+export class SequenceCache {
+  private accounts: Map<string, Account> = new Map();
+  private loading: Map<string, Promise<Account>> = new Map();
+
+  /**
+   * 캐시된 Account 조회 (없으면 Horizon에서 로드)
+   */
+  async getAccount(publicKey: string): Promise<Account> {
+    const cached = this.accounts.get(publicKey);
+    if (cached) {
+      return cached;
+    }
+
+    let pending = this.loading.get(publicKey);
+    if (!pending) {
+      pending = this.load(publicKey).finally(() => {
+        this.loading.delete(publicKey);
+      });
+      this.loading.set(publicKey, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * 캐시 무효화 (다음 조회 시 온체인 시퀀스로 재동기화)
+   */
+  resync(publicKey: string): void {
+    if (this.accounts.delete(publicKey)) {
+      log.debug('Sequence cache invalidated', { publicKey });
+    }
+  }
+
+  /**
+   * 온체인 시퀀스 로드
+   */
+  private async load(publicKey: string): Promise<Account> {
+    const { sequence } = await stellarClient.getAccount(publicKey);
+    const account = new Account(publicKey, sequence);
+
+    this.accounts.set(publicKey, account);
+    log.debug('Sequence loaded', { publicKey, sequence });
+
+    return account;
+  }
+}
+
+/**
+ * 싱글톤 시퀀스 캐시 인스턴스
+ */
+export const sequenceCache = new SequenceCache();
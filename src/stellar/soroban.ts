@@ -0,0 +1,432 @@
+/**
+ * Soroban RPC 클라이언트 (스마트 컨트랙트 호출)
+ */
+
+import {
+  Address,
+  Contract,
+  Keypair,
+  Networks,
+  SorobanRpc,
+  Transaction,
+  TransactionBuilder,
+  nativeToScVal,
+  scValToNative,
+  xdr,
+} from 'stellar-sdk';
+
+import { log } from '@/utils/logger';
+import { stellarConfig, isTestnet } from '@/utils/config';
+import {
+  SorobanSimulationError,
+  StellarTransactionFailedError,
+  TransactionExpiredError,
+  TransactionTimeoutError,
+  formatResultCodes,
+} from './errors';
+import type { TransactionResultCodes } from './errors';
+
+/**
+ * 컨트랙트 호출 트랜잭션 유효 시간 (초)
+ */
+const INVOCATION_TIMEOUT_SECONDS = 60;
+
+/**
+ * 트랜잭션 확정 대기 기본값 (타임바운드 만료 후 유예 시간, 조회 간격)
+ */
+const DEFAULT_EXPIRY_GRACE_MS = 30 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+/**
+ * 트랜잭션 확정 대기 옵션
+ * - timeoutMs: 타임바운드 만료 후 추가로 기다릴 시간
+ * - intervalMs: 조회 간격
+ */
+export interface PollOptions {
+  timeoutMs?: number;
+  intervalMs?: number;
+}
+
+/**
+ * 컨트랙트 호출 결과
+ */
+export interface ContractInvocationResult {
+  hash: string;
+  ledger: number;
+  returnValue?: xdr.ScVal | undefined;
+  resultXdr: string;
+  resultMetaXdr: xdr.TransactionMeta;
+  feeCharged: number;
+}
+
+/**
+ * Soroswap 라우터 swap_exact_tokens_for_tokens 파라미터
+ */
+export interface RouterSwapParams {
+  amountIn: bigint;
+  amountOutMin: bigint;
+  path: string[];
+  to: string;
+  deadline: number;
+}
+
+/**
+ * Soroswap 라우터 swap_tokens_for_exact_tokens 파라미터
+ */
+export interface RouterExactOutSwapParams {
+  amountOut: bigint;
+  amountInMax: bigint;
+  path: string[];
+  to: string;
+  deadline: number;
+}
+
+/**
+ * Soroban RPC 클라이언트 클래스
+ */
+export class SorobanClient {
+  private server: SorobanRpc.Server;
+  private networkPassphrase: string;
+
+  constructor(rpcUrl: string = stellarConfig.sorobanRpcUrl) {
+    this.server = new SorobanRpc.Server(rpcUrl, {
+      allowHttp: rpcUrl.startsWith('http://'),
+    });
+
+    this.networkPassphrase = isTestnet ? Networks.TESTNET : Networks.PUBLIC;
+
+    log.info('Soroban RPC client initialized', { rpcUrl });
+  }
+
+  /**
+   * RPC 연결 테스트
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const health = await this.server.getHealth();
+      return health.status === 'healthy';
+    } catch (error) {
+      log.error('Soroban RPC connection failed', error as Error);
+      return false;
+    }
+  }
+
+  /**
+   * 컨트랙트 호출 트랜잭션 생성 (서명/리소스 미포함)
+   */
+  async buildInvocation(
+    sourcePublicKey: string,
+    contractId: string,
+    method: string,
+    args: xdr.ScVal[],
+    timeoutSeconds: number = INVOCATION_TIMEOUT_SECONDS,
+    baseFee: number = 100
+  ): Promise<Transaction> {
+    try {
+      const account = await this.server.getAccount(sourcePublicKey);
+      const contract = new Contract(contractId);
+
+      return new TransactionBuilder(account, {
+        fee: baseFee.toString(),
+        networkPassphrase: this.networkPassphrase,
+      })
+        .addOperation(contract.call(method, ...args))
+        .setTimeout(timeoutSeconds)
+        .build();
+    } catch (error) {
+      log.error('Failed to build contract invocation', error as Error, {
+        sourcePublicKey,
+        contractId,
+        method,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 트랜잭션 시뮬레이션
+   */
+  async simulate(
+    transaction: Transaction
+  ): Promise<SorobanRpc.Api.SimulateTransactionSuccessResponse> {
+    const simulation = await this.server.simulateTransaction(transaction);
+
+    if (SorobanRpc.Api.isSimulationError(simulation)) {
+      throw new SorobanSimulationError(
+        `Simulation failed: ${simulation.error}`
+      );
+    }
+
+    if (SorobanRpc.Api.isSimulationRestore(simulation)) {
+      throw new SorobanSimulationError(
+        'Simulation requires restoring archived ledger entries before invocation'
+      );
+    }
+
+    log.debug('Transaction simulated', {
+      minResourceFee: simulation.minResourceFee,
+      latestLedger: simulation.latestLedger,
+    });
+
+    return simulation;
+  }
+
+  /**
+   * 시뮬레이션 결과로 리소스 수수료와 풋프린트를 채운 트랜잭션 생성
+   */
+  async prepare(transaction: Transaction): Promise<Transaction> {
+    const simulation = await this.simulate(transaction);
+    const prepared = SorobanRpc.assembleTransaction(
+      transaction,
+      simulation
+    ).build();
+
+    log.debug('Transaction prepared', {
+      fee: prepared.fee,
+      minResourceFee: simulation.minResourceFee,
+    });
+
+    return prepared;
+  }
+
+  /**
+   * 서명 후 트랜잭션 전송 (TRY_AGAIN_LATER는 호출자가 재전송)
+   */
+  async send(
+    transaction: Transaction,
+    signers: Keypair[]
+  ): Promise<SorobanRpc.Api.SendTransactionResponse> {
+    signers.forEach((signer) => {
+      transaction.sign(signer);
+    });
+
+    const response = await this.server.sendTransaction(transaction);
+
+    if (response.status === 'ERROR') {
+      const resultCodes = response.errorResult
+        ? this.decodeResultCodes(response.errorResult)
+        : undefined;
+
+      throw new StellarTransactionFailedError(
+        `Soroban transaction rejected${resultCodes ? `: ${formatResultCodes(resultCodes)}` : ''}`,
+        response.hash,
+        resultCodes
+      );
+    }
+
+    log.transaction('sent', response.hash, { status: response.status });
+
+    return response;
+  }
+
+  /**
+   * 준비된 트랜잭션 서명/전송 후 확정까지 대기
+   *
+   * 전송 결과를 알 수 없거나 RPC가 혼잡하면 같은 서명 트랜잭션을 재전송하며 해시로 조회한다.
+   * 최신 원장 마감 시각이 타임바운드를 넘었는데도 조회되지 않으면 만료로 확정한다.
+   */
+  async submitAndConfirm(
+    transaction: Transaction,
+    signers: Keypair[],
+    pollOptions: PollOptions = {}
+  ): Promise<ContractInvocationResult> {
+    const maxTime = Number(transaction.timeBounds?.maxTime ?? 0);
+    const intervalMs = pollOptions.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const graceMs = pollOptions.timeoutMs ?? DEFAULT_EXPIRY_GRACE_MS;
+    const deadline = maxTime ? maxTime * 1000 + graceMs : Date.now() + graceMs;
+
+    signers.forEach((signer) => {
+      transaction.sign(signer);
+    });
+
+    const hash = transaction.hash().toString('hex');
+    let accepted = false;
+    let ambiguous = false;
+
+    while (Date.now() < deadline) {
+      if (!accepted) {
+        try {
+          const sent = await this.send(transaction, []);
+          accepted = sent.status !== 'TRY_AGAIN_LATER';
+        } catch (error) {
+          // 앞선 전송이 불확실했다면 거부 응답은 이미 적용된 결과일 수 있으므로 조회로 확정
+          if (error instanceof StellarTransactionFailedError) {
+            if (!ambiguous) {
+              throw error;
+            }
+            accepted = true;
+          } else {
+            ambiguous = true;
+            log.warn('Soroban send outcome unknown, polling transaction', {
+              hash,
+              error: (error as Error).message,
+            });
+          }
+        }
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+
+      const result = await this.poll(hash, maxTime);
+      if (result) {
+        return result;
+      }
+    }
+
+    throw new TransactionTimeoutError(hash, graceMs);
+  }
+
+  /**
+   * 해시로 트랜잭션 결과 한 번 조회 (아직 없거나 조회 실패면 null)
+   *
+   * 실패한 트랜잭션이나 최신 원장 마감 시각이 maxTime을 넘은 미확정 트랜잭션은 에러로 확정한다.
+   */
+  async poll(
+    hash: string,
+    maxTime: number = 0
+  ): Promise<ContractInvocationResult | null> {
+    let response: SorobanRpc.Api.GetTransactionResponse;
+    try {
+      response = await this.server.getTransaction(hash);
+    } catch (error) {
+      log.debug('Soroban transaction lookup failed', {
+        hash,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+
+    if (response.status === SorobanRpc.Api.GetTransactionStatus.SUCCESS) {
+      log.transaction('confirmed', hash, { ledger: response.ledger });
+
+      return {
+        hash,
+        ledger: response.ledger,
+        returnValue: response.returnValue,
+        resultXdr: response.resultXdr.toXDR('base64'),
+        resultMetaXdr: response.resultMetaXdr,
+        feeCharged: Number(response.resultXdr.feeCharged().toString()),
+      };
+    }
+
+    if (response.status === SorobanRpc.Api.GetTransactionStatus.FAILED) {
+      const resultCodes = this.decodeResultCodes(response.resultXdr);
+      throw new StellarTransactionFailedError(
+        `Soroban transaction failed: ${formatResultCodes(resultCodes)}`,
+        hash,
+        resultCodes
+      );
+    }
+
+    if (maxTime && response.latestLedgerCloseTime > maxTime) {
+      throw new TransactionExpiredError(hash, maxTime);
+    }
+
+    return null;
+  }
+
+  /**
+   * Soroswap 라우터 스왑 트랜잭션 생성 (시뮬레이션 반영, 서명 전)
+   */
+  async buildRouterSwap(
+    sourcePublicKey: string,
+    routerContract: string,
+    params: RouterSwapParams | RouterExactOutSwapParams,
+    timeoutSeconds?: number,
+    baseFee?: number
+  ): Promise<Transaction> {
+    const { method, args } = this.routerSwapCall(params);
+
+    try {
+      const transaction = await this.buildInvocation(
+        sourcePublicKey,
+        routerContract,
+        method,
+        args,
+        timeoutSeconds,
+        baseFee
+      );
+
+      return await this.prepare(transaction);
+    } catch (error) {
+      if (error instanceof SorobanSimulationError) {
+        throw new SorobanSimulationError(error.message, routerContract, method);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * 라우터 스왑 반환값(Vec<i128>)을 수량 배열로 변환
+   */
+  readReturnedAmounts(returnValue?: xdr.ScVal): bigint[] {
+    return returnValue ? (scValToNative(returnValue) as bigint[]) : [];
+  }
+
+  /**
+   * 네트워크 패스프레이즈 반환
+   */
+  getNetworkPassphrase(): string {
+    return this.networkPassphrase;
+  }
+
+  /**
+   * 라우터 스왑 파라미터를 메서드명과 ScVal 인자로 변환
+   */
+  private routerSwapCall(params: RouterSwapParams | RouterExactOutSwapParams): {
+    method: string;
+    args: xdr.ScVal[];
+  } {
+    const [method, firstAmount, secondAmount] =
+      'amountIn' in params
+        ? ['swap_exact_tokens_for_tokens', params.amountIn, params.amountOutMin]
+        : [
+            'swap_tokens_for_exact_tokens',
+            params.amountOut,
+            params.amountInMax,
+          ];
+
+    return {
+      method,
+      args: [
+        nativeToScVal(firstAmount, { type: 'i128' }),
+        nativeToScVal(secondAmount, { type: 'i128' }),
+        nativeToScVal(params.path.map((address) => new Address(address))),
+        new Address(params.to).toScVal(),
+        nativeToScVal(params.deadline, { type: 'u64' }),
+      ],
+    };
+  }
+
+  /**
+   * TransactionResult XDR을 결과 코드로 변환
+   */
+  private decodeResultCodes(
+    result: xdr.TransactionResult
+  ): TransactionResultCodes {
+    const txResult = result.result();
+    const codes: TransactionResultCodes = {
+      transaction: txResult.switch().name,
+    };
+
+    try {
+      const opResults = txResult.results();
+      codes.operations = opResults.map((opResult) => {
+        const inner = opResult.tr().value() as {
+          switch?: () => { name: string };
+        };
+        return inner.switch ? inner.switch().name : opResult.switch().name;
+      });
+    } catch {
+      // txFailed 이외의 결과에는 오퍼레이션 결과가 없음
+    }
+
+    return codes;
+  }
+}
+
+/**
+ * 싱글톤 Soroban 클라이언트 인스턴스
+ */
+export const sorobanClient = new SorobanClient();
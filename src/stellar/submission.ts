@@ -0,0 +1,433 @@
+/**
+ * 트랜잭션 제출 파이프라인 (타임바운드 기반 확정 대기 및 안전한 재제출)
+ */
+
+import {
+  FeeBumpTransaction,
+  Horizon,
+  Keypair,
+  Transaction,
+  xdr,
+} from 'stellar-sdk';
+import { stellarClient } from './client';
+import { feeStrategy } from './fees';
+import { sorobanClient } from './soroban';
+import {
+  extractResultCodes,
+  StellarTransactionFailedError,
+  TransactionExpiredError,
+  TransactionTimeoutError,
+} from './errors';
+import type { TransactionResultCodes } from './errors';
+import { fromStroops } from './utils';
+import { log } from '@/utils/logger';
+
+/**
+ * 최종 제출 상태
+ * - success: 원장에 성공으로 포함됨
+ * - failed: 원장에 실패로 포함되었거나 제출 단계에서 거부됨
+ * - expired: 타임바운드가 지나도록 포함되지 않음 (적용되지 않았음이 확정)
+ */
+export type SubmissionStatus = 'success' | 'failed' | 'expired';
+
+/**
+ * 제출 파이프라인 결과 (returnValue는 Soroban 컨트랙트 호출 반환값)
+ */
+export interface SubmissionResult {
+  status: SubmissionStatus;
+  hash: string;
+  ledger?: number;
+  resultXdr?: string;
+  resultCodes?: TransactionResultCodes;
+  returnValue?: xdr.ScVal | undefined;
+  feeCharged: number;
+  feeBumped: boolean;
+  attempts: number;
+}
+
+/**
+ * 트랜잭션 제출 클래스
+ *
+ * Horizon 504나 네트워크 오류로 결과를 알 수 없으면 해시로 조회하며 타임바운드 만료까지 기다린다.
+ * 대기 중 재제출은 같은 서명 트랜잭션(또는 같은 내부 트랜잭션의 fee-bump)만 사용하므로
+ * 시퀀스 번호가 같아 최대 한 번만 적용된다.
+ * Soroban 트랜잭션은 Soroban RPC로 전송/확정하고 같은 최종 상태로 변환한다.
+ */
+export class TransactionSubmitter {
+  private readonly POLL_INTERVAL_MS = 2000;
+  private readonly RESUBMIT_INTERVAL_MS = 10000;
+  private readonly EXPIRY_GRACE_MS = 60000;
+  private readonly MAX_FEE_BUMPS = 2;
+
+  /**
+   * 서명 후 제출하고 최종 상태가 확정될 때까지 대기
+   *
+   * 첫 번째 서명자가 fee-bump 수수료를 지불한다.
+   */
+  async submit(
+    transaction: Transaction,
+    signers: Keypair[]
+  ): Promise<SubmissionResult> {
+    const maxTime = Number(transaction.timeBounds?.maxTime ?? 0);
+    if (!maxTime) {
+      throw new Error('Transaction must have timebounds before submission');
+    }
+
+    if (this.isSorobanTransaction(transaction)) {
+      return this.submitSoroban(transaction, signers);
+    }
+
+    signers.forEach((signer) => {
+      transaction.sign(signer);
+    });
+
+    const hash = transaction.hash().toString('hex');
+    const feeSource = signers[0];
+    let envelope: Transaction | FeeBumpTransaction = transaction;
+    let baseFee =
+      Number(transaction.fee) / Math.max(transaction.operations.length, 1);
+    let feeBumps = 0;
+    let attempts = 0;
+    let ambiguous = false;
+
+    for (;;) {
+      attempts++;
+
+      try {
+        const response = await stellarClient.submitTransaction(envelope, []);
+        return this.fromResponse(hash, response, feeBumps > 0, attempts);
+      } catch (error) {
+        const resultCodes = extractResultCodes(error);
+
+        // 앞선 제출 결과가 불확실하면 거부 응답(tx_bad_seq 등)도 이미 적용된 결과일 수 있어 조회로 확정
+        if (resultCodes && !ambiguous) {
+          if (
+            resultCodes.transaction === 'tx_insufficient_fee' &&
+            feeSource &&
+            feeBumps < this.MAX_FEE_BUMPS
+          ) {
+            const nextFee = await feeStrategy.getBumpFee(baseFee);
+            if (nextFee !== null) {
+              log.warn('Insufficient fee, resubmitting with fee bump', {
+                hash,
+                baseFee,
+                nextFee,
+              });
+              envelope = this.feeBump(transaction, feeSource, nextFee);
+              baseFee = nextFee;
+              feeBumps++;
+              continue;
+            }
+          }
+
+          return {
+            status:
+              resultCodes.transaction === 'tx_too_late' ? 'expired' : 'failed',
+            hash,
+            resultCodes,
+            feeCharged: 0,
+            feeBumped: feeBumps > 0,
+            attempts,
+          };
+        }
+
+        if (!resultCodes && !this.isOutcomeUnknown(error)) {
+          throw error;
+        }
+
+        ambiguous = true;
+        log.warn('Submission outcome unknown, polling transaction', {
+          hash,
+          attempt: attempts,
+          error: (error as Error).message,
+        });
+      }
+
+      const settled = await this.waitForTransaction(
+        hash,
+        maxTime,
+        feeBumps > 0,
+        attempts
+      );
+      if (settled) {
+        return settled;
+      }
+
+      // 아직 포함되지 않았으면 수수료를 올려 재제출 (같은 내부 트랜잭션이므로 안전)
+      if (feeSource && feeBumps < this.MAX_FEE_BUMPS) {
+        const nextFee = await feeStrategy.getBumpFee(baseFee);
+        if (nextFee !== null) {
+          log.warn('Transaction still pending, resubmitting with fee bump', {
+            hash,
+            baseFee,
+            nextFee,
+          });
+          envelope = this.feeBump(transaction, feeSource, nextFee);
+          baseFee = nextFee;
+          feeBumps++;
+        }
+      }
+    }
+  }
+
+  /**
+   * Soroban 트랜잭션 제출 (리소스 수수료가 시뮬레이션으로 정해지므로 fee-bump 없음)
+   *
+   * 원장 실패와 만료는 에러 대신 최종 상태로 반환한다.
+   */
+  private async submitSoroban(
+    transaction: Transaction,
+    signers: Keypair[]
+  ): Promise<SubmissionResult> {
+    const hash = transaction.hash().toString('hex');
+
+    try {
+      const result = await sorobanClient.submitAndConfirm(transaction, signers);
+      return {
+        status: 'success',
+        hash: result.hash,
+        ledger: result.ledger,
+        resultXdr: result.resultXdr,
+        returnValue: result.returnValue,
+        feeCharged: fromStroops(result.feeCharged),
+        feeBumped: false,
+        attempts: 1,
+      };
+    } catch (error) {
+      if (error instanceof TransactionExpiredError) {
+        return {
+          status: 'expired',
+          hash,
+          feeCharged: 0,
+          feeBumped: false,
+          attempts: 1,
+        };
+      }
+
+      if (error instanceof StellarTransactionFailedError) {
+        const result: SubmissionResult = {
+          status: 'failed',
+          hash,
+          feeCharged: 0,
+          feeBumped: false,
+          attempts: 1,
+        };
+        const resultCodes = error.details?.resultCodes as
+          TransactionResultCodes | undefined;
+        if (resultCodes) {
+          result.resultCodes = resultCodes;
+        }
+        return result;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * 컨트랙트 호출(Soroban 리소스 데이터 포함) 트랜잭션인지 확인
+   */
+  private isSorobanTransaction(transaction: Transaction): boolean {
+    return transaction.operations.some(
+      (operation) =>
+        operation.type === 'invokeHostFunction' ||
+        operation.type === 'extendFootprintTtl' ||
+        operation.type === 'restoreFootprint'
+    );
+  }
+
+  /**
+   * 해시 조회로 결과 확정 대기 (재제출 주기 동안 미확정이면 null)
+   *
+   * 원장 마감 시각을 먼저 읽고 트랜잭션을 조회하므로, 마감 시각이 타임바운드를 넘었는데도
+   * 조회되지 않으면 이후에 포함될 수 없음이 확정된다.
+   */
+  private async waitForTransaction(
+    hash: string,
+    maxTime: number,
+    feeBumped: boolean,
+    attempts: number
+  ): Promise<SubmissionResult | null> {
+    const resubmitAt = Date.now() + this.RESUBMIT_INTERVAL_MS;
+
+    while (Date.now() < resubmitAt) {
+      await this.sleep(this.POLL_INTERVAL_MS);
+
+      try {
+        const closeTime = await stellarClient.getLatestLedgerCloseTime();
+        const record = await stellarClient.getTransaction(hash);
+
+        if (record) {
+          return this.fromRecord(hash, record, feeBumped, attempts);
+        }
+
+        if (closeTime > maxTime) {
+          log.warn('Transaction expired without being applied', {
+            hash,
+            maxTime,
+          });
+          return {
+            status: 'expired',
+            hash,
+            feeCharged: 0,
+            feeBumped,
+            attempts,
+          };
+        }
+      } catch (error) {
+        log.debug('Transaction status lookup failed', {
+          hash,
+          error: (error as Error).message,
+        });
+      }
+
+      if (Date.now() > maxTime * 1000 + this.EXPIRY_GRACE_MS) {
+        throw new TransactionTimeoutError(hash, Date.now() - maxTime * 1000);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 결과를 알 수 없는 제출 실패인지 확인 (게이트웨이 타임아웃, 5xx, 응답 없음)
+   */
+  private isOutcomeUnknown(error: unknown): boolean {
+    const status = (error as { response?: { status?: number } } | undefined)
+      ?.response?.status;
+    return status === undefined || status === 504 || status >= 500;
+  }
+
+  /**
+   * 같은 내부 트랜잭션을 더 높은 수수료로 감싸기
+   */
+  private feeBump(
+    transaction: Transaction,
+    feeSource: Keypair,
+    baseFee: number
+  ): FeeBumpTransaction {
+    const feeBump = stellarClient.buildFeeBumpTransaction(
+      transaction,
+      feeSource,
+      baseFee
+    );
+    feeBump.sign(feeSource);
+    return feeBump;
+  }
+
+  /**
+   * 제출 응답을 결과로 변환
+   */
+  private fromResponse(
+    hash: string,
+    response: Horizon.HorizonApi.SubmitTransactionResponse,
+    feeBumped: boolean,
+    attempts: number
+  ): SubmissionResult {
+    return {
+      status: 'success',
+      hash,
+      ledger: response.ledger,
+      resultXdr: response.result_xdr,
+      feeCharged: this.readFeeCharged(response.result_xdr),
+      feeBumped,
+      attempts,
+    };
+  }
+
+  /**
+   * 조회된 트랜잭션 레코드를 결과로 변환
+   */
+  private fromRecord(
+    hash: string,
+    record: Horizon.ServerApi.TransactionRecord,
+    feeBumped: boolean,
+    attempts: number
+  ): SubmissionResult {
+    const result: SubmissionResult = {
+      status: record.successful ? 'success' : 'failed',
+      hash,
+      ledger: record.ledger_attr,
+      resultXdr: record.result_xdr,
+      feeCharged: fromStroops(record.fee_charged),
+      feeBumped,
+      attempts,
+    };
+
+    if (!record.successful) {
+      const resultCodes = this.decodeResultCodes(record.result_xdr);
+      if (resultCodes) {
+        result.resultCodes = resultCodes;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 결과 XDR을 결과 코드로 변환 (fee-bump는 내부 트랜잭션 결과 기준)
+   */
+  private decodeResultCodes(
+    resultXdr: string
+  ): TransactionResultCodes | undefined {
+    try {
+      let txResult:
+        xdr.TransactionResultResult | xdr.InnerTransactionResultResult =
+        xdr.TransactionResult.fromXDR(resultXdr, 'base64').result();
+
+      if (
+        txResult.switch() === xdr.TransactionResultCode.txFeeBumpInnerFailed()
+      ) {
+        txResult = txResult.innerResultPair().result().result();
+      }
+
+      const codes: TransactionResultCodes = {
+        transaction: txResult.switch().name,
+      };
+      try {
+        codes.operations = txResult.results().map((opResult) => {
+          const inner = opResult.tr().value() as {
+            switch?: () => { name: string };
+          };
+          return inner.switch ? inner.switch().name : opResult.switch().name;
+        });
+      } catch {
+        // txFailed 이외의 결과에는 오퍼레이션 결과가 없음
+      }
+
+      return codes;
+    } catch (error) {
+      log.warn('Failed to decode transaction result codes', {
+        error: (error as Error).message,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * 결과 XDR에서 실제 지불 수수료 추출 (XLM)
+   */
+  private readFeeCharged(resultXdr: string): number {
+    try {
+      const result = xdr.TransactionResult.fromXDR(resultXdr, 'base64');
+      return fromStroops(result.feeCharged().toString());
+    } catch (error) {
+      log.warn('Failed to decode fee charged', {
+        error: (error as Error).message,
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * 대기
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * 싱글톤 트랜잭션 제출 인스턴스
+ */
+export const transactionSubmitter = new TransactionSubmitter();
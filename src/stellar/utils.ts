@@ -3,6 +3,7 @@
  */
 
 import { Asset } from 'stellar-sdk';
+import type { Horizon } from 'stellar-sdk';
 import { stellarClient } from './client';
 import { log } from '@/utils/logger';
 import type { StellarBalance, TokenInfo } from '@/types';
@@ -32,7 +33,7 @@ export const KNOWN_TOKENS: Record<string, TokenInfo> = {
  */
 export function symbolToAsset(symbol: string): Asset {
   const tokenInfo = KNOWN_TOKENS[symbol.toUpperCase()];
-  
+
   if (!tokenInfo) {
     throw new Error(`Unknown token symbol: ${symbol}`);
   }
@@ -48,6 +49,45 @@ export function symbolToAsset(symbol: string): Asset {
   return new Asset(tokenInfo.assetCode, tokenInfo.assetIssuer);
 }
 
+/**
+ * Soroban 컨트랙트 주소 형식 확인 (C로 시작하는 StrKey)
+ */
+export function isContractAddress(value: string): boolean {
+  return /^C[A-Z2-7]{55}$/.test(value);
+}
+
+/**
+ * 클래식 자산 없이 Soroban 컨트랙트로만 존재하는 토큰인지 확인
+ */
+export function isContractToken(symbol: string): boolean {
+  const tokenInfo = KNOWN_TOKENS[symbol.toUpperCase()];
+
+  return (
+    !!tokenInfo?.contractAddress &&
+    tokenInfo.symbol !== 'XLM' &&
+    !tokenInfo.assetIssuer
+  );
+}
+
+/**
+ * 토큰의 Soroban 컨트랙트 주소 조회 (클래식 자산은 SAC 주소로 변환)
+ */
+export function getTokenContractAddress(
+  symbol: string,
+  networkPassphrase: string
+): string {
+  if (isContractAddress(symbol)) {
+    return symbol;
+  }
+
+  const tokenInfo = KNOWN_TOKENS[symbol.toUpperCase()];
+  if (tokenInfo?.contractAddress) {
+    return tokenInfo.contractAddress;
+  }
+
+  return symbolToAsset(symbol).contractId(networkPassphrase);
+}
+
 /**
  * Asset 객체를 토큰 심볼로 변환
  */
@@ -70,6 +110,75 @@ export function assetToSymbol(asset: Asset): string {
   return asset.getCode();
 }
 
+/**
+ * 경로 표기용 심볼 변환 (알려지지 않은 자산은 CODE:ISSUER 형식)
+ */
+export function assetToPathSymbol(asset: Asset): string {
+  const symbol = assetToSymbol(asset);
+
+  if (asset.isNative() || isSupportedToken(symbol)) {
+    return symbol;
+  }
+
+  return `${asset.getCode()}:${asset.getIssuer()}`;
+}
+
+/**
+ * 경로 표기용 심볼을 Asset 객체로 변환
+ */
+export function pathSymbolToAsset(symbol: string): Asset {
+  const [code, issuer] = symbol.split(':');
+
+  if (code && issuer) {
+    return new Asset(code, issuer);
+  }
+
+  return symbolToAsset(symbol);
+}
+
+/**
+ * Horizon 응답의 자산 필드를 토큰 심볼로 변환
+ */
+export function assetFieldsToSymbol(
+  assetType: string,
+  assetCode?: string,
+  assetIssuer?: string
+): string {
+  if (assetType === 'native') {
+    return 'XLM';
+  }
+
+  if (!assetCode || !assetIssuer) {
+    return assetCode || assetType;
+  }
+
+  return assetToSymbol(new Asset(assetCode, assetIssuer));
+}
+
+/**
+ * 계정 잔액 입금/차감 이펙트
+ *
+ * SDK 타입에는 account_debited의 자산 필드가 빠져 있어 Horizon 응답 형식대로 보완한다.
+ */
+export type BalanceEffectRecord = Horizon.ServerApi.EffectRecord & {
+  type: 'account_credited' | 'account_debited';
+  amount: string;
+  asset_type: string;
+  asset_code?: string;
+  asset_issuer?: string;
+};
+
+/**
+ * 이펙트가 계정 잔액 입금/차감인지 확인
+ */
+export function isBalanceEffect(
+  effect: Horizon.ServerApi.EffectRecord
+): effect is BalanceEffectRecord {
+  return (
+    effect.type === 'account_credited' || effect.type === 'account_debited'
+  );
+}
+
 /**
  * 토큰 정보 조회
  */
@@ -83,12 +192,12 @@ export function getTokenInfo(symbol: string): TokenInfo | null {
 export function formatBalance(balance: string, decimals: number = 7): string {
   const num = parseFloat(balance);
   if (num === 0) return '0';
-  
+
   // 매우 작은 수의 경우 과학적 표기법 방지
   if (num < 0.0000001) {
     return num.toFixed(decimals);
   }
-  
+
   // 일반적인 경우
   return num.toLocaleString('en-US', {
     minimumFractionDigits: 0,
@@ -101,14 +210,54 @@ export function formatBalance(balance: string, decimals: number = 7): string {
  */
 export function parseBalance(balance: string): number {
   const num = parseFloat(balance);
-  
+
   if (isNaN(num) || num < 0) {
     throw new Error(`Invalid balance: ${balance}`);
   }
-  
+
   return num;
 }
 
+/**
+ * 숫자를 Stellar 오퍼레이션 수량 문자열로 변환 (소수점 7자리, 내림)
+ */
+export function toStellarAmount(amount: number): string {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  // 부동소수점 오차로 1 stroop이 깎이지 않도록 보정
+  return (Math.floor(amount * 1e7 + 1e-6) / 1e7).toFixed(7);
+}
+
+/**
+ * stroop 단위 정수를 토큰 수량으로 변환
+ */
+export function fromStroops(stroops: string | number | bigint): number {
+  return Number(stroops.toString()) / 1e7;
+}
+
+/**
+ * 토큰 수량을 컨트랙트 정수 단위(i128)로 변환 (내림)
+ */
+export function toContractAmount(amount: number, decimals: number = 7): bigint {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  return BigInt(Math.floor(amount * 10 ** decimals + 1e-6));
+}
+
+/**
+ * 컨트랙트 정수 단위를 토큰 수량으로 변환
+ */
+export function fromContractAmount(
+  amount: bigint,
+  decimals: number = 7
+): number {
+  return Number(amount) / 10 ** decimals;
+}
+
 /**
  * 두 잔액을 비교 (a >= b)
  */
@@ -122,13 +271,13 @@ export function compareBalances(a: string, b: string): boolean {
 export function subtractBalance(balance: string, amount: string): string {
   const balanceNum = parseBalance(balance);
   const amountNum = parseBalance(amount);
-  
+
   const result = balanceNum - amountNum;
-  
+
   if (result < 0) {
     throw new Error('Insufficient balance for operation');
   }
-  
+
   return result.toString();
 }
 
@@ -172,13 +321,13 @@ export async function hasTrustline(
 
     const balances = await stellarClient.getBalances(publicKey);
     const tokenInfo = KNOWN_TOKENS[symbol.toUpperCase()];
-    
+
     if (!tokenInfo) {
       return false;
     }
 
     return balances.some(
-      balance =>
+      (balance) =>
         balance.assetCode === tokenInfo.assetCode &&
         balance.assetIssuer === tokenInfo.assetIssuer
     );
@@ -200,9 +349,9 @@ export async function getTokenBalanceInfo(
 ): Promise<StellarBalance | null> {
   try {
     const balances = await stellarClient.getBalances(publicKey);
-    
+
     if (symbol.toUpperCase() === 'XLM') {
-      return balances.find(b => b.assetType === 'native') || null;
+      return balances.find((b) => b.assetType === 'native') || null;
     }
 
     const tokenInfo = KNOWN_TOKENS[symbol.toUpperCase()];
@@ -212,7 +361,7 @@ export async function getTokenBalanceInfo(
 
     return (
       balances.find(
-        balance =>
+        (balance) =>
           balance.assetCode === tokenInfo.assetCode &&
           balance.assetIssuer === tokenInfo.assetIssuer
       ) || null
@@ -233,7 +382,7 @@ export function shortenAddress(address: string, length: number = 8): string {
   if (address.length <= length * 2) {
     return address;
   }
-  
+
   return `${address.slice(0, length)}...${address.slice(-length)}`;
 }
 
@@ -250,8 +399,8 @@ export function isValidStellarAddress(address: string): boolean {
 export function calculateMinimumBalance(trustlines: number = 0): number {
   const BASE_RESERVE = 0.5; // XLM
   const TRUSTLINE_RESERVE = 0.5; // XLM per trustline
-  
-  return BASE_RESERVE + (trustlines * TRUSTLINE_RESERVE);
+
+  return BASE_RESERVE + trustlines * TRUSTLINE_RESERVE;
 }
 
 /**
@@ -264,7 +413,7 @@ export function calculateAvailableXLM(
   const totalBalance = parseBalance(balance);
   const minimumBalance = calculateMinimumBalance(trustlines);
   const available = Math.max(0, totalBalance - minimumBalance);
-  
+
   return available.toString();
 }
 
@@ -278,13 +427,16 @@ export function formatTokenPair(fromToken: string, toToken: string): string {
 /**
  * 토큰 쌍 문자열을 파싱
  */
-export function parseTokenPair(pair: string): { fromToken: string; toToken: string } {
+export function parseTokenPair(pair: string): {
+  fromToken: string;
+  toToken: string;
+} {
   const [fromToken, toToken] = pair.split('/');
-  
+
   if (!fromToken || !toToken) {
     throw new Error(`Invalid token pair format: ${pair}`);
   }
-  
+
   return {
     fromToken: fromToken.toUpperCase(),
     toToken: toToken.toUpperCase(),
@@ -308,10 +460,14 @@ export function isSupportedToken(symbol: string): boolean {
 /**
  * 트랜잭션 해시를 Stellar Explorer URL로 변환
  */
-export function getExplorerUrl(txHash: string, network: 'testnet' | 'mainnet' = 'testnet'): string {
-  const baseUrl = network === 'testnet' 
-    ? 'https://stellar.expert/explorer/testnet'
-    : 'https://stellar.expert/explorer/public';
-  
+export function getExplorerUrl(
+  txHash: string,
+  network: 'testnet' | 'mainnet' = 'testnet'
+): string {
+  const baseUrl =
+    network === 'testnet'
+      ? 'https://stellar.expert/explorer/testnet'
+      : 'https://stellar.expert/explorer/public';
+
   return `${baseUrl}/tx/${txHash}`;
-}
\ No newline at end of file
+}
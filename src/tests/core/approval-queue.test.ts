@@ -0,0 +1,228 @@
+/**
+ * ApprovalQueue 테스트 (스왑 서비스와 정책 엔진 모의)
+ */
+
+import { promises as fs } from 'fs';
+import { ApprovalQueue } from '@/core/approval-queue';
+import { swapService } from '@/core/swap-service';
+import { policyEngine } from '@/core/policy-engine';
+import { approvalConfig, storageConfig } from '@/utils/config';
+import type { SwapEstimate, SwapRequest, SwapResult } from '@/types';
+
+jest.mock('@/core/swap-service', () => ({
+  swapService: { executeSwap: jest.fn() },
+}));
+
+jest.mock('@/core/policy-engine', () => ({
+  policyEngine: { valueTrade: jest.fn() },
+}));
+
+const mockedSwapService = jest.mocked(swapService);
+const mockedPolicyEngine = jest.mocked(policyEngine);
+
+const ACCOUNT = 'GACCOUNT';
+
+const request: SwapRequest = {
+  fromToken: 'XLM',
+  toToken: 'USDC',
+  amount: 50000,
+  slippage: 0.5,
+};
+
+const estimate: SwapEstimate = {
+  fromToken: 'XLM',
+  toToken: 'USDC',
+  mode: 'exactIn',
+  fromAmount: 50000,
+  toAmount: 5000,
+  priceImpact: 0.3,
+  fee: 0,
+  path: [],
+};
+
+const filled: SwapResult = {
+  success: true,
+  transactionHash: 'abc123',
+  fromToken: 'XLM',
+  toToken: 'USDC',
+  fromAmount: 50000,
+  toAmount: 5000,
+  fee: 0,
+  timestamp: new Date().toISOString(),
+};
+
+/**
+ * 테스트에서 직접 완료시키는 Promise
+ */
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe('ApprovalQueue', () => {
+  let queue: ApprovalQueue;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    await fs.rm(storageConfig.dataDir, { recursive: true, force: true });
+    approvalConfig.thresholdUsd = 1000;
+    approvalConfig.ttlMinutes = 30;
+    queue = new ApprovalQueue();
+  });
+
+  afterEach(() => {
+    approvalConfig.thresholdUsd = undefined;
+    jest.useRealTimers();
+  });
+
+  /**
+   * 승인 후 백그라운드 실행 큐가 빌 때까지 대기
+   */
+  async function approveAndRun(id: string): Promise<void> {
+    await queue.approve(id, 'operator');
+    await queue['executionQueue'];
+  }
+
+  describe('check', () => {
+    it('requires approval above the threshold or without a USD value', async () => {
+      const trade = {
+        fromToken: 'XLM',
+        toToken: 'USDC',
+        fromAmount: 1,
+        toAmount: 1,
+      };
+
+      mockedPolicyEngine.valueTrade.mockResolvedValue(999);
+      expect(await queue.check([trade])).toEqual({
+        required: false,
+        usdValue: 999,
+      });
+
+      mockedPolicyEngine.valueTrade.mockResolvedValue(600);
+      expect(await queue.check([trade, trade])).toEqual({
+        required: true,
+        usdValue: 1200,
+      });
+
+      mockedPolicyEngine.valueTrade.mockResolvedValue(undefined);
+      expect(await queue.check([trade])).toEqual({ required: true });
+    });
+
+    it('never requires approval when the threshold is unset', async () => {
+      approvalConfig.thresholdUsd = undefined;
+
+      expect(queue.isEnabled()).toBe(false);
+      expect(
+        await queue.check([
+          { fromToken: 'XLM', toToken: 'USDC', fromAmount: 1, toAmount: 1 },
+        ])
+      ).toEqual({ required: false });
+    });
+  });
+
+  it('executes an approved swap with the approved estimate', async () => {
+    const approval = await queue.park(request, ACCOUNT, estimate, 5000);
+    mockedSwapService.executeSwap.mockImplementation(async () => {
+      // 실행 중에만 승인 상태로 보인다
+      expect(queue.isApproved(approval.id)).toBe(true);
+      return filled;
+    });
+
+    await approveAndRun(approval.id);
+
+    expect(mockedSwapService.executeSwap).toHaveBeenCalledWith(request, {
+      approvalId: approval.id,
+      approvedEstimate: estimate,
+    });
+    expect(await queue.getApproval(approval.id)).toMatchObject({
+      status: 'executed',
+      operator: 'operator',
+      result: filled,
+    });
+    expect(queue.isApproved(approval.id)).toBe(false);
+  });
+
+  it('expires pending approvals past their TTL', async () => {
+    const approval = await queue.park(request, ACCOUNT, estimate, 5000);
+    jest.setSystemTime(Date.now() + 31 * 60 * 1000);
+
+    expect((await queue.getApproval(approval.id))?.status).toBe('expired');
+    await expect(queue.approve(approval.id, 'operator')).rejects.toThrow(
+      /already expired/
+    );
+  });
+
+  it('does not execute an approval that expired while queued', async () => {
+    const earlier = await queue.park(request, ACCOUNT, estimate, 5000);
+    const approval = await queue.park(request, ACCOUNT, estimate, 5000);
+    const running = deferred<SwapResult>();
+    mockedSwapService.executeSwap.mockReturnValueOnce(running.promise);
+
+    await queue.approve(earlier.id, 'operator');
+    await queue.approve(approval.id, 'operator');
+    // 앞선 실행이 유효 시간을 넘겨 끝나는 경우
+    jest.setSystemTime(Date.parse(approval.expiresAt) + 1000);
+    running.resolve(filled);
+    await queue['executionQueue'];
+
+    expect(mockedSwapService.executeSwap).toHaveBeenCalledTimes(1);
+    expect(await queue.getApproval(approval.id)).toMatchObject({
+      status: 'expired',
+      reason: 'Approval expired before the swap could execute',
+    });
+  });
+
+  it('records a rejection without executing', async () => {
+    const approval = await queue.park(request, ACCOUNT, estimate);
+
+    await queue.reject(approval.id, 'operator', 'too large');
+
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+    expect(await queue.getApproval(approval.id)).toMatchObject({
+      status: 'rejected',
+      reason: 'too large',
+    });
+    await expect(queue.approve(approval.id, 'operator')).rejects.toThrow(
+      /already rejected/
+    );
+  });
+
+  it('does not re-run a swap interrupted by a restart', async () => {
+    const approval = await queue.park(request, ACCOUNT, estimate, 5000);
+    mockedSwapService.executeSwap.mockReturnValue(
+      deferred<SwapResult>().promise
+    );
+    await queue.approve(approval.id, 'operator');
+
+    const restarted = new ApprovalQueue();
+
+    expect(await restarted.getApproval(approval.id)).toMatchObject({
+      status: 'failed',
+      reason: expect.stringMatching(/^Server restarted/),
+    });
+  });
+
+  it('fails approvals for external signers after a restart', async () => {
+    const approval = await queue.park(
+      { ...request, accountSecret: 'SSECRET' },
+      ACCOUNT,
+      estimate,
+      5000
+    );
+    expect(approval.request).not.toHaveProperty('accountSecret');
+
+    const restarted = new ApprovalQueue();
+    await restarted.approve(approval.id, 'operator');
+    await restarted['executionQueue'];
+
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+    expect(await restarted.getApproval(approval.id)).toMatchObject({
+      status: 'failed',
+      reason: 'Signer secret is not available after restart',
+    });
+  });
+});
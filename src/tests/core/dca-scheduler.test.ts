@@ -0,0 +1,168 @@
+/**
+ * DcaScheduler 테스트 (스왑 서비스 모의)
+ */
+
+import { promises as fs } from 'fs';
+import { Keypair } from 'stellar-sdk';
+import { DcaScheduler } from '@/core/dca-scheduler';
+import { swapService } from '@/core/swap-service';
+import { storageConfig } from '@/utils/config';
+import type { SwapEstimate, SwapResult } from '@/types';
+
+jest.mock('@/core/swap-service', () => ({
+  swapService: {
+    estimateSwap: jest.fn(),
+    executeSwap: jest.fn(),
+    resolveSubmittedSwap: jest.fn(),
+    rejectIfScheduledApprovalRequired: jest.fn(),
+  },
+}));
+
+const mockedSwapService = jest.mocked(swapService);
+
+const estimate: SwapEstimate = {
+  fromToken: 'USDC',
+  toToken: 'XLM',
+  mode: 'exactIn',
+  fromAmount: 10,
+  toAmount: 100,
+  priceImpact: 0.1,
+  fee: 0,
+  path: [],
+};
+
+const filled: SwapResult = {
+  success: true,
+  transactionHash: 'abc123',
+  fromToken: 'USDC',
+  toToken: 'XLM',
+  fromAmount: 10,
+  toAmount: 100,
+  actualSent: 10,
+  actualReceived: 80,
+  fee: 0,
+  timestamp: new Date().toISOString(),
+};
+
+/**
+ * 테스트에서 직접 완료시키는 Promise
+ */
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe('DcaScheduler', () => {
+  let scheduler: DcaScheduler;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    await fs.rm(storageConfig.dataDir, { recursive: true, force: true });
+    scheduler = new DcaScheduler();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  function createPlan(options: { maxPrice?: number } = {}) {
+    return scheduler.createPlan(
+      {
+        fromToken: 'USDC',
+        toToken: 'XLM',
+        amount: 10,
+        slippage: 0.5,
+        accountSecret: Keypair.random().secret(),
+      },
+      { schedule: '0 0 * * *', ...options }
+    );
+  }
+
+  it('executes a run and tracks the average entry price', async () => {
+    const plan = await createPlan();
+    mockedSwapService.estimateSwap.mockResolvedValue(estimate);
+    mockedSwapService.executeSwap.mockResolvedValue(filled);
+
+    await scheduler['runPlan'](plan);
+
+    expect(mockedSwapService.executeSwap).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: 'exactIn', amount: 10 }),
+      expect.objectContaining({ scheduled: true })
+    );
+    expect(plan.fills).toEqual([
+      expect.objectContaining({
+        status: 'executed',
+        fromAmount: 10,
+        toAmount: 80,
+        transactionHash: 'abc123',
+      }),
+    ]);
+    expect(plan.executedCount).toBe(1);
+    expect(scheduler.getAverageEntryPrice(plan)).toBe(0.125);
+    expect(plan.nextRunAt).toBeDefined();
+  });
+
+  it('skips runs quoted above the maximum price', async () => {
+    const plan = await createPlan({ maxPrice: 0.05 });
+    mockedSwapService.estimateSwap.mockResolvedValue(estimate);
+
+    await scheduler['runPlan'](plan);
+
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+    expect(plan.fills).toEqual([
+      expect.objectContaining({ status: 'skipped', price: 0.1 }),
+    ]);
+    expect(plan.status).toBe('active');
+  });
+
+  it('does not swap or reschedule a plan paused during the quote', async () => {
+    const plan = await createPlan();
+    const quote = deferred<SwapEstimate>();
+    mockedSwapService.estimateSwap.mockReturnValue(quote.promise);
+
+    const run = scheduler['runPlan'](plan);
+    await scheduler.pausePlan(plan.id);
+    quote.resolve(estimate);
+    await run;
+
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+    expect(plan.status).toBe('paused');
+    expect(plan.nextRunAt).toBeUndefined();
+    expect(plan.fills).toEqual([]);
+  });
+
+  it('does not swap or reschedule a plan deleted during the quote', async () => {
+    const plan = await createPlan();
+    const quote = deferred<SwapEstimate>();
+    mockedSwapService.estimateSwap.mockReturnValue(quote.promise);
+
+    const run = scheduler['runPlan'](plan);
+    await scheduler.deletePlan(plan.id);
+    quote.resolve(estimate);
+    await run;
+
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+    expect(plan.status).toBe('deleted');
+    expect(plan.nextRunAt).toBeUndefined();
+    expect(await scheduler.listPlans()).toEqual([]);
+  });
+
+  it('fails the run instead of signing with the default account when the signer is gone', async () => {
+    const plan = await createPlan();
+    scheduler['signers'].delete(plan.id);
+
+    await scheduler['runPlan'](plan);
+
+    expect(mockedSwapService.estimateSwap).not.toHaveBeenCalled();
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+    expect(plan.fills).toEqual([
+      expect.objectContaining({
+        status: 'failed',
+        reason: expect.stringMatching(/Signer secret is not available/),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * LimitOrderService 테스트 (스왑/가격 서비스 모의)
+ */
+
+import { promises as fs } from 'fs';
+import { Keypair } from 'stellar-sdk';
+import { LimitOrderService } from '@/core/limit-order-service';
+import type { LimitOrderOptions } from '@/core/limit-order-service';
+import { swapService } from '@/core/swap-service';
+import { priceService } from '@/core/price-service';
+import { storageConfig } from '@/utils/config';
+import type { LimitOrder, SwapEstimate, TokenPrice } from '@/types';
+
+jest.mock('@/core/swap-service', () => ({
+  swapService: {
+    estimateSwap: jest.fn(),
+    executeSwap: jest.fn(),
+    resolveSubmittedSwap: jest.fn(),
+    rejectIfScheduledApprovalRequired: jest.fn(),
+  },
+}));
+
+jest.mock('@/core/price-service', () => ({
+  priceService: { getTokenPairPrice: jest.fn() },
+}));
+
+const mockedSwapService = jest.mocked(swapService);
+const mockedPriceService = jest.mocked(priceService);
+
+/**
+ * XLM 10개를 보내 USDC toAmount개를 받는 견적
+ */
+function quote(toAmount: number): SwapEstimate {
+  return {
+    fromToken: 'XLM',
+    toToken: 'USDC',
+    mode: 'exactIn',
+    fromAmount: 10,
+    toAmount,
+    priceImpact: 0.1,
+    fee: 0,
+    path: [],
+  };
+}
+
+function marketPrice(price: number): void {
+  mockedPriceService.getTokenPairPrice.mockResolvedValue({
+    price,
+  } as TokenPrice);
+}
+
+/**
+ * 테스트에서 직접 완료시키는 Promise
+ */
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe('LimitOrderService', () => {
+  let service: LimitOrderService;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    // 가격 감시 타이머는 발화시키지 않고 테스트가 checkOrders를 직접 호출한다
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    await fs.rm(storageConfig.dataDir, { recursive: true, force: true });
+    service = new LimitOrderService();
+  });
+
+  afterEach(() => {
+    service.stop();
+    jest.useRealTimers();
+  });
+
+  function placeOrder(
+    options: Partial<LimitOrderOptions> = {}
+  ): Promise<LimitOrder> {
+    return service.placeOrder(
+      {
+        fromToken: 'XLM',
+        toToken: 'USDC',
+        amount: 10,
+        slippage: 0.5,
+        accountSecret: Keypair.random().secret(),
+      },
+      { targetPrice: 0.12, ...options }
+    );
+  }
+
+  it('fills once both the market price and the quote reach the target', async () => {
+    const order = await placeOrder();
+    marketPrice(0.125);
+    mockedSwapService.estimateSwap.mockResolvedValue(quote(1.21));
+    mockedSwapService.executeSwap.mockResolvedValue({
+      success: true,
+      transactionHash: 'abc123',
+      fromToken: 'XLM',
+      toToken: 'USDC',
+      fromAmount: 10,
+      toAmount: 1.21,
+      fee: 0,
+      timestamp: new Date().toISOString(),
+    });
+
+    await service.checkOrders();
+
+    expect(mockedSwapService.executeSwap).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: 'exactIn', amount: 10 }),
+      expect.objectContaining({ scheduled: true })
+    );
+    expect(order).toMatchObject({
+      status: 'filled',
+      triggeredPrice: 0.125,
+      lastPrice: 0.125,
+    });
+  });
+
+  it('keeps the order open when the market price misses the target', async () => {
+    const order = await placeOrder();
+    marketPrice(0.11);
+
+    await service.checkOrders();
+
+    expect(mockedSwapService.estimateSwap).not.toHaveBeenCalled();
+    expect(order.status).toBe('open');
+  });
+
+  it('keeps the order open when the quote misses the target', async () => {
+    const order = await placeOrder();
+    marketPrice(0.125);
+    mockedSwapService.estimateSwap.mockResolvedValue(quote(1.1));
+
+    await service.checkOrders();
+
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+    expect(order.status).toBe('open');
+  });
+
+  it('triggers lte orders at or below the target', async () => {
+    const order = await placeOrder({ condition: 'lte', targetPrice: 0.1 });
+    marketPrice(0.1);
+    mockedSwapService.estimateSwap.mockResolvedValue(quote(0.9));
+    mockedSwapService.executeSwap.mockResolvedValue({
+      success: false,
+      fromToken: 'XLM',
+      toToken: 'USDC',
+      fromAmount: 10,
+      toAmount: 0,
+      fee: 0,
+      timestamp: new Date().toISOString(),
+      error: 'op_under_dest_min',
+    });
+
+    await service.checkOrders();
+
+    expect(order).toMatchObject({
+      status: 'failed',
+      reason: 'op_under_dest_min',
+    });
+  });
+
+  it('does not execute an order cancelled during the quote', async () => {
+    const order = await placeOrder();
+    marketPrice(0.125);
+    const pendingQuote = deferred<SwapEstimate>();
+    mockedSwapService.estimateSwap.mockReturnValue(pendingQuote.promise);
+
+    const check = service.checkOrders();
+    // 견적 요청이 나갈 때까지 진행
+    while (mockedSwapService.estimateSwap.mock.calls.length === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    await service.cancelOrder(order.id);
+    pendingQuote.resolve(quote(1.21));
+    await check;
+
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+    expect(order.status).toBe('cancelled');
+  });
+
+  it('expires orders past their expiry without fetching prices', async () => {
+    const order = await placeOrder({ expiresInMinutes: 1 });
+    jest.setSystemTime(Date.now() + 2 * 60 * 1000);
+
+    await service.checkOrders();
+
+    expect(mockedPriceService.getTokenPairPrice).not.toHaveBeenCalled();
+    expect(order.status).toBe('expired');
+  });
+});
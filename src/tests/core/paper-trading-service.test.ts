@@ -0,0 +1,136 @@
+/**
+ * PaperTradingService 테스트 (임시 데이터 디렉토리, 고정 견적 파일 사용)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PaperTradingService } from '@/core/paper-trading-service';
+import { StellarInsufficientBalanceError } from '@/stellar/errors';
+import { paperTradingConfig, storageConfig } from '@/utils/config';
+import type { SwapEstimate, SwapRequest } from '@/types';
+
+const ACCOUNT = 'GACCOUNT';
+
+const request: SwapRequest = {
+  fromToken: 'XLM',
+  toToken: 'USDC',
+  amount: 1000,
+  slippage: 0.5,
+};
+
+function estimate(fromAmount: number, toAmount: number): SwapEstimate {
+  return {
+    fromToken: 'XLM',
+    toToken: 'USDC',
+    mode: 'exactIn',
+    fromAmount,
+    toAmount,
+    priceImpact: 0,
+    fee: 0,
+    path: [],
+  };
+}
+
+describe('PaperTradingService', () => {
+  let service: PaperTradingService;
+
+  beforeEach(async () => {
+    await fs.rm(storageConfig.dataDir, { recursive: true, force: true });
+    paperTradingConfig.enabled = true;
+    paperTradingConfig.startingBalances = { XLM: 10000, USDC: 1000 };
+    paperTradingConfig.quotesFile = undefined;
+    service = new PaperTradingService();
+  });
+
+  afterEach(() => {
+    paperTradingConfig.enabled = false;
+  });
+
+  it('fills at the estimate and persists the virtual balances', async () => {
+    const result = await service.fill(ACCOUNT, request, estimate(1000, 99.5));
+
+    expect(result).toMatchObject({
+      success: true,
+      simulated: true,
+      actualSent: 1000,
+      actualReceived: 99.5,
+      networkFee: 0,
+    });
+    expect(result).not.toHaveProperty('account');
+    expect(await service.getBalances(ACCOUNT)).toEqual({
+      XLM: 9000,
+      USDC: 1099.5,
+    });
+
+    const reloaded = new PaperTradingService();
+    expect(await reloaded.getBalances(ACCOUNT)).toEqual({
+      XLM: 9000,
+      USDC: 1099.5,
+    });
+  });
+
+  it('refuses fills above the virtual balance', async () => {
+    await expect(
+      service.fill(ACCOUNT, request, estimate(10000.5, 1000))
+    ).rejects.toBeInstanceOf(StellarInsufficientBalanceError);
+    expect((await service.getBalances(ACCOUNT)).XLM).toBe(10000);
+  });
+
+  it('pages fills newest first by cursor', async () => {
+    for (const fromAmount of [100, 200, 300]) {
+      await service.fill(ACCOUNT, request, estimate(fromAmount, 10));
+    }
+
+    const first = await service.getSwapHistory(ACCOUNT, 2);
+    expect(first.data.map((trade) => trade.fromAmount)).toEqual([300, 200]);
+    expect(first.pagination.nextCursor).toBeDefined();
+
+    const second = await service.getSwapHistory(
+      ACCOUNT,
+      2,
+      first.pagination.nextCursor
+    );
+    expect(second.data.map((trade) => trade.fromAmount)).toEqual([100]);
+    expect(second.pagination.nextCursor).toBeUndefined();
+
+    await expect(
+      service.getSwapHistory(ACCOUNT, 2, 'paper_unknown')
+    ).rejects.toThrow(/Unknown paper trade cursor/);
+  });
+
+  it('resets one account without touching the others', async () => {
+    await service.fill(ACCOUNT, request, estimate(1000, 100));
+    await service.fill('GOTHER', request, estimate(500, 50));
+
+    const [reset] = await service.reset(ACCOUNT);
+
+    expect(reset?.balances).toEqual({ XLM: 10000, USDC: 1000 });
+    expect((await service.getSwapHistory(ACCOUNT)).data).toEqual([]);
+    expect((await service.getBalances('GOTHER')).XLM).toBe(9500);
+    expect((await service.getSwapHistory('GOTHER')).data).toHaveLength(1);
+  });
+
+  it('quotes fixture pairs in both directions only while enabled', async () => {
+    await fs.mkdir(storageConfig.dataDir, { recursive: true });
+    const quotesFile = path.join(storageConfig.dataDir, 'quotes.json');
+    await fs.writeFile(quotesFile, JSON.stringify({ 'usdc/xlm': 8 }), 'utf8');
+    paperTradingConfig.quotesFile = quotesFile;
+
+    expect(
+      await service.getFixtureQuote(
+        { ...request, fromToken: 'USDC', toToken: 'XLM', amount: 10 },
+        'exactIn'
+      )
+    ).toMatchObject({ fromAmount: 10, toAmount: 80, priceImpact: 0 });
+    expect(await service.getFixtureQuote(request, 'exactOut')).toMatchObject({
+      fromAmount: 8000,
+      toAmount: 1000,
+    });
+    expect(
+      await service.getFixtureQuote({ ...request, toToken: 'AQUA' }, 'exactIn')
+    ).toBeNull();
+
+    service.setEnabled(false);
+    expect(await service.getFixtureQuote(request, 'exactIn')).toBeNull();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * PolicyEngine 테스트 (가격 서비스 모의, 정책 파일은 임시 디렉토리에 작성)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Keypair } from 'stellar-sdk';
+import { PolicyEngine } from '@/core/policy-engine';
+import { PolicyViolationError } from '@/core/errors';
+import { priceService } from '@/core/price-service';
+import { spendTracker } from '@/core/spend-tracker';
+import { policyConfig, spendLimitConfig, storageConfig } from '@/utils/config';
+import type { PolicyTrade, TokenPrice } from '@/types';
+
+jest.mock('@/core/price-service', () => ({
+  priceService: { getTokenPrice: jest.fn() },
+}));
+
+const mockedPriceService = jest.mocked(priceService);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const USD_PRICES: Record<string, number> = { XLM: 0.1, USDC: 1 };
+
+/**
+ * XLM을 팔아 USDC를 받는 거래 (usd 달러 어치)
+ */
+function sellXlm(usd: number): PolicyTrade {
+  return {
+    fromToken: 'XLM',
+    toToken: 'USDC',
+    fromAmount: usd * 10,
+    toAmount: usd,
+  };
+}
+
+/**
+ * 정책 파일 작성 후 경로 설정
+ */
+async function writePolicy(name: string, content: string): Promise<void> {
+  await fs.mkdir(storageConfig.dataDir, { recursive: true });
+  const filePath = path.join(storageConfig.dataDir, name);
+  await fs.writeFile(filePath, content, 'utf8');
+  policyConfig.filePath = filePath;
+}
+
+describe('PolicyEngine', () => {
+  let engine: PolicyEngine;
+  let account: string;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedPriceService.getTokenPrice.mockImplementation(async (symbol) => {
+      const priceUsd = USD_PRICES[symbol.toUpperCase()];
+      return priceUsd === undefined ? null : ({ priceUsd } as TokenPrice);
+    });
+    policyConfig.filePath = undefined;
+    engine = new PolicyEngine();
+    // 지출 기록은 싱글톤이므로 테스트마다 새 계정을 쓴다
+    account = Keypair.random().publicKey();
+  });
+
+  describe('spend reservations', () => {
+    beforeEach(() => {
+      spendLimitConfig.dailyUsd = 100;
+    });
+
+    afterEach(() => {
+      spendLimitConfig.dailyUsd = undefined;
+    });
+
+    it('counts a reservation against the remaining daily limit until released', async () => {
+      const first = await engine.reserveSpend(account, [sellXlm(60)]);
+      expect(spendTracker.getSpent({ account }, DAY_MS)).toBe(60);
+
+      await expect(
+        engine.reserveSpend(account, [sellXlm(60)])
+      ).rejects.toMatchObject({
+        violations: [
+          expect.objectContaining({
+            code: 'DAILY_VOLUME_EXCEEDED',
+            limit: 100,
+            actual: 120,
+          }),
+        ],
+      });
+
+      engine.releaseSpend(first);
+      expect(spendTracker.getSpent({ account }, DAY_MS)).toBe(0);
+
+      await expect(
+        engine.reserveSpend(account, [sellXlm(60)])
+      ).resolves.toEqual(expect.any(String));
+    });
+
+    it('lets only one of two concurrent swaps take the same remaining limit', async () => {
+      const outcomes = await Promise.allSettled([
+        engine.reserveSpend(account, [sellXlm(70)]),
+        engine.reserveSpend(account, [sellXlm(70)]),
+      ]);
+
+      expect(outcomes.map((outcome) => outcome.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      expect(spendTracker.getSpent({ account }, DAY_MS)).toBe(70);
+    });
+
+    it('keeps confirmed spend counted', async () => {
+      const reservationId = await engine.reserveSpend(account, [sellXlm(90)]);
+      await engine.confirmSpend(reservationId, 'abc123');
+      engine.releaseSpend(reservationId);
+
+      expect(spendTracker.getSpent({ account }, DAY_MS)).toBe(90);
+      await expect(
+        engine.reserveSpend(account, [sellXlm(20)])
+      ).rejects.toBeInstanceOf(PolicyViolationError);
+    });
+
+    it('sums every trade of a batch against the limit', async () => {
+      await expect(
+        engine.reserveSpend(account, [sellXlm(50), sellXlm(40), sellXlm(20)])
+      ).rejects.toBeInstanceOf(PolicyViolationError);
+      expect(spendTracker.getSpent({ account }, DAY_MS)).toBe(0);
+    });
+  });
+
+  describe('policy rules', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('allows everything without a policy file and skips price lookups', async () => {
+      const decision = await engine.evaluate(account, [sellXlm(1e6)]);
+
+      expect(decision).toMatchObject({ allowed: true, violations: [] });
+      expect(mockedPriceService.getTokenPrice).not.toHaveBeenCalled();
+    });
+
+    it('merges denied tokens from the default and account rules', async () => {
+      await writePolicy(
+        'policy.yaml',
+        [
+          'default:',
+          '  deniedTokens: [aqua]',
+          'accounts:',
+          `  ${account}:`,
+          '    deniedTokens: [usdc]',
+        ].join('\n')
+      );
+
+      const decision = await engine.evaluate(account, [
+        { fromToken: 'AQUA', toToken: 'USDC', fromAmount: 1, toAmount: 1 },
+      ]);
+
+      expect(decision.violations.map((violation) => violation.code)).toEqual([
+        'TOKEN_DENIED',
+        'TOKEN_DENIED',
+      ]);
+    });
+
+    it('accepts allowed pairs in either direction only', async () => {
+      await writePolicy(
+        'policy.json',
+        JSON.stringify({ default: { allowedPairs: ['usdc/xlm'] } })
+      );
+
+      expect((await engine.evaluate(account, [sellXlm(1)])).allowed).toBe(true);
+      expect(
+        await engine.evaluate(account, [
+          { fromToken: 'XLM', toToken: 'AQUA', fromAmount: 1, toAmount: 1 },
+        ])
+      ).toMatchObject({
+        allowed: false,
+        violations: [expect.objectContaining({ code: 'PAIR_NOT_ALLOWED' })],
+      });
+    });
+
+    it('applies token rules to trades on either side of the pair', async () => {
+      await writePolicy(
+        'policy.json',
+        JSON.stringify({ tokens: { usdc: { maxTradeUsd: 50 } } })
+      );
+
+      const decision = await engine.evaluate(account, [sellXlm(80)]);
+
+      expect(decision).toMatchObject({
+        allowed: false,
+        usdValue: 80,
+        violations: [
+          expect.objectContaining({
+            code: 'TRADE_LIMIT_EXCEEDED',
+            scope: 'token',
+            subject: 'USDC',
+            limit: 50,
+          }),
+        ],
+      });
+    });
+
+    it('rejects USD-limited trades without a price', async () => {
+      await writePolicy(
+        'policy.json',
+        JSON.stringify({ default: { maxTradeUsd: 50 } })
+      );
+
+      const decision = await engine.evaluate(account, [
+        { fromToken: 'AQUA', toToken: 'BLND', fromAmount: 1, toAmount: 1 },
+      ]);
+
+      expect(decision.violations).toEqual([
+        expect.objectContaining({ code: 'PRICE_UNAVAILABLE' }),
+      ]);
+    });
+
+    it('evaluates trading windows in UTC including windows past midnight', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      await writePolicy(
+        'policy.json',
+        JSON.stringify({
+          default: { tradingWindows: [{ start: '22:00', end: '06:00' }] },
+        })
+      );
+
+      jest.setSystemTime(new Date('2024-03-10T23:30:00Z'));
+      expect((await engine.evaluate(account, [sellXlm(1)])).allowed).toBe(true);
+
+      jest.setSystemTime(new Date('2024-03-10T12:00:00Z'));
+      expect(await engine.evaluate(account, [sellXlm(1)])).toMatchObject({
+        allowed: false,
+        violations: [
+          expect.objectContaining({ code: 'OUTSIDE_TRADING_WINDOW' }),
+        ],
+      });
+    });
+
+    it('refuses to load a policy with unknown fields', async () => {
+      await writePolicy(
+        'policy.json',
+        JSON.stringify({ default: { maxTradeUSD: 50 } })
+      );
+
+      await expect(engine.load()).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * ProtectiveOrderService 테스트 (스왑/가격/Soroswap 모의)
+ */
+
+import { promises as fs } from 'fs';
+import { Keypair } from 'stellar-sdk';
+import { ProtectiveOrderService } from '@/core/protective-order-service';
+import type { ProtectiveOrderOptions } from '@/core/protective-order-service';
+import { swapService } from '@/core/swap-service';
+import { priceService } from '@/core/price-service';
+import { soroswapClient } from '@/soroswap/client';
+import { storageConfig } from '@/utils/config';
+import type { ProtectiveOrder, SwapResult, TokenPrice } from '@/types';
+
+jest.mock('@/core/swap-service', () => ({
+  swapService: {
+    executeSwap: jest.fn(),
+    resolveSubmittedSwap: jest.fn(),
+    rejectIfScheduledApprovalRequired: jest.fn(),
+  },
+}));
+
+jest.mock('@/core/price-service', () => ({
+  priceService: { getTokenPrice: jest.fn() },
+}));
+
+jest.mock('@/soroswap/client', () => ({
+  soroswapClient: { getPairStats: jest.fn() },
+}));
+
+const mockedSwapService = jest.mocked(swapService);
+const mockedPriceService = jest.mocked(priceService);
+const mockedSoroswapClient = jest.mocked(soroswapClient);
+
+type PairStats = Awaited<ReturnType<typeof soroswapClient.getPairStats>>;
+
+const exitResult: SwapResult = {
+  success: true,
+  transactionHash: 'abc123',
+  fromToken: 'XLM',
+  toToken: 'USDC',
+  fromAmount: 100,
+  toAmount: 9.5,
+  fee: 0,
+  timestamp: new Date().toISOString(),
+};
+
+function liquidity(usd: number): void {
+  mockedSoroswapClient.getPairStats.mockResolvedValue({
+    liquidity: String(usd),
+  } as PairStats);
+}
+
+/**
+ * 테스트에서 직접 완료시키는 Promise
+ */
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe('ProtectiveOrderService', () => {
+  let service: ProtectiveOrderService;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    // 가격 감시 타이머는 발화시키지 않고 테스트가 checkOrders를 직접 호출한다
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    await fs.rm(storageConfig.dataDir, { recursive: true, force: true });
+    service = new ProtectiveOrderService();
+    liquidity(50000);
+    mockedSwapService.executeSwap.mockResolvedValue(exitResult);
+  });
+
+  afterEach(() => {
+    service.stop();
+    jest.useRealTimers();
+  });
+
+  function placeOrder(
+    options: Partial<ProtectiveOrderOptions> = {}
+  ): Promise<ProtectiveOrder> {
+    return service.placeOrder({
+      type: 'stop_loss',
+      token: 'XLM',
+      exitToken: 'USDC',
+      amount: 100,
+      triggerPriceUsd: 0.1,
+      hysteresisPercent: 5,
+      confirmations: 3,
+      accountSecret: Keypair.random().secret(),
+      ...options,
+    });
+  }
+
+  /**
+   * 주어진 USD 가격으로 한 번씩 감시 주기 실행
+   */
+  async function checkAt(...prices: number[]): Promise<void> {
+    for (const priceUsd of prices) {
+      mockedPriceService.getTokenPrice.mockResolvedValueOnce({
+        priceUsd,
+      } as TokenPrice);
+      await service.checkOrders();
+    }
+  }
+
+  it('triggers a stop-loss only after consecutive confirmations', async () => {
+    const order = await placeOrder();
+
+    await checkAt(0.099, 0.098);
+    expect(order.breachCount).toBe(2);
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+
+    await checkAt(0.097);
+    expect(mockedSwapService.executeSwap).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fromToken: 'XLM',
+        toToken: 'USDC',
+        amount: 100,
+        mode: 'exactIn',
+      }),
+      expect.objectContaining({ scheduled: true })
+    );
+    expect(order).toMatchObject({
+      status: 'triggered',
+      triggeredPriceUsd: 0.097,
+      result: exitResult,
+    });
+  });
+
+  it('keeps the breach count while the price stays inside the hysteresis band', async () => {
+    const order = await placeOrder();
+
+    // 임계가 0.1, 5% 구간이면 0.105 이하는 초기화하지 않는다
+    await checkAt(0.099, 0.104, 0.105);
+    expect(order.breachCount).toBe(1);
+
+    await checkAt(0.099);
+    expect(order.breachCount).toBe(2);
+  });
+
+  it('resets the breach count once the price leaves the hysteresis band', async () => {
+    const order = await placeOrder();
+
+    await checkAt(0.099, 0.099, 0.106);
+    expect(order.breachCount).toBe(0);
+
+    await checkAt(0.099);
+    expect(order.breachCount).toBe(1);
+    expect(order.status).toBe('active');
+  });
+
+  it('mirrors the band for take-profit orders', async () => {
+    const order = await placeOrder({
+      type: 'take_profit',
+      triggerPriceUsd: 0.2,
+      confirmations: 2,
+    });
+
+    await checkAt(0.2, 0.191);
+    expect(order.breachCount).toBe(1);
+
+    await checkAt(0.189);
+    expect(order.breachCount).toBe(0);
+
+    await checkAt(0.21, 0.22);
+    expect(order.status).toBe('triggered');
+  });
+
+  it('holds the order back while pool liquidity is below the minimum', async () => {
+    const order = await placeOrder({ confirmations: 1 });
+    liquidity(500);
+
+    await checkAt(0.09);
+
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+    expect(order.status).toBe('active');
+    expect(order.reason).toMatch(/below minimum/);
+  });
+
+  it('does not sell an order cancelled during the liquidity check', async () => {
+    const order = await placeOrder({ confirmations: 1 });
+    const stats = deferred<PairStats>();
+    mockedSoroswapClient.getPairStats.mockReturnValue(stats.promise);
+    mockedPriceService.getTokenPrice.mockResolvedValueOnce({
+      priceUsd: 0.09,
+    } as TokenPrice);
+
+    const check = service.checkOrders();
+    while (mockedSoroswapClient.getPairStats.mock.calls.length === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    await service.cancelOrder(order.id);
+    stats.resolve({ liquidity: '50000' } as PairStats);
+    await check;
+
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+    expect(order.status).toBe('cancelled');
+  });
+
+  it('fails the order when its swap fails', async () => {
+    const order = await placeOrder({ confirmations: 1 });
+    mockedSwapService.executeSwap.mockResolvedValue({
+      ...exitResult,
+      success: false,
+      error: 'op_under_dest_min',
+    });
+
+    await checkAt(0.09);
+
+    expect(order).toMatchObject({
+      status: 'failed',
+      reason: 'op_under_dest_min',
+    });
+  });
+});
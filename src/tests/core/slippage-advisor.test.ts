@@ -0,0 +1,133 @@
+/**
+ * SlippageAdvisor 테스트 (Soroswap 풀 조회 모의)
+ */
+
+import { SlippageAdvisor } from '@/core/slippage-advisor';
+import { soroswapClient } from '@/soroswap/client';
+import type { SoroswapPair } from '@/soroswap/client';
+import { securityConfig } from '@/utils/config';
+import type { SwapEstimate, SwapRequest } from '@/types';
+
+jest.mock('@/soroswap/client', () => ({
+  soroswapClient: { getPool: jest.fn(), getPairStats: jest.fn() },
+}));
+
+const mockedSoroswapClient = jest.mocked(soroswapClient);
+
+type PairStats = Awaited<ReturnType<typeof soroswapClient.getPairStats>>;
+
+const pool = {
+  token0: { symbol: 'XLM' },
+  token1: { symbol: 'USDC' },
+  reserve0: '100000',
+  reserve1: '10000',
+} as SoroswapPair;
+
+function request(overrides: Partial<SwapRequest> = {}): SwapRequest {
+  return {
+    fromToken: 'XLM',
+    toToken: 'USDC',
+    amount: 1000,
+    slippage: 1.0,
+    autoSlippage: true,
+    ...overrides,
+  };
+}
+
+function estimate(overrides: Partial<SwapEstimate> = {}): SwapEstimate {
+  return {
+    fromToken: 'XLM',
+    toToken: 'USDC',
+    mode: 'exactIn',
+    fromAmount: 1000,
+    toAmount: 100,
+    priceImpact: 0.4,
+    fee: 0,
+    path: [],
+    ...overrides,
+  };
+}
+
+describe('SlippageAdvisor', () => {
+  let advisor: SlippageAdvisor;
+  const originalMaxSlippage = securityConfig.maxSlippage;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    securityConfig.maxSlippage = 5;
+    advisor = new SlippageAdvisor();
+    mockedSoroswapClient.getPool.mockResolvedValue(pool);
+    mockedSoroswapClient.getPairStats.mockResolvedValue({
+      volume24h: '50000',
+      liquidity: '100000',
+    } as PairStats);
+  });
+
+  afterEach(() => {
+    securityConfig.maxSlippage = originalMaxSlippage;
+  });
+
+  it('adds price impact, pool share and turnover to the base buffer', async () => {
+    const recommendation = await advisor.recommend(request(), estimate());
+
+    // 0.3 + 0.4 * 0.5 + 1% * 0.5 + 0.5x * 0.25 = 1.125, 0.05 단위 올림
+    expect(recommendation).toMatchObject({
+      slippage: 1.15,
+      applied: false,
+      priceImpact: 0.4,
+      poolShare: 1,
+      turnover24h: 0.5,
+    });
+    expect(recommendation.reasons).toHaveLength(4);
+  });
+
+  it('measures exact-out trades against the output token reserve', async () => {
+    const recommendation = await advisor.recommend(
+      request({ amount: 100, mode: 'exactOut' }),
+      estimate({ mode: 'exactOut', priceImpact: 0 })
+    );
+
+    expect(recommendation.poolShare).toBe(1);
+    expect(recommendation.slippage).toBe(0.95);
+  });
+
+  it('adds a fixed buffer when pool data is unavailable', async () => {
+    mockedSoroswapClient.getPool.mockRejectedValue(new Error('404'));
+    mockedSoroswapClient.getPairStats.mockRejectedValue(new Error('404'));
+
+    const recommendation = await advisor.recommend(
+      request(),
+      estimate({ priceImpact: 0 })
+    );
+
+    expect(recommendation.slippage).toBe(0.8);
+    expect(recommendation).not.toHaveProperty('poolShare');
+    expect(recommendation).not.toHaveProperty('turnover24h');
+    expect(recommendation.reasons).toContainEqual(
+      expect.stringMatching(/^Pool reserves unavailable/)
+    );
+  });
+
+  it('caps the recommendation at MAX_SLIPPAGE', async () => {
+    const recommendation = await advisor.recommend(
+      request({ amount: 20000 }),
+      estimate({ priceImpact: 3 })
+    );
+
+    expect(recommendation.slippage).toBe(5);
+    expect(recommendation.reasons).toContainEqual(
+      expect.stringMatching(/^Capped at the configured maximum/)
+    );
+  });
+
+  it('caches pool data per pair regardless of direction', async () => {
+    await advisor.recommend(request(), estimate());
+    await advisor.recommend(
+      request({ fromToken: 'USDC', toToken: 'XLM', amount: 100 }),
+      estimate({ fromToken: 'USDC', toToken: 'XLM' })
+    );
+
+    expect(mockedSoroswapClient.getPool).toHaveBeenCalledTimes(1);
+    expect(mockedSoroswapClient.getPairStats).toHaveBeenCalledTimes(1);
+  });
+});
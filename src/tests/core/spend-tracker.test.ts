@@ -0,0 +1,98 @@
+/**
+ * SpendTracker 테스트 (임시 데이터 디렉토리 사용)
+ */
+
+import { promises as fs } from 'fs';
+import { SpendTracker } from '@/core/spend-tracker';
+import type { SpendEntry } from '@/core/spend-tracker';
+import { storageConfig } from '@/utils/config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACCOUNT = 'GACCOUNT';
+
+function entry(usdValue: number, extra: Partial<SpendEntry> = {}): SpendEntry {
+  return {
+    account: ACCOUNT,
+    fromToken: 'XLM',
+    toToken: 'USDC',
+    fromAmount: usdValue * 10,
+    toAmount: usdValue,
+    usdValue,
+    ...extra,
+  };
+}
+
+describe('SpendTracker', () => {
+  let tracker: SpendTracker;
+
+  beforeEach(async () => {
+    await fs.rm(storageConfig.dataDir, { recursive: true, force: true });
+    tracker = new SpendTracker();
+    await tracker.load();
+  });
+
+  it('counts reservations until they are released', () => {
+    const first = tracker.reserve([entry(100)]);
+    tracker.reserve([entry(40), entry(10)]);
+
+    expect(tracker.getSpent({ account: ACCOUNT }, DAY_MS)).toBe(150);
+
+    tracker.release(first);
+    expect(tracker.getSpent({ account: ACCOUNT }, DAY_MS)).toBe(50);
+
+    // 이미 해제한 예약은 다시 빼지 않는다
+    tracker.release(first);
+    expect(tracker.getSpent({ account: ACCOUNT }, DAY_MS)).toBe(50);
+  });
+
+  it('moves confirmed reservations into the persisted ledger once', async () => {
+    const reservationId = tracker.reserve([entry(75)]);
+
+    const records = await tracker.confirm(reservationId, 'abc123');
+    expect(records).toEqual([
+      expect.objectContaining({ usdValue: 75, transactionHash: 'abc123' }),
+    ]);
+    expect(tracker.getSpent({ account: ACCOUNT }, DAY_MS)).toBe(75);
+
+    // 확정 후 해제하거나 다시 확정해도 이중 집계되지 않는다
+    tracker.release(reservationId);
+    expect(await tracker.confirm(reservationId)).toEqual([]);
+    expect(tracker.getSpent({ account: ACCOUNT }, DAY_MS)).toBe(75);
+
+    const reloaded = new SpendTracker();
+    await reloaded.load();
+    expect(reloaded.getSpent({ account: ACCOUNT }, DAY_MS)).toBe(75);
+  });
+
+  it('only sums records inside the window', async () => {
+    await tracker.confirm(tracker.reserve([entry(30)]));
+    const now = Date.now();
+
+    expect(tracker.getSpent({}, DAY_MS, now + DAY_MS - 1000)).toBe(30);
+    expect(tracker.getSpent({}, DAY_MS, now + DAY_MS + 1000)).toBe(0);
+    expect(tracker.getSpent({}, 7 * DAY_MS, now + DAY_MS + 1000)).toBe(30);
+  });
+
+  it('filters by account and by either side of the pair', () => {
+    tracker.reserve([entry(20)]);
+    tracker.reserve([entry(5, { fromToken: 'AQUA', toToken: 'XLM' })]);
+    tracker.reserve([entry(7, { account: 'GOTHER' })]);
+
+    expect(tracker.getSpent({ account: ACCOUNT }, DAY_MS)).toBe(25);
+    expect(tracker.getSpent({ token: 'usdc' }, DAY_MS)).toBe(27);
+    expect(tracker.getSpent({ account: ACCOUNT, token: 'XLM' }, DAY_MS)).toBe(
+      25
+    );
+    expect(tracker.getSpent({ token: 'AQUA' }, DAY_MS)).toBe(5);
+  });
+
+  it('keeps simulated spend apart from live spend', async () => {
+    tracker.reserve([entry(60)]);
+    await tracker.confirm(tracker.reserve([entry(15, { simulated: true })]));
+
+    expect(tracker.getSpent({ account: ACCOUNT }, DAY_MS)).toBe(60);
+    expect(
+      tracker.getSpent({ account: ACCOUNT, simulated: true }, DAY_MS)
+    ).toBe(15);
+  });
+});
@@ -0,0 +1,1266 @@
+/**
+ * SwapService 테스트 (견적, 히스토리, 결과를 확인하지 못한 제출; 외부 의존성 모의)
+ */
+
+import {
+  Account,
+  Asset,
+  Keypair,
+  Networks,
+  Operation,
+  TransactionBuilder,
+} from 'stellar-sdk';
+import type { Horizon, Transaction } from 'stellar-sdk';
+import { SwapService } from '@/core/swap-service';
+import {
+  PriceImpactExceededError,
+  QuoteDriftError,
+  SwapUnconfirmedError,
+} from '@/core/errors';
+import { policyEngine } from '@/core/policy-engine';
+import { approvalQueue } from '@/core/approval-queue';
+import {
+  StellarInsufficientBalanceError,
+  StellarTransactionFailedError,
+  TransactionExpiredError,
+  TransactionTimeoutError,
+} from '@/stellar/errors';
+import { liquidityAggregator } from '@/liquidity/aggregator';
+import { slippageAdvisor } from '@/core/slippage-advisor';
+import { paperTradingService } from '@/core/paper-trading-service';
+import { stellarClient } from '@/stellar/client';
+import { feeStrategy } from '@/stellar/fees';
+import { channelAccountManager } from '@/stellar/channels';
+import { stellarDexProvider } from '@/liquidity/stellar-dex-provider';
+import { walletService } from '@/core/wallet-service';
+import { securityConfig } from '@/utils/config';
+import { ErrorCode } from '@/types';
+import type {
+  FeeQuote,
+  PreparedSwap,
+  RouteQuote,
+  StellarBalance,
+  SwapEstimate,
+  SwapApproval,
+  SwapRequest,
+  SwapResult,
+} from '@/types';
+
+jest.mock('@/liquidity/aggregator', () => ({
+  liquidityAggregator: {
+    quote: jest.fn(),
+    pickBest: jest.fn(),
+    compare: jest.fn(),
+    isRegistered: jest.fn(),
+    selectProviders: jest.fn(),
+    getProvider: jest.fn(),
+  },
+}));
+
+jest.mock('@/core/slippage-advisor', () => ({
+  slippageAdvisor: { recommend: jest.fn() },
+}));
+
+jest.mock('@/core/paper-trading-service', () => ({
+  paperTradingService: {
+    getFixtureQuote: jest.fn(),
+    isEnabled: jest.fn(),
+    fill: jest.fn(),
+  },
+}));
+
+jest.mock('@/stellar/client', () => ({
+  stellarClient: {
+    getOperations: jest.fn(),
+    getTransaction: jest.fn(),
+    getLatestLedgerCloseTime: jest.fn(),
+    getTransactionEffects: jest.fn(),
+    getBalances: jest.fn(),
+    getMinimumBalance: jest.fn(),
+    getNetworkInfo: jest.fn(),
+    accountExists: jest.fn(),
+    createTransactionBuilder: jest.fn(),
+  },
+}));
+
+jest.mock('@/stellar/channels', () => ({
+  channelAccountManager: { lease: jest.fn(), release: jest.fn() },
+}));
+
+jest.mock('@/liquidity/stellar-dex-provider', () => ({
+  stellarDexProvider: { createPathPaymentOperation: jest.fn() },
+}));
+
+jest.mock('@/core/wallet-service', () => ({
+  walletService: { getTokenBalance: jest.fn() },
+}));
+
+jest.mock('@/stellar/fees', () => ({
+  feeStrategy: {
+    quoteFee: jest.fn(),
+    getBaseFee: jest.fn(),
+    mostUrgent: jest.fn(),
+  },
+}));
+
+jest.mock('@/core/policy-engine', () => ({
+  policyEngine: {
+    evaluate: jest.fn(),
+    reserveSpend: jest.fn(),
+    confirmSpend: jest.fn(),
+    releaseSpend: jest.fn(),
+  },
+}));
+
+jest.mock('@/core/approval-queue', () => ({
+  approvalQueue: { check: jest.fn(), park: jest.fn(), isApproved: jest.fn() },
+}));
+
+const mockedAggregator = jest.mocked(liquidityAggregator);
+const mockedSlippageAdvisor = jest.mocked(slippageAdvisor);
+const mockedPaperTradingService = jest.mocked(paperTradingService);
+const mockedStellarClient = jest.mocked(stellarClient);
+const mockedPolicyEngine = jest.mocked(policyEngine);
+const mockedApprovalQueue = jest.mocked(approvalQueue);
+const mockedWalletService = jest.mocked(walletService);
+const mockedFeeStrategy = jest.mocked(feeStrategy);
+const mockedChannelAccountManager = jest.mocked(channelAccountManager);
+const mockedStellarDexProvider = jest.mocked(stellarDexProvider);
+
+const account = Keypair.random().publicKey();
+const counterparty = Keypair.random().publicKey();
+const USDC_ISSUER = Keypair.random().publicKey();
+
+function request(overrides: Partial<SwapRequest> = {}): SwapRequest {
+  return {
+    fromToken: 'XLM',
+    toToken: 'USDC',
+    amount: 1000,
+    slippage: 0.5,
+    ...overrides,
+  };
+}
+
+/**
+ * 수량에 비례하는 가격 영향(수량 / 100 %)으로 1 XLM = 0.1 USDC 견적
+ */
+function quoteFor(amount: number): RouteQuote {
+  return {
+    protocol: 'sdex',
+    venue: 'stellar_dex',
+    fromAmount: amount,
+    toAmount: amount * 0.1,
+    priceImpact: amount / 100,
+    fee: 0,
+    path: [],
+  };
+}
+
+function estimate(overrides: Partial<SwapEstimate> = {}): SwapEstimate {
+  return {
+    fromToken: 'XLM',
+    toToken: 'USDC',
+    mode: 'exactIn',
+    fromAmount: 1000,
+    toAmount: 100,
+    priceImpact: 0,
+    fee: 0,
+    path: [],
+    ...overrides,
+  };
+}
+
+/**
+ * 트랜잭션이 조인된 Horizon 오퍼레이션 레코드
+ */
+function operation(
+  pagingToken: number,
+  fields: Record<string, unknown>
+): Horizon.ServerApi.OperationRecord {
+  return {
+    paging_token: String(pagingToken),
+    transaction_hash: `tx${pagingToken}`,
+    transaction_successful: true,
+    created_at: '2024-03-10T12:00:00Z',
+    transaction: async () => ({ fee_charged: '100', ledger_attr: 7 }),
+    ...fields,
+  } as unknown as Horizon.ServerApi.OperationRecord;
+}
+
+/**
+ * 자기 자신에게 XLM을 보내 USDC를 받는 경로 결제
+ */
+function pathPaymentSwap(
+  pagingToken: number
+): Horizon.ServerApi.OperationRecord {
+  return operation(pagingToken, {
+    type: 'path_payment_strict_send',
+    from: account,
+    to: account,
+    source_asset_type: 'native',
+    source_amount: '100.0000000',
+    asset_type: 'credit_alphanum4',
+    asset_code: 'USDC',
+    asset_issuer: USDC_ISSUER,
+    amount: '9.9000000',
+  });
+}
+
+function payment(pagingToken: number): Horizon.ServerApi.OperationRecord {
+  return operation(pagingToken, {
+    type: 'payment',
+    from: account,
+    to: counterparty,
+  });
+}
+
+/**
+ * 계정이 서명할 트랜잭션 (타임아웃 300초)
+ */
+function buildTransaction(source: string): Transaction {
+  return new TransactionBuilder(new Account(source, '1'), {
+    fee: '200',
+    networkPassphrase: Networks.TESTNET,
+  })
+    .addOperation(
+      Operation.payment({
+        destination: counterparty,
+        asset: Asset.native(),
+        amount: '1',
+      })
+    )
+    .setTimeout(300)
+    .build();
+}
+
+describe('SwapService', () => {
+  let service: SwapService;
+  const originalSecurityConfig = { ...securityConfig };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    Object.assign(securityConfig, {
+      maxSlippage: 5,
+      minAmount: 0.0000001,
+      maxAmount: 1000000,
+      maxPriceImpact: 5,
+      maxQuoteDriftBps: 50,
+    });
+    mockedAggregator.isRegistered.mockReturnValue(true);
+    mockedAggregator.selectProviders.mockReturnValue([
+      {} as ReturnType<typeof liquidityAggregator.selectProviders>[number],
+    ]);
+    mockedAggregator.quote.mockImplementation(async ({ amount }) => [
+      quoteFor(amount),
+    ]);
+    mockedAggregator.pickBest.mockImplementation((quotes) => quotes[0]);
+    mockedPaperTradingService.getFixtureQuote.mockResolvedValue(null);
+    mockedSlippageAdvisor.recommend.mockResolvedValue({
+      slippage: 0.8,
+      applied: false,
+      priceImpact: 1,
+      reasons: [],
+    });
+    service = new SwapService();
+  });
+
+  afterEach(() => {
+    Object.assign(securityConfig, originalSecurityConfig);
+  });
+
+  describe('estimateSwap', () => {
+    it('sets the minimum received from the requested slippage', async () => {
+      const result = await service.estimateSwap(request({ amount: 100 }));
+
+      expect(result).toMatchObject({
+        mode: 'exactIn',
+        fromAmount: 100,
+        toAmount: 10,
+        minimumReceived: 9.95,
+        slippageRecommendation: { slippage: 0.8, applied: false },
+      });
+    });
+
+    it('sets the maximum sent for exact-out swaps', async () => {
+      mockedAggregator.quote.mockResolvedValue([
+        { ...quoteFor(100), toAmount: 10 },
+      ]);
+
+      const result = await service.estimateSwap(
+        request({ amount: 10, mode: 'exactOut', slippage: 1 })
+      );
+
+      expect(result).toMatchObject({ mode: 'exactOut', maximumSent: 101 });
+      expect(result).not.toHaveProperty('minimumReceived');
+    });
+
+    it('applies the recommended slippage for auto slippage', async () => {
+      const result = await service.estimateSwap(
+        request({ amount: 100, autoSlippage: true })
+      );
+
+      expect(result.minimumReceived).toBeCloseTo(9.92, 10);
+      expect(result.slippageRecommendation?.applied).toBe(true);
+    });
+
+    it('rejects quotes above MAX_PRICE_IMPACT with the largest amount under it', async () => {
+      const error = await service
+        .estimateSwap(request({ amount: 1200 }))
+        .catch((caught: unknown) => caught);
+
+      // 600, 300, 450, 525, 487.5, 506.25 순으로 이분 탐색
+      expect(error).toBeInstanceOf(PriceImpactExceededError);
+      expect(error).toMatchObject({
+        details: {
+          priceImpact: 12,
+          maxPriceImpact: 5,
+          suggestedMaxAmount: 487.5,
+        },
+      });
+      expect(mockedSlippageAdvisor.recommend).not.toHaveBeenCalled();
+    });
+
+    it('reports no suggestion when even small amounts exceed the limit', async () => {
+      mockedAggregator.quote.mockImplementation(async ({ amount }) => [
+        { ...quoteFor(amount), priceImpact: 20 },
+      ]);
+
+      await expect(service.estimateSwap(request())).rejects.toMatchObject({
+        details: { suggestedMaxAmount: undefined },
+      });
+    });
+  });
+
+  describe('approved estimate guard', () => {
+    it('only counts execution quotes worse than the approved estimate', () => {
+      const approved = estimate();
+
+      // 더 유리한 견적은 변동폭과 관계없이 허용
+      expect(() =>
+        service['guardApprovedEstimate'](approved, estimate({ toAmount: 120 }))
+      ).not.toThrow();
+      expect(() =>
+        service['guardApprovedEstimate'](approved, estimate({ toAmount: 99.5 }))
+      ).not.toThrow();
+      expect(() =>
+        service['guardApprovedEstimate'](approved, estimate({ toAmount: 99.4 }))
+      ).toThrow(QuoteDriftError);
+    });
+
+    it('compares the amount sent for exact-out swaps', () => {
+      const approved = estimate({ mode: 'exactOut' });
+
+      expect(() =>
+        service['guardApprovedEstimate'](
+          approved,
+          estimate({ mode: 'exactOut', fromAmount: 900 })
+        )
+      ).not.toThrow();
+      expect(() =>
+        service['guardApprovedEstimate'](
+          approved,
+          estimate({ mode: 'exactOut', fromAmount: 1006 })
+        )
+      ).toThrow(QuoteDriftError);
+    });
+  });
+
+  describe('quote drift guard', () => {
+    const requote = jest.fn<Promise<RouteQuote | null>, []>();
+
+    beforeEach(() => {
+      mockedAggregator.getProvider.mockReturnValue({
+        quote: requote,
+      } as unknown as ReturnType<typeof liquidityAggregator.getProvider>);
+    });
+
+    it('re-quotes on the accepted protocol and allows drift up to the limit', async () => {
+      requote.mockResolvedValue({ ...quoteFor(100), toAmount: 9.96 });
+
+      const current = await service['guardQuoteDrift'](
+        request({ amount: 100 }),
+        estimate({ protocol: 'sdex', fromAmount: 100, toAmount: 10 })
+      );
+
+      expect(mockedAggregator.getProvider).toHaveBeenCalledWith('sdex');
+      expect(current.toAmount).toBe(9.96);
+    });
+
+    it('rejects drift beyond MAX_QUOTE_DRIFT_BPS in either direction', async () => {
+      const accepted = estimate({
+        protocol: 'sdex',
+        fromAmount: 100,
+        toAmount: 10,
+      });
+
+      for (const toAmount of [9.9, 10.1]) {
+        requote.mockResolvedValue({ ...quoteFor(100), toAmount });
+        await expect(
+          service['guardQuoteDrift'](request({ amount: 100 }), accepted)
+        ).rejects.toBeInstanceOf(QuoteDriftError);
+      }
+    });
+
+    it('compares the amount sent for exact-out swaps', async () => {
+      requote.mockResolvedValue({ ...quoteFor(101), toAmount: 10 });
+
+      await expect(
+        service['guardQuoteDrift'](
+          request({ amount: 10, mode: 'exactOut' }),
+          estimate({
+            protocol: 'sdex',
+            mode: 'exactOut',
+            fromAmount: 100,
+            toAmount: 10,
+          })
+        )
+      ).rejects.toThrow(/Quote drifted 100\.0bps/);
+    });
+
+    it('fails when the route is no longer available', async () => {
+      requote.mockResolvedValue(null);
+
+      await expect(
+        service['guardQuoteDrift'](
+          request({ amount: 100 }),
+          estimate({ protocol: 'sdex' })
+        )
+      ).rejects.toThrow(/no longer available/);
+    });
+  });
+
+  describe('getSwapHistory', () => {
+    it('keeps self path payments and contract swaps only', async () => {
+      mockedStellarClient.getOperations.mockResolvedValue([
+        pathPaymentSwap(5),
+        payment(4),
+        operation(3, {
+          type: 'path_payment_strict_receive',
+          from: account,
+          to: counterparty,
+        }),
+        operation(2, {
+          type: 'invoke_host_function',
+          asset_balance_changes: [
+            {
+              type: 'transfer',
+              from: account,
+              to: counterparty,
+              asset_type: 'native',
+              amount: '50.0000000',
+            },
+            {
+              type: 'transfer',
+              from: counterparty,
+              to: account,
+              asset_type: 'credit_alphanum4',
+              asset_code: 'USDC',
+              asset_issuer: USDC_ISSUER,
+              amount: '4.9000000',
+            },
+          ],
+        }),
+        // 같은 자산을 주고받은 컨트랙트 호출은 스왑이 아니다
+        operation(1, {
+          type: 'invoke_host_function',
+          asset_balance_changes: [
+            {
+              from: account,
+              to: counterparty,
+              asset_type: 'native',
+              amount: '1',
+            },
+            {
+              from: counterparty,
+              to: account,
+              asset_type: 'native',
+              amount: '1',
+            },
+          ],
+        }),
+      ]);
+
+      const history = await service.getSwapHistory(account);
+
+      expect(history.data).toEqual([
+        expect.objectContaining({
+          transactionHash: 'tx5',
+          ledger: 7,
+          fromToken: 'XLM',
+          toToken: 'USDC',
+          fromAmount: 100,
+          toAmount: 9.9,
+          mode: 'exactIn',
+          fee: 0.00001,
+        }),
+        expect.objectContaining({
+          transactionHash: 'tx2',
+          fromToken: 'XLM',
+          toToken: 'USDC',
+          fromAmount: 50,
+          toAmount: 4.9,
+        }),
+      ]);
+      expect(history.pagination.nextCursor).toBeUndefined();
+    });
+
+    it('reads further pages until enough swaps are found', async () => {
+      const payments = Array.from({ length: 50 }, (_, index) =>
+        payment(200 - index)
+      );
+      mockedStellarClient.getOperations
+        .mockResolvedValueOnce(payments)
+        .mockResolvedValueOnce([
+          payment(150),
+          pathPaymentSwap(149),
+          pathPaymentSwap(148),
+        ]);
+
+      const history = await service.getSwapHistory(account, 1);
+
+      expect(mockedStellarClient.getOperations.mock.calls).toEqual([
+        [account, 50, undefined],
+        [account, 50, '151'],
+      ]);
+      expect(history.data.map((swap) => swap.transactionHash)).toEqual([
+        'tx149',
+      ]);
+      // 찾은 스왑 다음부터 이어서 조회한다
+      expect(history.pagination.nextCursor).toBe('149');
+    });
+
+    it('stops scanning after the page budget and returns a cursor to continue', async () => {
+      let next = 10000;
+      mockedStellarClient.getOperations.mockImplementation(async () =>
+        Array.from({ length: 50 }, () => payment(next--))
+      );
+
+      const history = await service.getSwapHistory(account, 5);
+
+      expect(mockedStellarClient.getOperations).toHaveBeenCalledTimes(10);
+      expect(history.data).toEqual([]);
+      expect(history.pagination.nextCursor).toBe(String(next + 1));
+    });
+  });
+
+  describe('executeSwap', () => {
+    const signer = Keypair.random();
+    let performSwap: jest.Mock<Promise<SwapResult>>;
+
+    beforeEach(() => {
+      mockedPaperTradingService.isEnabled.mockReturnValue(false);
+      mockedPolicyEngine.reserveSpend.mockResolvedValue('res_1');
+      mockedApprovalQueue.check.mockResolvedValue({ required: false });
+      performSwap = jest.fn().mockResolvedValue({
+        success: true,
+        transactionHash: 'abc123',
+      });
+      service['planTrustline'] = jest.fn().mockResolvedValue(undefined);
+      service['validateAccountForSwap'] = jest
+        .fn()
+        .mockResolvedValue(undefined);
+      service['performSwap'] = performSwap;
+    });
+
+    function execute(
+      options: Parameters<SwapService['executeSwap']>[1] = {}
+    ): Promise<SwapResult> {
+      return service.executeSwap(
+        request({ amount: 100, accountSecret: signer.secret() }),
+        options
+      );
+    }
+
+    it('reserves the quoted trade and confirms it with the transaction hash', async () => {
+      const result = await execute();
+
+      expect(result).toMatchObject({
+        success: true,
+        transactionHash: 'abc123',
+      });
+      expect(mockedPolicyEngine.reserveSpend).toHaveBeenCalledWith(
+        signer.publicKey(),
+        [{ fromToken: 'XLM', toToken: 'USDC', fromAmount: 100, toAmount: 10 }]
+      );
+      expect(mockedPolicyEngine.confirmSpend).toHaveBeenCalledWith(
+        'res_1',
+        'abc123'
+      );
+      expect(mockedPolicyEngine.releaseSpend).not.toHaveBeenCalled();
+    });
+
+    it('releases the reservation when the swap fails', async () => {
+      performSwap.mockRejectedValue(
+        new StellarTransactionFailedError(
+          'Path payment failed: op_too_few_offers'
+        )
+      );
+
+      const result = await execute();
+
+      expect(result.success).toBe(false);
+      expect(mockedPolicyEngine.releaseSpend).toHaveBeenCalledWith('res_1');
+      expect(mockedPolicyEngine.confirmSpend).not.toHaveBeenCalled();
+    });
+
+    it('keeps the reservation of a submission with an unknown outcome', async () => {
+      performSwap.mockRejectedValue(
+        new SwapUnconfirmedError('abc123', 'no ledger within the grace period')
+      );
+
+      const result = await execute();
+
+      expect(result).toMatchObject({
+        success: false,
+        transactionHash: 'abc123',
+        unconfirmed: true,
+      });
+      expect(mockedPolicyEngine.confirmSpend).toHaveBeenCalledWith(
+        'res_1',
+        'abc123'
+      );
+      expect(mockedPolicyEngine.releaseSpend).not.toHaveBeenCalled();
+    });
+
+    it('fills paper swaps virtually and records their spend without a hash', async () => {
+      mockedPaperTradingService.isEnabled.mockReturnValue(true);
+      mockedPaperTradingService.fill.mockResolvedValue({
+        success: true,
+        simulated: true,
+      } as SwapResult);
+
+      const result = await execute();
+
+      expect(result).toMatchObject({ success: true, simulated: true });
+      expect(mockedPaperTradingService.fill).toHaveBeenCalledWith(
+        signer.publicKey(),
+        expect.objectContaining({ amount: 100 }),
+        expect.objectContaining({ fromAmount: 100, toAmount: 10 })
+      );
+      expect(mockedPolicyEngine.confirmSpend).toHaveBeenCalledWith('res_1');
+      expect(performSwap).not.toHaveBeenCalled();
+    });
+
+    it('releases the spend of a paper swap the virtual balance cannot cover', async () => {
+      mockedPaperTradingService.isEnabled.mockReturnValue(true);
+      mockedPaperTradingService.fill.mockRejectedValue(
+        new StellarInsufficientBalanceError(
+          'XLM',
+          '100',
+          '50',
+          signer.publicKey()
+        )
+      );
+
+      const result = await execute();
+
+      expect(result).toMatchObject({ success: false, simulated: true });
+      expect(mockedPolicyEngine.releaseSpend).toHaveBeenCalledWith('res_1');
+      expect(mockedPolicyEngine.confirmSpend).not.toHaveBeenCalled();
+    });
+
+    it('parks swaps above the approval threshold without executing them', async () => {
+      mockedApprovalQueue.check.mockResolvedValue({
+        required: true,
+        usdValue: 2500,
+      });
+      mockedApprovalQueue.park.mockResolvedValue({
+        id: 'apr_1',
+        status: 'pending',
+        usdValue: 2500,
+        thresholdUsd: 1000,
+        expiresAt: '2024-03-10T13:00:00Z',
+      } as SwapApproval);
+
+      const result = await execute();
+
+      expect(mockedApprovalQueue.park).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 100 }),
+        signer.publicKey(),
+        expect.objectContaining({ fromAmount: 100, toAmount: 10 }),
+        2500
+      );
+      expect(result).toMatchObject({
+        success: false,
+        errorCode: ErrorCode.APPROVAL_REQUIRED,
+        approvalId: 'apr_1',
+      });
+      expect(performSwap).not.toHaveBeenCalled();
+      expect(mockedPolicyEngine.releaseSpend).toHaveBeenCalledWith('res_1');
+    });
+
+    it('refuses scheduled swaps above the approval threshold', async () => {
+      mockedApprovalQueue.check.mockResolvedValue({
+        required: true,
+        usdValue: 2500,
+      });
+
+      const result = await execute({ scheduled: true });
+
+      expect(result).toMatchObject({
+        success: false,
+        errorCode: ErrorCode.APPROVAL_REQUIRED,
+      });
+      expect(mockedApprovalQueue.park).not.toHaveBeenCalled();
+      expect(performSwap).not.toHaveBeenCalled();
+      expect(mockedPolicyEngine.releaseSpend).toHaveBeenCalledWith('res_1');
+    });
+
+    it('executes an approved swap without checking the threshold again', async () => {
+      mockedApprovalQueue.isApproved.mockReturnValue(true);
+
+      const result = await execute({ approvalId: 'apr_1' });
+
+      expect(mockedApprovalQueue.isApproved).toHaveBeenCalledWith('apr_1');
+      expect(mockedApprovalQueue.check).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: true, approvalId: 'apr_1' });
+    });
+
+    it('refuses an approval id that is not approved', async () => {
+      mockedApprovalQueue.isApproved.mockReturnValue(false);
+
+      const result = await execute({ approvalId: 'apr_1' });
+
+      expect(result).toMatchObject({
+        success: false,
+        errorCode: ErrorCode.APPROVAL_REQUIRED,
+      });
+      expect(performSwap).not.toHaveBeenCalled();
+      expect(mockedPolicyEngine.releaseSpend).toHaveBeenCalledWith('res_1');
+    });
+  });
+
+  describe('confirmSwap', () => {
+    const signer = Keypair.random();
+    let transaction: Transaction;
+    let submitSwapTransaction: jest.Mock<Promise<SwapResult>>;
+
+    beforeEach(() => {
+      mockedStellarClient.getNetworkInfo.mockReturnValue({
+        network: 'testnet',
+        passphrase: Networks.TESTNET,
+        horizonUrl: 'https://horizon-testnet.stellar.org',
+      });
+      mockedPolicyEngine.reserveSpend.mockResolvedValue('res_1');
+      submitSwapTransaction = jest.fn().mockResolvedValue({
+        success: true,
+        transactionHash: 'abc123',
+      });
+      service['guardQuoteDrift'] = jest.fn().mockResolvedValue(undefined);
+      service['submitSwapTransaction'] = submitSwapTransaction;
+      transaction = buildTransaction(signer.publicKey());
+    });
+
+    function prepare(overrides: Partial<PreparedSwap> = {}): string {
+      const prepared: PreparedSwap = {
+        quoteId: 'quote_1',
+        request: request({ amount: 100 }),
+        estimate: estimate({ fromAmount: 100, toAmount: 10 }),
+        venue: 'stellar_dex',
+        sourceAccount: signer.publicKey(),
+        transactionXdr: transaction.toXDR(),
+        networkFee: 0.00002,
+        createdAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + 60000).toISOString(),
+        ...overrides,
+      };
+      service['preparedSwaps'].set(prepared.quoteId, prepared);
+      return prepared.quoteId;
+    }
+
+    it('submits the prepared transaction once per quote ID', async () => {
+      const quoteId = prepare();
+
+      const result = await service.confirmSwap(quoteId, signer.secret());
+
+      expect(result).toMatchObject({
+        success: true,
+        transactionHash: 'abc123',
+      });
+      const [submitted] = submitSwapTransaction.mock.calls[0] as [Transaction];
+      expect(submitted.toXDR()).toBe(transaction.toXDR());
+      expect(mockedPolicyEngine.confirmSpend).toHaveBeenCalledWith(
+        'res_1',
+        'abc123'
+      );
+      await expect(
+        service.confirmSwap(quoteId, signer.secret())
+      ).rejects.toThrow(/Unknown or already used quote ID/);
+    });
+
+    it('refuses expired quotes and other signing accounts', async () => {
+      const expired = await service.confirmSwap(
+        prepare({ expiresAt: new Date(Date.now() - 1000).toISOString() }),
+        signer.secret()
+      );
+      expect(expired).toMatchObject({
+        success: false,
+        error: expect.stringMatching(/expired/),
+      });
+
+      const mismatched = await service.confirmSwap(
+        prepare(),
+        Keypair.random().secret()
+      );
+      expect(mismatched).toMatchObject({
+        success: false,
+        error: expect.stringMatching(/does not match/),
+      });
+
+      expect(mockedPolicyEngine.reserveSpend).not.toHaveBeenCalled();
+      expect(submitSwapTransaction).not.toHaveBeenCalled();
+    });
+
+    it('releases the spend when the market drifted since preparation', async () => {
+      service['guardQuoteDrift'] = jest
+        .fn()
+        .mockRejectedValue(
+          new QuoteDriftError(
+            estimate({ fromAmount: 100, toAmount: 10 }),
+            estimate({ fromAmount: 100, toAmount: 9.9 }),
+            100,
+            50
+          )
+        );
+
+      const result = await service.confirmSwap(prepare(), signer.secret());
+
+      expect(result).toMatchObject({
+        success: false,
+        error: expect.stringMatching(/Quote drifted/),
+      });
+      expect(submitSwapTransaction).not.toHaveBeenCalled();
+      expect(mockedPolicyEngine.releaseSpend).toHaveBeenCalledWith('res_1');
+    });
+  });
+
+  describe('dryRunSwap', () => {
+    const signer = Keypair.random();
+    const balances: Record<string, string> = { XLM: '100.5', USDC: '0' };
+
+    beforeEach(() => {
+      mockedStellarClient.accountExists.mockResolvedValue(true);
+      mockedStellarClient.getBalances.mockResolvedValue([]);
+      mockedStellarClient.getMinimumBalance.mockResolvedValue({
+        minimumBalance: 1,
+        baseReserve: 0.5,
+      });
+      mockedWalletService.getTokenBalance.mockImplementation(
+        async (_publicKey, token) => balances[token] ?? '0'
+      );
+      mockedFeeStrategy.quoteFee.mockResolvedValue({
+        capped: false,
+      } as FeeQuote);
+      mockedPolicyEngine.evaluate.mockResolvedValue({
+        allowed: false,
+        violations: [
+          {
+            code: 'DAILY_VOLUME_EXCEEDED',
+            scope: 'account',
+            subject: signer.publicKey(),
+            message: 'Daily volume limit of $10 exceeded',
+          },
+        ],
+        evaluatedAt: new Date().toISOString(),
+      });
+      service['planTrustline'] = jest.fn().mockResolvedValue(null);
+      service['getEstimateProvider'] = jest
+        .fn()
+        .mockReturnValue({ venue: 'stellar_dex' });
+      service['buildSwapTransaction'] = jest
+        .fn()
+        .mockResolvedValue(buildTransaction(signer.publicKey()));
+    });
+
+    it('reports balance changes and warnings instead of failing', async () => {
+      const result = await service.dryRunSwap(
+        request({ amount: 100, accountSecret: signer.secret() })
+      );
+
+      expect(result).toMatchObject({
+        dryRun: true,
+        sourceAccount: signer.publicKey(),
+        venue: 'stellar_dex',
+        networkFee: 0.00002,
+        simulated: false,
+        trustlineChanges: [{ token: 'USDC', action: 'missing' }],
+        reserve: { minimumBalance: 1, reserveChange: 0, belowReserve: true },
+      });
+      expect(result.request).not.toHaveProperty('accountSecret');
+      expect(result.balances).toEqual([
+        {
+          token: 'XLM',
+          before: 100.5,
+          change: expect.closeTo(-100.00002, 8),
+          after: expect.closeTo(0.49998, 8),
+          worstCaseAfter: expect.closeTo(0.49998, 8),
+        },
+        {
+          token: 'USDC',
+          before: 0,
+          change: 10,
+          after: 10,
+          worstCaseAfter: 9.95,
+        },
+      ]);
+      expect(result.warnings).toEqual([
+        'Policy DAILY_VOLUME_EXCEEDED: Daily volume limit of $10 exceeded',
+        'Missing trustline for USDC; the swap would fail',
+        expect.stringMatching(/would fall below the minimum reserve/),
+      ]);
+    });
+  });
+
+  describe('executeBatchSwap', () => {
+    const signer = Keypair.random();
+    const legs = [
+      request({ amount: 100 }),
+      request({ fromToken: 'USDC', toToken: 'XLM', amount: 20 }),
+    ];
+
+    beforeEach(() => {
+      mockedPaperTradingService.isEnabled.mockReturnValue(false);
+      mockedPolicyEngine.reserveSpend.mockResolvedValue('res_1');
+      mockedApprovalQueue.check.mockResolvedValue({ required: false });
+      mockedAggregator.selectProviders.mockReturnValue([
+        { protocol: 'sdex' } as ReturnType<
+          typeof liquidityAggregator.selectProviders
+        >[number],
+      ]);
+      mockedFeeStrategy.mostUrgent.mockReturnValue('normal');
+      mockedFeeStrategy.getBaseFee.mockResolvedValue(100);
+      mockedFeeStrategy.quoteFee.mockResolvedValue({
+        capped: false,
+      } as FeeQuote);
+      mockedChannelAccountManager.lease.mockResolvedValue(null);
+      mockedStellarClient.createTransactionBuilder.mockImplementation(
+        async (source) =>
+          new TransactionBuilder(
+            typeof source === 'string' ? new Account(source, '1') : source,
+            { fee: '100', networkPassphrase: Networks.TESTNET }
+          )
+      );
+      mockedStellarDexProvider.createPathPaymentOperation.mockImplementation(
+        () =>
+          Operation.payment({
+            destination: counterparty,
+            asset: Asset.native(),
+            amount: '1',
+          })
+      );
+      service['validateAccountForBatch'] = jest
+        .fn()
+        .mockResolvedValue(undefined);
+      service['guardQuoteDrift'] = jest.fn().mockResolvedValue(undefined);
+    });
+
+    it('validates every leg before quoting any of them', async () => {
+      mockedAggregator.selectProviders.mockImplementation((fromToken) => [
+        {
+          protocol: fromToken === 'USDC' ? 'soroswap' : 'sdex',
+        } as ReturnType<typeof liquidityAggregator.selectProviders>[number],
+      ]);
+
+      const result = await service.executeBatchSwap(
+        [request({ toToken: 'XLM' }), legs[1]!],
+        signer.secret()
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        errorCode: ErrorCode.SWAP_VALIDATION_ERROR,
+        details: {
+          errors: [
+            'leg 0: Cannot swap the same token',
+            'leg 1: only Stellar DEX swaps can be batched',
+          ],
+        },
+      });
+      expect(result.legs).toHaveLength(2);
+      expect(mockedAggregator.quote).not.toHaveBeenCalled();
+      expect(mockedPolicyEngine.reserveSpend).not.toHaveBeenCalled();
+    });
+
+    it('quotes every leg on the Stellar DEX into one transaction', async () => {
+      service['submitTransaction'] = jest
+        .fn()
+        .mockRejectedValue(new Error('tx_bad_seq'));
+
+      await service.executeBatchSwap(legs, signer.secret());
+
+      expect(
+        mockedAggregator.quote.mock.calls.map(([leg]) => leg.protocols)
+      ).toEqual([['sdex'], ['sdex']]);
+      expect(
+        mockedStellarDexProvider.createPathPaymentOperation.mock.calls.map(
+          ([source, leg, , withSource]) => [source, leg.amount, withSource]
+        )
+      ).toEqual([
+        [signer.publicKey(), 100, false],
+        [signer.publicKey(), 20, false],
+      ]);
+      expect(mockedPolicyEngine.reserveSpend).toHaveBeenCalledWith(
+        signer.publicKey(),
+        [
+          expect.objectContaining({ toToken: 'USDC', fromAmount: 100 }),
+          expect.objectContaining({ toToken: 'XLM', fromAmount: 20 }),
+        ]
+      );
+      expect(mockedPolicyEngine.releaseSpend).toHaveBeenCalledWith('res_1');
+    });
+
+    it('reports a timed-out batch as unconfirmed and keeps its spend', async () => {
+      service['submitTransaction'] = jest
+        .fn()
+        .mockRejectedValue(new TransactionTimeoutError('abc123', 90000));
+
+      const result = await service.executeBatchSwap(legs, signer.secret());
+
+      expect(result).toMatchObject({ success: false, unconfirmed: true });
+      expect(result.transactionHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(mockedPolicyEngine.confirmSpend).toHaveBeenCalledWith(
+        'res_1',
+        result.transactionHash
+      );
+      expect(mockedPolicyEngine.releaseSpend).not.toHaveBeenCalled();
+      expect(mockedChannelAccountManager.release).toHaveBeenCalledWith(
+        null,
+        true
+      );
+    });
+  });
+
+  describe('autoTrustline', () => {
+    const nativeBalance: StellarBalance = {
+      asset: 'XLM',
+      assetType: 'native',
+      balance: '500.0000000',
+    };
+    const usdcBalance: StellarBalance = {
+      asset: 'USDC',
+      assetType: 'credit_alphanum4',
+      assetCode: 'USDC',
+      assetIssuer: 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN',
+      balance: '0.0000000',
+    };
+
+    beforeEach(() => {
+      mockedStellarClient.getMinimumBalance.mockResolvedValue({
+        minimumBalance: 1,
+        baseReserve: 0.5,
+      });
+    });
+
+    it('plans a trustline only when the receiving asset has none', async () => {
+      mockedStellarClient.getBalances.mockResolvedValue([nativeBalance]);
+
+      expect(await service['planTrustline'](account, request())).toBeNull();
+      expect(mockedStellarClient.getBalances).not.toHaveBeenCalled();
+      expect(
+        await service['planTrustline'](
+          account,
+          request({ autoTrustline: true })
+        )
+      ).toEqual({ token: 'USDC', reserveLocked: 0.5 });
+
+      mockedStellarClient.getBalances.mockResolvedValue([
+        nativeBalance,
+        usdcBalance,
+      ]);
+      expect(
+        await service['planTrustline'](
+          account,
+          request({ autoTrustline: true })
+        )
+      ).toBeNull();
+    });
+
+    it('quotes only protocols that can add the trustline in the same transaction', () => {
+      const soroswap = {
+        protocol: 'soroswap',
+        supportsTrustlineCreation: false,
+      } as ReturnType<typeof liquidityAggregator.selectProviders>[number];
+      const sdex = {
+        protocol: 'sdex',
+        supportsTrustlineCreation: true,
+      } as ReturnType<typeof liquidityAggregator.selectProviders>[number];
+
+      mockedAggregator.selectProviders.mockReturnValue([soroswap, sdex]);
+      expect(
+        service['restrictToTrustlineProtocols'](request()).protocols
+      ).toEqual(['sdex']);
+
+      mockedAggregator.selectProviders.mockReturnValue([soroswap]);
+      expect(() => service['restrictToTrustlineProtocols'](request())).toThrow(
+        /autoTrustline requires a Stellar DEX route/
+      );
+    });
+  });
+
+  describe('timed-out submissions', () => {
+    const submitted = {
+      transactionHash: 'abc123',
+      expiresAt: '2024-03-10T12:00:30Z',
+    };
+    const expiresAtSeconds = Date.parse(submitted.expiresAt) / 1000;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      jest.setSystemTime(new Date('2024-03-10T12:00:00Z'));
+      mockedStellarClient.getTransaction.mockResolvedValue(null);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('resolves as not applied once a ledger closes past the timebounds', async () => {
+      mockedStellarClient.getLatestLedgerCloseTime.mockResolvedValue(
+        expiresAtSeconds + 1
+      );
+
+      await expect(
+        service.resolveSubmittedSwap(request(), account, submitted)
+      ).resolves.toBeUndefined();
+    });
+
+    it('gives up after the grace period when ledgers stop advancing', async () => {
+      mockedStellarClient.getLatestLedgerCloseTime.mockResolvedValue(
+        expiresAtSeconds - 10
+      );
+
+      const resolving = service
+        .resolveSubmittedSwap(request(), account, submitted)
+        .catch((error: unknown) => error);
+      let outcome: unknown;
+      resolving.then((error) => (outcome = error));
+      while (outcome === undefined) {
+        await jest.advanceTimersByTimeAsync(5000);
+      }
+
+      expect(outcome).toBeInstanceOf(TransactionTimeoutError);
+      expect(Date.now()).toBeGreaterThanOrEqual(
+        Date.parse(submitted.expiresAt) + 60000
+      );
+    });
+
+    it('reports an unresolved submission as unconfirmed and keeps its spend', async () => {
+      jest
+        .spyOn(service, 'resolveSubmittedSwap')
+        .mockRejectedValue(new TransactionTimeoutError('abc123', 90000));
+
+      const error = await service['settleTimedOutSwap'](
+        request(),
+        account,
+        submitted
+      ).catch((caught: unknown) => caught);
+      await service['settleReservation']('res_1', error);
+
+      expect(error).toBeInstanceOf(SwapUnconfirmedError);
+      expect(mockedPolicyEngine.confirmSpend).toHaveBeenCalledWith(
+        'res_1',
+        'abc123'
+      );
+      expect(mockedPolicyEngine.releaseSpend).not.toHaveBeenCalled();
+      expect(
+        service['buildFailedResult'](request(), error as Error)
+      ).toMatchObject({
+        success: false,
+        transactionHash: 'abc123',
+        unconfirmed: true,
+      });
+    });
+
+    it('releases the spend of a submission that expired unapplied', async () => {
+      jest.spyOn(service, 'resolveSubmittedSwap').mockResolvedValue(undefined);
+
+      const error = await service['settleTimedOutSwap'](
+        request(),
+        account,
+        submitted
+      ).catch((caught: unknown) => caught);
+      await service['settleReservation']('res_1', error);
+
+      expect(error).toBeInstanceOf(TransactionExpiredError);
+      expect(mockedPolicyEngine.releaseSpend).toHaveBeenCalledWith('res_1');
+      expect(mockedPolicyEngine.confirmSpend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settled amounts', () => {
+    /**
+     * 잔액 변동 이펙트
+     */
+    function balanceEffect(
+      type: 'account_credited' | 'account_debited',
+      effectAccount: string,
+      amount: string,
+      asset: Record<string, string> = { asset_type: 'native' }
+    ): Horizon.ServerApi.EffectRecord {
+      return {
+        type,
+        account: effectAccount,
+        amount,
+        ...asset,
+      } as unknown as Horizon.ServerApi.EffectRecord;
+    }
+
+    const usdc = {
+      asset_type: 'credit_alphanum4',
+      asset_code: 'USDC',
+      asset_issuer: USDC_ISSUER,
+    };
+
+    it('reads what the account sent and received from its balance effects', async () => {
+      mockedStellarClient.getLatestLedgerCloseTime.mockResolvedValue(0);
+      mockedStellarClient.getTransaction.mockResolvedValue({
+        hash: 'abc123',
+        successful: true,
+        ledger_attr: 9,
+        fee_charged: '100',
+        created_at: '2024-03-10T12:00:05Z',
+      } as Horizon.ServerApi.TransactionRecord);
+      mockedStellarClient.getTransactionEffects.mockResolvedValue([
+        balanceEffect('account_debited', account, '100.0000000'),
+        balanceEffect('account_credited', account, '9.8500000', usdc),
+        // 다른 계정의 이펙트와 거래 이펙트는 무시한다
+        balanceEffect('account_credited', counterparty, '100.0000000', usdc),
+        { type: 'trade', account } as unknown as Horizon.ServerApi.EffectRecord,
+      ]);
+
+      const result = await service.resolveSubmittedSwap(
+        request({ amount: 100 }),
+        account,
+        { transactionHash: 'abc123', expiresAt: '2024-03-10T12:00:30Z' }
+      );
+
+      expect(result).toMatchObject({
+        success: true,
+        ledger: 9,
+        fromAmount: 100,
+        toAmount: 9.85,
+        actualSent: 100,
+        actualReceived: 9.85,
+        networkFee: 0.00001,
+      });
+    });
+
+    it('counts realized slippage against the quoted side only', () => {
+      const exactIn = estimate();
+      const exactOut = estimate({ mode: 'exactOut' });
+
+      expect(
+        service['calculateRealizedSlippageBps'](exactIn, 1000, 99)
+      ).toBeCloseTo(100, 8);
+      expect(
+        service['calculateRealizedSlippageBps'](exactIn, 1000, 101)
+      ).toBeCloseTo(-100, 8);
+      expect(
+        service['calculateRealizedSlippageBps'](exactOut, 1005, 100)
+      ).toBeCloseTo(50, 8);
+      expect(
+        service['calculateRealizedSlippageBps'](exactIn, 1000)
+      ).toBeUndefined();
+    });
+  });
+});
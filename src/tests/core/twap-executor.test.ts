@@ -0,0 +1,203 @@
+/**
+ * TwapExecutor 테스트 (스왑 서비스 모의, 예약 타이머는 직접 실행)
+ */
+
+import { promises as fs } from 'fs';
+import { Keypair } from 'stellar-sdk';
+import { TwapExecutor } from '@/core/twap-executor';
+import { swapService } from '@/core/swap-service';
+import { storageConfig } from '@/utils/config';
+import type { SwapEstimate, SwapResult, TwapOrder } from '@/types';
+
+jest.mock('@/core/swap-service', () => ({
+  swapService: {
+    estimateSwap: jest.fn(),
+    executeSwap: jest.fn(),
+    resolveSubmittedSwap: jest.fn(),
+    rejectIfScheduledApprovalRequired: jest.fn(),
+  },
+}));
+
+const mockedSwapService = jest.mocked(swapService);
+
+function quote(priceImpact: number): SwapEstimate {
+  return {
+    fromToken: 'XLM',
+    toToken: 'USDC',
+    mode: 'exactIn',
+    fromAmount: 10,
+    toAmount: 1,
+    priceImpact,
+    fee: 0,
+    path: [],
+  };
+}
+
+function swapResult(success: boolean): SwapResult {
+  const result: SwapResult = {
+    success,
+    fromToken: 'XLM',
+    toToken: 'USDC',
+    fromAmount: 10,
+    toAmount: 1,
+    fee: 0,
+    timestamp: new Date().toISOString(),
+  };
+  if (success) {
+    result.transactionHash = 'abc123';
+  } else {
+    result.error = 'tx_failed';
+  }
+  return result;
+}
+
+/**
+ * 테스트에서 직접 완료시키는 Promise
+ */
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe('TwapExecutor', () => {
+  let executor: TwapExecutor;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    // 조각 예약 타이머는 발화시키지 않고 테스트가 runSlice를 직접 호출한다
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    await fs.rm(storageConfig.dataDir, { recursive: true, force: true });
+    executor = new TwapExecutor();
+  });
+
+  afterEach(() => {
+    executor.stop();
+    jest.useRealTimers();
+  });
+
+  function createTwap(
+    options: { impactAction?: 'skip' | 'pause'; slices?: number } = {}
+  ): Promise<TwapOrder> {
+    return executor.createTwap(
+      {
+        fromToken: 'XLM',
+        toToken: 'USDC',
+        amount: 100,
+        slippage: 0.5,
+        accountSecret: Keypair.random().secret(),
+      },
+      {
+        slices: options.slices ?? 3,
+        durationMinutes: 30,
+        maxPriceImpact: 1,
+        impactAction: options.impactAction ?? 'skip',
+      }
+    );
+  }
+
+  function runSlice(order: TwapOrder, index: number): Promise<void> {
+    return executor['runSlice'](order, order.slices[index]!);
+  }
+
+  it('splits the amount into slices with the rounding remainder on the last one', async () => {
+    const order = await createTwap();
+
+    expect(order.slices.map((slice) => slice.amount)).toEqual([
+      33.3333333, 33.3333333, 33.3333334,
+    ]);
+    expect(order.intervalMs).toBe(10 * 60 * 1000);
+  });
+
+  it('executes slices and completes after the last one', async () => {
+    const order = await createTwap({ slices: 2 });
+    mockedSwapService.estimateSwap.mockResolvedValue(quote(0.2));
+    mockedSwapService.executeSwap.mockResolvedValue(swapResult(true));
+
+    await runSlice(order, 0);
+    await runSlice(order, 1);
+
+    expect(mockedSwapService.executeSwap).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 50 }),
+      expect.objectContaining({ scheduled: true })
+    );
+    expect(order.slices.map((slice) => slice.status)).toEqual([
+      'executed',
+      'executed',
+    ]);
+    expect(order.status).toBe('completed');
+    expect(executor.getProgress(order)).toMatchObject({
+      executedSlices: 2,
+      totalSent: 20,
+      totalReceived: 2,
+    });
+  });
+
+  it('leaves the slice pending when the order is cancelled during the quote', async () => {
+    const order = await createTwap();
+    const pendingQuote = deferred<SwapEstimate>();
+    mockedSwapService.estimateSwap.mockReturnValue(pendingQuote.promise);
+
+    const run = runSlice(order, 0);
+    await executor.cancelTwap(order.id);
+    pendingQuote.resolve(quote(0.2));
+    await run;
+
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+    expect(order.status).toBe('cancelled');
+    expect(order.slices[0]!.status).toBe('pending');
+  });
+
+  it('skips a slice over the price impact cap and keeps running', async () => {
+    const order = await createTwap();
+    mockedSwapService.estimateSwap.mockResolvedValue(quote(2.5));
+
+    await runSlice(order, 0);
+
+    expect(mockedSwapService.executeSwap).not.toHaveBeenCalled();
+    expect(order.slices[0]).toMatchObject({
+      status: 'skipped',
+      priceImpact: 2.5,
+    });
+    expect(order.status).toBe('running');
+  });
+
+  it('pauses the order over the price impact cap when configured to', async () => {
+    const order = await createTwap({ impactAction: 'pause' });
+    mockedSwapService.estimateSwap.mockResolvedValue(quote(2.5));
+
+    await runSlice(order, 0);
+
+    expect(order.status).toBe('paused');
+    expect(order.slices[0]!.status).toBe('pending');
+  });
+
+  it('stops the order after consecutive failed slices', async () => {
+    const order = await createTwap({ slices: 4 });
+    mockedSwapService.estimateSwap.mockResolvedValue(quote(0.2));
+    mockedSwapService.executeSwap.mockResolvedValue(swapResult(false));
+
+    await runSlice(order, 0);
+    await runSlice(order, 1);
+    expect(order.status).toBe('running');
+
+    await runSlice(order, 2);
+    expect(order.status).toBe('failed');
+    expect(order.slices[3]!.status).toBe('pending');
+  });
+
+  it('fails the slice instead of signing with the default account when the signer is gone', async () => {
+    const order = await createTwap();
+    executor['signers'].delete(order.id);
+
+    await runSlice(order, 0);
+
+    expect(mockedSwapService.estimateSwap).not.toHaveBeenCalled();
+    expect(order.slices[0]).toMatchObject({
+      status: 'failed',
+      reason: expect.stringMatching(/Signer secret is not available/),
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * LiquidityAggregator 테스트 (모의 프로토콜 어댑터)
+ */
+
+import { LiquidityAggregator } from '@/liquidity/aggregator';
+import type { LiquidityProvider } from '@/liquidity/provider';
+import type {
+  LiquidityProtocol,
+  RouteQuote,
+  SwapRequest,
+  SwapVenue,
+} from '@/types';
+
+const VENUES: Record<LiquidityProtocol, SwapVenue> = {
+  soroswap: 'soroswap_router',
+  sdex: 'stellar_dex',
+};
+
+function routeQuote(
+  protocol: LiquidityProtocol,
+  quote: Partial<RouteQuote>
+): RouteQuote {
+  return {
+    protocol,
+    venue: VENUES[protocol],
+    fromAmount: 1000,
+    toAmount: 100,
+    priceImpact: 0,
+    fee: 0,
+    path: [],
+    ...quote,
+  };
+}
+
+/**
+ * 고정 견적을 돌려주는 어댑터 (quote와 route 모두 같은 결과)
+ */
+function provider(
+  protocol: LiquidityProtocol,
+  result: Partial<RouteQuote> | Error | null
+): jest.Mocked<LiquidityProvider> {
+  const respond = async (): Promise<RouteQuote | null> => {
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result && routeQuote(protocol, result);
+  };
+
+  return {
+    protocol,
+    venue: VENUES[protocol],
+    supportsChannels: protocol === 'sdex',
+    supportsTrustlineCreation: protocol === 'sdex',
+    supports: jest.fn().mockReturnValue(true),
+    quote: jest.fn().mockImplementation(respond),
+    route: jest.fn().mockImplementation(respond),
+    buildSwap: jest.fn(),
+    getPools: jest.fn().mockResolvedValue([]),
+  };
+}
+
+function request(overrides: Partial<SwapRequest> = {}): SwapRequest {
+  return {
+    fromToken: 'XLM',
+    toToken: 'USDC',
+    amount: 1000,
+    slippage: 0.5,
+    ...overrides,
+  };
+}
+
+describe('LiquidityAggregator', () => {
+  it('ranks exact-in quotes on the amount received after fees', async () => {
+    const aggregator = new LiquidityAggregator([
+      // 총수령량은 많지만 프로토콜 수수료 1 XLM과 네트워크 수수료 0.5 XLM을 빼면 불리하다
+      provider('soroswap', { toAmount: 100, fee: 1, networkFee: 0.5 }),
+      provider('sdex', { toAmount: 99.9, networkFee: 0.00001 }),
+    ]);
+
+    const quotes = await aggregator.quote(request(), 'exactIn');
+    const best = aggregator.pickBest(quotes, 'exactIn');
+
+    expect(quotes.map((route) => route.netAmount)).toEqual([
+      expect.closeTo(99.85, 8),
+      expect.closeTo(99.899999, 8),
+    ]);
+    expect(best?.protocol).toBe('sdex');
+    expect(aggregator.compare(best!, quotes, 'exactIn')).toMatchObject({
+      winner: 'sdex',
+      venue: 'stellar_dex',
+      advantage: expect.closeTo(0.049999, 8),
+    });
+  });
+
+  it('ranks exact-out quotes on the total amount sent including fees', async () => {
+    const aggregator = new LiquidityAggregator([
+      provider('soroswap', { fromAmount: 1000, fee: 3, networkFee: 0.5 }),
+      provider('sdex', { fromAmount: 1003, networkFee: 0.00001 }),
+    ]);
+
+    const quotes = await aggregator.quote(
+      request({ amount: 100, mode: 'exactOut' }),
+      'exactOut'
+    );
+
+    expect(aggregator.pickBest(quotes, 'exactOut')?.protocol).toBe('sdex');
+  });
+
+  it('converts network fees at the XLM rate for pairs without XLM', async () => {
+    const soroswap = provider('soroswap', {
+      fromAmount: 100,
+      toAmount: 500,
+      networkFee: 2,
+    });
+    const sdex = provider('sdex', { fromAmount: 100, toAmount: 495 });
+    // 1 XLM = 4 AQUA
+    soroswap.route.mockResolvedValue(routeQuote('soroswap', { toAmount: 4 }));
+    sdex.route.mockResolvedValue(routeQuote('sdex', { toAmount: 3.9 }));
+    const aggregator = new LiquidityAggregator([soroswap, sdex]);
+
+    const quotes = await aggregator.quote(
+      request({ fromToken: 'USDC', toToken: 'AQUA', amount: 100 }),
+      'exactIn'
+    );
+
+    expect(soroswap.route).toHaveBeenCalledWith('XLM', 'AQUA', 1);
+    expect(quotes.map((route) => route.netAmount)).toEqual([492, 495]);
+    expect(aggregator.pickBest(quotes, 'exactIn')?.protocol).toBe('sdex');
+  });
+
+  it('honours protocol selection and pair support', async () => {
+    const soroswap = provider('soroswap', { toAmount: 100 });
+    const sdex = provider('sdex', { toAmount: 99 });
+    const aggregator = new LiquidityAggregator([soroswap, sdex]);
+
+    await aggregator.quote(
+      request({ excludeProtocols: ['soroswap'] }),
+      'exactIn'
+    );
+    expect(soroswap.quote).not.toHaveBeenCalled();
+
+    sdex.supports.mockReturnValue(false);
+    expect(
+      aggregator.selectProviders('XLM', 'USDC', { protocols: ['sdex'] })
+    ).toEqual([]);
+  });
+
+  it('ignores failing protocols unless every protocol fails', async () => {
+    const failure = new Error('router unavailable');
+
+    const partial = new LiquidityAggregator([
+      provider('soroswap', failure),
+      provider('sdex', { toAmount: 99 }),
+    ]);
+    expect(
+      (await partial.quote(request(), 'exactIn')).map((route) => route.protocol)
+    ).toEqual(['sdex']);
+
+    const failed = new LiquidityAggregator([
+      provider('soroswap', failure),
+      provider('sdex', null),
+    ]);
+    await expect(failed.quote(request(), 'exactIn')).rejects.toBe(failure);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * StellarDexProvider 테스트 (Horizon 경로 탐색과 수수료 전략 모의)
+ */
+
+import { Asset, Keypair } from 'stellar-sdk';
+import type { Horizon } from 'stellar-sdk';
+import { StellarDexProvider } from '@/liquidity/stellar-dex-provider';
+import { stellarClient } from '@/stellar/client';
+import { feeStrategy } from '@/stellar/fees';
+import type { FeeQuote, SwapEstimate, SwapRequest } from '@/types';
+
+jest.mock('@/stellar/client', () => ({
+  stellarClient: {
+    findStrictSendPaths: jest.fn(),
+    findStrictReceivePaths: jest.fn(),
+    createPathPaymentStrictSendOperation: jest.fn(),
+    createPathPaymentStrictReceiveOperation: jest.fn(),
+  },
+}));
+
+jest.mock('@/stellar/fees', () => ({
+  feeStrategy: { quoteFee: jest.fn() },
+}));
+
+const mockedStellarClient = jest.mocked(stellarClient);
+const mockedFeeStrategy = jest.mocked(feeStrategy);
+
+const AQUA_ISSUER = Keypair.random().publicKey();
+const account = Keypair.random().publicKey();
+
+function pathRecord(
+  sourceAmount: string,
+  destinationAmount: string,
+  path: Horizon.ServerApi.PaymentPathRecord['path'] = []
+): Horizon.ServerApi.PaymentPathRecord {
+  return {
+    source_amount: sourceAmount,
+    destination_amount: destinationAmount,
+    path,
+  } as Horizon.ServerApi.PaymentPathRecord;
+}
+
+const aquaHop = {
+  asset_type: 'credit_alphanum4',
+  asset_code: 'AQUA',
+  asset_issuer: AQUA_ISSUER,
+};
+
+function request(overrides: Partial<SwapRequest> = {}): SwapRequest {
+  return {
+    fromToken: 'XLM',
+    toToken: 'USDC',
+    amount: 1000,
+    slippage: 1,
+    ...overrides,
+  };
+}
+
+describe('StellarDexProvider', () => {
+  let provider: StellarDexProvider;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedFeeStrategy.quoteFee.mockResolvedValue({ baseFee: 100 } as FeeQuote);
+    provider = new StellarDexProvider();
+  });
+
+  it('quotes the path receiving the most with impact measured against a 1% probe', async () => {
+    mockedStellarClient.findStrictSendPaths
+      .mockResolvedValueOnce([
+        pathRecord('1000.0000000', '95.0000000'),
+        pathRecord('1000.0000000', '98.0000000', [aquaHop]),
+      ])
+      .mockResolvedValueOnce([pathRecord('10.0000000', '1.0000000')]);
+
+    const quote = await provider.quote(request(), 'exactIn');
+
+    expect(mockedStellarClient.findStrictSendPaths.mock.calls).toEqual([
+      [Asset.native(), '1000.0000000', expect.any(Asset)],
+      [Asset.native(), '10.0000000', expect.any(Asset)],
+    ]);
+    expect(quote).toMatchObject({
+      protocol: 'sdex',
+      venue: 'stellar_dex',
+      fromAmount: 1000,
+      toAmount: 98,
+      fee: 0,
+      networkFee: 0.00001,
+      path: [
+        { fromToken: 'XLM', toToken: `AQUA:${AQUA_ISSUER}`, protocol: 'sdex' },
+        { fromToken: `AQUA:${AQUA_ISSUER}`, toToken: 'USDC', protocol: 'sdex' },
+      ],
+    });
+    expect(quote?.priceImpact).toBeCloseTo(2, 8);
+  });
+
+  it('quotes the path sending the least for exact-out swaps', async () => {
+    mockedStellarClient.findStrictReceivePaths.mockResolvedValue([
+      pathRecord('1010.0000000', '100.0000000'),
+      pathRecord('1002.0000000', '100.0000000'),
+    ]);
+
+    const quote = await provider.quote(request({ amount: 100 }), 'exactOut');
+
+    expect(quote).toMatchObject({ fromAmount: 1002, toAmount: 100 });
+  });
+
+  it('returns null without a path', async () => {
+    mockedStellarClient.findStrictSendPaths.mockResolvedValue([]);
+
+    expect(await provider.quote(request(), 'exactIn')).toBeNull();
+  });
+
+  it('builds path payments bounded by the slippage limit of the estimate', () => {
+    const estimate: SwapEstimate = {
+      fromToken: 'XLM',
+      toToken: 'USDC',
+      mode: 'exactIn',
+      fromAmount: 1000,
+      toAmount: 98,
+      minimumReceived: 97.02,
+      priceImpact: 2,
+      fee: 0,
+      path: [
+        { fromToken: 'XLM', toToken: `AQUA:${AQUA_ISSUER}`, protocol: 'sdex' },
+        { fromToken: `AQUA:${AQUA_ISSUER}`, toToken: 'USDC', protocol: 'sdex' },
+      ],
+    };
+
+    provider.createPathPaymentOperation(account, request(), estimate, true);
+    expect(
+      mockedStellarClient.createPathPaymentStrictSendOperation
+    ).toHaveBeenCalledWith(
+      Asset.native(),
+      '1000.0000000',
+      account,
+      expect.any(Asset),
+      '97.0200000',
+      [new Asset('AQUA', AQUA_ISSUER)],
+      account
+    );
+
+    provider.createPathPaymentOperation(
+      account,
+      request({ amount: 100, mode: 'exactOut' }),
+      { ...estimate, mode: 'exactOut', path: [], maximumSent: 1012.02 }
+    );
+    expect(
+      mockedStellarClient.createPathPaymentStrictReceiveOperation
+    ).toHaveBeenCalledWith(
+      Asset.native(),
+      '1012.0200000',
+      account,
+      expect.any(Asset),
+      '100.0000000',
+      [],
+      undefined
+    );
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * 테스트 환경 변수 (config 검증을 통과하는 최소값)
+ */
+
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+process.env.LOG_LEVEL ??= 'error';
+process.env.STELLAR_NETWORK ??= 'testnet';
+process.env.STELLAR_HORIZON_URL ??= 'https://horizon-testnet.stellar.org';
+process.env.SOROSWAP_API_URL ??= 'http://127.0.0.1:9';
+process.env.JWT_SECRET ??= 'test-jwt-secret-at-least-32-characters-long';
+process.env.ENCRYPTION_KEY ??= 'test-encryption-key-32-characters-long!!';
+
+// 저장소 파일은 테스트 파일마다 새 임시 디렉토리에 쓴다
+process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), 'stellar-swap-test-'));
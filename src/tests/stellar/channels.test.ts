@@ -0,0 +1,127 @@
+/**
+ * ChannelAccountManager 테스트 (Horizon 계정 조회 모의, 채널 계정은 개설된 것으로 간주)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Keypair } from 'stellar-sdk';
+import { ChannelAccountManager } from '@/stellar/channels';
+import { stellarClient } from '@/stellar/client';
+import { channelConfig, stellarConfig, storageConfig } from '@/utils/config';
+import type { StellarAccount } from '@/types';
+
+jest.mock('@/stellar/client', () => ({
+  stellarClient: { getAccount: jest.fn(), accountExists: jest.fn() },
+}));
+
+const mockedStellarClient = jest.mocked(stellarClient);
+
+const treasury = Keypair.random();
+
+describe('ChannelAccountManager', () => {
+  let manager: ChannelAccountManager;
+  const originalCount = channelConfig.accountCount;
+  const originalSecret = stellarConfig.defaultAccountSecret;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    await fs.rm(storageConfig.dataDir, { recursive: true, force: true });
+    channelConfig.accountCount = 2;
+    stellarConfig.defaultAccountSecret = treasury.secret();
+    mockedStellarClient.accountExists.mockResolvedValue(true);
+    mockedStellarClient.getAccount.mockImplementation(
+      async (publicKey) =>
+        ({ publicKey, accountId: publicKey, sequence: '100' }) as StellarAccount
+    );
+    manager = new ChannelAccountManager();
+    await manager.start();
+  });
+
+  afterEach(() => {
+    manager.stop();
+    channelConfig.accountCount = originalCount;
+    stellarConfig.defaultAccountSecret = originalSecret;
+    jest.useRealTimers();
+  });
+
+  it('leases channels only for the default account', async () => {
+    expect(await manager.lease(Keypair.random().publicKey())).toBeNull();
+
+    const first = await manager.lease(treasury.publicKey());
+    const second = await manager.lease(treasury.publicKey());
+
+    expect(first?.keypair.publicKey()).not.toBe(second?.keypair.publicKey());
+    expect(first?.account.accountId()).toBe(first?.keypair.publicKey());
+    expect(manager.getStatus()).toEqual({
+      enabled: true,
+      total: 2,
+      available: 0,
+      waiting: 0,
+    });
+  });
+
+  it('hands a released channel to the next waiter', async () => {
+    const first = await manager.lease(treasury.publicKey());
+    await manager.lease(treasury.publicKey());
+
+    const waiting = manager.lease(treasury.publicKey());
+    expect(manager.getStatus().waiting).toBe(1);
+
+    manager.release(first);
+    expect((await waiting)?.keypair).toBe(first?.keypair);
+    expect(manager.getStatus()).toMatchObject({ available: 0, waiting: 0 });
+  });
+
+  it('gives up waiting for a channel after the lease timeout', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    await manager.lease(treasury.publicKey());
+    await manager.lease(treasury.publicKey());
+
+    const waiting = manager.lease(treasury.publicKey());
+    jest.advanceTimersByTime(30000);
+
+    await expect(waiting).rejects.toThrow(/No channel account/);
+    expect(manager.getStatus().waiting).toBe(0);
+  });
+
+  it('reloads the channel sequence after a failed submission', async () => {
+    const failed = await manager.lease(treasury.publicKey());
+    const succeeded = await manager.lease(treasury.publicKey());
+    manager.release(failed, true);
+    manager.release(succeeded);
+
+    await manager.lease(treasury.publicKey());
+    await manager.lease(treasury.publicKey());
+
+    // 실패 반납한 채널만 원장에서 다시 읽는다
+    const loadsOf = (lease: typeof failed): number =>
+      mockedStellarClient.getAccount.mock.calls.filter(
+        ([publicKey]) => publicKey === lease?.keypair.publicKey()
+      ).length;
+    expect(loadsOf(failed)).toBe(2);
+    expect(loadsOf(succeeded)).toBe(1);
+  });
+
+  it('restores the same channels from the encrypted store after a restart', async () => {
+    const channels = [
+      (await manager.lease(treasury.publicKey()))?.keypair.publicKey(),
+      (await manager.lease(treasury.publicKey()))?.keypair.publicKey(),
+    ];
+
+    const content = await fs.readFile(
+      path.resolve(storageConfig.dataDir, 'channel-accounts.json'),
+      'utf8'
+    );
+    expect(content).not.toMatch(/"S[A-Z2-7]{55}"/);
+
+    const restarted = new ChannelAccountManager();
+    await restarted.start();
+    const restored = [
+      (await restarted.lease(treasury.publicKey()))?.keypair.publicKey(),
+      (await restarted.lease(treasury.publicKey()))?.keypair.publicKey(),
+    ];
+    restarted.stop();
+
+    expect(restored.sort()).toEqual(channels.sort());
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * FeeStrategy 테스트 (Horizon fee_stats 모의)
+ */
+
+import type { Horizon } from 'stellar-sdk';
+import { FeeStrategy } from '@/stellar/fees';
+import { FeeCapExceededError } from '@/stellar/errors';
+import { stellarClient } from '@/stellar/client';
+import { feeConfig } from '@/utils/config';
+
+jest.mock('@/stellar/client', () => ({
+  stellarClient: { getFeeStats: jest.fn() },
+}));
+
+const mockedStellarClient = jest.mocked(stellarClient);
+
+const MAX_FEE_STROOPS = 10000;
+
+/**
+ * 기본 수수료와 백분위 수수료로 fee_stats 응답 구성
+ */
+function feeStats(
+  lastLedgerBaseFee: number,
+  charged: { p10: number; p50: number; p90: number }
+): Horizon.HorizonApi.FeeStatsResponse {
+  return {
+    last_ledger_base_fee: String(lastLedgerBaseFee),
+    fee_charged: {
+      p10: String(charged.p10),
+      p50: String(charged.p50),
+      p90: String(charged.p90),
+    },
+  } as Horizon.HorizonApi.FeeStatsResponse;
+}
+
+describe('FeeStrategy', () => {
+  let strategy: FeeStrategy;
+  const originalMaxFee = feeConfig.maxFeeStroops;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    feeConfig.maxFeeStroops = MAX_FEE_STROOPS;
+    strategy = new FeeStrategy();
+  });
+
+  afterEach(() => {
+    feeConfig.maxFeeStroops = originalMaxFee;
+  });
+
+  it('picks the percentile for each urgency but never below the ledger base fee', async () => {
+    mockedStellarClient.getFeeStats.mockResolvedValue(
+      feeStats(150, { p10: 100, p50: 300, p90: 2000 })
+    );
+
+    expect(await strategy.getBaseFee('low')).toBe(150);
+    expect(await strategy.getBaseFee('normal')).toBe(300);
+    expect(await strategy.getBaseFee('urgent')).toBe(2000);
+    // 원장 마감 주기 동안은 다시 조회하지 않는다
+    expect(mockedStellarClient.getFeeStats).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the minimum base fee without fee stats', async () => {
+    mockedStellarClient.getFeeStats.mockRejectedValue(new Error('timeout'));
+
+    expect(await strategy.quoteFee('urgent')).toEqual({
+      urgency: 'urgent',
+      baseFee: 100,
+      marketFee: 100,
+      capped: false,
+    });
+  });
+
+  it('caps the fee at MAX_FEE_STROOPS and refuses urgent swaps above it', async () => {
+    mockedStellarClient.getFeeStats.mockResolvedValue(
+      feeStats(100, { p10: 100, p50: 12000, p90: 50000 })
+    );
+
+    expect(await strategy.quoteFee('normal')).toEqual({
+      urgency: 'normal',
+      baseFee: MAX_FEE_STROOPS,
+      marketFee: 12000,
+      capped: true,
+    });
+    expect(await strategy.getBaseFee('normal')).toBe(MAX_FEE_STROOPS);
+    await expect(strategy.getBaseFee('urgent')).rejects.toBeInstanceOf(
+      FeeCapExceededError
+    );
+  });
+
+  it('bumps to the larger of the urgent fee and double the current fee until the cap', async () => {
+    mockedStellarClient.getFeeStats.mockResolvedValue(
+      feeStats(100, { p10: 100, p50: 200, p90: 1500 })
+    );
+
+    expect(await strategy.getBumpFee(100)).toBe(1500);
+    expect(await strategy.getBumpFee(1500)).toBe(3000);
+    expect(await strategy.getBumpFee(8000)).toBe(MAX_FEE_STROOPS);
+    expect(await strategy.getBumpFee(MAX_FEE_STROOPS)).toBeNull();
+  });
+
+  it('treats a missing urgency as normal when picking the most urgent', () => {
+    expect(strategy.mostUrgent(['low', undefined])).toBe('normal');
+    expect(strategy.mostUrgent(['low', 'urgent', 'normal'])).toBe('urgent');
+    expect(strategy.mostUrgent(['low'])).toBe('low');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * SequenceCache 테스트 (Horizon 계정 조회 모의)
+ */
+
+import { Keypair, Networks, Operation, TransactionBuilder } from 'stellar-sdk';
+import type { Account } from 'stellar-sdk';
+import { SequenceCache } from '@/stellar/sequence';
+import { stellarClient } from '@/stellar/client';
+import type { StellarAccount } from '@/types';
+
+jest.mock('@/stellar/client', () => ({
+  stellarClient: { getAccount: jest.fn() },
+}));
+
+const mockedStellarClient = jest.mocked(stellarClient);
+
+const publicKey = Keypair.random().publicKey();
+
+function onChain(sequence: string): void {
+  mockedStellarClient.getAccount.mockResolvedValue({
+    publicKey,
+    accountId: publicKey,
+    sequence,
+    balances: [],
+  } as StellarAccount);
+}
+
+function build(account: Account): string {
+  return new TransactionBuilder(account, {
+    fee: '100',
+    networkPassphrase: Networks.TESTNET,
+  })
+    .addOperation(Operation.bumpSequence({ bumpTo: '0' }))
+    .setTimeout(30)
+    .build().sequence;
+}
+
+describe('SequenceCache', () => {
+  let cache: SequenceCache;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    cache = new SequenceCache();
+  });
+
+  it('loads an account once for concurrent callers', async () => {
+    onChain('100');
+
+    const [first, second] = await Promise.all([
+      cache.getAccount(publicKey),
+      cache.getAccount(publicKey),
+    ]);
+
+    expect(first).toBe(second);
+    expect(await cache.getAccount(publicKey)).toBe(first);
+    expect(mockedStellarClient.getAccount).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands out the next sequence number for every build', async () => {
+    onChain('100');
+    const account = await cache.getAccount(publicKey);
+
+    expect(build(account)).toBe('101');
+    expect(build(await cache.getAccount(publicKey))).toBe('102');
+  });
+
+  it('reloads the on-chain sequence after a resync', async () => {
+    onChain('100');
+    build(await cache.getAccount(publicKey));
+    build(await cache.getAccount(publicKey));
+
+    // 두 번째 트랜잭션이 원장에 반영되지 않은 경우
+    onChain('101');
+    cache.resync(publicKey);
+
+    expect(build(await cache.getAccount(publicKey))).toBe('102');
+    expect(mockedStellarClient.getAccount).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries the load after a failure', async () => {
+    mockedStellarClient.getAccount.mockRejectedValueOnce(new Error('timeout'));
+    onChain('100');
+
+    await expect(cache.getAccount(publicKey)).rejects.toThrow('timeout');
+    expect((await cache.getAccount(publicKey)).sequenceNumber()).toBe('100');
+  });
+});
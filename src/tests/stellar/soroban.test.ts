@@ -0,0 +1,444 @@
+/**
+ * SorobanClient 테스트 (로컬 JSON-RPC 스텁 서버 대상)
+ */
+
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  Account,
+  Contract,
+  Keypair,
+  Networks,
+  SorobanDataBuilder,
+  TransactionBuilder,
+  nativeToScVal,
+  xdr,
+} from 'stellar-sdk';
+import type { Transaction } from 'stellar-sdk';
+import { SorobanClient } from '@/stellar/soroban';
+import {
+  SorobanSimulationError,
+  StellarTransactionFailedError,
+  TransactionExpiredError,
+  TransactionTimeoutError,
+} from '@/stellar/errors';
+
+type RpcHandler = (params: unknown) => unknown;
+
+const CONTRACT_ID = 'CA3D5KRYM6CB7OWQ6TWYRR3Z4T7GNZLKERYNZGGA5SOAOPIFY6YQGAXE';
+const LATEST_LEDGER = 100;
+
+const keypair = Keypair.random();
+const rpcCalls: { method: string; params: unknown }[] = [];
+let handlers: Record<string, RpcHandler> = {};
+let server: Server;
+let client: SorobanClient;
+
+/**
+ * 메서드별 응답을 순서대로 돌려주는 핸들러 (마지막 응답은 반복)
+ */
+function sequence(...responses: unknown[]): RpcHandler {
+  let index = 0;
+  return () => responses[Math.min(index++, responses.length - 1)];
+}
+
+function callsOf(method: string): unknown[] {
+  return rpcCalls
+    .filter((call) => call.method === method)
+    .map((call) => call.params);
+}
+
+function buildInvocation(timeoutSeconds: number = 0): Transaction {
+  return new TransactionBuilder(new Account(keypair.publicKey(), '1'), {
+    fee: '100',
+    networkPassphrase: Networks.TESTNET,
+  })
+    .addOperation(new Contract(CONTRACT_ID).call('ping'))
+    .setTimeout(timeoutSeconds)
+    .build();
+}
+
+function sorobanData(resourceFee: number): string {
+  return new SorobanDataBuilder()
+    .setResourceFee(resourceFee)
+    .build()
+    .toXDR('base64');
+}
+
+function simulationResponse(
+  extra: Record<string, unknown> = {}
+): Record<string, unknown> {
+  return {
+    transactionData: sorobanData(250),
+    minResourceFee: '250',
+    results: [{ auth: [], xdr: xdr.ScVal.scvVoid().toXDR('base64') }],
+    cost: { cpuInsns: '0', memBytes: '0' },
+    latestLedger: LATEST_LEDGER,
+    ...extra,
+  };
+}
+
+/**
+ * 값이 없는 0번 분기 XDR 유니온 (ext 필드용)
+ */
+function emptyUnion<T>(type: { fromXDR(input: Buffer): T }): T {
+  return type.fromXDR(Buffer.alloc(4));
+}
+
+function transactionResult(
+  result: xdr.TransactionResultResult,
+  feeCharged: number = 120
+): string {
+  return new xdr.TransactionResult({
+    feeCharged: xdr.Int64.fromString(feeCharged.toString()),
+    result,
+    ext: emptyUnion(xdr.TransactionResultExt),
+  }).toXDR('base64');
+}
+
+/**
+ * TransactionMeta v3 (유니온 분기 3 + TransactionMetaV3)
+ */
+function transactionMeta(returnValue: xdr.ScVal): string {
+  const v3 = new xdr.TransactionMetaV3({
+    ext: emptyUnion(xdr.ExtensionPoint),
+    txChangesBefore: [],
+    operations: [],
+    txChangesAfter: [],
+    sorobanMeta: new xdr.SorobanTransactionMeta({
+      ext: emptyUnion(xdr.SorobanTransactionMetaExt),
+      events: [],
+      returnValue,
+      diagnosticEvents: [],
+    }),
+  });
+  const arm = Buffer.alloc(4);
+  arm.writeInt32BE(3);
+
+  return Buffer.concat([arm, v3.toXDR()]).toString('base64');
+}
+
+function notFound(latestLedgerCloseTime: number = 0): Record<string, unknown> {
+  return {
+    status: 'NOT_FOUND',
+    latestLedger: LATEST_LEDGER,
+    latestLedgerCloseTime,
+    oldestLedger: 1,
+    oldestLedgerCloseTime: 0,
+  };
+}
+
+function found(
+  transaction: Transaction,
+  status: 'SUCCESS' | 'FAILED',
+  resultXdr: string,
+  returnValue: xdr.ScVal = xdr.ScVal.scvVoid()
+): Record<string, unknown> {
+  return {
+    ...notFound(),
+    status,
+    ledger: LATEST_LEDGER,
+    createdAt: 0,
+    applicationOrder: 1,
+    feeBump: false,
+    envelopeXdr: transaction.toEnvelope().toXDR('base64'),
+    resultXdr,
+    resultMetaXdr: transactionMeta(returnValue),
+  };
+}
+
+function success(transaction: Transaction): Record<string, unknown> {
+  return found(
+    transaction,
+    'SUCCESS',
+    transactionResult(xdr.TransactionResultResult.txSuccess([])),
+    xdr.ScVal.scvVec([
+      nativeToScVal(10n, { type: 'i128' }),
+      nativeToScVal(25n, { type: 'i128' }),
+    ])
+  );
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      rpcCalls.push({ method, params });
+
+      let payload: Record<string, unknown>;
+      try {
+        const handler = handlers[method];
+        if (!handler) {
+          throw new Error(`unexpected ${method}`);
+        }
+        payload = { jsonrpc: '2.0', id, result: handler(params) };
+      } catch (error) {
+        payload = {
+          jsonrpc: '2.0',
+          id,
+          error: { code: -32603, message: (error as Error).message },
+        };
+      }
+
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(payload));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  client = new SorobanClient(`http://127.0.0.1:${port}`);
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  rpcCalls.length = 0;
+  handlers = {};
+});
+
+describe('simulate', () => {
+  it('returns the parsed simulation on success', async () => {
+    handlers.simulateTransaction = () => simulationResponse();
+
+    const simulation = await client.simulate(buildInvocation());
+
+    expect(simulation.minResourceFee).toBe('250');
+    expect(simulation.latestLedger).toBe(LATEST_LEDGER);
+    expect(callsOf('simulateTransaction')).toHaveLength(1);
+  });
+
+  it('throws SorobanSimulationError when the host reports an error', async () => {
+    handlers.simulateTransaction = () => ({
+      error: 'HostError: contract trapped',
+      events: [],
+      latestLedger: LATEST_LEDGER,
+    });
+
+    await expect(client.simulate(buildInvocation())).rejects.toThrow(
+      SorobanSimulationError
+    );
+  });
+
+  it('throws SorobanSimulationError when archived entries must be restored', async () => {
+    handlers.simulateTransaction = () =>
+      simulationResponse({
+        restorePreamble: {
+          minResourceFee: '50',
+          transactionData: sorobanData(50),
+        },
+      });
+
+    await expect(client.simulate(buildInvocation())).rejects.toThrow(
+      /restoring archived ledger entries/
+    );
+  });
+});
+
+describe('prepare', () => {
+  it('adds the simulated resource fee and footprint to the transaction', async () => {
+    handlers.simulateTransaction = () => simulationResponse();
+
+    const prepared = await client.prepare(buildInvocation());
+
+    expect(prepared.fee).toBe('350');
+    expect(prepared.toEnvelope().v1().tx().ext().switch()).toBe(1);
+  });
+});
+
+describe('send', () => {
+  it('signs and returns the pending response', async () => {
+    const transaction = buildInvocation();
+    handlers.sendTransaction = () => ({
+      status: 'PENDING',
+      hash: transaction.hash().toString('hex'),
+      latestLedger: LATEST_LEDGER,
+      latestLedgerCloseTime: 0,
+    });
+
+    const response = await client.send(transaction, [keypair]);
+
+    expect(response.status).toBe('PENDING');
+    expect(transaction.signatures).toHaveLength(1);
+  });
+
+  it('throws StellarTransactionFailedError with decoded result codes on ERROR', async () => {
+    handlers.sendTransaction = () => ({
+      status: 'ERROR',
+      hash: 'abc',
+      latestLedger: LATEST_LEDGER,
+      latestLedgerCloseTime: 0,
+      errorResultXdr: transactionResult(xdr.TransactionResultResult.txBadSeq()),
+    });
+
+    const error = await client
+      .send(buildInvocation(), [keypair])
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(StellarTransactionFailedError);
+    expect((error as Error).message).toContain('txBadSeq');
+  });
+});
+
+describe('poll', () => {
+  it('returns null while the transaction is not found', async () => {
+    handlers.getTransaction = () => notFound();
+
+    await expect(client.poll('abc')).resolves.toBeNull();
+  });
+
+  it('returns the confirmed result with return value and fee', async () => {
+    const transaction = buildInvocation();
+    handlers.getTransaction = () => success(transaction);
+
+    const result = await client.poll(transaction.hash().toString('hex'));
+
+    expect(result).not.toBeNull();
+    expect(result?.ledger).toBe(LATEST_LEDGER);
+    expect(result?.feeCharged).toBe(120);
+    expect(client.readReturnedAmounts(result?.returnValue)).toEqual([10n, 25n]);
+  });
+
+  it('throws StellarTransactionFailedError for a failed transaction', async () => {
+    const transaction = buildInvocation();
+    handlers.getTransaction = () =>
+      found(
+        transaction,
+        'FAILED',
+        transactionResult(xdr.TransactionResultResult.txFailed([]))
+      );
+
+    await expect(client.poll('abc')).rejects.toThrow(/txFailed/);
+  });
+
+  it('throws TransactionExpiredError once the ledger closes past maxTime', async () => {
+    handlers.getTransaction = () => notFound(2000);
+
+    await expect(client.poll('abc', 1000)).rejects.toThrow(
+      TransactionExpiredError
+    );
+  });
+
+  it('returns null when the lookup fails', async () => {
+    await expect(client.poll('abc')).resolves.toBeNull();
+  });
+});
+
+describe('submitAndConfirm', () => {
+  it('sends once and polls until the transaction succeeds', async () => {
+    const transaction = buildInvocation();
+    handlers.sendTransaction = () => ({
+      status: 'PENDING',
+      hash: transaction.hash().toString('hex'),
+      latestLedger: LATEST_LEDGER,
+      latestLedgerCloseTime: 0,
+    });
+    handlers.getTransaction = sequence(notFound(), success(transaction));
+
+    const result = await client.submitAndConfirm(transaction, [keypair], {
+      intervalMs: 5,
+      timeoutMs: 5000,
+    });
+
+    expect(result.hash).toBe(transaction.hash().toString('hex'));
+    expect(callsOf('sendTransaction')).toHaveLength(1);
+    expect(callsOf('getTransaction')).toHaveLength(2);
+  });
+
+  it('resends the same transaction after TRY_AGAIN_LATER', async () => {
+    const transaction = buildInvocation();
+    const hash = transaction.hash().toString('hex');
+    handlers.sendTransaction = sequence(
+      {
+        status: 'TRY_AGAIN_LATER',
+        hash,
+        latestLedger: LATEST_LEDGER,
+        latestLedgerCloseTime: 0,
+      },
+      {
+        status: 'PENDING',
+        hash,
+        latestLedger: LATEST_LEDGER,
+        latestLedgerCloseTime: 0,
+      }
+    );
+    handlers.getTransaction = sequence(notFound(), success(transaction));
+
+    await client.submitAndConfirm(transaction, [keypair], {
+      intervalMs: 5,
+      timeoutMs: 5000,
+    });
+
+    const sent = callsOf('sendTransaction') as { transaction: string }[];
+    expect(sent).toHaveLength(2);
+    expect(sent[0]?.transaction).toBe(sent[1]?.transaction);
+  });
+
+  it('treats a rejection after an unknown send outcome as applied and polls', async () => {
+    const transaction = buildInvocation();
+    let sends = 0;
+    handlers.sendTransaction = () => {
+      sends++;
+      if (sends === 1) {
+        throw new Error('upstream connection reset');
+      }
+      return {
+        status: 'ERROR',
+        hash: transaction.hash().toString('hex'),
+        latestLedger: LATEST_LEDGER,
+        latestLedgerCloseTime: 0,
+        errorResultXdr: transactionResult(
+          xdr.TransactionResultResult.txBadSeq()
+        ),
+      };
+    };
+    handlers.getTransaction = sequence(notFound(), success(transaction));
+
+    const result = await client.submitAndConfirm(transaction, [keypair], {
+      intervalMs: 5,
+      timeoutMs: 5000,
+    });
+
+    expect(result.ledger).toBe(LATEST_LEDGER);
+    expect(sends).toBe(2);
+  });
+
+  it('throws TransactionExpiredError when the time bound passes unconfirmed', async () => {
+    const transaction = buildInvocation(30);
+    const maxTime = Number(transaction.timeBounds?.maxTime);
+    handlers.sendTransaction = () => ({
+      status: 'PENDING',
+      hash: transaction.hash().toString('hex'),
+      latestLedger: LATEST_LEDGER,
+      latestLedgerCloseTime: 0,
+    });
+    handlers.getTransaction = () => notFound(maxTime + 1);
+
+    await expect(
+      client.submitAndConfirm(transaction, [keypair], { intervalMs: 5 })
+    ).rejects.toThrow(TransactionExpiredError);
+  });
+
+  it('throws TransactionTimeoutError when confirmation never arrives', async () => {
+    const transaction = buildInvocation();
+    handlers.sendTransaction = () => ({
+      status: 'PENDING',
+      hash: transaction.hash().toString('hex'),
+      latestLedger: LATEST_LEDGER,
+      latestLedgerCloseTime: 0,
+    });
+    handlers.getTransaction = () => notFound();
+
+    await expect(
+      client.submitAndConfirm(transaction, [keypair], {
+        intervalMs: 5,
+        timeoutMs: 50,
+      })
+    ).rejects.toThrow(TransactionTimeoutError);
+  });
+});
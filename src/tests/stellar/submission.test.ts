@@ -0,0 +1,229 @@
+/**
+ * TransactionSubmitter 테스트 (Horizon 클라이언트와 수수료 전략 모의)
+ */
+
+import {
+  Account,
+  Asset,
+  Keypair,
+  Networks,
+  Operation,
+  TransactionBuilder,
+  xdr,
+} from 'stellar-sdk';
+import type { FeeBumpTransaction, Horizon, Transaction } from 'stellar-sdk';
+import { TransactionSubmitter } from '@/stellar/submission';
+import { stellarClient } from '@/stellar/client';
+import { feeStrategy } from '@/stellar/fees';
+
+jest.mock('@/stellar/client', () => ({
+  stellarClient: {
+    submitTransaction: jest.fn(),
+    getTransaction: jest.fn(),
+    getLatestLedgerCloseTime: jest.fn(),
+    buildFeeBumpTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/stellar/fees', () => ({
+  feeStrategy: { getBumpFee: jest.fn() },
+}));
+
+jest.mock('@/stellar/soroban', () => ({
+  sorobanClient: { submitAndConfirm: jest.fn() },
+}));
+
+const mockedStellarClient = jest.mocked(stellarClient);
+const mockedFeeStrategy = jest.mocked(feeStrategy);
+
+const signer = Keypair.random();
+const TIMEOUT_SECONDS = 60;
+
+const successXdr = new xdr.TransactionResult({
+  feeCharged: xdr.Int64.fromString('200'),
+  result: xdr.TransactionResultResult.txSuccess([]),
+  ext: xdr.TransactionResultExt.fromXDR(Buffer.alloc(4)),
+}).toXDR('base64');
+
+function buildPayment(): Transaction {
+  return new TransactionBuilder(new Account(signer.publicKey(), '1'), {
+    fee: '100',
+    networkPassphrase: Networks.TESTNET,
+  })
+    .addOperation(
+      Operation.payment({
+        destination: Keypair.random().publicKey(),
+        asset: Asset.native(),
+        amount: '1',
+      })
+    )
+    .setTimeout(TIMEOUT_SECONDS)
+    .build();
+}
+
+/**
+ * Horizon 거부 응답 (결과 코드 포함)
+ */
+function rejection(transaction: string): Error {
+  return Object.assign(new Error('Transaction Failed'), {
+    response: {
+      status: 400,
+      data: { extras: { result_codes: { transaction } } },
+    },
+  });
+}
+
+/**
+ * 결과를 알 수 없는 게이트웨이 타임아웃
+ */
+function gatewayTimeout(): Error {
+  return Object.assign(new Error('Gateway Timeout'), {
+    response: { status: 504 },
+  });
+}
+
+describe('TransactionSubmitter', () => {
+  let submitter: TransactionSubmitter;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    submitter = new TransactionSubmitter();
+    mockedStellarClient.getLatestLedgerCloseTime.mockImplementation(async () =>
+      Math.floor(Date.now() / 1000)
+    );
+    mockedStellarClient.getTransaction.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * 제출이 끝날 때까지 조회 주기만큼 시간 진행
+   */
+  async function settle<T>(promise: Promise<T>): Promise<T> {
+    let done = false;
+    promise.then(
+      () => (done = true),
+      () => (done = true)
+    );
+    while (!done) {
+      await jest.advanceTimersByTimeAsync(2000);
+    }
+    return promise;
+  }
+
+  it('returns the fee charged for an accepted transaction', async () => {
+    mockedStellarClient.submitTransaction.mockResolvedValue({
+      ledger: 42,
+      result_xdr: successXdr,
+    } as Horizon.HorizonApi.SubmitTransactionResponse);
+
+    expect(await submitter.submit(buildPayment(), [signer])).toMatchObject({
+      status: 'success',
+      ledger: 42,
+      feeCharged: 0.00002,
+      feeBumped: false,
+      attempts: 1,
+    });
+  });
+
+  it('refuses transactions without timebounds', async () => {
+    const transaction = new TransactionBuilder(
+      new Account(signer.publicKey(), '1'),
+      { fee: '100', networkPassphrase: Networks.TESTNET }
+    )
+      .addOperation(Operation.bumpSequence({ bumpTo: '0' }))
+      .setTimeout(0)
+      .build();
+
+    await expect(submitter.submit(transaction, [signer])).rejects.toThrow(
+      /timebounds/
+    );
+  });
+
+  it('fee-bumps the same transaction after tx_insufficient_fee', async () => {
+    const feeBump = { sign: jest.fn() } as unknown as FeeBumpTransaction;
+    mockedStellarClient.buildFeeBumpTransaction.mockReturnValue(feeBump);
+    mockedFeeStrategy.getBumpFee.mockResolvedValue(400);
+    mockedStellarClient.submitTransaction
+      .mockRejectedValueOnce(rejection('tx_insufficient_fee'))
+      .mockResolvedValueOnce({
+        ledger: 42,
+        result_xdr: successXdr,
+      } as Horizon.HorizonApi.SubmitTransactionResponse);
+    const transaction = buildPayment();
+
+    const result = await submitter.submit(transaction, [signer]);
+
+    expect(mockedStellarClient.buildFeeBumpTransaction).toHaveBeenCalledWith(
+      transaction,
+      signer,
+      400
+    );
+    expect(mockedStellarClient.submitTransaction).toHaveBeenLastCalledWith(
+      feeBump,
+      []
+    );
+    expect(result).toMatchObject({
+      status: 'success',
+      hash: transaction.hash().toString('hex'),
+      feeBumped: true,
+      attempts: 2,
+    });
+  });
+
+  it('reports rejected transactions without polling', async () => {
+    mockedStellarClient.submitTransaction.mockRejectedValue(
+      rejection('tx_bad_auth')
+    );
+
+    expect(await submitter.submit(buildPayment(), [signer])).toMatchObject({
+      status: 'failed',
+      resultCodes: { transaction: 'tx_bad_auth' },
+    });
+    expect(mockedStellarClient.getTransaction).not.toHaveBeenCalled();
+  });
+
+  it('polls by hash after a gateway timeout instead of resubmitting', async () => {
+    mockedStellarClient.submitTransaction.mockRejectedValue(gatewayTimeout());
+    mockedStellarClient.getTransaction
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue({
+        successful: true,
+        ledger_attr: 43,
+        result_xdr: successXdr,
+        fee_charged: '200',
+      } as Horizon.ServerApi.TransactionRecord);
+
+    const result = await settle(submitter.submit(buildPayment(), [signer]));
+
+    expect(result).toMatchObject({
+      status: 'success',
+      ledger: 43,
+      attempts: 1,
+    });
+    expect(mockedStellarClient.submitTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports expiry once a ledger closes past the timebounds', async () => {
+    mockedStellarClient.submitTransaction.mockRejectedValue(gatewayTimeout());
+    mockedFeeStrategy.getBumpFee.mockResolvedValue(null);
+    const transaction = buildPayment();
+    const maxTime = Number(transaction.timeBounds?.maxTime);
+
+    const result = await settle(submitter.submit(transaction, [signer]));
+
+    expect(result).toMatchObject({ status: 'expired', feeCharged: 0 });
+    expect(Date.now()).toBeGreaterThan(maxTime * 1000);
+    // 만료 전 재제출은 같은 서명 트랜잭션만 사용한다
+    expect(
+      new Set(
+        mockedStellarClient.submitTransaction.mock.calls.map(
+          ([envelope]) => envelope
+        )
+      )
+    ).toEqual(new Set([transaction]));
+  });
+});
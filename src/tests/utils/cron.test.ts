@@ -0,0 +1,92 @@
+/**
+ * 크론 표현식 파싱 테스트
+ */
+
+import { getNextCronRun, parseCron } from '@/utils/cron';
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const schedule = parseCron('0,30 9-17/4 * * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.anyDayOfMonth).toBe(true);
+    expect(schedule.anyDayOfWeek).toBe(false);
+  });
+
+  it('treats a step on a single value as running to the end of the field', () => {
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+  });
+
+  it('maps day-of-week 7 to Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('resolves aliases', () => {
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+  });
+
+  it.each([
+    ['* * * *'],
+    ['60 * * * *'],
+    ['* 24 * * *'],
+    ['* * 0 * *'],
+    ['* * * 13 *'],
+    ['5-1 * * * *'],
+    ['*/0 * * * *'],
+    ['a * * * *'],
+  ])('rejects %s', (expression) => {
+    expect(() => parseCron(expression)).toThrow();
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('returns the next matching minute strictly after the given time', () => {
+    const from = new Date('2024-03-10T10:15:00Z');
+
+    expect(getNextCronRun('15 10 * * *', from).toISOString()).toBe(
+      '2024-03-11T10:15:00.000Z'
+    );
+    expect(getNextCronRun('*/10 * * * *', from).toISOString()).toBe(
+      '2024-03-10T10:20:00.000Z'
+    );
+  });
+
+  it('rolls over hours, days and months in UTC', () => {
+    expect(
+      getNextCronRun(
+        '0 0 1 * *',
+        new Date('2024-01-31T23:59:30Z')
+      ).toISOString()
+    ).toBe('2024-02-01T00:00:00.000Z');
+    expect(
+      getNextCronRun(
+        '30 6 * * *',
+        new Date('2024-12-31T07:00:00Z')
+      ).toISOString()
+    ).toBe('2025-01-01T06:30:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2024-03-10은 일요일: 매월 15일 또는 월요일
+    const from = new Date('2024-03-10T12:00:00Z');
+
+    expect(getNextCronRun('0 9 15 * 1', from).toISOString()).toBe(
+      '2024-03-11T09:00:00.000Z'
+    );
+  });
+
+  it('skips months without the requested day', () => {
+    expect(
+      getNextCronRun(
+        '0 0 31 * *',
+        new Date('2024-04-01T00:00:00Z')
+      ).toISOString()
+    ).toBe('2024-05-31T00:00:00.000Z');
+  });
+
+  it('fails for schedules that never run', () => {
+    expect(() => getNextCronRun('0 0 30 2 *')).toThrow(/No upcoming run/);
+  });
+});
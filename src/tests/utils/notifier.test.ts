@@ -0,0 +1,65 @@
+/**
+ * Notifier 테스트 (axios 모의)
+ */
+
+import axios from 'axios';
+import { Notifier } from '@/utils/notifier';
+import { notificationConfig } from '@/utils/config';
+
+jest.mock('axios');
+
+const mockedAxios = jest.mocked(axios);
+
+describe('Notifier', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedAxios.post.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    notificationConfig.slackWebhookUrl = undefined;
+    notificationConfig.discordWebhookUrl = undefined;
+  });
+
+  it('posts to configured http(s) webhooks', async () => {
+    notificationConfig.slackWebhookUrl = 'https://hooks.slack.test/T000';
+    notificationConfig.discordWebhookUrl = 'https://discord.test/api/hook';
+
+    await new Notifier().notify({
+      title: 'Stop-loss executed: XLM',
+      message: 'XLM reached 0.09 USD',
+      fields: { orderId: 'sl_1', error: undefined },
+    });
+
+    const text =
+      '*Stop-loss executed: XLM*\nXLM reached 0.09 USD\n• orderId: sl_1';
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'https://hooks.slack.test/T000',
+      { text },
+      expect.anything()
+    );
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'https://discord.test/api/hook',
+      { content: text },
+      expect.anything()
+    );
+  });
+
+  it('skips placeholder webhook settings', async () => {
+    notificationConfig.slackWebhookUrl = 'your_slack_webhook_url_here';
+    notificationConfig.discordWebhookUrl = 'ftp://discord.test/hook';
+
+    await new Notifier().notify({ title: 'Test', message: 'ignored' });
+
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+  });
+
+  it('does not propagate delivery failures', async () => {
+    notificationConfig.slackWebhookUrl = 'https://hooks.slack.test/T000';
+    mockedAxios.post.mockRejectedValue(new Error('timeout'));
+
+    await expect(
+      new Notifier().notify({ title: 'Test', message: 'failing' })
+    ).resolves.toBeUndefined();
+  });
+});
@@ -15,6 +15,7 @@ export interface ServerConfig {
 export interface StellarConfig {
   network: 'testnet' | 'mainnet';
   horizonUrl: string;
+  sorobanRpcUrl: string;
   defaultAccountSecret?: string | undefined;
   defaultAccountPublic?: string | undefined;
 }
@@ -22,12 +23,15 @@ export interface StellarConfig {
 export interface SoroswapConfig {
   apiUrl: string;
   apiKey?: string | undefined;
+  routerContract?: string | undefined;
 }
 
 export interface SecurityConfig {
   maxSlippage: number;
   minAmount: number;
   maxAmount: number;
+  maxQuoteDriftBps: number;
+  maxPriceImpact: number;
   jwtSecret: string;
   encryptionKey: string;
 }
@@ -83,36 +87,539 @@ export interface TokenInfo {
   logoUrl?: string;
 }
 
+/**
+ * 스왑 모드
+ * - exactIn: fromToken을 정확히 amount만큼 지불
+ * - exactOut: toToken을 정확히 amount만큼 수령
+ */
+export type SwapMode = 'exactIn' | 'exactOut';
+
+/**
+ * 스왑 실행 경로
+ */
+export type SwapVenue = 'stellar_dex' | 'soroswap_router';
+
+/**
+ * 수수료 긴급도 (Horizon fee_stats 백분위 선택: low=p10, normal=p50, urgent=p90)
+ */
+export type FeeUrgency = 'low' | 'normal' | 'urgent';
+
+/**
+ * 긴급도별 수수료 (capped면 시장 수수료가 MAX_FEE_STROOPS를 넘어 상한으로 낮춘 값)
+ */
+export interface FeeQuote {
+  urgency: FeeUrgency;
+  baseFee: number;
+  marketFee: number;
+  capped: boolean;
+}
+
+/**
+ * 유동성 프로토콜 (Soroswap AMM, Stellar 클래식 DEX)
+ */
+export type LiquidityProtocol = 'soroswap' | 'sdex';
+
+/**
+ * 스왑 경로의 한 구간과 체결 프로토콜
+ */
+export interface SwapHop {
+  fromToken: string;
+  toToken: string;
+  protocol: LiquidityProtocol;
+}
+
+/**
+ * 프로토콜별 견적을 공통 형식으로 정규화한 경로
+ * - fee: 프로토콜 수수료 (입력 토큰 기준)
+ * - networkFee: 예상 네트워크 수수료 (XLM, Soroban 리소스 수수료 포함)
+ * - netAmount: 수수료 차감 후 비교 기준액 (exactIn은 출력 토큰 순수령량, exactOut은 입력 토큰 총지불량)
+ */
+export interface RouteQuote {
+  protocol: LiquidityProtocol;
+  venue: SwapVenue;
+  fromAmount: number;
+  toAmount: number;
+  minimumReceived?: number;
+  maximumSent?: number;
+  priceImpact: number;
+  fee: number;
+  networkFee?: number;
+  netAmount?: number;
+  path: SwapHop[];
+}
+
+export interface VenueComparison {
+  winner: LiquidityProtocol;
+  venue: SwapVenue;
+  advantage: number;
+  advantageBps: number;
+  quotes: RouteQuote[];
+}
+
+/**
+ * protocols를 지정하면 해당 프로토콜만, excludeProtocols는 해당 프로토콜을 빼고 견적한다.
+ * autoTrustline이면 toToken 트러스트라인이 없을 때 스왑 트랜잭션 앞에 changeTrust를 추가한다.
+ * autoSlippage이면 slippage 대신 견적 시 추천된 허용치를 적용한다.
+ */
 export interface SwapRequest {
   fromToken: string;
   toToken: string;
   amount: number;
   slippage: number;
+  mode?: SwapMode;
+  protocols?: LiquidityProtocol[];
+  excludeProtocols?: LiquidityProtocol[];
+  urgency?: FeeUrgency;
+  autoTrustline?: boolean;
+  autoSlippage?: boolean;
   accountSecret?: string;
 }
 
+/**
+ * 거래별 슬리피지 허용치 추천 (applied면 견적의 최소 수령량/최대 지불량에 반영됨)
+ */
+export interface SlippageRecommendation {
+  slippage: number;
+  applied: boolean;
+  priceImpact: number;
+  poolShare?: number;
+  turnover24h?: number;
+  reasons: string[];
+}
+
+/**
+ * 스왑 트랜잭션에 함께 추가된 트러스트라인과 잠긴 베이스 리저브 (XLM)
+ */
+export interface TrustlineAddition {
+  token: string;
+  reserveLocked: number;
+}
+
 export interface SwapEstimate {
   fromToken: string;
   toToken: string;
+  mode: SwapMode;
   fromAmount: number;
   toAmount: number;
-  minimumReceived: number;
+  minimumReceived?: number;
+  maximumSent?: number;
   priceImpact: number;
   fee: number;
-  path: string[];
+  path: SwapHop[];
+  protocol?: LiquidityProtocol;
+  venue?: SwapVenue;
+  comparison?: VenueComparison;
+  slippageRecommendation?: SlippageRecommendation;
+}
+
+/**
+ * 제출 직전에 기록하는 스왑 트랜잭션 (재시작 후 원장 반영 여부 확인용)
+ */
+export interface SubmittedSwap {
+  transactionHash: string;
+  expiresAt: string;
 }
 
 export interface SwapResult {
   success: boolean;
   transactionHash?: string;
+  ledger?: number;
   fromToken: string;
   toToken: string;
   fromAmount: number;
   toAmount: number;
+  mode?: SwapMode;
   actualReceived?: number;
+  actualSent?: number;
+  realizedSlippageBps?: number;
+  fee: number;
+  networkFee?: number;
+  feeBumped?: boolean;
+  feeCapped?: boolean;
+  trustlineAdded?: TrustlineAddition;
+  approvalId?: string;
+  simulated?: boolean;
+  unconfirmed?: boolean;
+  timestamp: string;
+  error?: string;
+  errorCode?: ErrorCode;
+  details?: Record<string, any>;
+}
+
+export interface BatchSwapResult {
+  success: boolean;
+  transactionHash?: string;
+  ledger?: number;
+  legs: SwapResult[];
   fee: number;
+  networkFee?: number;
+  feeBumped?: boolean;
+  feeCapped?: boolean;
+  unconfirmed?: boolean;
   timestamp: string;
   error?: string;
+  errorCode?: ErrorCode;
+  details?: Record<string, any>;
+}
+
+export interface PreparedSwap {
+  quoteId: string;
+  request: Omit<SwapRequest, 'accountSecret'>;
+  estimate: SwapEstimate;
+  venue: SwapVenue;
+  sourceAccount: string;
+  transactionXdr: string;
+  networkFee: number;
+  feeCapped?: boolean;
+  trustlineAdded?: TrustlineAddition;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * 드라이런 예상 잔액 변화 (worstCaseAfter는 슬리피지 한도까지 불리하게 체결된 경우)
+ */
+export interface BalanceChange {
+  token: string;
+  before: number;
+  change: number;
+  after: number;
+  worstCaseAfter: number;
+}
+
+/**
+ * 트러스트라인 변화 (missing은 스왑이 실패하는 원인)
+ */
+export interface TrustlineChange {
+  token: string;
+  action: 'create' | 'missing';
+}
+
+/**
+ * XLM 최소 잔액(베이스 리저브) 영향
+ */
+export interface ReserveImpact {
+  minimumBalance: number;
+  reserveChange: number;
+  xlmAfter: number;
+  belowReserve: boolean;
+}
+
+export interface SwapDryRunResult {
+  dryRun: true;
+  request: Omit<SwapRequest, 'accountSecret'>;
+  estimate: SwapEstimate;
+  venue: SwapVenue;
+  sourceAccount: string;
+  transactionXdr: string;
+  networkFee: number;
+  feeCapped: boolean;
+  simulated: boolean;
+  balances: BalanceChange[];
+  reserve: ReserveImpact;
+  trustlineChanges: TrustlineChange[];
+  policy: PolicyDecision;
+  warnings: string[];
+}
+
+// ============================================================================
+// 예약 실행(TWAP) 관련 타입
+// ============================================================================
+
+export type TwapStatus =
+  'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+export type TwapSliceStatus =
+  'pending' | 'executing' | 'executed' | 'skipped' | 'failed';
+
+export type TwapImpactAction = 'skip' | 'pause';
+
+export interface TwapSlice {
+  index: number;
+  amount: number;
+  scheduledAt: string;
+  status: TwapSliceStatus;
+  priceImpact?: number;
+  submission?: SubmittedSwap;
+  executedAt?: string;
+  result?: SwapResult;
+  reason?: string;
+}
+
+export interface TwapOrder {
+  id: string;
+  request: Omit<SwapRequest, 'accountSecret'>;
+  account: string;
+  usesDefaultAccount: boolean;
+  slices: TwapSlice[];
+  intervalMs: number;
+  maxPriceImpact: number;
+  impactAction: TwapImpactAction;
+  status: TwapStatus;
+  pauseReason?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+// ============================================================================
+// 지정가 주문 관련 타입
+// ============================================================================
+
+export type LimitOrderCondition = 'gte' | 'lte';
+
+export type LimitOrderStatus =
+  'open' | 'executing' | 'filled' | 'failed' | 'cancelled' | 'expired';
+
+export interface LimitOrder {
+  id: string;
+  request: Omit<SwapRequest, 'accountSecret' | 'mode'>;
+  account: string;
+  usesDefaultAccount: boolean;
+  condition: LimitOrderCondition;
+  targetPrice: number;
+  status: LimitOrderStatus;
+  lastPrice?: number;
+  lastCheckedAt?: string;
+  triggeredPrice?: number;
+  submission?: SubmittedSwap;
+  result?: SwapResult;
+  reason?: string;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+// ============================================================================
+// 적립식 매수(DCA) 관련 타입
+// ============================================================================
+
+export type DcaPlanStatus = 'active' | 'paused' | 'completed' | 'deleted';
+
+export type DcaFillStatus = 'executing' | 'executed' | 'skipped' | 'failed';
+
+export interface DcaFill {
+  runAt: string;
+  status: DcaFillStatus;
+  price?: number;
+  fromAmount?: number;
+  toAmount?: number;
+  submission?: SubmittedSwap;
+  transactionHash?: string;
+  reason?: string;
+}
+
+export interface DcaPlan {
+  id: string;
+  request: Omit<SwapRequest, 'accountSecret' | 'mode'>;
+  account: string;
+  usesDefaultAccount: boolean;
+  schedule: string;
+  maxPrice?: number;
+  endDate?: string;
+  status: DcaPlanStatus;
+  pauseReason?: string;
+  nextRunAt?: string;
+  executedCount: number;
+  totalSpent: number;
+  totalReceived: number;
+  fills: DcaFill[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ============================================================================
+// 손절/익절 주문 관련 타입
+// ============================================================================
+
+export type ProtectiveOrderType = 'stop_loss' | 'take_profit';
+
+export type ProtectiveOrderStatus =
+  'active' | 'triggered' | 'failed' | 'cancelled';
+
+export interface ProtectiveOrder {
+  id: string;
+  type: ProtectiveOrderType;
+  account: string;
+  usesDefaultAccount: boolean;
+  token: string;
+  exitToken: string;
+  amount: number;
+  slippage: number;
+  triggerPriceUsd: number;
+  hysteresisPercent: number;
+  confirmations: number;
+  minLiquidityUsd: number;
+  status: ProtectiveOrderStatus;
+  breachCount: number;
+  lastPriceUsd?: number;
+  lastCheckedAt?: string;
+  triggeredAt?: string;
+  triggeredPriceUsd?: number;
+  submission?: SubmittedSwap;
+  result?: SwapResult;
+  reason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ============================================================================
+// 거래 정책 관련 타입
+// ============================================================================
+
+/**
+ * 거래 허용 시간대 (UTC, end가 start보다 이르면 자정을 넘기는 구간)
+ */
+export interface TradingWindow {
+  days?: number[];
+  start: string;
+  end: string;
+}
+
+/**
+ * 토큰별 정책 (해당 토큰이 어느 쪽에 있든 적용)
+ */
+export interface TokenPolicyRule {
+  maxTradeUsd?: number;
+  maxDailyVolumeUsd?: number;
+  maxWeeklyVolumeUsd?: number;
+  tradingWindows?: TradingWindow[];
+}
+
+/**
+ * 계정 정책 (accounts 항목은 default 위에 필드 단위로 덮어쓰고, deniedTokens는 합침)
+ */
+export interface AccountPolicyRule extends TokenPolicyRule {
+  allowedTokens?: string[];
+  deniedTokens?: string[];
+  allowedPairs?: string[];
+}
+
+export interface TradingPolicy {
+  default?: AccountPolicyRule;
+  accounts?: Record<string, AccountPolicyRule>;
+  tokens?: Record<string, TokenPolicyRule>;
+}
+
+export type PolicyViolationCode =
+  | 'TOKEN_DENIED'
+  | 'TOKEN_NOT_ALLOWED'
+  | 'PAIR_NOT_ALLOWED'
+  | 'TRADE_LIMIT_EXCEEDED'
+  | 'DAILY_VOLUME_EXCEEDED'
+  | 'WEEKLY_VOLUME_EXCEEDED'
+  | 'OUTSIDE_TRADING_WINDOW'
+  | 'PRICE_UNAVAILABLE';
+
+export interface PolicyViolation {
+  code: PolicyViolationCode;
+  scope: 'account' | 'token';
+  subject: string;
+  message: string;
+  limit?: number;
+  actual?: number;
+}
+
+/**
+ * 정책 평가 대상 거래 (견적 기준 수량)
+ */
+export interface PolicyTrade {
+  fromToken: string;
+  toToken: string;
+  fromAmount: number;
+  toAmount: number;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  violations: PolicyViolation[];
+  usdValue?: number;
+  evaluatedAt: string;
+}
+
+/**
+ * 체결된 스왑의 USD 지출 기록
+ */
+export interface SpendRecord {
+  id: string;
+  account: string;
+  fromToken: string;
+  toToken: string;
+  fromAmount: number;
+  toAmount: number;
+  usdValue: number;
+  simulated?: boolean;
+  transactionHash?: string;
+  executedAt: string;
+}
+
+export type SpendPeriod = 'daily' | 'weekly';
+
+export interface SpendLimitStatus {
+  scope: 'account' | 'token';
+  subject: string;
+  period: SpendPeriod;
+  limitUsd: number;
+  spentUsd: number;
+  remainingUsd: number;
+}
+
+export interface SpendLimits {
+  account: string;
+  maxTradeUsd?: number;
+  limits: SpendLimitStatus[];
+  timestamp: string;
+}
+
+// ============================================================================
+// 스왑 승인 관련 타입
+// ============================================================================
+
+export type SwapApprovalStatus =
+  'pending' | 'approved' | 'rejected' | 'expired' | 'executed' | 'failed';
+
+/**
+ * 운영자 승인 대기 스왑 (승인 후 만료 전에만 실행)
+ */
+export interface SwapApproval {
+  id: string;
+  status: SwapApprovalStatus;
+  account: string;
+  usesDefaultAccount: boolean;
+  request: Omit<SwapRequest, 'accountSecret'>;
+  estimate?: SwapEstimate;
+  usdValue?: number;
+  thresholdUsd: number;
+  operator?: string;
+  reason?: string;
+  result?: SwapResult;
+  createdAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  updatedAt: string;
+}
+
+// ============================================================================
+// 모의 거래 관련 타입
+// ============================================================================
+
+/**
+ * 모의 거래 계정의 가상 잔액 (id는 계정 공개키)
+ */
+export interface PaperAccount {
+  id: string;
+  balances: Record<string, number>;
+  createdAt: string;
+  resetAt?: string;
+  updatedAt: string;
+}
+
+/**
+ * 가상 잔액에 반영된 모의 체결 기록
+ */
+export interface PaperTrade extends SwapResult {
+  id: string;
+  account: string;
 }
 
 // ============================================================================
@@ -141,6 +648,7 @@ export interface PriceRequest {
 
 export interface LiquidityPool {
   id: string;
+  protocol: LiquidityProtocol;
   tokenA: TokenInfo;
   tokenB: TokenInfo;
   reserveA: number;
@@ -206,6 +714,20 @@ export interface PaginatedResponse<T = any> {
     total: number;
     hasNext: boolean;
     hasPrev: boolean;
+    cursor?: string | undefined;
+    nextCursor?: string | undefined;
+  };
+}
+
+/**
+ * 커서 기반 페이지 (nextCursor가 없으면 마지막 페이지)
+ */
+export interface CursorPaginatedResponse<T = any> {
+  data: T[];
+  pagination: {
+    limit: number;
+    cursor?: string | undefined;
+    nextCursor?: string | undefined;
   };
 }
 
@@ -255,6 +777,7 @@ export enum ErrorCode {
   STELLAR_ACCOUNT_NOT_FOUND = 'STELLAR_ACCOUNT_NOT_FOUND',
   STELLAR_INSUFFICIENT_BALANCE = 'STELLAR_INSUFFICIENT_BALANCE',
   STELLAR_TRANSACTION_FAILED = 'STELLAR_TRANSACTION_FAILED',
+  STELLAR_FEE_CAP_EXCEEDED = 'STELLAR_FEE_CAP_EXCEEDED',
 
   // Soroswap 관련 에러
   SOROSWAP_API_ERROR = 'SOROSWAP_API_ERROR',
@@ -265,11 +788,14 @@ export enum ErrorCode {
   SWAP_VALIDATION_ERROR = 'SWAP_VALIDATION_ERROR',
   SWAP_EXECUTION_ERROR = 'SWAP_EXECUTION_ERROR',
   SWAP_TIMEOUT = 'SWAP_TIMEOUT',
+  SWAP_PRICE_IMPACT_EXCEEDED = 'SWAP_PRICE_IMPACT_EXCEEDED',
 
   // 보안 관련 에러
   INVALID_SIGNATURE = 'INVALID_SIGNATURE',
   KEY_MANAGEMENT_ERROR = 'KEY_MANAGEMENT_ERROR',
   SECURITY_VIOLATION = 'SECURITY_VIOLATION',
+  POLICY_VIOLATION = 'POLICY_VIOLATION',
+  APPROVAL_REQUIRED = 'APPROVAL_REQUIRED',
 }
 
 // ============================================================================
@@ -279,7 +805,8 @@ export enum ErrorCode {
 export type Nullable<T> = T | null;
 export type Optional<T> = T | undefined;
 export type RequiredFields<T, K extends keyof T> = T & Required<Pick<T, K>>;
-export type PartialFields<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
+export type PartialFields<T, K extends keyof T> = Omit<T, K> &
+  Partial<Pick<T, K>>;
 
 // 환경 변수 타입
 export interface EnvironmentVariables {
@@ -288,16 +815,30 @@ export interface EnvironmentVariables {
   LOG_LEVEL: string;
   STELLAR_NETWORK: string;
   STELLAR_HORIZON_URL: string;
+  SOROBAN_RPC_URL?: string;
   SOROSWAP_API_URL: string;
   SOROSWAP_API_KEY?: string;
+  SOROSWAP_ROUTER_CONTRACT?: string;
   DEFAULT_ACCOUNT_SECRET?: string;
   DEFAULT_ACCOUNT_PUBLIC?: string;
   MAX_SLIPPAGE: string;
   MIN_AMOUNT: string;
   MAX_AMOUNT: string;
+  MAX_QUOTE_DRIFT_BPS?: string;
+  MAX_PRICE_IMPACT?: string;
+  POLICY_FILE?: string;
+  DAILY_SPEND_LIMIT_USD?: string;
+  WEEKLY_SPEND_LIMIT_USD?: string;
+  APPROVAL_THRESHOLD_USD?: string;
+  APPROVAL_TTL_MINUTES?: string;
+  ADMIN_API_TOKEN?: string;
+  ADMIN_HOST?: string;
+  PAPER_TRADING?: string;
+  PAPER_STARTING_BALANCES?: string;
+  PAPER_QUOTES_FILE?: string;
   REDIS_URL?: string;
   JWT_SECRET: string;
   ENCRYPTION_KEY: string;
   RATE_LIMIT_WINDOW_MS: string;
   RATE_LIMIT_MAX_REQUESTS: string;
-}
\ No newline at end of file
+}
@@ -15,40 +15,144 @@ import type {
 // 환경 변수 로드
 dotenvConfig();
 
+/**
+ * 네트워크별 기본 Soroban RPC URL (SOROBAN_RPC_URL이 없을 때 사용)
+ */
+const DEFAULT_SOROBAN_RPC_URLS = {
+  testnet: 'https://soroban-testnet.stellar.org',
+  mainnet: 'https://mainnet.sorobanrpc.com',
+} as const;
+
 /**
  * 환경 변수 검증 스키마
  */
 const EnvSchema = z.object({
   // 서버 설정
-  NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
-  PORT: z.string().transform(Number).pipe(z.number().min(1000).max(65535)).default('3000'),
+  NODE_ENV: z
+    .enum(['development', 'production', 'test'])
+    .default('development'),
+  PORT: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(1000).max(65535))
+    .default('3000'),
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
 
   // Stellar 설정
   STELLAR_NETWORK: z.enum(['testnet', 'mainnet']).default('testnet'),
   STELLAR_HORIZON_URL: z.string().url(),
+  SOROBAN_RPC_URL: z.string().url().optional(),
   DEFAULT_ACCOUNT_SECRET: z.string().optional(),
   DEFAULT_ACCOUNT_PUBLIC: z.string().optional(),
 
   // Soroswap 설정
   SOROSWAP_API_URL: z.string().url(),
   SOROSWAP_API_KEY: z.string().optional(),
+  SOROSWAP_ROUTER_CONTRACT: z.string().optional(),
 
   // 보안 설정
-  MAX_SLIPPAGE: z.string().transform(Number).pipe(z.number().min(0.1).max(50)).default('5.0'),
-  MIN_AMOUNT: z.string().transform(Number).pipe(z.number().min(0)).default('0.1'),
-  MAX_AMOUNT: z.string().transform(Number).pipe(z.number().min(1)).default('10000'),
+  MAX_SLIPPAGE: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0.1).max(50))
+    .default('5.0'),
+  MIN_AMOUNT: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0))
+    .default('0.1'),
+  MAX_AMOUNT: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(1))
+    .default('10000'),
+  MAX_QUOTE_DRIFT_BPS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0).max(10000))
+    .default('50'),
+  MAX_PRICE_IMPACT: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0.1).max(100))
+    .default('5.0'),
+  DAILY_SPEND_LIMIT_USD: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().positive())
+    .optional(),
+  WEEKLY_SPEND_LIMIT_USD: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().positive())
+    .optional(),
+  APPROVAL_THRESHOLD_USD: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().positive())
+    .optional(),
+  APPROVAL_TTL_MINUTES: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().min(1).max(1440))
+    .default('60'),
+  MAX_FEE_STROOPS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().min(100))
+    .default('100000'),
+  CHANNEL_ACCOUNT_COUNT: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().min(0).max(100))
+    .default('0'),
+  CHANNEL_STARTING_BALANCE: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(1))
+    .default('5'),
   JWT_SECRET: z.string().min(32),
   ENCRYPTION_KEY: z.string().min(32),
 
+  // 운영자 관리 API (승인 큐)
+  ADMIN_API_TOKEN: z.string().min(32).optional(),
+  ADMIN_HOST: z.string().default('127.0.0.1'),
+
   // Rate Limiting
-  RATE_LIMIT_WINDOW_MS: z.string().transform(Number).pipe(z.number().min(1000)).default('60000'),
-  RATE_LIMIT_MAX_REQUESTS: z.string().transform(Number).pipe(z.number().min(1)).default('100'),
+  RATE_LIMIT_WINDOW_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(1000))
+    .default('60000'),
+  RATE_LIMIT_MAX_REQUESTS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(1))
+    .default('100'),
+
+  // 저장소 설정
+  DATA_DIR: z.string().default('data'),
+
+  // 거래 정책 파일 (JSON/YAML)
+  POLICY_FILE: z.string().optional(),
+
+  // 모의 거래 (실제 제출 없이 가상 잔액에 체결)
+  PAPER_TRADING: z.enum(['true', 'false']).default('false'),
+  PAPER_STARTING_BALANCES: z.string().default('XLM:10000,USDC:1000'),
+  PAPER_QUOTES_FILE: z.string().optional(),
+
+  // 알림 설정
+  SLACK_WEBHOOK_URL: z.string().optional(),
+  DISCORD_WEBHOOK_URL: z.string().optional(),
 
   // 선택적 설정
   REDIS_URL: z.string().optional(),
   REDIS_PASSWORD: z.string().optional(),
-  REDIS_DB: z.string().transform(Number).pipe(z.number().min(0).max(15)).optional(),
+  REDIS_DB: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0).max(15))
+    .optional(),
 });
 
 /**
@@ -66,6 +170,28 @@ function validateEnv(): z.infer<typeof EnvSchema> {
 // 검증된 환경 변수
 const env = validateEnv();
 
+/**
+ * 모의 거래 시작 잔액 파싱 ("XLM:10000,USDC:1000" 형식)
+ */
+function parseStartingBalances(value: string): Record<string, number> {
+  const balances: Record<string, number> = {};
+
+  for (const entry of value
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)) {
+    const [symbol, amount] = entry.split(':').map((part) => part.trim());
+    const parsed = Number(amount);
+    if (!symbol || !Number.isFinite(parsed) || parsed < 0) {
+      console.error(`❌ PAPER_STARTING_BALANCES 형식 오류: ${entry}`);
+      process.exit(1);
+    }
+    balances[symbol.toUpperCase()] = parsed;
+  }
+
+  return balances;
+}
+
 /**
  * 서버 설정
  */
@@ -81,6 +207,8 @@ export const serverConfig: ServerConfig = {
 export const stellarConfig: StellarConfig = {
   network: env.STELLAR_NETWORK,
   horizonUrl: env.STELLAR_HORIZON_URL,
+  sorobanRpcUrl:
+    env.SOROBAN_RPC_URL ?? DEFAULT_SOROBAN_RPC_URLS[env.STELLAR_NETWORK],
   defaultAccountSecret: env.DEFAULT_ACCOUNT_SECRET,
   defaultAccountPublic: env.DEFAULT_ACCOUNT_PUBLIC,
 };
@@ -91,6 +219,7 @@ export const stellarConfig: StellarConfig = {
 export const soroswapConfig: SoroswapConfig = {
   apiUrl: env.SOROSWAP_API_URL,
   apiKey: env.SOROSWAP_API_KEY,
+  routerContract: env.SOROSWAP_ROUTER_CONTRACT,
 };
 
 /**
@@ -100,6 +229,8 @@ export const securityConfig: SecurityConfig = {
   maxSlippage: env.MAX_SLIPPAGE,
   minAmount: env.MIN_AMOUNT,
   maxAmount: env.MAX_AMOUNT,
+  maxQuoteDriftBps: env.MAX_QUOTE_DRIFT_BPS,
+  maxPriceImpact: env.MAX_PRICE_IMPACT,
   jwtSecret: env.JWT_SECRET,
   encryptionKey: env.ENCRYPTION_KEY,
 };
@@ -121,6 +252,77 @@ export const redisConfig = {
   db: env.REDIS_DB || 0,
 };
 
+/**
+ * 로컬 저장소 설정 (예약 주문 등 재시작 후에도 유지해야 하는 상태)
+ */
+export const storageConfig = {
+  dataDir: env.DATA_DIR,
+};
+
+/**
+ * 거래 정책 설정 (파일이 없으면 전역 보안 설정만 적용)
+ */
+export const policyConfig = {
+  filePath: env.POLICY_FILE,
+};
+
+/**
+ * 모의 거래 설정 (enabled는 기본값이며 MCP 세션에서 전환 가능, 견적 파일이 없으면 실시간 견적 사용)
+ */
+export const paperTradingConfig = {
+  enabled: env.PAPER_TRADING === 'true',
+  startingBalances: parseStartingBalances(env.PAPER_STARTING_BALANCES),
+  quotesFile: env.PAPER_QUOTES_FILE,
+};
+
+/**
+ * 계정별 누적 지출 한도 (USD, 정책 파일에 계정 한도가 없을 때 적용, 미설정 시 무제한)
+ */
+export const spendLimitConfig = {
+  dailyUsd: env.DAILY_SPEND_LIMIT_USD,
+  weeklyUsd: env.WEEKLY_SPEND_LIMIT_USD,
+};
+
+/**
+ * 스왑 승인 설정 (USD 기준 임계값 초과 스왑은 운영자 승인 후 실행, 미설정 시 비활성화)
+ */
+export const approvalConfig = {
+  thresholdUsd: env.APPROVAL_THRESHOLD_USD,
+  ttlMinutes: env.APPROVAL_TTL_MINUTES,
+};
+
+/**
+ * 운영자 관리 API 설정 (토큰이 없으면 시작하지 않음)
+ */
+export const adminConfig = {
+  apiToken: env.ADMIN_API_TOKEN,
+  host: env.ADMIN_HOST,
+  port: env.PORT,
+};
+
+/**
+ * 트랜잭션 수수료 설정 (오퍼레이션당 기본 수수료 상한, stroop)
+ */
+export const feeConfig = {
+  maxFeeStroops: env.MAX_FEE_STROOPS,
+};
+
+/**
+ * 채널 계정 설정 (병렬 제출용 트랜잭션 소스 계정 수, 계정당 초기 XLM)
+ */
+export const channelConfig = {
+  accountCount: env.CHANNEL_ACCOUNT_COUNT,
+  startingBalance: env.CHANNEL_STARTING_BALANCE,
+};
+
+/**
+ * 알림 설정
+ */
+export const notificationConfig = {
+  slackWebhookUrl: env.SLACK_WEBHOOK_URL,
+  discordWebhookUrl: env.DISCORD_WEBHOOK_URL,
+};
+
 /**
  * 개발 모드 여부 확인
  */
@@ -153,7 +355,10 @@ export function validateConfig(): void {
   const errors: string[] = [];
 
   // Stellar 계정 설정 검증
-  if (!stellarConfig.defaultAccountSecret && !stellarConfig.defaultAccountPublic) {
+  if (
+    !stellarConfig.defaultAccountSecret &&
+    !stellarConfig.defaultAccountPublic
+  ) {
     errors.push('Stellar 계정 정보가 설정되지 않았습니다.');
   }
 
@@ -168,13 +373,15 @@ export function validateConfig(): void {
     }
 
     if (isMainnet && stellarConfig.defaultAccountSecret) {
-      console.warn('⚠️  메인넷에서 하드코딩된 계정 시크릿 사용은 권장되지 않습니다.');
+      console.warn(
+        '⚠️  메인넷에서 하드코딩된 계정 시크릿 사용은 권장되지 않습니다.'
+      );
     }
   }
 
   if (errors.length > 0) {
     console.error('❌ 설정 검증 오류:');
-    errors.forEach(error => console.error(`  - ${error}`));
+    errors.forEach((error) => console.error(`  - ${error}`));
     process.exit(1);
   }
 
@@ -191,8 +398,33 @@ export function printConfig(): void {
   console.log(`  - 로그 레벨: ${serverConfig.logLevel}`);
   console.log(`  - Stellar 네트워크: ${stellarConfig.network}`);
   console.log(`  - Horizon URL: ${stellarConfig.horizonUrl}`);
+  console.log(`  - Soroban RPC: ${stellarConfig.sorobanRpcUrl}`);
   console.log(`  - Soroswap API: ${soroswapConfig.apiUrl}`);
   console.log(`  - 최대 슬리피지: ${securityConfig.maxSlippage}%`);
-  console.log(`  - 거래 한도: ${securityConfig.minAmount} ~ ${securityConfig.maxAmount}`);
-  console.log(`  - Rate Limit: ${rateLimitConfig.maxRequests}req/${rateLimitConfig.windowMs}ms`);
-}
\ No newline at end of file
+  console.log(
+    `  - 거래 한도: ${securityConfig.minAmount} ~ ${securityConfig.maxAmount}`
+  );
+  console.log(`  - 재견적 허용 변동: ${securityConfig.maxQuoteDriftBps}bps`);
+  console.log(`  - 최대 가격 영향: ${securityConfig.maxPriceImpact}%`);
+  console.log(`  - 최대 기본 수수료: ${feeConfig.maxFeeStroops} stroops`);
+  console.log(
+    `  - 채널 계정: ${channelConfig.accountCount}개 (계정당 ${channelConfig.startingBalance} XLM)`
+  );
+  console.log(`  - 데이터 디렉토리: ${storageConfig.dataDir}`);
+  console.log(`  - 거래 정책 파일: ${policyConfig.filePath || '없음'}`);
+  console.log(
+    `  - 모의 거래: ${paperTradingConfig.enabled ? '활성화' : '비활성화'} (견적: ${paperTradingConfig.quotesFile || '실시간'})`
+  );
+  console.log(
+    `  - 승인 필요 금액: ${approvalConfig.thresholdUsd !== undefined ? `$${approvalConfig.thresholdUsd} 초과 (${approvalConfig.ttlMinutes}분 내 승인)` : '비활성화'}`
+  );
+  console.log(
+    `  - 관리 API: ${adminConfig.apiToken ? `${adminConfig.host}:${adminConfig.port}` : '비활성화'}`
+  );
+  console.log(
+    `  - 계정 지출 한도: 일 ${spendLimitConfig.dailyUsd ?? '무제한'} / 주 ${spendLimitConfig.weeklyUsd ?? '무제한'} USD`
+  );
+  console.log(
+    `  - Rate Limit: ${rateLimitConfig.maxRequests}req/${rateLimitConfig.windowMs}ms`
+  );
+}
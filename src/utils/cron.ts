@@ -0,0 +1,166 @@
+/**
+ * 크론 표현식 파싱 유틸리티 (UTC 기준 5필드: 분 시 일 월 요일)
+ */
+
+/**
+ * 파싱된 크론 스케줄
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+/**
+ * 자주 쓰는 스케줄 별칭
+ */
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+/**
+ * 다음 실행 시각 탐색 한도 (분 단위 탐색 횟수)
+ */
+const MAX_SEARCH_STEPS = 366 * 24 * 60;
+
+/**
+ * 크론 필드 하나 파싱 (*, 목록, 범위, 간격 지원)
+ */
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText !== undefined ? Number(stepText) : 1;
+
+    if (!range || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    let start = min;
+    let end = max;
+
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      start = Number(startText);
+      end =
+        endText !== undefined
+          ? Number(endText)
+          : stepText !== undefined
+            ? max
+            : start;
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * 크론 표현식 파싱
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = CRON_ALIASES[expression.trim()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: ${expression}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [
+    string,
+    string,
+    string,
+    string,
+    string,
+  ];
+  const daysOfWeek = parseField(dayOfWeek, 0, 7);
+
+  // 7도 일요일로 취급
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*',
+  };
+}
+
+/**
+ * 주어진 시각 이후의 다음 실행 시각 계산
+ */
+export function getNextCronRun(
+  expression: string,
+  from: Date = new Date()
+): Date {
+  const schedule = parseCron(expression);
+  const candidate = new Date(from.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (
+      matchesDay(schedule, candidate) &&
+      schedule.months.has(candidate.getUTCMonth() + 1)
+    ) {
+      if (schedule.hours.has(candidate.getUTCHours())) {
+        if (schedule.minutes.has(candidate.getUTCMinutes())) {
+          return candidate;
+        }
+        candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+      } else {
+        candidate.setUTCHours(candidate.getUTCHours() + 1, 0);
+      }
+    } else {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0);
+    }
+  }
+
+  throw new Error(`No upcoming run found for cron expression: ${expression}`);
+}
+
+/**
+ * 일/요일 조건 확인 (둘 다 지정되면 표준 크론처럼 OR)
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) {
+    return true;
+  }
+  if (schedule.anyDayOfMonth) {
+    return dayOfWeek;
+  }
+  if (schedule.anyDayOfWeek) {
+    return dayOfMonth;
+  }
+  return dayOfMonth || dayOfWeek;
+}
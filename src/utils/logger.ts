@@ -28,11 +28,11 @@ const consoleFormat = winston.format.combine(
   winston.format.colorize(),
   winston.format.printf(({ timestamp, level, message, ...meta }) => {
     let logMessage = `${timestamp} [${level}]: ${message}`;
-    
+
     if (Object.keys(meta).length > 0) {
       logMessage += `\n${JSON.stringify(meta, null, 2)}`;
     }
-    
+
     return logMessage;
   })
 );
@@ -56,7 +56,7 @@ const logger = winston.createLogger({
       maxFiles: 5,
       tailable: true,
     }),
-    
+
     // 전체 로그 파일
     new winston.transports.File({
       filename: 'logs/combined.log',
@@ -65,14 +65,14 @@ const logger = winston.createLogger({
       tailable: true,
     }),
   ],
-  
+
   // 예외 처리
   exceptionHandlers: [
     new winston.transports.File({
       filename: 'logs/exceptions.log',
     }),
   ],
-  
+
   // 프로미스 거부 처리
   rejectionHandlers: [
     new winston.transports.File({
@@ -112,11 +112,13 @@ class ContextLogger {
     logger.error(message, {
       ...this.context,
       ...metadata,
-      error: error ? {
-        name: error.name,
-        message: error.message,
-        stack: error.stack,
-      } : undefined,
+      error: error
+        ? {
+            name: error.name,
+            message: error.message,
+            stack: error.stack,
+          }
+        : undefined,
     });
   }
 
@@ -155,10 +157,15 @@ class ContextLogger {
   /**
    * 요청 완료 로그
    */
-  requestEnd(method: string, requestId: string, duration: number, success: boolean): void {
+  requestEnd(
+    method: string,
+    requestId: string,
+    duration: number,
+    success: boolean
+  ): void {
     const level = success ? 'info' : 'warn';
     const message = success ? 'Request completed' : 'Request failed';
-    
+
     logger[level](message, {
       ...this.context,
       requestId,
@@ -171,7 +178,11 @@ class ContextLogger {
   /**
    * 성능 측정 로그
    */
-  performance(operation: string, duration: number, metadata?: Record<string, any>): void {
+  performance(
+    operation: string,
+    duration: number,
+    metadata?: Record<string, any>
+  ): void {
     this.info('Performance metric', {
       ...this.context,
       operation,
@@ -194,7 +205,11 @@ class ContextLogger {
   /**
    * 거래 관련 로그
    */
-  transaction(action: string, txHash?: string, metadata?: Record<string, any>): void {
+  transaction(
+    action: string,
+    txHash?: string,
+    metadata?: Record<string, any>
+  ): void {
     this.info(`Transaction ${action}`, {
       ...this.context,
       transactionHash: txHash,
@@ -214,7 +229,7 @@ export const log = new ContextLogger();
 export async function ensureLogDirectory(): Promise<void> {
   const fs = await import('fs/promises');
   const path = await import('path');
-  
+
   try {
     await fs.mkdir(path.join(process.cwd(), 'logs'), { recursive: true });
     log.info('Log directory ensured');
@@ -243,11 +258,12 @@ export function generateRequestId(): string {
 /**
  * 실행 시간 측정 데코레이터
  */
-export function measureTime(
-  operation: string,
-  logger: ContextLogger = log
-) {
-  return function (_target: any, _propertyName: string, descriptor: PropertyDescriptor) {
+export function measureTime(operation: string, logger: ContextLogger = log) {
+  return function (
+    _target: any,
+    _propertyName: string,
+    descriptor: PropertyDescriptor
+  ) {
     const method = descriptor.value;
 
     descriptor.value = async function (this: any, ...args: any[]) {
@@ -268,4 +284,4 @@ export function measureTime(
   };
 }
 
-export default logger;
\ No newline at end of file
+export default logger;
@@ -0,0 +1,121 @@
+/**
+ * 외부 알림 전송 유틸리티 (Slack/Discord 웹훅)
+ */
+
+import axios from 'axios';
+import { notificationConfig } from './config';
+import { log } from './logger';
+
+/**
+ * 알림 이벤트
+ */
+export interface NotificationEvent {
+  title: string;
+  message: string;
+  fields?: Record<string, string | number | boolean | undefined>;
+}
+
+/**
+ * 알림 전송 클래스
+ *
+ * 설정된 웹훅마다 전송하며, 전송 실패는 호출자에게 전파하지 않고 로그만 남긴다.
+ * http(s) URL이 아닌 값(.env.example의 자리표시자 등)은 전송하지 않는다.
+ */
+export class Notifier {
+  private readonly TIMEOUT_MS = 10000;
+  private ignored: Set<string> = new Set();
+
+  /**
+   * 알림 전송
+   */
+  async notify(event: NotificationEvent): Promise<void> {
+    const text = this.formatText(event);
+
+    log.info('Notification', { title: event.title, ...event.fields });
+
+    const deliveries: Promise<void>[] = [];
+
+    if (this.isWebhookUrl('slack', notificationConfig.slackWebhookUrl)) {
+      deliveries.push(
+        this.post('slack', notificationConfig.slackWebhookUrl, { text })
+      );
+    }
+
+    if (this.isWebhookUrl('discord', notificationConfig.discordWebhookUrl)) {
+      deliveries.push(
+        this.post('discord', notificationConfig.discordWebhookUrl, {
+          content: text,
+        })
+      );
+    }
+
+    await Promise.all(deliveries);
+  }
+
+  /**
+   * 전송할 웹훅 URL인지 확인 (URL이 아닌 설정값은 채널별로 한 번만 경고)
+   */
+  private isWebhookUrl(
+    channel: string,
+    value: string | undefined
+  ): value is string {
+    if (!value) {
+      return false;
+    }
+
+    try {
+      const { protocol } = new URL(value);
+      if (protocol === 'https:' || protocol === 'http:') {
+        return true;
+      }
+    } catch {
+      // URL 형식이 아님
+    }
+
+    if (!this.ignored.has(channel)) {
+      this.ignored.add(channel);
+      log.warn('Ignoring webhook setting that is not an http(s) URL', {
+        channel,
+      });
+    }
+    return false;
+  }
+
+  /**
+   * 웹훅 POST
+   */
+  private async post(
+    channel: string,
+    url: string,
+    body: Record<string, string>
+  ): Promise<void> {
+    try {
+      await axios.post(url, body, { timeout: this.TIMEOUT_MS });
+    } catch (error) {
+      log.warn('Failed to deliver notification', {
+        channel,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * 알림 본문 구성
+   */
+  private formatText(event: NotificationEvent): string {
+    const lines = [`*${event.title}*`, event.message];
+
+    for (const [key, value] of Object.entries(event.fields ?? {})) {
+      if (value !== undefined) {
+        lines.push(`• ${key}: ${value}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+}
+
+/**
+ * 싱글톤 알림 인스턴스
+ */
+export const notifier = new Notifier();
@@ -0,0 +1,63 @@
+/**
+ * JSON 파일 기반 로컬 저장소
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { storageConfig } from './config';
+import { log } from './logger';
+
+/**
+ * 레코드 목록을 데이터 디렉토리의 JSON 파일 하나에 보관하는 저장소
+ *
+ * 임시 파일에 쓴 뒤 rename 하므로 쓰기 도중 종료되어도 기존 파일은 손상되지 않는다.
+ */
+export class JsonStore<T extends { id: string }> {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(name: string) {
+    this.filePath = path.resolve(storageConfig.dataDir, `${name}.json`);
+  }
+
+  /**
+   * 저장된 레코드 전체 로드 (파일이 없으면 빈 목록)
+   */
+  async load(): Promise<T[]> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(content) as T[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      log.error('Failed to load store', error as Error, {
+        file: this.filePath,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 레코드 전체 저장 (호출 순서대로 직렬화)
+   */
+  save(records: T[]): Promise<void> {
+    const content = JSON.stringify(records, null, 2);
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, content, 'utf8');
+        await fs.rename(tempPath, this.filePath);
+      });
+
+    return this.writeQueue.catch((error) => {
+      log.error('Failed to save store', error as Error, {
+        file: this.filePath,
+      });
+      throw error;
+    });
+  }
+}